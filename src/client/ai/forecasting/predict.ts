@@ -4,7 +4,9 @@
  * No external APIs - all processing happens locally
  */
 
-import { Transaction } from '../../types';
+import { Transaction, CurrencyContext } from '../../types';
+import { baseAmount } from '../../utils/currency';
+import { flattenSplits } from '../../utils/splits';
 
 export interface ForecastResult {
   category: string;
@@ -69,10 +71,11 @@ export function forecastCategorySpending(
   transactions: Transaction[],
   category: string,
   daysAhead: number = 7,
-  historicalDays: number = 30
+  historicalDays: number = 30,
+  currency?: CurrencyContext
 ): ForecastResult | null {
-  // Filter transactions for this category
-  const categoryTransactions = transactions.filter(
+  // Filter transactions (and split lines) for this category
+  const categoryTransactions = flattenSplits(transactions).filter(
     t => t.category === category &&
          t.type === 'expense' &&
          new Date(t.timestamp).getTime() > Date.now() - (historicalDays * 24 * 60 * 60 * 1000)
@@ -86,7 +89,7 @@ export function forecastCategorySpending(
   const dailySpending = new Map<string, number>();
   categoryTransactions.forEach(t => {
     const date = new Date(t.timestamp).toISOString().split('T')[0];
-    dailySpending.set(date, (dailySpending.get(date) || 0) + Math.abs(t.amount));
+    dailySpending.set(date, (dailySpending.get(date) || 0) + baseAmount(t, currency));
   });
 
   // Convert to array sorted by date
@@ -140,32 +143,34 @@ export function forecastCategorySpending(
 export function generateForecastAlerts(
   transactions: Transaction[],
   budgets: Record<string, number>,
-  daysInPeriod: number = 30
+  daysInPeriod: number = 30,
+  currency?: CurrencyContext
 ): ForecastAlert[] {
   const alerts: ForecastAlert[] = [];
   const now = new Date();
   const periodStart = new Date(now.getTime() - (daysInPeriod * 24 * 60 * 60 * 1000));
 
   // Get unique categories
-  const categories = [...new Set(transactions.map(t => t.category))];
+  const lines = flattenSplits(transactions);
+  const categories = [...new Set(lines.map(t => t.category))];
 
   categories.forEach(category => {
     const budget = budgets[category];
     if (!budget) return;
 
     // Calculate current spending in period
-    const periodTransactions = transactions.filter(
+    const periodTransactions = lines.filter(
       t => t.category === category &&
            t.type === 'expense' &&
            new Date(t.timestamp) >= periodStart
     );
 
-    const currentSpending = periodTransactions.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+    const currentSpending = periodTransactions.reduce((sum, t) => sum + baseAmount(t, currency), 0);
     const daysElapsed = Math.floor((now.getTime() - periodStart.getTime()) / (24 * 60 * 60 * 1000));
     const daysRemaining = Math.max(1, daysInPeriod - daysElapsed);
 
     // Forecast remaining spending
-    const forecast = forecastCategorySpending(transactions, category, daysRemaining, 60);
+    const forecast = forecastCategorySpending(transactions, category, daysRemaining, 60, currency);
     if (!forecast) return;
 
     const predictedRemaining = forecast.predictedAmount;
@@ -206,13 +211,14 @@ export function generateForecastAlerts(
  */
 export function getAllCategoryForecasts(
   transactions: Transaction[],
-  daysAhead: number = 7
+  daysAhead: number = 7,
+  currency?: CurrencyContext
 ): ForecastResult[] {
-  const categories = [...new Set(transactions.map(t => t.category))];
+  const categories = [...new Set(flattenSplits(transactions).map(t => t.category))];
   const forecasts: ForecastResult[] = [];
 
   categories.forEach(category => {
-    const forecast = forecastCategorySpending(transactions, category, daysAhead);
+    const forecast = forecastCategorySpending(transactions, category, daysAhead, 30, currency);
     if (forecast) {
       forecasts.push(forecast);
     }
@@ -226,11 +232,12 @@ export function getAllCategoryForecasts(
  */
 export function getForecastInsights(
   transactions: Transaction[],
-  budgets: Record<string, number> = {}
+  budgets: Record<string, number> = {},
+  currency?: CurrencyContext
 ): string[] {
   const insights: string[] = [];
-  const forecasts = getAllCategoryForecasts(transactions, 7);
-  const alerts = generateForecastAlerts(transactions, budgets);
+  const forecasts = getAllCategoryForecasts(transactions, 7, currency);
+  const alerts = generateForecastAlerts(transactions, budgets, 30, currency);
 
   // Add forecast summaries
   if (forecasts.length > 0) {
@@ -6,6 +6,7 @@
  */
 
 import { Transaction, Classifier } from '../../types';
+import { emitAppEvent } from '../../utils/eventBus';
 
 export interface SyncSession {
   sessionId: string;
@@ -314,6 +315,10 @@ export class P2PSyncManager {
               const syncData = await decryptSyncData(encryptedData, this.walletKey!);
 
               this.session!.progress = 90;
+              emitAppEvent('sync:completed', {
+                deviceId: syncData.deviceId,
+                transactions: syncData.transactions.length,
+              });
               resolve(syncData);
               break;
           }
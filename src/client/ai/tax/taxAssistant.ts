@@ -5,7 +5,8 @@
  * Helps users maximize deductions and prepare for tax season
  */
 
-import { Transaction } from '../../types';
+import { Attachment, Transaction } from '../../types';
+import { expandSplits } from '../../utils/splits';
 
 export interface TaxCategory {
   id: string;
@@ -25,6 +26,8 @@ export interface TaxDeduction {
   potentialSavings: number;
   reasoning: string;
   documentationNeeded: string[];
+  /** Receipts and documents already attached to the transaction */
+  attachments: Attachment[];
 }
 
 export interface TaxReport {
@@ -141,6 +144,7 @@ export const TAX_CATEGORIES: TaxCategory[] = [
 
 /**
  * Analyze transaction for potential tax deductions
+ * Expects a single line; use analyzeTransactionLinesForTax for split transactions
  */
 export function analyzeTransactionForTax(
   transaction: Transaction,
@@ -227,10 +231,13 @@ export function analyzeTransactionForTax(
   const estimatedTaxRate = 0.25; // Conservative estimate
   const potentialSavings = deductibleAmount * estimatedTaxRate;
 
-  // Documentation requirements
+  // Documentation requirements; an attached receipt covers the receipt requirement
+  const attachments = transaction.attachments || [];
   const documentationNeeded = [];
   if (bestMatch.requiresDocumentation) {
-    documentationNeeded.push('Receipt or invoice');
+    if (attachments.length === 0) {
+      documentationNeeded.push('Receipt or invoice');
+    }
     if (bestMatch.id === 'travel') {
       documentationNeeded.push('Travel purpose documentation');
     }
@@ -246,9 +253,22 @@ export function analyzeTransactionForTax(
     potentialSavings,
     reasoning,
     documentationNeeded,
+    attachments,
   };
 }
 
+/**
+ * Analyze every split line of a transaction separately
+ */
+export function analyzeTransactionLinesForTax(
+  transaction: Transaction,
+  taxYear: number = new Date().getFullYear()
+): TaxDeduction[] {
+  return expandSplits(transaction)
+    .map(line => analyzeTransactionForTax(line, taxYear))
+    .filter((d): d is TaxDeduction => d !== null);
+}
+
 /**
  * Generate comprehensive tax report
  */
@@ -271,10 +291,7 @@ export function generateTaxReport(
   // Analyze deductions
   const deductions: TaxDeduction[] = [];
   taxYearTransactions.forEach(transaction => {
-    const deduction = analyzeTransactionForTax(transaction, taxYear);
-    if (deduction) {
-      deductions.push(deduction);
-    }
+    deductions.push(...analyzeTransactionLinesForTax(transaction, taxYear));
   });
 
   // Calculate totals
@@ -361,6 +378,7 @@ export function exportTaxReportToCSV(report: TaxReport): string {
     'Tax Category',
     'Confidence',
     'Documentation Needed',
+    'Attachments',
     'Potential Savings'
   ];
 
@@ -378,6 +396,7 @@ export function exportTaxReportToCSV(report: TaxReport): string {
       deduction.category.name,
       (deduction.confidence * 100).toFixed(1) + '%',
       deduction.documentationNeeded.join('; '),
+      deduction.attachments.map(a => a.name).join('; '),
       potentialSavings.toFixed(2)
     ];
   });
@@ -392,6 +411,7 @@ export function exportTaxReportToCSV(report: TaxReport): string {
     'Total Deductions',
     '',
     '',
+    '',
     report.potentialTaxSavings.toFixed(2)
   ]);
 
@@ -436,6 +456,9 @@ export function exportTaxReportToText(report: TaxReport): string {
     if (deduction.documentationNeeded.length > 0) {
       text += `   Documentation: ${deduction.documentationNeeded.join(', ')}\n`;
     }
+    if (deduction.attachments.length > 0) {
+      text += `   Attached: ${deduction.attachments.map(a => a.name).join(', ')}\n`;
+    }
     text += '\n';
   });
 
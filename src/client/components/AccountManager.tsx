@@ -0,0 +1,125 @@
+/**
+ * Account Manager Component
+ * Create accounts with opening balances and archive unused ones
+ */
+
+import React, { useState } from 'react';
+import { Account, AccountKind } from '../types';
+import { AccountStorage, CurrencyStorage, VaultStorage } from '../utils/storage';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { ACCOUNT_KINDS, createAccount } from '../utils/accounts';
+import { formatCurrency } from '../utils/analytics';
+import { useToast } from './Toast';
+import './AccountManager.css';
+
+interface AccountManagerProps {
+  onChange?: () => void;
+}
+
+const AccountManager: React.FC<AccountManagerProps> = ({ onChange }) => {
+  const { showToast } = useToast();
+  const [accounts, setAccounts] = useState<Account[]>(() => AccountStorage.loadAccounts());
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AccountKind>('checking');
+  const [currency, setCurrency] = useState<string>(() => CurrencyStorage.loadBaseCurrency());
+  const [openingBalance, setOpeningBalance] = useState('');
+
+  const persistAccounts = (updated: Account[]) => {
+    setAccounts(updated);
+    AccountStorage.saveAccounts(updated);
+    onChange?.();
+    VaultStorage.flush().catch((err: any) => {
+      showToast(err?.message || 'Failed to save accounts', 'error');
+    });
+  };
+
+  const handleAdd = () => {
+    if (!name.trim()) {
+      showToast('Please enter an account name', 'error');
+      return;
+    }
+    if (accounts.some(a => a.name.toLowerCase() === name.trim().toLowerCase())) {
+      showToast('An account with this name already exists', 'error');
+      return;
+    }
+    const opening = openingBalance.trim() ? parseFloat(openingBalance) : 0;
+    if (!isFinite(opening)) {
+      showToast('Opening balance must be a number', 'error');
+      return;
+    }
+
+    persistAccounts([...accounts, createAccount(name, kind, currency, opening)]);
+    showToast(`Account "${name.trim()}" added`, 'success');
+    setName('');
+    setOpeningBalance('');
+  };
+
+  const toggleArchived = (account: Account) => {
+    persistAccounts(accounts.map(a => (a.id === account.id ? { ...a, archived: !a.archived } : a)));
+  };
+
+  return (
+    <div className="account-manager">
+      <div className="account-manager__form">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Account name"
+          aria-label="Account name"
+          className="account-manager__name"
+        />
+        <select value={kind} onChange={(e) => setKind(e.target.value as AccountKind)} aria-label="Account type">
+          {(Object.keys(ACCOUNT_KINDS) as AccountKind[]).map(k => (
+            <option key={k} value={k}>{ACCOUNT_KINDS[k].label}</option>
+          ))}
+        </select>
+        <select value={currency} onChange={(e) => setCurrency(e.target.value)} aria-label="Account currency">
+          {SUPPORTED_CURRENCIES.map(c => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          step="0.01"
+          value={openingBalance}
+          onChange={(e) => setOpeningBalance(e.target.value)}
+          placeholder="Opening balance"
+          aria-label="Opening balance"
+        />
+        <button className="btn" onClick={handleAdd}>Add Account</button>
+      </div>
+
+      {accounts.length === 0 ? (
+        <p className="small-muted">No accounts yet. Transactions can still be recorded without one.</p>
+      ) : (
+        <table className="sp-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Type</th>
+              <th style={{ textAlign: 'right' }}>Opening Balance</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {accounts.map(a => (
+              <tr key={a.id} className={a.archived ? 'account-manager__archived' : undefined}>
+                <td>{ACCOUNT_KINDS[a.kind]?.icon} {a.name}</td>
+                <td>{ACCOUNT_KINDS[a.kind]?.label || a.kind}</td>
+                <td style={{ textAlign: 'right' }}>{formatCurrency(a.openingBalance, a.currency)}</td>
+                <td style={{ textAlign: 'right' }}>
+                  <button className="btn btn-ghost" onClick={() => toggleArchived(a)}>
+                    {a.archived ? 'Restore' : 'Archive'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AccountManager;
@@ -3,55 +3,28 @@
  * Page for adding new transactions
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import Transactions from './Transactions';
-import { DEFAULT_CATEGORIES } from '../services/ai';
-
-const RECENT_CATEGORIES_KEY = 'safepay_recent_categories';
+import { getCategories, getCategoryPaths } from '../services/categories';
+import { getCategoryMeta } from '../utils/categories';
+import { CategoryStorage } from '../utils/storage';
 
 const AddTransaction: React.FC = () => {
   const [externalCategory, setExternalCategory] = useState<string | null>(null);
   const [externalAmount, setExternalAmount] = useState<string>('');
-  const [recentCategories, setRecentCategories] = useState<string[]>([]);
-
-  // Category icons mapping
-  const categoryIcons: Record<string, string> = {
-    'Food': '🍽️',
-    'Transport': '🚗',
-    'Rent': '🏠',
-    'Salary': '💰',
-    'Utilities': '⚡',
-    'Entertainment': '🎬',
-    'Shopping': '🛍️',
-    'Healthcare': '🏥',
-    'Education': '📚',
-    'Other': '📦',
-  };
+  const [recentCategories, setRecentCategories] = useState<string[]>(() => CategoryStorage.loadRecent());
+
+  const [categories] = useState(() => getCategories());
+  const categoryIcon = (category: string) => getCategoryMeta(categories, category).icon;
 
   // Quick amount presets
   const quickAmounts = [5, 10, 20, 50, 100];
 
-  // Load recent categories on mount
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(RECENT_CATEGORIES_KEY);
-      if (stored) {
-        setRecentCategories(JSON.parse(stored));
-      }
-    } catch (error) {
-      console.error('Failed to load recent categories:', error);
-    }
-  }, []);
-
   // Save recent category when selected
   const updateRecentCategories = (category: string) => {
     const updated = [category, ...recentCategories.filter(c => c !== category)].slice(0, 5);
     setRecentCategories(updated);
-    try {
-      localStorage.setItem(RECENT_CATEGORIES_KEY, JSON.stringify(updated));
-    } catch (error) {
-      console.error('Failed to save recent categories:', error);
-    }
+    CategoryStorage.saveRecent(updated);
   };
 
   const handleCategoryClick = (category: string) => {
@@ -125,7 +98,7 @@ const AddTransaction: React.FC = () => {
                     aria-pressed={externalCategory === category}
                     tabIndex={0}
                   >
-                    <span className="category-icon">{categoryIcons[category] || '📦'}</span>
+                    <span className="category-icon">{categoryIcon(category)}</span>
                     <span className="category-label">{category}</span>
                   </button>
                 ))}
@@ -138,7 +111,7 @@ const AddTransaction: React.FC = () => {
               <h4>📂 Categories</h4>
             </div>
             <div className="quick-categories-grid">
-              {DEFAULT_CATEGORIES.map((category) => (
+              {getCategoryPaths().map((category) => (
                 <button
                   key={category}
                   className={`quick-category-btn ${externalCategory === category ? 'active' : ''}`}
@@ -148,7 +121,7 @@ const AddTransaction: React.FC = () => {
                   aria-pressed={externalCategory === category}
                   tabIndex={0}
                 >
-                  <span className="category-icon">{categoryIcons[category] || '📦'}</span>
+                  <span className="category-icon">{categoryIcon(category)}</span>
                   <span className="category-label">{category}</span>
                 </button>
               ))}
@@ -0,0 +1,60 @@
+/**
+ * Attachment Thumbnails Component
+ * Previews of a transaction's receipts; opens the viewer on click
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Attachment } from '../types';
+import { loadAttachmentThumbnail } from '../services/attachments';
+import './AttachmentThumbnails.css';
+
+interface AttachmentThumbnailsProps {
+  attachments: Attachment[];
+  onOpen: (attachment: Attachment) => void;
+}
+
+const AttachmentThumbnails: React.FC<AttachmentThumbnailsProps> = ({ attachments, onOpen }) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(
+      attachments.map(a =>
+        loadAttachmentThumbnail(a.id)
+          .then(thumbnail => [a.id, thumbnail] as const)
+          .catch(() => [a.id, null] as const)
+      )
+    ).then(entries => {
+      if (cancelled) return;
+      const loaded: Record<string, string> = {};
+      entries.forEach(([id, thumbnail]) => {
+        if (thumbnail) loaded[id] = thumbnail;
+      });
+      setThumbnails(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachments]);
+
+  return (
+    <div className="attachment-thumbnails">
+      {attachments.map(a => (
+        <button
+          key={a.id}
+          type="button"
+          className="attachment-thumbnail"
+          onClick={() => onOpen(a)}
+          title={a.name}
+          aria-label={`Open ${a.name}`}
+        >
+          {thumbnails[a.id] ? <img src={thumbnails[a.id]} alt="" /> : <span>📄</span>}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentThumbnails;
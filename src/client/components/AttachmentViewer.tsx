@@ -0,0 +1,104 @@
+/**
+ * Attachment Viewer Component
+ * Shows a decrypted receipt or document and checks it against its recorded hash
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Attachment } from '../types';
+import { loadAttachmentBlob, verifyAttachment } from '../services/attachments';
+import { formatFileSize, isImageAttachment } from '../utils/attachments';
+import LoadingSpinner from './LoadingSpinner';
+import './AttachmentViewer.css';
+
+interface AttachmentViewerProps {
+  attachment: Attachment;
+  onClose: () => void;
+  onRemove?: (attachment: Attachment) => void;
+}
+
+const AttachmentViewer: React.FC<AttachmentViewerProps> = ({ attachment, onClose, onRemove }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [intact, setIntact] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    loadAttachmentBlob(attachment)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+        return verifyAttachment(attachment).then(ok => !cancelled && setIntact(ok));
+      })
+      .catch(err => !cancelled && setError(err?.message || 'Failed to open attachment'));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment]);
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="attachment-viewer-overlay"
+      onClick={handleBackdropClick}
+      onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-label={attachment.name}
+    >
+      <div className="attachment-viewer">
+        <div className="attachment-viewer__header">
+          <div>
+            <strong>{attachment.name}</strong>
+            <div className="small-muted">
+              {formatFileSize(attachment.size)}
+              {intact === true && ' · ✓ Matches recorded hash'}
+              {intact === false && ' · ✗ Does not match recorded hash'}
+            </div>
+          </div>
+          <button className="btn btn-ghost" onClick={onClose} autoFocus>Close</button>
+        </div>
+
+        <div className="attachment-viewer__body">
+          {error ? (
+            <p className="small-muted">{error}</p>
+          ) : !url ? (
+            <LoadingSpinner />
+          ) : isImageAttachment(attachment) ? (
+            <img src={url} alt={attachment.name} />
+          ) : (
+            <object data={url} type={attachment.mimeType} aria-label={attachment.name}>
+              <p className="small-muted">This document cannot be previewed. Use Download instead.</p>
+            </object>
+          )}
+        </div>
+
+        <div className="attachment-viewer__actions">
+          {url && (
+            <a className="btn btn-ghost" href={url} download={attachment.name}>Download</a>
+          )}
+          {onRemove && (
+            <button
+              className="btn btn-ghost"
+              style={{ color: 'var(--color-softred)' }}
+              onClick={() => onRemove(attachment)}
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentViewer;
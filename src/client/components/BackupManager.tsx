@@ -0,0 +1,289 @@
+/**
+ * Backup Manager Component
+ * Downloads passphrase-protected ".safepay" backups and restores them with a preview
+ */
+
+import React, { useMemo, useState } from 'react';
+import { BackupContents, RestoreMode } from '../types';
+import {
+  BACKUP_EXTENSION,
+  BackupFile,
+  BackupUnlock,
+  MIN_PASSPHRASE_LENGTH,
+  RestoreCount,
+  backupWallets,
+  createBackup,
+  openBackup,
+  previewRestore,
+  readBackupFile,
+} from '../utils/backup';
+import { loadBackupContents, restoreBackup } from '../services/backup';
+import { connectWallet, signMessage } from '../services/wallet';
+import { deriveKeyFromSignature } from '../utils/crypto';
+import { formatDate } from '../utils/analytics';
+import { useToast } from './Toast';
+import ConfirmDialog from './ConfirmDialog';
+import './BackupManager.css';
+
+interface PendingRestore {
+  fileName: string;
+  text: string;
+  file: BackupFile;
+  backup: BackupContents | null;
+  current: BackupContents | null;
+}
+
+const PREVIEW_ROWS: Array<{ key: 'transactions' | 'accounts' | 'categories' | 'budgets' | 'savedViews'; label: string }> = [
+  { key: 'transactions', label: 'Transactions' },
+  { key: 'accounts', label: 'Accounts' },
+  { key: 'categories', label: 'Categories' },
+  { key: 'budgets', label: 'Budgets' },
+  { key: 'savedViews', label: 'Saved views' },
+];
+
+function describeCount(count: RestoreCount, removedLabel: string): string {
+  const parts = [
+    count.added > 0 && `${count.added} added`,
+    count.updated > 0 && `${count.updated} changed`,
+    count.removed > 0 && `${count.removed} ${removedLabel}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+/**
+ * Key derived from the connected wallet, the same one used for wallet-backed encryption
+ */
+async function connectedWalletKey(): Promise<{ address: string; key: CryptoKey }> {
+  const { address } = await connectWallet();
+  const signature = await signMessage(`SafePay AI encryption key for ${address}`);
+  return { address, key: await deriveKeyFromSignature(signature) };
+}
+
+const BackupManager: React.FC = () => {
+  const { showToast } = useToast();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [includeWallet, setIncludeWallet] = useState(false);
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [showReplaceConfirm, setShowReplaceConfirm] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const preview = useMemo(() => (
+    pending?.backup && pending.current ? previewRestore(pending.current, pending.backup, mode) : null
+  ), [pending, mode]);
+
+  const passphraseProblem = passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `At least ${MIN_PASSPHRASE_LENGTH} characters`
+    : passphrase !== confirmation ? 'Passphrases do not match' : null;
+
+  const handleCreate = async () => {
+    if (passphraseProblem) return;
+    setBusy(true);
+    try {
+      const contents = await loadBackupContents();
+      const wallet = includeWallet ? await connectedWalletKey() : undefined;
+      const text = await createBackup(contents, { passphrase, wallet });
+
+      const blob = new Blob([text], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `safepay-backup-${new Date().toISOString().split('T')[0]}.${BACKUP_EXTENSION}`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setPassphrase('');
+      setConfirmation('');
+      showToast(`Backup of ${contents.transactions.length} transactions created`, 'success');
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to create the backup', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+
+    try {
+      const text = await picked.text();
+      setPending({ fileName: picked.name, text, file: readBackupFile(text), backup: null, current: null });
+      setUnlockPassphrase('');
+      setMode('merge');
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to read the backup', 'error');
+    }
+  };
+
+  const unlock = async (how: 'passphrase' | 'wallet') => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      const method: BackupUnlock = how === 'passphrase'
+        ? { passphrase: unlockPassphrase }
+        : { walletKey: (await connectedWalletKey()).key };
+      const backup = await openBackup(pending.text, method);
+      const current = await loadBackupContents();
+      setPending({ ...pending, backup, current });
+      setUnlockPassphrase('');
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to open the backup', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending?.backup || !preview) return;
+    setShowReplaceConfirm(false);
+    setBusy(true);
+    try {
+      await restoreBackup(pending.backup, mode, `Backup restored from ${pending.fileName}`);
+      // The undo toast covers restores that changed transactions
+      const { added, updated, removed } = preview.transactions;
+      if (added + updated + removed === 0) {
+        showToast('Backup restored', 'success');
+      }
+      setPending(null);
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to restore the backup', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const requestRestore = () => {
+    if (mode === 'replace') setShowReplaceConfirm(true);
+    else handleRestore();
+  };
+
+  const wallets = pending ? backupWallets(pending.file) : [];
+
+  return (
+    <div className="backup-manager">
+      <div className="backup-manager__create">
+        <div className="backup-manager__fields">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Backup passphrase"
+            aria-label="Backup passphrase"
+            autoComplete="new-password"
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Repeat passphrase"
+            aria-label="Repeat passphrase"
+            autoComplete="new-password"
+          />
+        </div>
+        <label className="backup-manager__check">
+          <input type="checkbox" checked={includeWallet} onChange={(e) => setIncludeWallet(e.target.checked)} />
+          Also let my wallet open this backup
+        </label>
+        <div className="backup-manager__toolbar">
+          <button className="btn" onClick={handleCreate} disabled={busy || !!passphraseProblem}>
+            Download backup
+          </button>
+          {passphrase && passphraseProblem && <span className="small-muted">{passphraseProblem}</span>}
+        </div>
+      </div>
+
+      <div className="backup-manager__restore">
+        <div className="backup-manager__toolbar">
+          <label className="btn btn-ghost">
+            Restore from backup
+            <input type="file" accept={`.${BACKUP_EXTENSION},application/json`} onChange={handleFile} hidden />
+          </label>
+          {pending && (
+            <span className="small-muted">
+              {pending.fileName} · made {formatDate(pending.file.createdAt, 'long')}
+            </span>
+          )}
+        </div>
+
+        {pending && !pending.backup && (
+          <form
+            className="backup-manager__toolbar"
+            onSubmit={(e) => {
+              e.preventDefault();
+              unlock('passphrase');
+            }}
+          >
+            <input
+              type="password"
+              value={unlockPassphrase}
+              onChange={(e) => setUnlockPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              aria-label="Backup passphrase to unlock"
+              autoComplete="current-password"
+            />
+            <button type="submit" className="btn" disabled={busy || !unlockPassphrase}>
+              Unlock
+            </button>
+            {wallets.length > 0 && (
+              <button type="button" className="btn btn-ghost" onClick={() => unlock('wallet')} disabled={busy}>
+                Unlock with wallet {wallets[0].slice(0, 6)}...{wallets[0].slice(-4)}
+              </button>
+            )}
+            <button type="button" className="btn btn-ghost" onClick={() => setPending(null)} disabled={busy}>
+              Cancel
+            </button>
+          </form>
+        )}
+
+        {pending?.backup && preview && (
+          <div className="backup-manager__preview">
+            <div className="backup-manager__modes" role="radiogroup" aria-label="Restore mode">
+              <label className="backup-manager__check">
+                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                Merge: keep everything here and add what is missing
+              </label>
+              <label className="backup-manager__check">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                Replace: make this device match the backup
+              </label>
+            </div>
+            <dl className="backup-manager__changes">
+              {PREVIEW_ROWS.map(({ key, label }) => (
+                <React.Fragment key={key}>
+                  <dt>{label}</dt>
+                  <dd>{describeCount(preview[key], key === 'transactions' ? 'moved to the Trash' : 'removed')}</dd>
+                </React.Fragment>
+              ))}
+              <dt>Category classifier</dt>
+              <dd>{preview.classifier ? 'Replaced' : 'No changes'}</dd>
+            </dl>
+            <div className="backup-manager__toolbar">
+              <button className="btn btn-primary" onClick={requestRestore} disabled={busy}>
+                Restore
+              </button>
+              <button className="btn btn-ghost" onClick={() => setPending(null)} disabled={busy}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={showReplaceConfirm}
+        title="Replace with Backup"
+        message="Accounts, categories, budgets and saved views will be overwritten with the backup's, and transactions that are not in it will be moved to the Trash. Continue?"
+        confirmText="Replace"
+        type="warning"
+        onConfirm={handleRestore}
+        onCancel={() => setShowReplaceConfirm(false)}
+      />
+    </div>
+  );
+};
+
+export default BackupManager;
@@ -1,12 +1,14 @@
 import React, { useEffect, useState } from 'react';
 import { disconnectWallet } from '../services/wallet';
-import { SessionStorage, TransactionCache, EncryptionStorage } from '../utils/storage';
+import { SessionStorage, ProfileStorage } from '../utils/storage';
+import { onAppEvent } from '../utils/eventBus';
 
 const truncate = (s?: string) => s ? s.slice(0,6) + '…' + s.slice(-4) : '';
 
 
 const BottomNav: React.FC = () => {
   const [address, setAddress] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState(() => ProfileStorage.loadProfiles());
   const [current, setCurrent] = useState<string>('/dashboard');
 
   useEffect(() => {
@@ -14,34 +16,46 @@ const BottomNav: React.FC = () => {
     if (session?.address) {
       setAddress(session.address);
     }
+    const unsubscribeSession = onAppEvent('session:changed', ({ address: next }) => {
+      setAddress(next);
+      setProfiles(ProfileStorage.loadProfiles());
+    });
     const updateHash = () => {
       const hash = window.location.hash || '#/dashboard';
-      setCurrent(hash.startsWith('#') ? hash.slice(1) : hash);
+      // "#/history?view=..." still highlights History
+      setCurrent((hash.startsWith('#') ? hash.slice(1) : hash).split('?')[0]);
     };
     updateHash();
     window.addEventListener('hashchange', updateHash);
-    return () => window.removeEventListener('hashchange', updateHash);
+    return () => {
+      window.removeEventListener('hashchange', updateHash);
+      unsubscribeSession();
+    };
   }, []);
 
   const handleLogout = async () => {
-    // Best-effort wallet disconnect (may be unsupported)
+    // Best-effort wallet disconnect (may be unsupported); locks this wallet's profile
     try { await disconnectWallet(); } catch {}
 
-    // Clear app session + encryption context + cached decrypted data
     SessionStorage.clearSession();
-    EncryptionStorage.clearEncryptionAddress();
-    TransactionCache.clearCache();
-
-    // Broadcast unified session change so listeners update immediately
-    try { window.dispatchEvent(new Event('safepay:session-changed')); } catch {}
-
-    // Local state reset
-    setAddress(null);
 
     // Redirect to login (use login instead of connect for clarity)
     window.location.hash = '#/login';
   };
 
+  // Other profiles stay unlocked in this tab, so switching back does not ask for a signature
+  const handleSwitchProfile = (value: string) => {
+    if (value === '__add') {
+      SessionStorage.clearSession();
+      window.location.hash = '#/connect';
+      return;
+    }
+    if (value.toLowerCase() !== address?.toLowerCase()) {
+      SessionStorage.saveSession(value);
+      window.location.hash = '#/dashboard';
+    }
+  };
+
   const LinkBtn: React.FC<{ path: string; label: string }> = ({ path, label }) => (
     <button
       className={`sp-btn ${current === path ? 'active' : ''}`}
@@ -74,6 +88,7 @@ const BottomNav: React.FC = () => {
           <LinkBtn path="/add" label="Add" />
           <LinkBtn path="/history" label="History" />
           <LinkBtn path="/insights" label="Insights" />
+          <LinkBtn path="/subscriptions" label="Recurring" />
           <LinkBtn path="/settings" label="Settings" />
         </div>
       </nav>
@@ -85,6 +100,18 @@ const BottomNav: React.FC = () => {
               <div style={{ fontSize: 13, color: 'var(--color-offwhite)' }}>Connected</div>
               <div style={{ fontSize: 12, color: 'var(--color-muted)' }}>{truncate(address)}</div>
             </div>
+            <select
+              className="sp-btn sp-btn-ghost"
+              value={ProfileStorage.findProfile(address)?.address || address}
+              onChange={e => handleSwitchProfile(e.target.value)}
+              aria-label="Switch wallet profile"
+              title="Switch wallet profile"
+            >
+              {profiles.map(profile => (
+                <option key={profile.address} value={profile.address}>{truncate(profile.address)}</option>
+              ))}
+              <option value="__add">+ Connect another wallet</option>
+            </select>
             <button
               className="sp-btn sp-btn-ghost"
               onClick={handleLogout}
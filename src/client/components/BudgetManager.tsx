@@ -5,10 +5,11 @@
 
 import React, { useState, useEffect } from 'react';
 import { Transaction } from '../types';
-import { BudgetStorage } from '../utils/storage';
+import { BudgetStorage, CurrencyStorage, VaultStorage } from '../utils/storage';
 import { calculateBudgetAlerts } from '../utils/budget';
-import { DEFAULT_CATEGORIES } from '../services/ai';
+import { getCategoryPaths } from '../services/categories';
 import { formatCurrency } from '../utils/analytics';
+import { useToast } from './Toast';
 import './BudgetManager.css';
 
 interface BudgetManagerProps {
@@ -22,34 +23,42 @@ const BudgetManager: React.FC<BudgetManagerProps> = ({
   budgets,
   onBudgetsUpdate,
 }) => {
+  const { showToast } = useToast();
   const [newCategory, setNewCategory] = useState<string>('');
-  const alerts = calculateBudgetAlerts(budgets, transactions, 'monthly');
+  const currency = CurrencyStorage.getContext();
+  const alerts = calculateBudgetAlerts(budgets, transactions, 'monthly', currency);
+  const base = currency.baseCurrency;
+
+  const saveBudgets = (updated: Record<string, number>) => {
+    onBudgetsUpdate(updated);
+    BudgetStorage.saveBudgets(updated);
+    VaultStorage.flush().catch((err: any) => {
+      showToast(err?.message || 'Failed to save budgets', 'error');
+    });
+  };
 
   const handleAddBudget = (category: string) => {
     if (!category || budgets[category]) return;
     const updated = { ...budgets, [category]: 0 };
-    onBudgetsUpdate(updated);
-    BudgetStorage.saveBudgets(updated);
+    saveBudgets(updated);
     setNewCategory('');
   };
 
   const handleUpdateBudget = (category: string, amount: number) => {
     const updated = { ...budgets, [category]: amount };
-    onBudgetsUpdate(updated);
-    BudgetStorage.saveBudgets(updated);
+    saveBudgets(updated);
   };
 
   const handleRemoveBudget = (category: string) => {
     const updated = { ...budgets };
     delete updated[category];
-    onBudgetsUpdate(updated);
-    BudgetStorage.saveBudgets(updated);
+    saveBudgets(updated);
   };
 
   return (
     <div className="budget-manager">
       <h4>Budget Manager</h4>
-      <p className="small-muted">Set monthly budgets for categories and get alerts when you're approaching limits.</p>
+      <p className="small-muted">Set monthly budgets (in {base}) for categories and get alerts when you're approaching limits.</p>
 
       {Object.keys(budgets).length === 0 ? (
         <p className="small-muted">No budgets set. Add one below.</p>
@@ -85,7 +94,7 @@ const BudgetManager: React.FC<BudgetManagerProps> = ({
                 </div>
                 {alert && (
                   <div className={`budget-manager__alert budget-manager__alert--${alert.status}`}>
-                    Spent: {formatCurrency(alert.spent)} / {formatCurrency(alert.budget)} ({alert.percentage.toFixed(1)}%)
+                    Spent: {formatCurrency(alert.spent, base)} / {formatCurrency(alert.budget, base)} ({alert.percentage.toFixed(1)}%)
                   </div>
                 )}
               </div>
@@ -107,7 +116,7 @@ const BudgetManager: React.FC<BudgetManagerProps> = ({
           className="budget-manager__select"
         >
           <option value="">Add budget for category</option>
-          {DEFAULT_CATEGORIES.filter(c => !budgets[c]).map(c => (
+          {getCategoryPaths().filter(c => !budgets[c]).map(c => (
             <option key={c} value={c}>{c}</option>
           ))}
         </select>
@@ -119,7 +128,7 @@ const BudgetManager: React.FC<BudgetManagerProps> = ({
           <ul>
             {alerts.map((alert, index) => (
               <li key={index} className={`budget-manager__alert-item budget-manager__alert-item--${alert.status}`}>
-                {alert.category}: {formatCurrency(alert.spent)} / {formatCurrency(alert.budget)} ({alert.percentage.toFixed(1)}%)
+                {alert.category}: {formatCurrency(alert.spent, base)} / {formatCurrency(alert.budget, base)} ({alert.percentage.toFixed(1)}%)
               </li>
             ))}
           </ul>
@@ -0,0 +1,226 @@
+/**
+ * Category Manager Component
+ * Add, rename, merge and archive categories; renames and merges rewrite existing data
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Category } from '../types';
+import {
+  archiveCategory,
+  createCategory,
+  getCategories,
+  loadCategories,
+  mergeCategoriesEverywhere,
+  renameCategoryEverywhere,
+  updateCategory,
+} from '../services/categories';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_SEPARATOR,
+  categoryPath,
+  descendantIds,
+  findCategoryByPath,
+  listCategoryPaths,
+} from '../utils/categories';
+import { useToast } from './Toast';
+import './CategoryManager.css';
+
+const CategoryManager: React.FC = () => {
+  const { showToast } = useToast();
+  const [categories, setCategories] = useState<Category[]>(() => getCategories());
+  const [name, setName] = useState('');
+  const [parentId, setParentId] = useState('');
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [icon, setIcon] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadCategories()
+      .then(setCategories)
+      .catch(error => console.error('Failed to load categories:', error));
+  }, []);
+
+  const rows = listCategoryPaths(categories, true)
+    .map(path => findCategoryByPath(categories, path))
+    .filter((c): c is Category => !!c);
+
+  const run = async (action: () => Promise<Category[]>, success: string) => {
+    setBusy(true);
+    try {
+      setCategories(await action());
+      showToast(success, 'success');
+      return true;
+    } catch (error: any) {
+      showToast(error?.message || 'Failed to update categories', 'error');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const label = name.trim();
+    const ok = await run(
+      () => createCategory(label, { parentId: parentId || undefined, color, icon: icon.trim() || undefined }),
+      `Category "${label}" added`
+    );
+    if (ok) {
+      setName('');
+      setIcon('');
+    }
+  };
+
+  const handleRename = async (category: Category) => {
+    const ok = await run(
+      () => renameCategoryEverywhere(category.id, editName),
+      `Renamed "${category.name}" to "${editName.trim()}"`
+    );
+    if (ok) setEditingId(null);
+  };
+
+  const handleMerge = async (category: Category) => {
+    if (!mergeTargetId) return;
+    const target = categoryPath(categories, mergeTargetId);
+    const ok = await run(
+      () => mergeCategoriesEverywhere(category.id, mergeTargetId),
+      `Merged "${categoryPath(categories, category.id)}" into "${target}"`
+    );
+    if (ok) {
+      setMergingId(null);
+      setMergeTargetId('');
+    }
+  };
+
+  // Color pickers fire on every move, so no toast here
+  const handleColorChange = (category: Category, value: string) => {
+    updateCategory(category.id, { color: value })
+      .then(setCategories)
+      .catch(error => showToast(error?.message || 'Failed to update color', 'error'));
+  };
+
+  const mergeTargets = (category: Category) => {
+    const excluded = new Set([category.id, ...descendantIds(categories, category.id)]);
+    return rows.filter(c => !excluded.has(c.id) && !c.archived);
+  };
+
+  return (
+    <div className="category-manager">
+      <div className="category-manager__form">
+        <input
+          type="text"
+          value={icon}
+          onChange={(e) => setIcon(e.target.value)}
+          placeholder="📦"
+          aria-label="Category icon"
+          className="category-manager__icon-input"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Category name"
+          aria-label="Category name"
+          className="category-manager__name"
+        />
+        <select value={parentId} onChange={(e) => setParentId(e.target.value)} aria-label="Parent category">
+          <option value="">No parent</option>
+          {rows.filter(c => !c.archived).map(c => (
+            <option key={c.id} value={c.id}>{categoryPath(categories, c.id)}</option>
+          ))}
+        </select>
+        <input type="color" value={color} onChange={(e) => setColor(e.target.value)} aria-label="Category color" />
+        <button className="btn" onClick={handleAdd} disabled={busy}>Add Category</button>
+      </div>
+
+      <ul className="category-manager__list">
+        {rows.map(c => {
+          const depth = categoryPath(categories, c.id).split(CATEGORY_SEPARATOR).length - 1;
+          return (
+            <li
+              key={c.id}
+              className={`category-manager__item${c.archived ? ' category-manager__item--archived' : ''}`}
+              style={{ paddingLeft: depth * 20 }}
+            >
+              <input
+                type="color"
+                value={c.color}
+                onChange={(e) => handleColorChange(c, e.target.value)}
+                aria-label={`${c.name} color`}
+                disabled={busy}
+              />
+              <span className="category-manager__icon">{c.icon}</span>
+
+              {editingId === c.id ? (
+                <span className="category-manager__edit">
+                  <input
+                    type="text"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    aria-label="New category name"
+                  />
+                  <button className="btn" onClick={() => handleRename(c)} disabled={busy}>Save</button>
+                  <button className="btn btn-ghost" onClick={() => setEditingId(null)}>Cancel</button>
+                </span>
+              ) : mergingId === c.id ? (
+                <span className="category-manager__edit">
+                  <span>Merge into</span>
+                  <select value={mergeTargetId} onChange={(e) => setMergeTargetId(e.target.value)} aria-label="Merge target">
+                    <option value="">Choose category</option>
+                    {mergeTargets(c).map(t => (
+                      <option key={t.id} value={t.id}>{categoryPath(categories, t.id)}</option>
+                    ))}
+                  </select>
+                  <button className="btn" onClick={() => handleMerge(c)} disabled={busy || !mergeTargetId}>Merge</button>
+                  <button className="btn btn-ghost" onClick={() => setMergingId(null)}>Cancel</button>
+                </span>
+              ) : (
+                <>
+                  <span className="category-manager__name">{c.name}</span>
+                  <span className="category-manager__actions">
+                    <button
+                      className="btn btn-ghost"
+                      onClick={() => {
+                        setEditingId(c.id);
+                        setEditName(c.name);
+                        setMergingId(null);
+                      }}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      className="btn btn-ghost"
+                      onClick={() => {
+                        setMergingId(c.id);
+                        setMergeTargetId('');
+                        setEditingId(null);
+                      }}
+                    >
+                      Merge
+                    </button>
+                    <button
+                      className="btn btn-ghost"
+                      onClick={() => run(() => archiveCategory(c.id, !c.archived), c.archived ? 'Category restored' : 'Category archived')}
+                      disabled={busy}
+                    >
+                      {c.archived ? 'Restore' : 'Archive'}
+                    </button>
+                  </span>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <p className="small-muted">
+        Renaming or merging updates past transactions, budgets, recurring rules and learned suggestions.
+        Archived categories stay on past transactions but are no longer offered.
+      </p>
+    </div>
+  );
+};
+
+export default CategoryManager;
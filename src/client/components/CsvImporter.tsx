@@ -0,0 +1,383 @@
+/**
+ * CSV Importer Component
+ * Maps the columns of a bank statement, previews the rows and imports them
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Classifier, CsvColumnMapping, CsvImportSettings, CsvImportTemplate, Transaction } from '../types';
+import { AccountStorage, ClassifierStorage, CsvTemplateStorage, CurrencyStorage, TransactionCache } from '../utils/storage';
+import {
+  CSV_DATE_FORMATS,
+  CSV_DELIMITERS,
+  csvHeaders,
+  decodeStatement,
+  detectDateFormats,
+  detectDelimiter,
+  findTemplate,
+  flagDuplicates,
+  guessImportSettings,
+  importedTransaction,
+  mapCsvRows,
+  parseCsv,
+} from '../utils/csvImport';
+import { formatCurrency, formatDate } from '../utils/analytics';
+import { suggestCategory } from '../services/ai';
+import { getCategoryPaths } from '../services/categories';
+import { commitChange } from '../services/undo';
+import { defaultClassifier } from '../lib/classifier';
+import { useToast } from './Toast';
+import './CsvImporter.css';
+
+interface CsvFile {
+  name: string;
+  text: string;
+  encoding: string;
+}
+
+/** Rows shown in the preview; the import itself covers every row */
+const PREVIEW_LIMIT = 200;
+
+const COLUMN_FIELDS: Array<{ key: keyof CsvColumnMapping; label: string; optional: boolean }> = [
+  { key: 'date', label: 'Date', optional: false },
+  { key: 'description', label: 'Description', optional: false },
+  { key: 'amount', label: 'Amount', optional: true },
+  { key: 'debit', label: 'Debit (money out)', optional: true },
+  { key: 'credit', label: 'Credit (money in)', optional: true },
+];
+
+const CsvImporter: React.FC = () => {
+  const { showToast } = useToast();
+  const [file, setFile] = useState<CsvFile | null>(null);
+  const [settings, setSettings] = useState<CsvImportSettings | null>(null);
+  const [templates, setTemplates] = useState<CsvImportTemplate[]>(() => CsvTemplateStorage.loadTemplates());
+  const [templateId, setTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [accounts] = useState(() => AccountStorage.loadAccounts().filter(a => !a.archived));
+  const [accountId, setAccountId] = useState('');
+  const [classifier, setClassifier] = useState<Classifier>(() => defaultClassifier());
+  const [existing, setExisting] = useState<Transaction[]>([]);
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<number, string>>({});
+  const [included, setIncluded] = useState<Record<number, boolean>>({});
+  const [importing, setImporting] = useState(false);
+  const categoryPaths = useMemo(() => getCategoryPaths(), []);
+
+  useEffect(() => {
+    ClassifierStorage.loadClassifier()
+      .then(loaded => {
+        if (loaded) setClassifier(loaded);
+      })
+      .catch(error => console.error('Failed to load classifier:', error));
+  }, []);
+
+  const rows = useMemo(
+    () => (file && settings ? parseCsv(file.text, settings.delimiter) : []),
+    [file, settings?.delimiter]
+  );
+  const headers = useMemo(() => csvHeaders(rows, settings?.hasHeader ?? true), [rows, settings?.hasHeader]);
+
+  const dateFormats = useMemo(() => {
+    if (!settings) return [];
+    const values = rows.slice(settings.hasHeader ? 1 : 0).map(row => row[settings.columns.date] || '');
+    return detectDateFormats(values);
+  }, [rows, settings]);
+
+  const currency = useMemo(() => {
+    const account = accounts.find(a => a.id === accountId);
+    return account ? account.currency : CurrencyStorage.getContext().baseCurrency;
+  }, [accounts, accountId]);
+
+  const preview = useMemo(() => {
+    if (!settings) return [];
+    const mapped = mapCsvRows(rows, settings);
+    const candidates = mapped.map((row, i) => row.error ? null : importedTransaction(row, {
+      id: `csv_${Date.now().toString(36)}_${i}`,
+      category: categoryOverrides[row.line] || suggestCategory(row.description, Math.abs(row.amount || 0), classifier).category,
+      currency,
+      accountId: accountId || undefined,
+    }));
+    const readable = candidates.filter((t): t is Transaction => t !== null);
+    const duplicates = flagDuplicates(readable, existing);
+
+    let next = 0;
+    return mapped.map((row, i) => {
+      const transaction = candidates[i];
+      const duplicate = transaction ? duplicates[next++] : false;
+      const include = included[row.line] ?? (!!transaction && !duplicate);
+      return { row, transaction, duplicate, include: include && !!transaction };
+    });
+  }, [rows, settings, classifier, existing, categoryOverrides, included, currency, accountId]);
+
+  const toImport = preview.filter(p => p.include && p.transaction).map(p => p.transaction as Transaction);
+  const duplicateCount = preview.filter(p => p.duplicate).length;
+  const errorCount = preview.filter(p => p.row.error).length;
+
+  const applyTemplate = (template: CsvImportTemplate | null, guessed: CsvImportSettings) => {
+    setTemplateId(template ? template.id : '');
+    setSettings(template ? template.settings : guessed);
+    if (template?.accountId) setAccountId(template.accountId);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+
+    try {
+      const { text, encoding } = decodeStatement(await picked.arrayBuffer());
+      const delimiter = detectDelimiter(text);
+      const parsed = parseCsv(text, delimiter);
+      if (parsed.length === 0) {
+        showToast('The file has no rows', 'error');
+        return;
+      }
+
+      // The cache is the collection duplicates are checked against
+      await TransactionCache.loadCache();
+      setExisting(TransactionCache.getCachedTransactions());
+      setFile({ name: picked.name, text, encoding });
+      setCategoryOverrides({});
+      setIncluded({});
+
+      const guessed = guessImportSettings(parsed, delimiter);
+      applyTemplate(findTemplate(templates, parsed[0]), guessed);
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to read the file', 'error');
+    }
+  };
+
+  const updateSettings = (changes: Partial<CsvImportSettings>) => {
+    if (!settings) return;
+    setSettings({ ...settings, ...changes });
+    setIncluded({});
+  };
+
+  const updateColumn = (key: keyof CsvColumnMapping, value: string) => {
+    if (!settings) return;
+    const index = value === '' ? null : Number(value);
+    updateSettings({ columns: { ...settings.columns, [key]: index } });
+  };
+
+  const handleSaveTemplate = () => {
+    if (!settings || !templateName.trim()) return;
+    const template: CsvImportTemplate = {
+      id: `csv_${Date.now().toString(36)}`,
+      name: templateName.trim(),
+      headers: rows[0] || [],
+      settings,
+      accountId: accountId || undefined,
+      createdAt: new Date().toISOString(),
+    };
+    setTemplates(CsvTemplateStorage.upsertTemplate(template));
+    setTemplateId(template.id);
+    setTemplateName('');
+    showToast(`Saved template "${template.name}"`, 'success');
+  };
+
+  const handleImport = async () => {
+    if (!file || toImport.length === 0) return;
+    setImporting(true);
+    try {
+      await commitChange(
+        `${toImport.length} transaction${toImport.length === 1 ? '' : 's'} imported from ${file.name}`,
+        toImport.map(t => ({ before: null, after: t }))
+      );
+      setFile(null);
+      setSettings(null);
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to import transactions', 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="csv-importer">
+      <div className="csv-importer__toolbar">
+        <label className="btn">
+          Choose CSV file
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} hidden />
+        </label>
+        {file && (
+          <span className="small-muted">
+            {file.name} · {file.encoding} · {rows.length} rows
+          </span>
+        )}
+      </div>
+
+      {file && settings && (
+        <>
+          <div className="csv-importer__mapping">
+            <label>
+              Template
+              <select
+                value={templateId}
+                onChange={(e) => applyTemplate(
+                  templates.find(t => t.id === e.target.value) || null,
+                  guessImportSettings(rows, settings.delimiter)
+                )}
+              >
+                <option value="">Detected settings</option>
+                {templates.map(t => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Delimiter
+              <select value={settings.delimiter} onChange={(e) => updateSettings({ delimiter: e.target.value })}>
+                {CSV_DELIMITERS.map(d => (
+                  <option key={d.label} value={d.value}>{d.label}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Date format
+              <select
+                value={settings.dateFormat}
+                onChange={(e) => updateSettings({ dateFormat: e.target.value as CsvImportSettings['dateFormat'] })}
+              >
+                {CSV_DATE_FORMATS.map(format => (
+                  <option key={format} value={format}>{format}</option>
+                ))}
+              </select>
+            </label>
+            {COLUMN_FIELDS.map(({ key, label, optional }) => (
+              <label key={key}>
+                {label}
+                <select
+                  value={settings.columns[key] ?? ''}
+                  onChange={(e) => updateColumn(key, e.target.value)}
+                >
+                  {optional && <option value="">—</option>}
+                  {headers.map((header, i) => (
+                    <option key={i} value={i}>{header}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label>
+              Account
+              <select value={accountId} onChange={(e) => setAccountId(e.target.value)}>
+                <option value="">No account</option>
+                {accounts.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="csv-importer__check">
+              <input
+                type="checkbox"
+                checked={settings.hasHeader}
+                onChange={(e) => updateSettings({ hasHeader: e.target.checked })}
+              />
+              First row is a header
+            </label>
+            <label className="csv-importer__check">
+              <input
+                type="checkbox"
+                checked={settings.invertAmounts}
+                onChange={(e) => updateSettings({ invertAmounts: e.target.checked })}
+                disabled={settings.columns.amount === null}
+              />
+              Spending is exported as positive amounts
+            </label>
+          </div>
+
+          {dateFormats.length > 1 && dateFormats.includes(settings.dateFormat) && (
+            <p className="small-muted">
+              These dates also read as {dateFormats.filter(f => f !== settings.dateFormat).join(' or ')}; check the preview.
+            </p>
+          )}
+
+          <div className="csv-importer__toolbar">
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Bank name"
+              aria-label="Template name"
+            />
+            <button className="btn btn-ghost" onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+              Save mapping as template
+            </button>
+          </div>
+
+          <p className="small-muted">
+            {toImport.length} to import
+            {duplicateCount > 0 && ` · ${duplicateCount} possible duplicate${duplicateCount === 1 ? '' : 's'} skipped`}
+            {errorCount > 0 && ` · ${errorCount} unreadable row${errorCount === 1 ? '' : 's'}`}
+          </p>
+
+          <div className="csv-importer__preview">
+            <table className="sp-table">
+              <thead>
+                <tr>
+                  <th />
+                  <th>Date</th>
+                  <th>Description</th>
+                  <th style={{ textAlign: 'right' }}>Amount</th>
+                  <th>Category</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.slice(0, PREVIEW_LIMIT).map(({ row, transaction, duplicate, include }) => (
+                  <tr key={row.line} className={include ? undefined : 'csv-importer__skipped'}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={include}
+                        disabled={!transaction}
+                        onChange={(e) => setIncluded({ ...included, [row.line]: e.target.checked })}
+                        aria-label={`Import line ${row.line}`}
+                      />
+                    </td>
+                    <td>{transaction ? formatDate(transaction.timestamp) : '—'}</td>
+                    <td>{row.description || '—'}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      {row.amount !== null ? formatCurrency(row.amount, currency) : '—'}
+                    </td>
+                    <td>
+                      {transaction && (
+                        <select
+                          value={transaction.category}
+                          onChange={(e) => setCategoryOverrides({ ...categoryOverrides, [row.line]: e.target.value })}
+                        >
+                          {!categoryPaths.includes(transaction.category) && (
+                            <option value={transaction.category}>{transaction.category}</option>
+                          )}
+                          {categoryPaths.map(path => (
+                            <option key={path} value={path}>{path}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="small-muted">
+                      {row.error
+                        ? `Line ${row.line}: ${row.error}`
+                        : duplicate ? 'Possible duplicate' : 'New'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {preview.length > PREVIEW_LIMIT && (
+              <p className="small-muted">Showing the first {PREVIEW_LIMIT} of {preview.length} rows.</p>
+            )}
+          </div>
+
+          <div className="csv-importer__toolbar">
+            <button className="btn btn-primary" onClick={handleImport} disabled={importing || toImport.length === 0}>
+              {importing ? 'Importing...' : `Import ${toImport.length} transaction${toImport.length === 1 ? '' : 's'}`}
+            </button>
+            <button className="btn btn-ghost" onClick={() => { setFile(null); setSettings(null); }} disabled={importing}>
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CsvImporter;
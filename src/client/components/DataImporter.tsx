@@ -0,0 +1,196 @@
+/**
+ * Data Importer Component
+ * Validates a JSON export and shows a dry-run report before importing it
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ImportMode, Transaction } from '../types';
+import { importAllData } from '../services/backup';
+import { IMPORT_MODES, ImportReport } from '../utils/dataImport';
+import { RestoreCount } from '../utils/backup';
+import { formatCurrency, formatDate } from '../utils/analytics';
+import { transactionCurrency } from '../utils/currency';
+import { loadCategories } from '../services/categories';
+import { useToast } from './Toast';
+import './DataImporter.css';
+
+/** Rows listed in the report; the counts cover the rest */
+const PREVIEW_LIMIT = 100;
+const ERROR_LIMIT = 10;
+
+const OTHER_RECORDS: Array<{ key: 'accounts' | 'categories' | 'savedViews' | 'budgets'; label: string }> = [
+  { key: 'accounts', label: 'accounts' },
+  { key: 'categories', label: 'categories' },
+  { key: 'savedViews', label: 'saved views' },
+  { key: 'budgets', label: 'budgets' },
+];
+
+function reportRows(report: ImportReport): Array<{ status: string; transaction: Transaction; detail?: string }> {
+  return [
+    ...report.added.map(transaction => ({ status: 'Add', transaction })),
+    ...report.updated.map(({ after }) => ({ status: 'Update', transaction: after })),
+    ...report.removed.map(transaction => ({ status: 'To Trash', transaction })),
+    ...report.skipped.map(({ transaction, reason }) => ({ status: 'Skip', transaction, detail: reason })),
+  ];
+}
+
+function describeOther(report: ImportReport): string {
+  const parts = OTHER_RECORDS.reduce<string[]>((all, { key, label }) => {
+    const count: RestoreCount = report[key];
+    const changed = count.added + count.updated + count.removed;
+    return changed > 0 ? all.concat(`${changed} ${label}`) : all;
+  }, []);
+  if (report.classifier) parts.push('the category classifier');
+  return parts.length > 0 ? `Also changes ${parts.join(', ')}.` : '';
+}
+
+const DataImporter: React.FC = () => {
+  const { showToast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [input, setInput] = useState<unknown>(null);
+  const [mode, setMode] = useState<ImportMode>('merge-by-id');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setFileName(null);
+    setInput(null);
+    setReport(null);
+  };
+
+  useEffect(() => {
+    if (input === null) return;
+    let cancelled = false;
+    importAllData(input, { mode, dryRun: true })
+      .then(result => {
+        if (!cancelled) setReport(result);
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        showToast(err?.message || 'Failed to read the file', 'error');
+        reset();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [input, mode, showToast]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+
+    try {
+      setInput(JSON.parse(await picked.text()));
+      setReport(null);
+      setFileName(picked.name);
+    } catch {
+      showToast('The file is not a JSON export', 'error');
+    }
+  };
+
+  const handleImport = async () => {
+    if (input === null) return;
+    setBusy(true);
+    try {
+      const result = await importAllData(input, { mode, label: `Data imported from ${fileName}` });
+      await loadCategories();
+      showToast(
+        `Imported ${result.added.length} new and ${result.updated.length} updated transaction${result.updated.length === 1 ? '' : 's'}`,
+        'success'
+      );
+      reset();
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to import data', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rows = report ? reportRows(report) : [];
+  const blocked = !!report && report.mode === 'replace' && report.errors.length > 0;
+  const nothingToDo = !!report && rows.length === report.skipped.length && !describeOther(report);
+
+  return (
+    <div className="data-importer">
+      <div className="data-importer__toolbar">
+        <label className="btn btn-ghost">
+          Choose JSON export
+          <input type="file" accept="application/json,.json" onChange={handleFile} hidden />
+        </label>
+        {fileName && (
+          <select value={mode} onChange={(e) => setMode(e.target.value as ImportMode)} aria-label="Import mode">
+            {IMPORT_MODES.map(m => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </select>
+        )}
+        {fileName && <span className="small-muted">{fileName}</span>}
+      </div>
+
+      {report && (
+        <>
+          <p className="small-muted">
+            {report.added.length} to add · {report.updated.length} to update · {report.skipped.length} skipped
+            {report.removed.length > 0 && ` · ${report.removed.length} to the Trash`}
+            {report.errors.length > 0 && ` · ${report.errors.length} problem${report.errors.length === 1 ? '' : 's'}`}
+          </p>
+          {describeOther(report) && <p className="small-muted">{describeOther(report)}</p>}
+
+          {report.errors.length > 0 && (
+            <ul className="data-importer__errors">
+              {report.errors.slice(0, ERROR_LIMIT).map((error, i) => (
+                <li key={i}>
+                  {error.record}{error.field && ` ${error.field}`}: {error.message}
+                </li>
+              ))}
+              {report.errors.length > ERROR_LIMIT && <li>…and {report.errors.length - ERROR_LIMIT} more</li>}
+            </ul>
+          )}
+          {blocked && (
+            <p className="small-muted">Records with problems would be lost by a replace. Fix them or merge instead.</p>
+          )}
+
+          {rows.length > 0 && (
+            <div className="data-importer__preview">
+              <table className="sp-table">
+                <thead>
+                  <tr>
+                    <th>Status</th>
+                    <th>Date</th>
+                    <th>Description</th>
+                    <th style={{ textAlign: 'right' }}>Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_LIMIT).map(({ status, transaction: t, detail }, i) => (
+                    <tr key={i} className={status === 'Skip' ? 'data-importer__skipped' : undefined}>
+                      <td>{detail ? `${status}: ${detail}` : status}</td>
+                      <td>{formatDate(t.timestamp)}</td>
+                      <td>{t.note || t.category}</td>
+                      <td style={{ textAlign: 'right' }}>{formatCurrency(t.amount, transactionCurrency(t))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length > PREVIEW_LIMIT && (
+                <p className="small-muted">Showing the first {PREVIEW_LIMIT} of {rows.length} transactions.</p>
+              )}
+            </div>
+          )}
+
+          <div className="data-importer__toolbar">
+            <button className="btn btn-primary" onClick={handleImport} disabled={busy || blocked || nothingToDo}>
+              {busy ? 'Importing...' : 'Import'}
+            </button>
+            <button className="btn btn-ghost" onClick={reset} disabled={busy}>
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DataImporter;
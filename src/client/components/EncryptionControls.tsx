@@ -3,11 +3,25 @@
  * Manages wallet-backed encryption
  */
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { connectWallet, signMessage } from '../services/wallet';
 import { deriveKeyFromSignature } from '../utils/crypto';
-import { TransactionStorage, EncryptionStorage, ClassifierStorage } from '../utils/storage';
+import {
+  TransactionStorage,
+  EncryptionStorage,
+  ClassifierStorage,
+  CategoryStorage,
+  AttachmentStorage,
+  TrashStorage,
+  TransactionCache,
+  VaultStorage,
+} from '../utils/storage';
+import { importAllData } from '../services/backup';
+import { isObject } from '../utils/backup';
+import { getCategories, loadCategories } from '../services/categories';
+import { runMigrations } from '../utils/migrations';
 import { Transaction, Classifier } from '../types';
+import { onAppEvent } from '../utils/eventBus';
 import { useToast } from './Toast';
 import LoadingSpinner from './LoadingSpinner';
 import './EncryptionControls.css';
@@ -36,6 +50,13 @@ const EncryptionControls: React.FC<EncryptionControlsProps> = ({
   );
   const [unlocked, setUnlocked] = useState(false);
 
+  // Each profile has its own encryption settings and unlock state
+  useEffect(() => onAppEvent('session:changed', () => {
+    setEncryptionAddress(EncryptionStorage.loadEncryptionAddress());
+    setUnlocked(!!TransactionStorage.getEncryptionKey());
+    setError(null);
+  }), []);
+
   const handleEnableEncryption = async () => {
     setError(null);
     setLoading(true);
@@ -47,7 +68,12 @@ const EncryptionControls: React.FC<EncryptionControlsProps> = ({
       
       TransactionStorage.setEncryptionKey(key);
       await TransactionStorage.saveTransactions(transactions, true);
-      await ClassifierStorage.saveClassifier(classifier, true, key);
+      await ClassifierStorage.saveClassifier(classifier);
+      await CategoryStorage.saveCategories(getCategories());
+      // The classifier, budgets and settings leave plaintext storage
+      await VaultStorage.seal(key);
+      await AttachmentStorage.reencryptAttachments(null, key);
+      await TrashStorage.reencryptTrash(null, key);
       
       EncryptionStorage.saveEncryptionAddress(address);
       setEncryptionAddress(address);
@@ -80,9 +106,18 @@ const EncryptionControls: React.FC<EncryptionControlsProps> = ({
       const signature = await signMessage(`SafePay AI encryption key for ${address}`);
       const key = await deriveKeyFromSignature(signature);
       
-      TransactionStorage.setEncryptionKey(key);
+      await VaultStorage.unlock(key);
+      const migration = await runMigrations({ key });
+      if (migration.status === 'failed') {
+        showToast(`Data upgrade failed and was rolled back: ${migration.error}`, 'warning');
+      }
+
       const decryptedTransactions = await TransactionStorage.loadTransactions(true, key);
-      const decryptedClassifier = await ClassifierStorage.loadClassifier(true, key);
+      const decryptedClassifier = await ClassifierStorage.loadClassifier();
+      // Fill the cache before announcing the unlock so every view sees the data
+      TransactionCache.replaceCache(decryptedTransactions);
+      TransactionStorage.setEncryptionKey(key);
+      await loadCategories();
 
       if (decryptedClassifier) {
         onClassifierUpdate(decryptedClassifier);
@@ -136,26 +171,31 @@ const EncryptionControls: React.FC<EncryptionControlsProps> = ({
     setLoading(true);
 
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The file is not a JSON export');
+      }
 
-      if (data.encrypted) {
+      if (isObject(data) && data.encrypted === true) {
         // Encrypted backup requires unlocking
         setError('Encrypted backups must be unlocked first. Please unlock your wallet and try again.');
         return;
       }
 
-      if (data.transactions && Array.isArray(data.transactions)) {
-        onTransactionsUpdate(data.transactions);
-        await TransactionStorage.saveTransactions(data.transactions, false);
+      // Every record is validated; replaced transactions go to the trash and the import can be undone.
+      // Other import modes and a preview are under Settings.
+      const report = await importAllData(data, { mode: 'replace', label: `Backup imported from ${file.name}` });
+      const restored = await ClassifierStorage.loadClassifier();
+      if (restored) {
+        onClassifierUpdate(restored);
       }
+      await loadCategories();
 
-      if (data.classifier) {
-        onClassifierUpdate(data.classifier);
-        await ClassifierStorage.saveClassifier(data.classifier, false);
+      if (report.added.length + report.updated.length + report.removed.length === 0) {
+        showToast('Backup imported successfully', 'success');
       }
-
-      showToast('Backup imported successfully', 'success');
     } catch (err: any) {
       const errorMsg = err?.message || 'Failed to import backup';
       setError(errorMsg);
@@ -0,0 +1,196 @@
+/**
+ * FX Rate Manager Component
+ * Edit the local exchange rate table and import rates from CSV
+ */
+
+import React, { useRef, useState } from 'react';
+import { FxRate } from '../types';
+import { CurrencyStorage } from '../utils/storage';
+import {
+  SUPPORTED_CURRENCIES,
+  isValidCurrencyCode,
+  normalizeCurrency,
+  parseFxRatesCsv,
+  removeRate,
+  upsertRate,
+} from '../utils/currency';
+import { useToast } from './Toast';
+import './FxRateManager.css';
+
+interface FxRateManagerProps {
+  onChange?: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const FxRateManager: React.FC<FxRateManagerProps> = ({ onChange }) => {
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [baseCurrency, setBaseCurrency] = useState<string>(CurrencyStorage.loadBaseCurrency());
+  const [rates, setRates] = useState<FxRate[]>(() => CurrencyStorage.loadRates());
+  const [from, setFrom] = useState<string>('EUR');
+  const [to, setTo] = useState<string>(CurrencyStorage.loadBaseCurrency());
+  const [rate, setRate] = useState<string>('');
+  const [date, setDate] = useState<string>(today());
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const persistRates = (updated: FxRate[]) => {
+    setRates(updated);
+    CurrencyStorage.saveRates(updated);
+    onChange?.();
+  };
+
+  const handleBaseCurrencyChange = (currency: string) => {
+    setBaseCurrency(currency);
+    CurrencyStorage.saveBaseCurrency(currency);
+    onChange?.();
+    showToast(`Base currency set to ${currency}`, 'success');
+  };
+
+  const handleAddRate = () => {
+    const value = parseFloat(rate);
+    if (!isValidCurrencyCode(from) || !isValidCurrencyCode(to)) {
+      showToast('Please enter 3-letter currency codes', 'error');
+      return;
+    }
+    if (normalizeCurrency(from) === normalizeCurrency(to)) {
+      showToast('Choose two different currencies', 'error');
+      return;
+    }
+    if (!isFinite(value) || value <= 0) {
+      showToast('Rate must be a positive number', 'error');
+      return;
+    }
+
+    persistRates(upsertRate(rates, { from, to, rate: value, date }));
+    setRate('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const result = parseFxRatesCsv(text);
+      setImportErrors(result.errors);
+
+      if (result.rates.length > 0) {
+        persistRates(result.rates.reduce(upsertRate, rates));
+        showToast(`Imported ${result.rates.length} rates`, 'success');
+      } else {
+        showToast('No valid rates found in file', 'warning');
+      }
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to import rates', 'error');
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="fx-rate-manager">
+      <div className="settings-item">
+        <div>
+          <strong>Base Currency</strong>
+          <p className="small-muted">Totals, budgets and forecasts are shown in this currency</p>
+        </div>
+        <select value={baseCurrency} onChange={(e) => handleBaseCurrencyChange(e.target.value)}>
+          {SUPPORTED_CURRENCIES.map(c => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="fx-rate-manager__form">
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          aria-label="Rate date"
+        />
+        <input
+          type="text"
+          value={from}
+          maxLength={3}
+          onChange={(e) => setFrom(e.target.value.toUpperCase())}
+          aria-label="From currency"
+          className="fx-rate-manager__code"
+        />
+        <span className="small-muted">1 = </span>
+        <input
+          type="number"
+          step="any"
+          min="0"
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+          placeholder="Rate"
+          aria-label="Rate"
+        />
+        <input
+          type="text"
+          value={to}
+          maxLength={3}
+          onChange={(e) => setTo(e.target.value.toUpperCase())}
+          aria-label="To currency"
+          className="fx-rate-manager__code"
+        />
+        <button className="btn" onClick={handleAddRate}>Add Rate</button>
+        <button className="btn btn-ghost" onClick={() => fileInputRef.current?.click()}>
+          Import CSV
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          style={{ display: 'none' }}
+          onChange={handleImport}
+        />
+      </div>
+      <p className="small-muted">CSV columns: date,from,to,rate (e.g. 2025-09-01,EUR,USD,1.09)</p>
+
+      {importErrors.length > 0 && (
+        <div className="alert alert-warning">
+          <ul>
+            {importErrors.slice(0, 5).map((err, index) => (
+              <li key={index}>{err}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {rates.length === 0 ? (
+        <p className="small-muted">No exchange rates yet. Amounts in other currencies are counted as-is.</p>
+      ) : (
+        <table className="sp-table">
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Pair</th>
+              <th style={{ textAlign: 'right' }}>Rate</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rates.map(r => (
+              <tr key={`${r.from}-${r.to}-${r.date}`}>
+                <td>{r.date}</td>
+                <td>{r.from} → {r.to}</td>
+                <td style={{ textAlign: 'right' }}>{r.rate}</td>
+                <td style={{ textAlign: 'right' }}>
+                  <button className="btn btn-ghost" onClick={() => persistRates(removeRate(rates, r))}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default FxRateManager;
@@ -0,0 +1,29 @@
+/**
+ * Highlight Component
+ * Marks the words of a text that matched the search
+ */
+
+import React from 'react';
+import { highlightText } from '../utils/searchIndex';
+import './Highlight.css';
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+  return (
+    <>
+      {highlightText(text, terms).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="search-highlight">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default Highlight;
@@ -0,0 +1,215 @@
+/**
+ * Plain-Text Accounting Component
+ * Exports transactions as a Beancount, Ledger or hledger journal and imports such journals
+ */
+
+import React, { useMemo, useState } from 'react';
+import { LedgerFormat, LedgerSettings, Transaction } from '../types';
+import { AccountStorage, LedgerSettingsStorage, TransactionCache } from '../utils/storage';
+import {
+  LEDGER_FORMATS,
+  LedgerImportResult,
+  assetAccount,
+  categoryAccount,
+  exportLedger,
+  parseLedger,
+} from '../utils/plainTextAccounting';
+import { decodeStatement, flagDuplicates } from '../utils/csvImport';
+import { getCategoryPaths } from '../services/categories';
+import { commitChange } from '../services/undo';
+import { useToast } from './Toast';
+import './PlainTextAccounting.css';
+
+/** Problems listed under an import; the count covers the rest */
+const ERROR_LIMIT = 10;
+
+interface JournalImport {
+  fileName: string;
+  result: LedgerImportResult;
+  fresh: Transaction[];
+  duplicates: boolean[];
+  /** Already in SafePay, judged by the safepay-id metadata */
+  known: number;
+}
+
+const PlainTextAccounting: React.FC = () => {
+  const { showToast } = useToast();
+  const [settings, setSettings] = useState<LedgerSettings>(() => LedgerSettingsStorage.loadSettings());
+  const [accounts] = useState(() => AccountStorage.loadAccounts());
+  const categories = useMemo(() => getCategoryPaths(true), []);
+  const [pending, setPending] = useState<JournalImport | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const updateSettings = (changes: Partial<LedgerSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    LedgerSettingsStorage.saveSettings(updated);
+  };
+
+  const updateMap = (field: 'categoryAccounts' | 'assetAccounts', key: string, value: string) => {
+    const map = { ...settings[field] };
+    if (value.trim()) map[key] = value.trim();
+    else delete map[key];
+    updateSettings({ [field]: map });
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      await TransactionCache.loadCache();
+      const journal = exportLedger(TransactionCache.getCachedTransactions(), accounts, settings);
+      const format = LEDGER_FORMATS.find(f => f.value === settings.format) || LEDGER_FORMATS[0];
+      const blob = new Blob([journal], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `safepay-${new Date().toISOString().split('T')[0]}.${format.extension}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to export the journal', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+
+    try {
+      const { text } = decodeStatement(await picked.arrayBuffer());
+      const result = parseLedger(text, accounts, categories, settings);
+      await TransactionCache.loadCache();
+      const existing = TransactionCache.getCachedTransactions();
+      const ids = new Set(existing.map(t => String(t.id)));
+      const fresh = result.transactions.filter(t => !ids.has(String(t.id)));
+      setPending({
+        fileName: picked.name,
+        result,
+        fresh,
+        duplicates: flagDuplicates(fresh, existing),
+        known: result.transactions.length - fresh.length,
+      });
+      setIncludeDuplicates(false);
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to read the journal', 'error');
+    }
+  };
+
+  const toImport = pending ? pending.fresh.filter((_, i) => includeDuplicates || !pending.duplicates[i]) : [];
+  const duplicateCount = pending ? pending.duplicates.filter(Boolean).length : 0;
+
+  const handleImport = async () => {
+    if (!pending || toImport.length === 0) return;
+    setBusy(true);
+    try {
+      await commitChange(
+        `${toImport.length} transaction${toImport.length === 1 ? '' : 's'} imported from ${pending.fileName}`,
+        toImport.map(t => ({ before: null, after: t }))
+      );
+      setPending(null);
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to import transactions', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="plain-text-accounting">
+      <div className="plain-text-accounting__toolbar">
+        <select
+          value={settings.format}
+          onChange={(e) => updateSettings({ format: e.target.value as LedgerFormat })}
+          aria-label="Journal format"
+        >
+          {LEDGER_FORMATS.map(f => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+        </select>
+        <button className="btn" onClick={handleExport} disabled={busy}>
+          Export journal
+        </button>
+        <label className="btn btn-ghost">
+          Import journal
+          <input type="file" accept=".beancount,.bean,.ledger,.journal,.hledger,.dat,.txt" onChange={handleFile} hidden />
+        </label>
+      </div>
+
+      {pending && (
+        <div className="plain-text-accounting__import">
+          <p className="small-muted">
+            {pending.fileName}: {toImport.length} to import
+            {pending.known > 0 && ` · ${pending.known} already in SafePay`}
+            {duplicateCount > 0 && ` · ${duplicateCount} possible duplicate${duplicateCount === 1 ? '' : 's'}`}
+            {pending.result.errors.length > 0 && ` · ${pending.result.errors.length} unreadable`}
+          </p>
+          {duplicateCount > 0 && (
+            <label className="plain-text-accounting__check">
+              <input
+                type="checkbox"
+                checked={includeDuplicates}
+                onChange={(e) => setIncludeDuplicates(e.target.checked)}
+              />
+              Also import possible duplicates
+            </label>
+          )}
+          {pending.result.errors.length > 0 && (
+            <ul className="plain-text-accounting__errors">
+              {pending.result.errors.slice(0, ERROR_LIMIT).map(error => (
+                <li key={`${error.line}-${error.message}`}>Line {error.line}: {error.message}</li>
+              ))}
+              {pending.result.errors.length > ERROR_LIMIT && (
+                <li>…and {pending.result.errors.length - ERROR_LIMIT} more</li>
+              )}
+            </ul>
+          )}
+          <div className="plain-text-accounting__toolbar">
+            <button className="btn btn-primary" onClick={handleImport} disabled={busy || toImport.length === 0}>
+              {`Import ${toImport.length} transaction${toImport.length === 1 ? '' : 's'}`}
+            </button>
+            <button className="btn btn-ghost" onClick={() => setPending(null)} disabled={busy}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <details className="plain-text-accounting__mapping">
+        <summary>Account mapping</summary>
+        <p className="small-muted">
+          Leave a field empty to use the suggested name. Income in a category is posted to Income instead of Expenses.
+        </p>
+        <div className="plain-text-accounting__grid">
+          {categories.map(category => (
+            <label key={category}>
+              <span>{category}</span>
+              <input
+                type="text"
+                value={settings.categoryAccounts[category] || ''}
+                placeholder={categoryAccount(category, 'expense', LedgerSettingsStorage.DEFAULT_SETTINGS)}
+                onChange={(e) => updateMap('categoryAccounts', category, e.target.value)}
+              />
+            </label>
+          ))}
+          {accounts.map(account => (
+            <label key={account.id}>
+              <span>{account.name}</span>
+              <input
+                type="text"
+                value={settings.assetAccounts[account.id] || ''}
+                placeholder={assetAccount(account, LedgerSettingsStorage.DEFAULT_SETTINGS)}
+                onChange={(e) => updateMap('assetAccounts', account.id, e.target.value)}
+              />
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default PlainTextAccounting;
@@ -0,0 +1,237 @@
+/**
+ * Recurring Form Component
+ * Creates recurring rules such as "rent on the 1st of every month"
+ */
+
+import React, { useState } from 'react';
+import { RecurrenceFrequency, RecurrenceRule, TransactionType } from '../types';
+import { getCategoryPaths } from '../services/categories';
+import { addRecurring } from '../services/recurring';
+import { AccountStorage, CurrencyStorage } from '../utils/storage';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { WEEKDAYS, describeRule, toDateKey } from '../utils/recurrence';
+import { useToast } from './Toast';
+
+export interface RecurringFormDefaults {
+  name?: string;
+  amount?: number;
+  currency?: string;
+  category?: string;
+  frequency?: RecurrenceFrequency;
+  startDate?: string;
+}
+
+interface RecurringFormProps {
+  defaults?: RecurringFormDefaults;
+  onCreated: () => void;
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  'daily': 'Daily',
+  'weekly': 'Weekly',
+  'monthly': 'Monthly (same day)',
+  'yearly': 'Yearly',
+  'nth-weekday': 'Monthly (nth weekday)',
+};
+
+const RecurringForm: React.FC<RecurringFormProps> = ({ defaults = {}, onCreated }) => {
+  const { showToast } = useToast();
+  const [accounts] = useState(() => AccountStorage.loadAccounts().filter(a => !a.archived));
+  const [name, setName] = useState(defaults.name || '');
+  const [amount, setAmount] = useState(defaults.amount ? String(defaults.amount) : '');
+  const [currency, setCurrency] = useState(defaults.currency || CurrencyStorage.loadBaseCurrency());
+  const [type, setType] = useState<TransactionType>('expense');
+  const [categories] = useState(() => getCategoryPaths());
+  const [category, setCategory] = useState(defaults.category || categories[0]);
+  const [accountId, setAccountId] = useState('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>(defaults.frequency || 'monthly');
+  const [every, setEvery] = useState('1');
+  const [startDate, setStartDate] = useState(defaults.startDate || toDateKey(new Date()));
+  const [endDate, setEndDate] = useState('');
+  const [weekday, setWeekday] = useState(1);
+  const [nth, setNth] = useState(1);
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: parseInt(every, 10),
+    startDate,
+    endDate: endDate || undefined,
+    ...(frequency === 'nth-weekday' ? { weekday, nth } : {}),
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amountNum = parseFloat(amount);
+    if (!isFinite(amountNum) || amountNum <= 0) {
+      showToast('Amount must be greater than 0', 'error');
+      return;
+    }
+
+    try {
+      const created = addRecurring(name, rule, {
+        amount: amountNum,
+        currency,
+        type,
+        category,
+        note: name.trim() || undefined,
+        accountId: accountId || undefined,
+      });
+      showToast(`"${created.name}" scheduled: ${describeRule(created.rule)}`, 'success');
+      setName('');
+      setAmount('');
+      onCreated();
+    } catch (error: any) {
+      showToast(error?.message || 'Failed to save recurring transaction', 'error');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="transaction-form">
+      <div className="transaction-form__grid">
+        <div className="transaction-form__field">
+          <label htmlFor="recurring-name">Name</label>
+          <input
+            id="recurring-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Rent, Netflix"
+          />
+        </div>
+
+        <div className="transaction-form__field">
+          <label htmlFor="recurring-amount">Amount *</label>
+          <input
+            id="recurring-amount"
+            type="number"
+            step="0.01"
+            min="0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.00"
+            required
+          />
+        </div>
+
+        <div className="transaction-form__field">
+          <label htmlFor="recurring-currency">Currency</label>
+          <select id="recurring-currency" value={currency} onChange={(e) => setCurrency(e.target.value)}>
+            {SUPPORTED_CURRENCIES.map(c => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="transaction-form__field">
+          <label htmlFor="recurring-type">Type</label>
+          <select id="recurring-type" value={type} onChange={(e) => setType(e.target.value as TransactionType)}>
+            <option value="expense">Expense</option>
+            <option value="income">Income</option>
+          </select>
+        </div>
+
+        <div className="transaction-form__field">
+          <label htmlFor="recurring-category">Category</label>
+          <select id="recurring-category" value={category} onChange={(e) => setCategory(e.target.value)}>
+            {Array.from(new Set<string>([...categories, category])).map(c => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+        </div>
+
+        {accounts.length > 0 && (
+          <div className="transaction-form__field">
+            <label htmlFor="recurring-account">Account</label>
+            <select id="recurring-account" value={accountId} onChange={(e) => setAccountId(e.target.value)}>
+              <option value="">No account</option>
+              {accounts.map(a => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="transaction-form__field">
+          <label htmlFor="recurring-frequency">Repeats</label>
+          <select
+            id="recurring-frequency"
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)}
+          >
+            {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(f => (
+              <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="transaction-form__field">
+          <label htmlFor="recurring-interval">Every</label>
+          <input
+            id="recurring-interval"
+            type="number"
+            min="1"
+            step="1"
+            value={every}
+            onChange={(e) => setEvery(e.target.value)}
+          />
+        </div>
+
+        {frequency === 'nth-weekday' && (
+          <>
+            <div className="transaction-form__field">
+              <label htmlFor="recurring-nth">Week of Month</label>
+              <select id="recurring-nth" value={nth} onChange={(e) => setNth(Number(e.target.value))}>
+                <option value={1}>1st</option>
+                <option value={2}>2nd</option>
+                <option value={3}>3rd</option>
+                <option value={4}>4th</option>
+                <option value={-1}>Last</option>
+              </select>
+            </div>
+            <div className="transaction-form__field">
+              <label htmlFor="recurring-weekday">Weekday</label>
+              <select id="recurring-weekday" value={weekday} onChange={(e) => setWeekday(Number(e.target.value))}>
+                {WEEKDAYS.map((day, index) => (
+                  <option key={day} value={index}>{day}</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+
+        <div className="transaction-form__field">
+          <label htmlFor="recurring-start">Starts</label>
+          <input
+            id="recurring-start"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="transaction-form__field">
+          <label htmlFor="recurring-end">Ends (optional)</label>
+          <input
+            id="recurring-end"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+
+        <div className="transaction-form__field transaction-form__field--full">
+          {rule.interval >= 1 && startDate && (
+            <p className="small-muted">{describeRule(rule)}</p>
+          )}
+          <button type="submit" className="btn">
+            Add Recurring
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default RecurringForm;
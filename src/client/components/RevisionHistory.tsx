@@ -0,0 +1,60 @@
+/**
+ * Revision History Component
+ * Field-level edit log of a transaction, newest first, with the anchored revision marked
+ */
+
+import React from 'react';
+import { Transaction } from '../types';
+import { formatDate } from '../utils/analytics';
+import { anchoredRevision, fieldLabel, formatChangeValue } from '../utils/revisions';
+import './RevisionHistory.css';
+
+interface RevisionHistoryProps {
+  transaction: Transaction;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ transaction }) => {
+  const revisions = [...(transaction.revisions || [])].reverse();
+  const anchored = anchoredRevision(transaction);
+
+  const anchoredBadge = (revision: number) =>
+    anchored === revision ? <span className="badge badge-success">Anchored</span> : null;
+
+  return (
+    <ol className="revision-history">
+      {revisions.map(revision => (
+        <li key={revision.revision} className="revision-history__entry">
+          <div className="revision-history__header">
+            <strong>Revision {revision.revision}</strong>
+            {anchoredBadge(revision.revision)}
+            <span className="small-muted">
+              {formatDate(revision.editedAt, 'long')}
+              {revision.editedBy && ` · by ${shortAddress(revision.editedBy)}`}
+            </span>
+          </div>
+          <ul className="revision-history__changes">
+            {revision.changes.map(change => (
+              <li key={change.field}>
+                <span className="revision-history__field">{fieldLabel(change.field)}</span>
+                <span className="revision-history__from">{formatChangeValue(change.field, change.from)}</span>
+                {' → '}
+                <span>{formatChangeValue(change.field, change.to)}</span>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+      <li className="revision-history__entry">
+        <div className="revision-history__header">
+          <strong>Revision 0</strong>
+          {anchoredBadge(0)}
+          <span className="small-muted">Original entry</span>
+        </div>
+      </li>
+    </ol>
+  );
+};
+
+export default RevisionHistory;
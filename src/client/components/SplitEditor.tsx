@@ -0,0 +1,122 @@
+/**
+ * Split Editor Component
+ * Edits the category lines of a split transaction
+ */
+
+import React from 'react';
+import { TransactionSplit } from '../types';
+import { getCategoryPaths } from '../services/categories';
+import { formatCurrency } from '../utils/analytics';
+import './SplitEditor.css';
+
+/**
+ * A split line as typed by the user, before the amount is parsed
+ */
+export interface SplitDraft {
+  category: string;
+  amount: string;
+  note: string;
+}
+
+export function emptySplitDraft(category: string = getCategoryPaths()[0]): SplitDraft {
+  return { category, amount: '', note: '' };
+}
+
+export function splitsToDrafts(splits: TransactionSplit[]): SplitDraft[] {
+  return splits.map(s => ({ category: s.category, amount: String(s.amount), note: s.note || '' }));
+}
+
+export function draftsToSplits(drafts: SplitDraft[]): TransactionSplit[] {
+  return drafts.map(d => ({
+    category: d.category.trim(),
+    amount: parseFloat(d.amount) || 0,
+    note: d.note.trim() || undefined,
+  }));
+}
+
+interface SplitEditorProps {
+  drafts: SplitDraft[];
+  onChange: (drafts: SplitDraft[]) => void;
+  total: number;
+  currency: string;
+}
+
+const SplitEditor: React.FC<SplitEditorProps> = ({ drafts, onChange, total, currency }) => {
+  const allocated = drafts.reduce((sum, d) => sum + (parseFloat(d.amount) || 0), 0);
+  const remaining = (isFinite(total) ? total : 0) - allocated;
+
+  const updateLine = (index: number, patch: Partial<SplitDraft>) => {
+    onChange(drafts.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const removeLine = (index: number) => {
+    onChange(drafts.filter((_, i) => i !== index));
+  };
+
+  const addLine = () => {
+    const line = emptySplitDraft();
+    if (remaining > 0) {
+      line.amount = remaining.toFixed(2);
+    }
+    onChange([...drafts, line]);
+  };
+
+  return (
+    <div className="split-editor">
+      {drafts.map((draft, index) => (
+        <div key={index} className="split-editor__row">
+          <input
+            type="text"
+            list="split-editor-categories"
+            value={draft.category}
+            onChange={(e) => updateLine(index, { category: e.target.value })}
+            placeholder="Category"
+            aria-label={`Split ${index + 1} category`}
+          />
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={draft.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            placeholder="0.00"
+            aria-label={`Split ${index + 1} amount`}
+          />
+          <input
+            type="text"
+            value={draft.note}
+            onChange={(e) => updateLine(index, { note: e.target.value })}
+            placeholder="Note (optional)"
+            aria-label={`Split ${index + 1} note`}
+          />
+          <button
+            type="button"
+            className="btn btn-ghost"
+            onClick={() => removeLine(index)}
+            disabled={drafts.length <= 2}
+            title="Remove line"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <datalist id="split-editor-categories">
+        {getCategoryPaths().map(c => (
+          <option key={c} value={c} />
+        ))}
+      </datalist>
+      <div className="split-editor__footer">
+        <button type="button" className="btn btn-ghost" onClick={addLine}>
+          + Add Line
+        </button>
+        <span
+          className={`small-muted${Math.abs(remaining) > 0.005 ? ' split-editor__remaining--off' : ''}`}
+        >
+          {remaining >= 0 ? 'Remaining' : 'Over by'}: {formatCurrency(Math.abs(remaining), currency)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default SplitEditor;
@@ -0,0 +1,267 @@
+/**
+ * Statement Importer Component
+ * Imports OFX, QFX, QIF, MT940 and CAMT.053 statements into the matching
+ * account and checks the result against the bank's balance
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Account, Classifier, Transaction } from '../types';
+import { AccountStorage, ClassifierStorage, CurrencyStorage, TransactionCache } from '../utils/storage';
+import { decodeStatement, flagDuplicates } from '../utils/csvImport';
+import {
+  BankStatement,
+  STATEMENT_FILE_TYPES,
+  STATEMENT_FORMATS,
+  accountForStatement,
+  findStatementAccount,
+  newStatementEntries,
+  parseStatementFile,
+  reconcileStatement,
+  statementEntryToTransaction,
+} from '../utils/statementImport';
+import { formatCurrency, formatDate } from '../utils/analytics';
+import { suggestCategory } from '../services/ai';
+import { commitChange } from '../services/undo';
+import { defaultClassifier } from '../lib/classifier';
+import { useToast } from './Toast';
+import './StatementImporter.css';
+
+interface StatementPlan {
+  statement: BankStatement;
+  /** Existing account to import into; empty creates newAccount */
+  accountId: string;
+  newAccount: Account;
+}
+
+/** Rows shown per statement; the import itself covers every entry */
+const PREVIEW_LIMIT = 200;
+
+const StatementImporter: React.FC = () => {
+  const { showToast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [plans, setPlans] = useState<StatementPlan[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [existing, setExisting] = useState<Transaction[]>([]);
+  const [classifier, setClassifier] = useState<Classifier>(() => defaultClassifier());
+  const [included, setIncluded] = useState<Record<string, boolean>>({});
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    ClassifierStorage.loadClassifier()
+      .then(loaded => {
+        if (loaded) setClassifier(loaded);
+      })
+      .catch(error => console.error('Failed to load classifier:', error));
+  }, []);
+
+  const previews = useMemo(() => plans.map(({ statement, accountId, newAccount }, s) => {
+    const account = accounts.find(a => a.id === accountId) || newAccount;
+    const fresh = newStatementEntries(statement, account.id, existing);
+    const candidates = fresh.map((entry, i) => statementEntryToTransaction(statement, entry, {
+      id: `stmt_${Date.now().toString(36)}_${s}_${i}`,
+      category: entry.category
+        || suggestCategory(`${entry.name} ${entry.memo}`, Math.abs(entry.amount), classifier).category,
+      account,
+    }));
+    // Entries the bank has no id for may still match something typed in by hand
+    const duplicates = flagDuplicates(candidates, existing.filter(t => !t.externalId));
+    const rows = candidates.map((transaction, i) => {
+      const key = `${s}:${fresh[i].id}`;
+      return { key, transaction, duplicate: duplicates[i], include: included[key] ?? !duplicates[i] };
+    });
+    const transactions = rows.filter(r => r.include).map(r => r.transaction);
+
+    return {
+      statement,
+      account,
+      isNew: account === newAccount,
+      rows,
+      transactions,
+      skipped: statement.entries.length - fresh.length,
+      reconciliation: reconcileStatement(statement, account, [...existing, ...transactions]),
+    };
+  }), [plans, accounts, existing, classifier, included]);
+
+  const total = previews.reduce((sum, p) => sum + p.transactions.length, 0);
+
+  const reset = () => {
+    setFileName(null);
+    setPlans([]);
+    setIncluded({});
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+
+    try {
+      const { text } = decodeStatement(await picked.arrayBuffer());
+      const statements = parseStatementFile(text);
+
+      // Ids of earlier imports are checked against the cache
+      await TransactionCache.loadCache();
+      setExisting(TransactionCache.getCachedTransactions());
+      const loaded = AccountStorage.loadAccounts().filter(a => !a.archived);
+      const baseCurrency = CurrencyStorage.getContext().baseCurrency;
+      setAccounts(loaded);
+      setPlans(statements.map(statement => ({
+        statement,
+        accountId: findStatementAccount(loaded, statement)?.id || '',
+        newAccount: accountForStatement(statement, baseCurrency),
+      })));
+      setIncluded({});
+      setFileName(picked.name);
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to read the file', 'error');
+    }
+  };
+
+  const chooseAccount = (index: number, accountId: string) => {
+    setPlans(plans.map((plan, i) => (i === index ? { ...plan, accountId } : plan)));
+    setIncluded({});
+  };
+
+  const handleImport = async () => {
+    if (!fileName || total === 0) return;
+    setImporting(true);
+    try {
+      previews.filter(p => p.transactions.length > 0).forEach(({ statement, account, isNew }) => {
+        if (isNew) {
+          AccountStorage.upsertAccount(account);
+        } else if (statement.accountKey && !account.bankAccountId) {
+          // Remember the account number so the next statement lands here by itself
+          AccountStorage.upsertAccount({ ...account, bankAccountId: statement.accountKey });
+        }
+      });
+      const transactions = previews.reduce<Transaction[]>((all, p) => all.concat(p.transactions), []);
+      await commitChange(
+        `${total} transaction${total === 1 ? '' : 's'} imported from ${fileName}`,
+        transactions.map(t => ({ before: null, after: t }))
+      );
+
+      const mismatched = previews.filter(p => p.transactions.length > 0 && p.reconciliation && !p.reconciliation.matches);
+      if (mismatched.length > 0) {
+        showToast(`${mismatched.map(p => p.account.name).join(', ')} does not match the bank's balance`, 'warning');
+      }
+      reset();
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to import transactions', 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="statement-importer">
+      <div className="statement-importer__toolbar">
+        <label className="btn">
+          Choose statement file
+          <input type="file" accept={STATEMENT_FILE_TYPES} onChange={handleFile} hidden />
+        </label>
+        {fileName && (
+          <span className="small-muted">
+            {fileName}
+            {plans.length > 0 && ` · ${STATEMENT_FORMATS[plans[0].statement.format]}`}
+          </span>
+        )}
+      </div>
+
+      {previews.map(({ statement, account, rows, transactions, skipped, reconciliation }, s) => {
+        const duplicateCount = rows.filter(r => r.duplicate && !r.include).length;
+        const currency = account.currency;
+        return (
+          <div key={s} className="statement-importer__statement">
+            <div className="statement-importer__header">
+              <select
+                value={plans[s].accountId}
+                onChange={(e) => chooseAccount(s, e.target.value)}
+                aria-label="Import into account"
+              >
+                <option value="">New account: {plans[s].newAccount.name}</option>
+                {accounts.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+              <span className="small-muted">
+                {currency}
+                {statement.startDate && statement.endDate && ` · ${statement.startDate} to ${statement.endDate}`}
+              </span>
+            </div>
+            <p className="small-muted">
+              {transactions.length} to import
+              {skipped > 0 && ` · ${skipped} already imported`}
+              {duplicateCount > 0 && ` · ${duplicateCount} possible duplicate${duplicateCount === 1 ? '' : 's'} skipped`}
+            </p>
+            {reconciliation && (
+              <p className={reconciliation.matches
+                ? 'statement-importer__balance'
+                : 'statement-importer__balance statement-importer__balance--off'}
+              >
+                {reconciliation.matches
+                  ? `Balance on ${reconciliation.asOf} matches the bank: ${formatCurrency(reconciliation.expected, currency)}`
+                  : `Balance on ${reconciliation.asOf} would be ${formatCurrency(reconciliation.actual, currency)}, `
+                    + `the bank reports ${formatCurrency(reconciliation.expected, currency)} `
+                    + `(off by ${formatCurrency(reconciliation.actual - reconciliation.expected, currency)})`}
+              </p>
+            )}
+
+            {rows.length > 0 && (
+              <div className="statement-importer__preview">
+                <table className="sp-table">
+                  <thead>
+                    <tr>
+                      <th />
+                      <th>Date</th>
+                      <th>Description</th>
+                      <th style={{ textAlign: 'right' }}>Amount</th>
+                      <th>Category</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, PREVIEW_LIMIT).map(({ key, transaction: t, duplicate, include }) => (
+                      <tr key={key} className={include ? undefined : 'statement-importer__skipped'}>
+                        <td>
+                          <input
+                            type="checkbox"
+                            checked={include}
+                            onChange={(e) => setIncluded({ ...included, [key]: e.target.checked })}
+                            aria-label={`Import ${t.note || 'entry'}`}
+                          />
+                        </td>
+                        <td>{formatDate(t.timestamp)}</td>
+                        <td>{t.note || '—'}</td>
+                        <td style={{ textAlign: 'right' }}>
+                          {formatCurrency(t.type === 'expense' ? -t.amount : t.amount, t.currency)}
+                        </td>
+                        <td>{t.category}</td>
+                        <td className="small-muted">{duplicate ? 'Possible duplicate' : 'New'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {rows.length > PREVIEW_LIMIT && (
+                  <p className="small-muted">Showing the first {PREVIEW_LIMIT} of {rows.length} entries.</p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {fileName && (
+        <div className="statement-importer__toolbar">
+          <button className="btn btn-primary" onClick={handleImport} disabled={importing || total === 0}>
+            {importing ? 'Importing...' : `Import ${total} transaction${total === 1 ? '' : 's'}`}
+          </button>
+          <button className="btn btn-ghost" onClick={reset} disabled={importing}>
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatementImporter;
@@ -0,0 +1,119 @@
+/**
+ * Statement Report Component
+ * Picks a month or date range and downloads a printable PDF statement
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { filterByDateRange } from '../utils/analytics';
+import {
+  StatementRange,
+  describeStatementRange,
+  monthRange,
+  statementFileName,
+  statementMonths,
+} from '../utils/statementReport';
+import { createStatementPdf } from '../services/statementReport';
+import { useToast } from './Toast';
+import './StatementReport.css';
+
+const CUSTOM = 'custom';
+
+interface StatementReportProps {
+  transactions: Transaction[];
+}
+
+function dayInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+const StatementReport: React.FC<StatementReportProps> = ({ transactions }) => {
+  const { showToast } = useToast();
+  const months = useMemo(() => statementMonths(transactions), [transactions]);
+  const [period, setPeriod] = useState<string>('');
+  const [from, setFrom] = useState(() => dayInput(monthRange(new Date()).start));
+  const [to, setTo] = useState(() => dayInput(new Date()));
+  const [includeAttachments, setIncludeAttachments] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const selected = period || (months[0] ? String(months[0].start.getTime()) : CUSTOM);
+  const range = useMemo<StatementRange | null>(() => {
+    if (selected !== CUSTOM) {
+      return months.find(m => String(m.start.getTime()) === selected) || null;
+    }
+    const start = new Date(`${from}T00:00:00`);
+    const end = new Date(`${to}T23:59:59.999`);
+    return isNaN(start.getTime()) || isNaN(end.getTime()) || start > end ? null : { start, end };
+  }, [selected, months, from, to]);
+
+  const inRange = useMemo(
+    () => (range ? filterByDateRange(transactions, range.start, range.end) : []),
+    [transactions, range]
+  );
+  const attachmentCount = inRange.reduce((sum, t) => sum + (t.attachments?.length || 0), 0);
+
+  const handleDownload = async () => {
+    if (!range) return;
+    setBusy(true);
+    try {
+      const { statement, pdf } = await createStatementPdf(range, { includeAttachments });
+      const blob = new Blob([pdf], { type: 'application/pdf' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = statementFileName(range);
+      a.click();
+      URL.revokeObjectURL(url);
+      showToast(`Statement for ${describeStatementRange(statement.range)} downloaded`, 'success');
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to create the statement', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="statement-report">
+      <div className="statement-report__toolbar">
+        <select value={selected} onChange={(e) => setPeriod(e.target.value)} aria-label="Statement period">
+          {months.map(m => (
+            <option key={m.start.getTime()} value={String(m.start.getTime())}>
+              {describeStatementRange(m)}
+            </option>
+          ))}
+          <option value={CUSTOM}>Custom range</option>
+        </select>
+        {selected === CUSTOM && (
+          <>
+            <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} aria-label="From" />
+            <span className="small-muted">to</span>
+            <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} aria-label="To" />
+          </>
+        )}
+      </div>
+
+      <label className="statement-report__check">
+        <input
+          type="checkbox"
+          checked={includeAttachments}
+          onChange={(e) => setIncludeAttachments(e.target.checked)}
+        />
+        Include receipts and attachments{attachmentCount > 0 && ` (${attachmentCount})`}
+      </label>
+
+      <p className="small-muted">
+        {range
+          ? `${inRange.length} transaction${inRange.length === 1 ? '' : 's'} with summary, categories, budgets and proofs. The PDF is made on this device.`
+          : 'Choose a start date on or before the end date.'}
+      </p>
+
+      <div className="statement-report__toolbar">
+        <button className="btn btn-primary" onClick={handleDownload} disabled={busy || !range}>
+          {busy ? 'Creating PDF...' : 'Download PDF'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StatementReport;
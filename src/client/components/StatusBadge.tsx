@@ -5,6 +5,7 @@
 
 import React, { useEffect, useState } from 'react';
 import { SessionStorage, EncryptionStorage } from '../utils/storage';
+import { onAppEvents } from '../utils/eventBus';
 import './StatusBadge.css';
 
 const truncate = (s?: string) => s ? `${s.slice(0, 6)}…${s.slice(-4)}` : '';
@@ -32,13 +33,13 @@ const StatusBadge: React.FC = () => {
       setEncAddr(newEncAddr);
     };
 
+    // Other tabs change storage; this tab announces its changes on the event bus
     window.addEventListener('storage', handleStorageChange);
-    // Also check periodically for same-tab changes
-    const interval = setInterval(handleStorageChange, 1000);
+    const unsubscribe = onAppEvents(['session:changed', 'encryption:changed'], handleStorageChange);
 
     return () => {
       window.removeEventListener('storage', handleStorageChange);
-      clearInterval(interval);
+      unsubscribe();
     };
   }, []);
 
@@ -0,0 +1,87 @@
+/**
+ * Tag Input Component
+ * Chip-style tag entry with autocomplete from tags already in use
+ */
+
+import React, { useState } from 'react';
+import { normalizeTag, parseTags } from '../utils/tags';
+import './TagInput.css';
+
+interface TagInputProps {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** Existing tags offered as suggestions, most used first */
+  suggestions: string[];
+}
+
+const TagInput: React.FC<TagInputProps> = ({ id = 'tags', tags, onChange, suggestions }) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = (value: string) => {
+    const added = parseTags(value).filter(t => !tags.includes(t));
+    if (added.length > 0) {
+      onChange([...tags, ...added]);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === ' ') {
+      if (draft.trim()) {
+        e.preventDefault();
+        commit(draft);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+      }
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  const normalizedDraft = normalizeTag(draft);
+  const options = suggestions.filter(s => !tags.includes(s) && (!normalizedDraft || s.startsWith(normalizedDraft)));
+
+  return (
+    <div className="tag-input">
+      {tags.map(tag => (
+        <span key={tag} className="tag-chip">
+          #{tag}
+          <button
+            type="button"
+            className="tag-chip__remove"
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            aria-label={`Remove tag ${tag}`}
+          >
+            ✕
+          </button>
+        </span>
+      ))}
+      <input
+        id={id}
+        type="text"
+        list={`${id}-suggestions`}
+        value={draft}
+        onChange={(e) => {
+          // Picking a suggestion from the list commits it straight away
+          if (suggestions.includes(e.target.value)) {
+            commit(e.target.value);
+          } else {
+            setDraft(e.target.value);
+          }
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft.trim() && commit(draft)}
+        placeholder={tags.length === 0 ? 'e.g., #trip-lisbon' : ''}
+        className="tag-input__field"
+      />
+      <datalist id={`${id}-suggestions`}>
+        {options.slice(0, 20).map(tag => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,97 @@
+/**
+ * Tag Report Component
+ * Totals, date range and category breakdown for a single tag
+ */
+
+import React, { useMemo, useState } from 'react';
+import { CurrencyContext, Transaction } from '../types';
+import { formatCurrency, formatDate } from '../utils/analytics';
+import { buildTagReport, collectTags } from '../utils/tags';
+import './TagReport.css';
+
+interface TagReportProps {
+  transactions: Transaction[];
+  currency: CurrencyContext;
+}
+
+const TagReport: React.FC<TagReportProps> = ({ transactions, currency }) => {
+  const tags = useMemo(() => collectTags(transactions), [transactions]);
+  const [selected, setSelected] = useState<string>('');
+  const tag = selected || tags[0]?.tag || '';
+  const report = useMemo(
+    () => (tag ? buildTagReport(transactions, tag, currency) : null),
+    [transactions, tag, currency]
+  );
+  const base = currency.baseCurrency;
+
+  if (!report) {
+    return (
+      <p className="small-muted">
+        Add tags such as #trip-lisbon to transactions to see a report for each group.
+      </p>
+    );
+  }
+
+  return (
+    <div className="tag-report">
+      <div className="tag-report__header">
+        <select value={tag} onChange={(e) => setSelected(e.target.value)} aria-label="Tag">
+          {tags.map(t => (
+            <option key={t.tag} value={t.tag}>#{t.tag} ({t.count})</option>
+          ))}
+        </select>
+        {report.firstDate && report.lastDate && (
+          <span className="small-muted">
+            {formatDate(report.firstDate)} – {formatDate(report.lastDate)}
+          </span>
+        )}
+      </div>
+
+      <div className="tag-report__totals">
+        <div>
+          <div className="small-muted">Spent</div>
+          <strong style={{ color: 'var(--color-softred)' }}>{formatCurrency(report.totalExpenses, base)}</strong>
+        </div>
+        <div>
+          <div className="small-muted">Received</div>
+          <strong style={{ color: 'var(--color-success)' }}>{formatCurrency(report.totalIncome, base)}</strong>
+        </div>
+        <div>
+          <div className="small-muted">Net</div>
+          <strong>{formatCurrency(report.netBalance, base)}</strong>
+        </div>
+        <div>
+          <div className="small-muted">Transactions</div>
+          <strong>{report.transactionCount}</strong>
+        </div>
+      </div>
+
+      {report.categories.length > 0 ? (
+        <table className="sp-table">
+          <thead>
+            <tr>
+              <th>Category</th>
+              <th style={{ textAlign: 'right' }}>Count</th>
+              <th style={{ textAlign: 'right' }}>Share</th>
+              <th style={{ textAlign: 'right' }}>Spent</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.categories.map(stat => (
+              <tr key={stat.name}>
+                <td>{stat.name}</td>
+                <td style={{ textAlign: 'right' }}>{stat.count}</td>
+                <td style={{ textAlign: 'right' }}>{stat.percentage.toFixed(1)}%</td>
+                <td style={{ textAlign: 'right' }}>{formatCurrency(stat.value, base)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="small-muted">No expenses carry this tag.</p>
+      )}
+    </div>
+  );
+};
+
+export default TagReport;
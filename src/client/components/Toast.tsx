@@ -8,15 +8,21 @@ import './Toast.css';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Toast {
   id: string;
   message: string;
   type: ToastType;
   duration?: number;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  showToast: (message: string, type?: ToastType, duration?: number) => void;
+  showToast: (message: string, type?: ToastType, duration?: number, action?: ToastAction) => void;
 }
 
 export const ToastContext = React.createContext<ToastContextType>({
@@ -38,9 +44,9 @@ interface ToastProviderProps {
 export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
   const [toasts, setToasts] = useState<Toast[]>([]);
 
-  const showToast = useCallback((message: string, type: ToastType = 'info', duration = 3000) => {
+  const showToast = useCallback((message: string, type: ToastType = 'info', duration = 3000, action?: ToastAction) => {
     const id = Math.random().toString(36).substring(2, 9);
-    const toast: Toast = { id, message, type, duration };
+    const toast: Toast = { id, message, type, duration, action };
     
     setToasts((prev) => [...prev, toast]);
 
@@ -96,6 +102,18 @@ const ToastItem: React.FC<ToastItemProps> = ({ toast, onRemove }) => {
         <span className="toast-icon">{getToastIcon(toast.type)}</span>
         <span className="toast-message">{toast.message}</span>
       </div>
+      {toast.action && (
+        <button
+          className="toast-action"
+          onClick={(e) => {
+            e.stopPropagation();
+            toast.action!.onClick();
+            onRemove(toast.id);
+          }}
+        >
+          {toast.action.label}
+        </button>
+      )}
       <button
         className="toast-close"
         onClick={(e) => {
@@ -4,9 +4,20 @@
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Transaction, Classifier } from '../types';
-import { DEFAULT_CATEGORIES, suggestCategory, trainClassifier } from '../services/ai';
+import { Transaction, TransactionType, Classifier } from '../types';
+import { suggestCategory, trainClassifierOnTransaction } from '../services/ai';
+import { getCategoryPaths, registerCategoryPaths } from '../services/categories';
 import { defaultClassifier } from '../lib/classifier';
+import { AccountStorage, CurrencyStorage, TransactionCache } from '../utils/storage';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { TRANSFER_CATEGORY, validateTransfer } from '../utils/accounts';
+import { SPLIT_CATEGORY, transactionCategories, validateSplits } from '../utils/splits';
+import { collectTags } from '../utils/tags';
+import SplitEditor, { SplitDraft, draftsToSplits, emptySplitDraft } from './SplitEditor';
+import TagInput from './TagInput';
+import { storeAttachments } from '../services/attachments';
+import { scanReceipt } from '../ai/ocr/receiptScanner';
+import { ACCEPTED_ATTACHMENT_TYPES, formatFileSize, validateAttachmentFile } from '../utils/attachments';
 import { useToast } from './Toast';
 
 interface TransactionFormProps {
@@ -30,10 +41,23 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
 }) => {
   const { showToast } = useToast();
   const [amount, setAmount] = useState<string>('');
-  const [type, setType] = useState<'income' | 'expense'>('expense');
-  const [category, setCategory] = useState<string>(DEFAULT_CATEGORIES[0]);
+  const [type, setType] = useState<TransactionType>('expense');
+  const [categories] = useState(() => getCategoryPaths());
+  const [category, setCategory] = useState<string>(categories[0]);
   const [customCategory, setCustomCategory] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(() => CurrencyStorage.loadBaseCurrency());
+  const [accounts] = useState(() => AccountStorage.loadAccounts().filter(a => !a.archived));
+  const [accountId, setAccountId] = useState<string>('');
+  const [toAccountId, setToAccountId] = useState<string>('');
+  const [toAmount, setToAmount] = useState<string>('');
   const [note, setNote] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [knownTags] = useState(() => collectTags(TransactionCache.getCachedTransactions()).map(t => t.tag));
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitDrafts, setSplitDrafts] = useState<SplitDraft[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [suggestedCategory, setSuggestedCategory] = useState<string | null>(null);
   const [userEditedCategory, setUserEditedCategory] = useState(false);
@@ -72,6 +96,66 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
     }
   }, [note, amount, classifier, userEditedCategory, onCategorySuggestion]);
 
+  const destination = accounts.find(a => a.id === toAccountId);
+  const needsToAmount = type === 'transfer' && !!destination && destination.currency !== currency;
+
+  const handleSplitToggle = (enabled: boolean) => {
+    setIsSplit(enabled);
+    if (enabled && splitDrafts.length === 0) {
+      const first = category === 'Custom' ? (customCategory.trim() || categories[0]) : category;
+      setSplitDrafts([{ ...emptySplitDraft(first), amount: amount }, emptySplitDraft()]);
+    }
+  };
+
+  const addFiles = (selected: FileList | null) => {
+    Array.from(selected || []).forEach(file => {
+      const fileError = validateAttachmentFile(file);
+      if (fileError) {
+        showToast(fileError, 'error');
+      } else {
+        setFiles(prev => [...prev, file]);
+      }
+    });
+  };
+
+  // Read the receipt to pre-fill the form and keep the image as an attachment
+  const handleScanReceipt = async (file: File | undefined) => {
+    if (!file) return;
+    const fileError = validateAttachmentFile(file);
+    if (fileError) {
+      showToast(fileError, 'error');
+      return;
+    }
+
+    setFiles(prev => [...prev, file]);
+    setScanning(true);
+    try {
+      const result = await scanReceipt(file, category === 'Custom' ? 'Other' : category);
+      if (result.success && result.transaction) {
+        if (result.transaction.amount) {
+          setAmount(Math.abs(result.transaction.amount).toFixed(2));
+          setTouched(prev => ({ ...prev, amount: true }));
+        }
+        if (result.transaction.note && !note.trim()) {
+          setNote(result.transaction.note);
+        }
+        showToast('Receipt scanned and attached', 'success');
+      } else {
+        showToast(`${result.error || 'Could not read the receipt'}; it is still attached`, 'warning');
+      }
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleAccountChange = (id: string) => {
+    setAccountId(id);
+    const account = accounts.find(a => a.id === id);
+    if (account) {
+      setCurrency(account.currency);
+    }
+  };
+
   const validateForm = (): boolean => {
     const errors: string[] = [];
     setTouched({ amount: true, category: true });
@@ -83,10 +167,28 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
       errors.push('Amount must be greater than 0');
     }
 
-    if (category === 'Custom' && !customCategory.trim()) {
+    const splitting = isSplit && type === 'expense';
+
+    if (type !== 'transfer' && !splitting && category === 'Custom' && !customCategory.trim()) {
       errors.push('Please enter a custom category name');
     }
 
+    if (splitting && errors.length === 0) {
+      const splitError = validateSplits(amountNum, draftsToSplits(splitDrafts));
+      if (splitError) {
+        errors.push(splitError);
+      }
+    }
+
+    if (type === 'transfer') {
+      const transferError = validateTransfer({ accountId, toAccountId, amount: amountNum }, accounts);
+      if (transferError) {
+        errors.push(transferError);
+      } else if (needsToAmount && !(parseFloat(toAmount) > 0)) {
+        errors.push('Please enter the amount received');
+      }
+    }
+
     if (errors.length > 0) {
       setError(errors[0]);
       showToast(errors[0], 'error');
@@ -96,7 +198,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
     return true;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
@@ -105,29 +207,72 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
     }
 
     const amountNum = parseFloat(amount);
-    const finalCategory = category === 'Custom' ? (customCategory.trim() || 'Custom') : category;
+    const splitting = isSplit && type === 'expense';
+    const finalCategory = type === 'transfer'
+      ? TRANSFER_CATEGORY
+      : splitting
+        ? SPLIT_CATEGORY
+        : category === 'Custom' ? (customCategory.trim() || 'Custom') : category;
 
     const transaction: Omit<Transaction, 'id' | 'timestamp' | 'proof'> = {
       amount: amountNum,
+      currency,
       type,
       category: finalCategory,
       note: note.trim() || undefined,
+      accountId: accountId || undefined,
+      tags: tags.length > 0 ? tags : undefined,
     };
 
-    // Train classifier
-    if (note.trim()) {
-      const updatedClassifier = trainClassifier(classifier, note, finalCategory);
-      onClassifierUpdate(updatedClassifier);
+    if (splitting) {
+      transaction.splits = draftsToSplits(splitDrafts);
+    }
+
+    if (type === 'transfer') {
+      transaction.toAccountId = toAccountId;
+      if (needsToAmount) {
+        transaction.toAmount = parseFloat(toAmount);
+      }
+    }
+
+    if (files.length > 0) {
+      setSaving(true);
+      try {
+        transaction.attachments = await storeAttachments(files);
+      } catch (err: any) {
+        const message = err?.message || 'Failed to store attachments';
+        setError(message);
+        showToast(message, 'error');
+        return;
+      } finally {
+        setSaving(false);
+      }
+    }
+
+    // Train classifier per line (transfers carry no spending category)
+    if (type !== 'transfer') {
+      const updatedClassifier = trainClassifierOnTransaction(classifier, transaction);
+      if (updatedClassifier !== classifier) {
+        onClassifierUpdate(updatedClassifier);
+      }
     }
 
     onSubmit(transaction);
-    showToast(`${type === 'income' ? 'Income' : 'Expense'} added successfully`, 'success');
+    if (type !== 'transfer') {
+      registerCategoryPaths(transactionCategories(transaction))
+        .catch(err => console.error('Failed to register categories:', err));
+    }
 
     // Reset form
     setAmount('');
+    setToAmount('');
     setNote('');
+    setTags([]);
+    setFiles([]);
     setCustomCategory('');
-    setCategory(DEFAULT_CATEGORIES[0]);
+    setCategory(categories[0]);
+    setIsSplit(false);
+    setSplitDrafts([]);
     setUserEditedCategory(false);
     setSuggestedCategory(null);
     setTouched({});
@@ -171,41 +316,110 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
         </div>
 
         <div className="transaction-form__field">
-          <label htmlFor="type">Type</label>
+          <label htmlFor="currency">Currency</label>
           <select
-            id="type"
-            value={type}
-            onChange={(e) => setType(e.target.value as 'income' | 'expense')}
+            id="currency"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
           >
-            <option value="expense">Expense</option>
-            <option value="income">Income</option>
+            {SUPPORTED_CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
           </select>
         </div>
 
         <div className="transaction-form__field">
-          <label htmlFor="category">Category</label>
+          <label htmlFor="type">Type</label>
           <select
-            id="category"
-            value={category}
-            onChange={(e) => {
-              setCategory(e.target.value);
-              setUserEditedCategory(true);
-            }}
+            id="type"
+            value={type}
+            onChange={(e) => setType(e.target.value as TransactionType)}
           >
-            {DEFAULT_CATEGORIES.map((c) => (
-              <option key={c} value={c}>
-                {c}
-              </option>
-            ))}
-            <option value="Custom">Custom</option>
+            <option value="expense">Expense</option>
+            <option value="income">Income</option>
+            {accounts.length >= 2 && <option value="transfer">Transfer</option>}
           </select>
-          {suggestedCategory && !userEditedCategory && (
-            <div className="transaction-form__suggestion">
-              Suggested: <strong>{suggestedCategory}</strong>
-            </div>
-          )}
         </div>
 
+        {accounts.length > 0 && (
+          <div className="transaction-form__field">
+            <label htmlFor="account">{type === 'transfer' ? 'From Account' : 'Account'}</label>
+            <select
+              id="account"
+              value={accountId}
+              onChange={(e) => handleAccountChange(e.target.value)}
+            >
+              <option value="">{type === 'transfer' ? 'Select account' : 'No account'}</option>
+              {accounts.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {type === 'transfer' && (
+          <div className="transaction-form__field">
+            <label htmlFor="toAccount">To Account</label>
+            <select
+              id="toAccount"
+              value={toAccountId}
+              onChange={(e) => setToAccountId(e.target.value)}
+            >
+              <option value="">Select account</option>
+              {accounts.filter(a => a.id !== accountId).map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {needsToAmount && destination && (
+          <div className="transaction-form__field">
+            <label htmlFor="toAmount">Amount Received ({destination.currency})</label>
+            <input
+              id="toAmount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={toAmount}
+              onChange={(e) => setToAmount(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+        )}
+
+        {type !== 'transfer' && !(isSplit && type === 'expense') && (
+          <div className="transaction-form__field">
+            <label htmlFor="category">Category</label>
+            <select
+              id="category"
+              value={category}
+              onChange={(e) => {
+                setCategory(e.target.value);
+                setUserEditedCategory(true);
+              }}
+            >
+              {categories.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+              <option value="Custom">Custom</option>
+            </select>
+            {suggestedCategory && !userEditedCategory && (
+              <div className="transaction-form__suggestion">
+                Suggested: <strong>{suggestedCategory}</strong>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="transaction-form__field">
           <label htmlFor="note">Note (optional)</label>
           <input
@@ -217,7 +431,33 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
           />
         </div>
 
-        {category === 'Custom' && (
+        <div className="transaction-form__field">
+          <label htmlFor="tags">Tags (optional)</label>
+          <TagInput tags={tags} onChange={setTags} suggestions={knownTags} />
+        </div>
+
+        {type === 'expense' && (
+          <div className="transaction-form__field transaction-form__field--full">
+            <label>
+              <input
+                type="checkbox"
+                checked={isSplit}
+                onChange={(e) => handleSplitToggle(e.target.checked)}
+              />{' '}
+              Split across categories
+            </label>
+            {isSplit && (
+              <SplitEditor
+                drafts={splitDrafts}
+                onChange={setSplitDrafts}
+                total={parseFloat(amount)}
+                currency={currency}
+              />
+            )}
+          </div>
+        )}
+
+        {type !== 'transfer' && !(isSplit && type === 'expense') && category === 'Custom' && (
           <div className="transaction-form__field transaction-form__field--full">
             <label htmlFor="customCategory">Custom Category</label>
             <input
@@ -232,8 +472,54 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
         )}
 
         <div className="transaction-form__field transaction-form__field--full">
-          <button type="submit" className="btn">
-            Add Transaction
+          <label>Receipts & Documents (optional)</label>
+          <div className="transaction-form__attachments">
+            <label className="btn btn-ghost">
+              {scanning ? 'Scanning...' : 'Scan Receipt'}
+              <input
+                type="file"
+                accept="image/*"
+                hidden
+                disabled={scanning}
+                onChange={(e) => {
+                  handleScanReceipt(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <label className="btn btn-ghost">
+              Attach File
+              <input
+                type="file"
+                accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+                multiple
+                hidden
+                onChange={(e) => {
+                  addFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {files.map((file, index) => (
+              <span key={`${file.name}-${index}`} className="tag-chip">
+                📎 {file.name} ({formatFileSize(file.size)})
+                <button
+                  type="button"
+                  className="tag-chip__remove"
+                  onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${file.name}`}
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+          </div>
+          <p className="small-muted">Stored on this device and encrypted together with your transactions.</p>
+        </div>
+
+        <div className="transaction-form__field transaction-form__field--full">
+          <button type="submit" className="btn" disabled={saving || scanning}>
+            {saving ? 'Saving...' : 'Add Transaction'}
           </button>
         </div>
       </div>
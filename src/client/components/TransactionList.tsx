@@ -4,8 +4,21 @@
  */
 
 import React, { useState } from 'react';
-import { Transaction } from '../types';
+import { Attachment, Transaction } from '../types';
 import { formatCurrency, formatDate } from '../utils/analytics';
+import { transactionCurrency } from '../utils/currency';
+import { accountName, amountPrefix } from '../utils/accounts';
+import { AccountStorage } from '../utils/storage';
+import { hasSplits, validateSplits } from '../utils/splits';
+import { collectTags } from '../utils/tags';
+import SplitEditor, { SplitDraft, draftsToSplits, splitsToDrafts } from './SplitEditor';
+import TagInput from './TagInput';
+import AttachmentThumbnails from './AttachmentThumbnails';
+import AttachmentViewer from './AttachmentViewer';
+import RevisionHistory from './RevisionHistory';
+import { attachFiles, detachAttachment } from '../services/attachments';
+import { ACCEPTED_ATTACHMENT_TYPES } from '../utils/attachments';
+import { anchoredRevision, currentRevision, isModifiedAfterAnchor } from '../utils/revisions';
 import { anchorProof, verifyProof, getExplorerUrl } from '../services/blockchain';
 import { useToast } from './Toast';
 import ConfirmDialog from './ConfirmDialog';
@@ -36,12 +49,41 @@ const TransactionList: React.FC<TransactionListProps> = ({
   const [editAmount, setEditAmount] = useState<string>('');
   const [editNote, setEditNote] = useState<string>('');
   const [editCategory, setEditCategory] = useState<string>('');
+  const [editSplits, setEditSplits] = useState<SplitDraft[]>([]);
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [accounts] = useState(() => AccountStorage.loadAccounts());
+  const [viewing, setViewing] = useState<{ transaction: Transaction; attachment: Attachment } | null>(null);
+  const [proofSkipsAttachments, setProofSkipsAttachments] = useState<Record<string | number, boolean>>({});
+  const [historyId, setHistoryId] = useState<string | number | null>(null);
+
+  const handleAttach = async (transaction: Transaction, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      const updated = await attachFiles(transaction, Array.from(files));
+      onTransactionUpdate(updated);
+      showToast(files.length === 1 ? 'Attachment added' : `${files.length} attachments added`, 'success');
+    } catch (error: any) {
+      showToast(error?.message || 'Failed to add attachment', 'error');
+    }
+  };
+
+  const handleRemoveAttachment = async (transaction: Transaction, attachment: Attachment) => {
+    try {
+      onTransactionUpdate(await detachAttachment(transaction, attachment.id));
+      setViewing(null);
+      showToast(`${attachment.name} removed`, 'success');
+    } catch (error: any) {
+      showToast(error?.message || 'Failed to remove attachment', 'error');
+    }
+  };
 
   const handleAnchorProof = async (transaction: Transaction) => {
     setAnchoring({ ...anchoring, [transaction.id]: true });
     try {
       showToast('Anchoring transaction proof on blockchain...', 'info');
-      const proof = await anchorProof(transaction);
+      const proof = await anchorProof(transaction, {
+        includeAttachments: !proofSkipsAttachments[transaction.id],
+      });
       const updated: Transaction = {
         ...transaction,
         proof,
@@ -60,9 +102,11 @@ const TransactionList: React.FC<TransactionListProps> = ({
     setVerifying({ ...verifying, [transaction.id]: true });
     try {
       const verified = await verifyProof(transaction);
-      const message = verified
-        ? '✓ Verified: Proof matches on-chain data'
-        : '✗ Verification failed: Proof does not match';
+      const message = !verified
+        ? '✗ Verification failed: Proof does not match'
+        : isModifiedAfterAnchor(transaction)
+          ? `✓ Verified: Revision ${anchoredRevision(transaction)} matches on-chain data; later edits are not covered`
+          : '✓ Verified: Proof matches on-chain data';
       setVerifyResults({
         ...verifyResults,
         [transaction.id]: message,
@@ -87,7 +131,6 @@ const TransactionList: React.FC<TransactionListProps> = ({
   const handleDeleteConfirm = () => {
     if (deleteConfirm.transactionId && onTransactionDelete) {
       onTransactionDelete(deleteConfirm.transactionId);
-      showToast('Transaction deleted', 'success');
     }
     setDeleteConfirm({ isOpen: false, transactionId: null });
   };
@@ -97,6 +140,8 @@ const TransactionList: React.FC<TransactionListProps> = ({
     setEditAmount(Math.abs(transaction.amount).toString());
     setEditNote(transaction.note || '');
     setEditCategory(transaction.category);
+    setEditSplits(hasSplits(transaction) ? splitsToDrafts(transaction.splits!) : []);
+    setEditTags(transaction.tags || []);
   };
 
   const handleEditSave = () => {
@@ -112,17 +157,29 @@ const TransactionList: React.FC<TransactionListProps> = ({
 
     const updated: Transaction = {
       ...transaction,
-      amount: transaction.type === 'expense' ? -amountNum : amountNum,
+      amount: amountNum,
       note: editNote.trim() || undefined,
       category: editCategory,
+      tags: editTags.length > 0 ? editTags : undefined,
     };
 
+    if (editSplits.length > 0) {
+      const splits = draftsToSplits(editSplits);
+      const splitError = validateSplits(amountNum, splits);
+      if (splitError) {
+        showToast(splitError, 'error');
+        return;
+      }
+      updated.splits = splits;
+    }
+
     onTransactionEdit(updated);
-    showToast('Transaction updated', 'success');
     setEditingId(null);
     setEditAmount('');
     setEditNote('');
     setEditCategory('');
+    setEditSplits([]);
+    setEditTags([]);
   };
 
   const handleEditCancel = () => {
@@ -130,6 +187,8 @@ const TransactionList: React.FC<TransactionListProps> = ({
     setEditAmount('');
     setEditNote('');
     setEditCategory('');
+    setEditSplits([]);
+    setEditTags([]);
   };
 
   if (transactions.length === 0) {
@@ -151,6 +210,8 @@ const TransactionList: React.FC<TransactionListProps> = ({
             const verifyResult = verifyResults[transaction.id];
             const explorerUrl = transaction.proof ? getExplorerUrl(transaction.proof) : null;
             const isEditing = editingId === transaction.id;
+            const modifiedAfterAnchor = isModifiedAfterAnchor(transaction);
+            const revisionCount = transaction.revisions?.length || 0;
 
             if (isEditing) {
               return (
@@ -166,14 +227,16 @@ const TransactionList: React.FC<TransactionListProps> = ({
                         onChange={(e) => setEditAmount(e.target.value)}
                       />
                     </div>
-                    <div className="transaction-form__field">
-                      <label>Category</label>
-                      <input
-                        type="text"
-                        value={editCategory}
-                        onChange={(e) => setEditCategory(e.target.value)}
-                      />
-                    </div>
+                    {editSplits.length === 0 && (
+                      <div className="transaction-form__field">
+                        <label>Category</label>
+                        <input
+                          type="text"
+                          value={editCategory}
+                          onChange={(e) => setEditCategory(e.target.value)}
+                        />
+                      </div>
+                    )}
                     <div className="transaction-form__field">
                       <label>Note</label>
                       <input
@@ -182,6 +245,26 @@ const TransactionList: React.FC<TransactionListProps> = ({
                         onChange={(e) => setEditNote(e.target.value)}
                       />
                     </div>
+                    <div className="transaction-form__field">
+                      <label htmlFor={`edit-tags-${transaction.id}`}>Tags</label>
+                      <TagInput
+                        id={`edit-tags-${transaction.id}`}
+                        tags={editTags}
+                        onChange={setEditTags}
+                        suggestions={collectTags(transactions).map(t => t.tag)}
+                      />
+                    </div>
+                    {editSplits.length > 0 && (
+                      <div className="transaction-form__field transaction-form__field--full">
+                        <label>Split Lines</label>
+                        <SplitEditor
+                          drafts={editSplits}
+                          onChange={setEditSplits}
+                          total={parseFloat(editAmount)}
+                          currency={transactionCurrency(transaction)}
+                        />
+                      </div>
+                    )}
                     <div className="transaction-list__edit-actions">
                       <button className="btn" onClick={handleEditSave}>Save</button>
                       <button className="btn btn-ghost" onClick={handleEditCancel}>Cancel</button>
@@ -198,21 +281,75 @@ const TransactionList: React.FC<TransactionListProps> = ({
                     <span
                       className={`transaction-list__amount transaction-list__amount--${transaction.type}`}
                     >
-                      {transaction.type === 'expense' ? '-' : '+'}
-                      {formatCurrency(Math.abs(transaction.amount))}
+                      {amountPrefix(transaction)}
+                      {formatCurrency(Math.abs(transaction.amount), transactionCurrency(transaction))}
                     </span>
                     <span className="transaction-list__category">{transaction.category}</span>
                   </div>
                   {transaction.note && (
                     <div className="transaction-list__note">{transaction.note}</div>
                   )}
+                  {transaction.tags && transaction.tags.length > 0 && (
+                    <div className="transaction-list__tags">
+                      {transaction.tags.map(tag => (
+                        <span key={tag} className="tag-chip">#{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                  {transaction.attachments && transaction.attachments.length > 0 && (
+                    <AttachmentThumbnails
+                      attachments={transaction.attachments}
+                      onOpen={(attachment) => setViewing({ transaction, attachment })}
+                    />
+                  )}
+                  {hasSplits(transaction) && (
+                    <ul className="transaction-list__splits">
+                      {transaction.splits!.map((split, index) => (
+                        <li key={index}>
+                          <span className="transaction-list__category">{split.category}</span>
+                          <span>{formatCurrency(Math.abs(split.amount), transactionCurrency(transaction))}</span>
+                          {split.note && <span className="small-muted">{split.note}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                   <div className="transaction-list__meta">
                     <span className="small-muted">{formatDate(transaction.timestamp, 'long')}</span>
+                    {transaction.type === 'transfer' ? (
+                      <span className="small-muted">
+                        {accountName(accounts, transaction.accountId)} → {accountName(accounts, transaction.toAccountId)}
+                      </span>
+                    ) : transaction.accountId && (
+                      <span className="small-muted">{accountName(accounts, transaction.accountId)}</span>
+                    )}
                   </div>
+                  {historyId === transaction.id && <RevisionHistory transaction={transaction} />}
                 </div>
 
                 <div className="transaction-list__actions">
                   <div className="transaction-list__action-buttons">
+                    <label className="btn btn-ghost" title="Attach receipt or document">
+                      Attach
+                      <input
+                        type="file"
+                        accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+                        multiple
+                        hidden
+                        onChange={(e) => {
+                          handleAttach(transaction, e.target.files);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                    {revisionCount > 0 && (
+                      <button
+                        className="btn btn-ghost"
+                        onClick={() => setHistoryId(historyId === transaction.id ? null : transaction.id)}
+                        title="Show edit history"
+                      >
+                        History ({revisionCount})
+                      </button>
+                    )}
                     {onTransactionEdit && (
                       <button
                         className="btn btn-ghost"
@@ -241,7 +378,18 @@ const TransactionList: React.FC<TransactionListProps> = ({
                         {transaction.proof.chain && (
                           <span className="small-muted"> on {transaction.proof.chain}</span>
                         )}
+                        {transaction.proof.coversAttachments && (
+                          <span className="small-muted"> · includes attachments</span>
+                        )}
                       </div>
+                      {modifiedAfterAnchor && (
+                        <div className="transaction-list__proof-status">
+                          <span className="badge badge-warning">Modified after anchoring</span>
+                          <span className="small-muted">
+                            Proof covers revision {anchoredRevision(transaction)} of {currentRevision(transaction)}
+                          </span>
+                        </div>
+                      )}
                       {explorerUrl && (
                         <a
                           href={explorerUrl}
@@ -259,6 +407,15 @@ const TransactionList: React.FC<TransactionListProps> = ({
                       >
                         {isVerifying ? 'Verifying...' : 'Verify'}
                       </button>
+                      {modifiedAfterAnchor && (
+                        <button
+                          className="btn btn-ghost"
+                          onClick={() => handleAnchorProof(transaction)}
+                          disabled={isAnchoring}
+                        >
+                          {isAnchoring ? 'Anchoring...' : 'Re-anchor Current Revision'}
+                        </button>
+                      )}
                       {verifyResult && (
                         <div
                           className={`transaction-list__verify-result ${
@@ -270,13 +427,28 @@ const TransactionList: React.FC<TransactionListProps> = ({
                       )}
                     </div>
                   ) : (
-                    <button
-                      className="btn btn-ghost"
-                      onClick={() => handleAnchorProof(transaction)}
-                      disabled={isAnchoring}
-                    >
-                      {isAnchoring ? 'Anchoring...' : 'Anchor Proof'}
-                    </button>
+                    <div className="transaction-list__proof">
+                      {transaction.attachments && transaction.attachments.length > 0 && (
+                        <label className="small-muted">
+                          <input
+                            type="checkbox"
+                            checked={!proofSkipsAttachments[transaction.id]}
+                            onChange={(e) => setProofSkipsAttachments({
+                              ...proofSkipsAttachments,
+                              [transaction.id]: !e.target.checked,
+                            })}
+                          />{' '}
+                          Include attachments in proof
+                        </label>
+                      )}
+                      <button
+                        className="btn btn-ghost"
+                        onClick={() => handleAnchorProof(transaction)}
+                        disabled={isAnchoring}
+                      >
+                        {isAnchoring ? 'Anchoring...' : 'Anchor Proof'}
+                      </button>
+                    </div>
                   )}
                 </div>
               </li>
@@ -285,10 +457,18 @@ const TransactionList: React.FC<TransactionListProps> = ({
         </ul>
       </div>
 
+      {viewing && (
+        <AttachmentViewer
+          attachment={viewing.attachment}
+          onClose={() => setViewing(null)}
+          onRemove={(attachment) => handleRemoveAttachment(viewing.transaction, attachment)}
+        />
+      )}
+
       <ConfirmDialog
         isOpen={deleteConfirm.isOpen}
         title="Delete Transaction"
-        message="Are you sure you want to delete this transaction? This action cannot be undone."
+        message="Move this transaction to the Trash? You can restore it from Settings until it is purged."
         confirmText="Delete"
         cancelText="Cancel"
         type="danger"
@@ -14,8 +14,17 @@ import TransactionList from './TransactionList';
 import EncryptionControls from './EncryptionControls';
 import BudgetManager from './BudgetManager';
 import { useToast } from './Toast';
+import { recordChange } from '../services/undo';
+import { onAppEvent, onAppEvents, TRANSACTION_EVENTS } from '../utils/eventBus';
 import './Transactions.css';
 
+const typeLabel = (transaction: Transaction) =>
+  transaction.type === 'income' ? 'Income' : transaction.type === 'transfer' ? 'Transfer' : 'Expense';
+
+/** Encrypted data that has not been unlocked in this session */
+const isLocked = () =>
+  TransactionStorage.isEncrypted() && !!EncryptionStorage.loadEncryptionAddress() && !TransactionStorage.getEncryptionKey();
+
 interface TransactionsProps {
   showAddForm?: boolean;
   autoFocus?: boolean;
@@ -41,6 +50,21 @@ const Transactions: React.FC<TransactionsProps> = ({
 
   useEffect(() => {
     loadData();
+
+    // Every write goes through the cache, wherever it was made
+    const unsubscribeTransactions = onAppEvents(TRANSACTION_EVENTS, () => {
+      if (!isLocked() && TransactionCache.isCacheLoaded()) {
+        setTransactions(TransactionCache.getCachedTransactions());
+      }
+    });
+    const unsubscribeVault = onAppEvents(['vault:unlocked', 'vault:locked', 'encryption:changed'], loadData);
+    const unsubscribeBudgets = onAppEvent('budget:changed', ({ budgets }) => setBudgets(budgets));
+
+    return () => {
+      unsubscribeTransactions();
+      unsubscribeVault();
+      unsubscribeBudgets();
+    };
   }, []);
 
   useEffect(() => {
@@ -59,20 +83,17 @@ const Transactions: React.FC<TransactionsProps> = ({
     setLoading(true);
     setError(null);
     try {
-      const isEncrypted = TransactionStorage.isEncrypted();
-      const encryptionAddress = EncryptionStorage.loadEncryptionAddress();
-      
-      if (isEncrypted && encryptionAddress) {
+      if (isLocked()) {
         setUnlocked(false);
         // Don't load encrypted data automatically - user must unlock
         setTransactions([]);
       } else {
-        const loaded = await TransactionStorage.loadTransactions(false);
-        setTransactions(loaded);
+        await TransactionCache.loadCache();
+        setTransactions(TransactionCache.getCachedTransactions());
         setUnlocked(true);
       }
 
-      const loadedClassifier = await ClassifierStorage.loadClassifier(false);
+      const loadedClassifier = await ClassifierStorage.loadClassifier();
       if (loadedClassifier) {
         setClassifier(loadedClassifier);
       }
@@ -95,21 +116,12 @@ const Transactions: React.FC<TransactionsProps> = ({
         timestamp: new Date().toISOString(),
       };
 
-      const updated = [newTransaction, ...transactions];
-      setTransactions(updated);
-
-      // Update cache
-      await TransactionCache.updateTransactions(updated);
-
-      const isEncrypted = TransactionStorage.isEncrypted();
-      if (isEncrypted && unlocked) {
-        await TransactionStorage.saveTransactions(updated, true);
-      } else {
-        await TransactionStorage.saveTransactions(updated, false);
-      }
+      // Write only the new record; the cache announces it to every view
+      await TransactionCache.addTransaction(newTransaction);
+      recordChange(`${typeLabel(newTransaction)} added`, [{ before: null, after: newTransaction }]);
 
       // Save classifier
-      await ClassifierStorage.saveClassifier(classifier, isEncrypted && unlocked);
+      await ClassifierStorage.saveClassifier(classifier);
     } catch (err: any) {
       const errorMsg = err?.message || 'Failed to save transaction';
       setError(errorMsg);
@@ -118,70 +130,54 @@ const Transactions: React.FC<TransactionsProps> = ({
     }
   };
 
-    const handleTransactionUpdate = async (updatedTransaction: Transaction) => {
+    const handleTransactionUpdate = async (updatedTransaction: Transaction): Promise<Transaction | null> => {
     try {
-      const updated = transactions.map(t =>
-        t.id === updatedTransaction.id ? updatedTransaction : t
-      );
-      setTransactions(updated);
-
-      // Update cache
-      await TransactionCache.updateTransactions(updated);
-
-      const isEncrypted = TransactionStorage.isEncrypted();
-      if (isEncrypted && unlocked) {
-        await TransactionStorage.saveTransactions(updated, true);
-      } else {
-        await TransactionStorage.saveTransactions(updated, false);
-      }
+      const saved = await TransactionCache.updateTransaction(updatedTransaction);
 
       // Save classifier
-      await ClassifierStorage.saveClassifier(classifier, isEncrypted && unlocked);
+      await ClassifierStorage.saveClassifier(classifier);
+      return saved;
     } catch (err: any) {
       const errorMsg = err?.message || 'Failed to update transaction';
       setError(errorMsg);
       showToast(errorMsg, 'error');
       console.error('Failed to update transaction:', err);
+      return null;
     }
   };
 
   const handleTransactionDelete = useCallback(async (id: string | number) => {
     try {
-      const updated = transactions.filter(t => t.id !== id);
-      setTransactions(updated);
-
-      // Update cache
-      await TransactionCache.updateTransactions(updated);
-
-      const isEncrypted = TransactionStorage.isEncrypted();
-      if (isEncrypted && unlocked) {
-        await TransactionStorage.saveTransactions(updated, true);
-      } else {
-        await TransactionStorage.saveTransactions(updated, false);
+      const existing = transactions.find(t => t.id === id) || null;
+      await TransactionCache.deleteTransaction(id);
+      if (existing) {
+        recordChange('Transaction moved to Trash', [{ before: existing, after: null }]);
       }
-      showToast('Transaction deleted successfully', 'success');
     } catch (err: any) {
       const errorMsg = err?.message || 'Failed to delete transaction';
       setError(errorMsg);
       showToast(errorMsg, 'error');
       console.error('Failed to delete transaction:', err);
     }
-  }, [transactions, unlocked, showToast]);
+  }, [showToast, transactions]);
 
   const handleTransactionEdit = useCallback(async (updatedTransaction: Transaction) => {
-    await handleTransactionUpdate(updatedTransaction);
-  }, [handleTransactionUpdate]);
+    const before = transactions.find(t => t.id === updatedTransaction.id) || null;
+    const saved = await handleTransactionUpdate(updatedTransaction);
+    if (saved) {
+      recordChange('Transaction updated', [{ before, after: saved }]);
+    }
+  }, [handleTransactionUpdate, transactions]);
 
   const handleClassifierUpdate = useCallback(async (updatedClassifier: Classifier) => {
     try {
       setClassifier(updatedClassifier);
-      const isEncrypted = TransactionStorage.isEncrypted();
-      await ClassifierStorage.saveClassifier(updatedClassifier, isEncrypted && unlocked);
+      await ClassifierStorage.saveClassifier(updatedClassifier);
     } catch (err: any) {
       setError(err?.message || 'Failed to save classifier');
       console.error('Failed to save classifier:', err);
     }
-  }, [unlocked]);
+  }, []);
 
   const handleTransactionsUpdate = useCallback((updated: Transaction[]) => {
     setTransactions(updated);
@@ -0,0 +1,148 @@
+/**
+ * Trash Manager Component
+ * Restore or permanently delete trashed transactions and set how long they are kept
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { TrashedTransaction } from '../types';
+import { TrashStorage } from '../utils/storage';
+import { emptyTrash, loadTrash, purgeFromTrash, restoreFromTrash } from '../services/trash';
+import { formatCurrency, formatDate } from '../utils/analytics';
+import { transactionCurrency } from '../utils/currency';
+import { amountPrefix } from '../utils/accounts';
+import { daysUntilPurge, TRASH_RETENTION_OPTIONS } from '../utils/trash';
+import { useToast } from './Toast';
+import ConfirmDialog from './ConfirmDialog';
+import './TrashManager.css';
+
+const TrashManager: React.FC = () => {
+  const { showToast } = useToast();
+  const [items, setItems] = useState<TrashedTransaction[]>([]);
+  const [retentionDays, setRetentionDays] = useState(() => TrashStorage.loadRetentionDays());
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await loadTrash());
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to load the trash');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      showToast(success, 'success');
+    } catch (err: any) {
+      showToast(err?.message || 'Failed to update the trash', 'error');
+    } finally {
+      setBusy(false);
+      refresh();
+    }
+  };
+
+  const handleRetentionChange = (days: number) => {
+    TrashStorage.saveRetentionDays(days);
+    setRetentionDays(days);
+  };
+
+  return (
+    <div className="trash-manager">
+      <div className="trash-manager__toolbar">
+        <label className="small-muted">
+          Purge after{' '}
+          <select value={retentionDays} onChange={(e) => handleRetentionChange(Number(e.target.value))}>
+            {TRASH_RETENTION_OPTIONS.map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </label>
+        {items.length > 0 && (
+          <>
+            <button
+              className="btn btn-ghost"
+              disabled={busy}
+              onClick={() => run(
+                () => restoreFromTrash(items.map(i => i.transaction.id)),
+                `${items.length} transaction${items.length === 1 ? '' : 's'} restored`
+              )}
+            >
+              Restore All
+            </button>
+            <button
+              className="btn btn-ghost"
+              disabled={busy}
+              onClick={() => setConfirmEmpty(true)}
+              style={{ color: 'var(--color-softred)' }}
+            >
+              Empty Trash
+            </button>
+          </>
+        )}
+      </div>
+
+      {error ? (
+        <p className="small-muted">{error}</p>
+      ) : items.length === 0 ? (
+        <p className="small-muted">The trash is empty.</p>
+      ) : (
+        <ul className="trash-manager__list">
+          {items.map(({ transaction, deletedAt }) => (
+            <li key={transaction.id} className="trash-manager__item">
+              <div className="trash-manager__details">
+                <strong>
+                  {amountPrefix(transaction)}
+                  {formatCurrency(Math.abs(transaction.amount), transactionCurrency(transaction))}
+                </strong>
+                <span>{transaction.category}</span>
+                {transaction.note && <span className="small-muted">{transaction.note}</span>}
+                <span className="small-muted">
+                  Deleted {formatDate(deletedAt)} · purged in {daysUntilPurge(deletedAt, retentionDays)} days
+                </span>
+              </div>
+              <button
+                className="btn btn-ghost"
+                disabled={busy}
+                onClick={() => run(() => restoreFromTrash([transaction.id]), 'Transaction restored')}
+              >
+                Restore
+              </button>
+              <button
+                className="btn btn-ghost"
+                disabled={busy}
+                onClick={() => run(() => purgeFromTrash([transaction.id]), 'Transaction permanently deleted')}
+                style={{ color: 'var(--color-softred)' }}
+              >
+                Delete Forever
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmEmpty}
+        title="Empty Trash"
+        message="This permanently deletes every transaction in the Trash, along with its attachments. This action cannot be undone."
+        confirmText="Empty Trash"
+        cancelText="Cancel"
+        type="danger"
+        onConfirm={() => {
+          setConfirmEmpty(false);
+          run(emptyTrash, 'Trash emptied');
+        }}
+        onCancel={() => setConfirmEmpty(false)}
+      />
+    </div>
+  );
+};
+
+export default TrashManager;
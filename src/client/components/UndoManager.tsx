@@ -0,0 +1,79 @@
+/**
+ * Undo Manager Component
+ * Surfaces undo/redo through toasts and Ctrl+Z / Ctrl+Shift+Z shortcuts
+ */
+
+import React, { useCallback, useEffect } from 'react';
+import { canRedo, canUndo, clearUndoHistory, redo, subscribeUndo, undo } from '../services/undo';
+import { onAppEvent } from '../utils/eventBus';
+import { useToast } from './Toast';
+
+const isTextField = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable;
+};
+
+const UndoManager: React.FC = () => {
+  const { showToast } = useToast();
+
+  const runUndo = useCallback(async () => {
+    try {
+      await undo();
+    } catch (error: any) {
+      showToast(error?.message || 'Undo failed', 'error');
+    }
+  }, [showToast]);
+
+  const runRedo = useCallback(async () => {
+    try {
+      await redo();
+    } catch (error: any) {
+      showToast(error?.message || 'Redo failed', 'error');
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    return subscribeUndo(event => {
+      switch (event.kind) {
+        case 'record':
+          showToast(event.entry.label, 'success', 6000, { label: 'Undo', onClick: runUndo });
+          break;
+        case 'undo':
+          showToast(`Undone: ${event.entry.label}`, 'info', 6000, { label: 'Redo', onClick: runRedo });
+          break;
+        case 'redo':
+          showToast(`Redone: ${event.entry.label}`, 'info', 6000, { label: 'Undo', onClick: runUndo });
+          break;
+      }
+    });
+  }, [showToast, runUndo, runRedo]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z' && !e.shiftKey && canUndo()) {
+        e.preventDefault();
+        runUndo();
+      } else if (((key === 'z' && e.shiftKey) || key === 'y') && canRedo()) {
+        e.preventDefault();
+        runRedo();
+      }
+    };
+
+    // A new or ended session must not undo the previous one's changes
+    const unsubscribeSession = onAppEvent('session:changed', () => clearUndoHistory());
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      unsubscribeSession();
+    };
+  }, [runUndo, runRedo]);
+
+  return null;
+};
+
+export default UndoManager;
@@ -35,8 +35,6 @@ const WalletLogin: React.FC<WalletLoginProps> = ({ onConnected }) => {
           setAddress(addr);
           SessionStorage.saveSession(addr);
           console.log('WalletLogin: Set address from getCurrentAddress');
-          // Notify app that session changed (same-tab friendly)
-          try { window.dispatchEvent(new Event('safepay:session-changed')); } catch {}
         } else {
           console.log('WalletLogin: No address from getCurrentAddress');
         }
@@ -77,9 +75,6 @@ const WalletLogin: React.FC<WalletLoginProps> = ({ onConnected }) => {
       setAddress(walletAddress);
       console.log('WalletLogin: Session saved, address set');
 
-      // Notify app that session changed (same-tab friendly)
-      try { window.dispatchEvent(new Event('safepay:session-changed')); } catch {}
-
       if (onConnected) {
         console.log('WalletLogin: Calling onConnected callback');
         onConnected(walletAddress);
@@ -116,8 +111,6 @@ const WalletLogin: React.FC<WalletLoginProps> = ({ onConnected }) => {
     SessionStorage.clearSession();
     setAddress(null);
     setError(null);
-    // Notify app that session changed (same-tab friendly)
-    try { window.dispatchEvent(new Event('safepay:session-changed')); } catch {}
     if (onConnected) {
       onConnected('');
     }
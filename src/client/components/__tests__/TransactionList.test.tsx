@@ -0,0 +1,36 @@
+/**
+ * Transaction List Tests
+ */
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import TransactionList from '../TransactionList';
+import { ToastProvider } from '../Toast';
+import { Transaction } from '../../types';
+
+const lunch: Transaction = {
+  id: 'tx_lunch',
+  amount: 42,
+  type: 'expense',
+  category: 'Food',
+  note: 'Lunch',
+  timestamp: '2025-09-03T12:00:00.000Z',
+};
+
+describe('TransactionList', () => {
+  test('editing the note of an expense keeps its amount', () => {
+    const onTransactionEdit = jest.fn();
+    render(
+      <ToastProvider>
+        <TransactionList transactions={[lunch]} onTransactionUpdate={jest.fn()} onTransactionEdit={onTransactionEdit} />
+      </ToastProvider>
+    );
+
+    fireEvent.click(screen.getByTitle('Edit transaction'));
+    fireEvent.change(screen.getByDisplayValue('Lunch'), { target: { value: 'Team lunch' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onTransactionEdit).toHaveBeenCalledWith(expect.objectContaining({ note: 'Team lunch', amount: 42 }));
+  });
+});
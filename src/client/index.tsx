@@ -14,12 +14,18 @@ import ConnectPage from './pages/ConnectPage';
 import HistoryPage from './pages/HistoryPage';
 import InsightsPage from './pages/InsightsPage';
 import SettingsPage from './pages/SettingsPage';
+import SubscriptionsPage from './pages/SubscriptionsPage';
 import AddTransaction from './components/AddTransaction';
 import BottomNav from './components/BottomNav';
 import StatusBadge from './components/StatusBadge';
+import UndoManager from './components/UndoManager';
 import ErrorBoundary from './components/ErrorBoundary';
 import { ToastProvider } from './components/Toast';
 import { SessionStorage, TransactionCache } from './utils/storage';
+import { runMigrations } from './utils/migrations';
+import { materializeDue } from './services/recurring';
+import { loadCategories } from './services/categories';
+import { purgeExpiredTrash } from './services/trash';
 import { logger } from './utils/logger';
 
 const container = document.getElementById('root');
@@ -48,9 +54,12 @@ if (container) {
     }
 
     // Load transaction cache in background (don't await to avoid blocking render)
-    TransactionCache.loadCache().catch(error => {
-      logger.error('Failed to load transaction cache:', error);
-    });
+    TransactionCache.loadCache()
+      .then(() => loadCategories())
+      .then(() => purgeExpiredTrash())
+      .catch(error => {
+        logger.error('Failed to load transaction cache:', error);
+      });
 
     // Route to appropriate page
     const page = (() => {
@@ -60,6 +69,7 @@ if (container) {
       if (hash.startsWith('/add')) return <AddTransaction />;
       if (hash.startsWith('/history')) return <HistoryPage />;
       if (hash.startsWith('/insights')) return <InsightsPage />;
+      if (hash.startsWith('/subscriptions')) return <SubscriptionsPage />;
       if (hash.startsWith('/settings')) return <SettingsPage />;
       return <Homepage />;
     })();
@@ -70,15 +80,35 @@ if (container) {
           <BottomNav />
           {page}
           <StatusBadge />
+          <UndoManager />
         </ToastProvider>
       </ErrorBoundary>
     );
   };
 
-  // Handle hash changes
-  window.addEventListener('hashchange', render);
-  // Initial render
-  render();
+  // Bring stored data up to the current schema before any page reads it
+  runMigrations()
+    .then(result => {
+      if (result.status === 'failed') {
+        logger.error(`Schema migration failed and was rolled back: ${result.error}`);
+      }
+    })
+    .catch(error => {
+      logger.error('Failed to run schema migrations:', error);
+    })
+    .finally(() => {
+      // Queue recurring transactions that came due while the app was closed
+      try {
+        materializeDue();
+      } catch (error) {
+        logger.error('Failed to materialize recurring transactions:', error);
+      }
+
+      // Handle hash changes
+      window.addEventListener('hashchange', render);
+      // Initial render
+      render();
+    });
 } else {
   logger.error('No root element found');
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import WalletLogin from '../components/WalletLogin';
 import { SessionStorage } from '../utils/storage';
+import { onAppEvent } from '../utils/eventBus';
 
 const ConnectPage: React.FC = () => {
   // Track session reactively so UI updates after logout/login
@@ -19,12 +20,11 @@ const ConnectPage: React.FC = () => {
         setSession(SessionStorage.loadSession());
       }
     };
-    const onSessionChanged = () => setSession(SessionStorage.loadSession());
 
     window.addEventListener('hashchange', onHashChange);
     window.addEventListener('focus', onFocus);
     window.addEventListener('storage', onStorage);
-    window.addEventListener('safepay:session-changed', onSessionChanged as EventListener);
+    const unsubscribeSession = onAppEvent('session:changed', () => setSession(SessionStorage.loadSession()));
 
     // Initial sync (covers cases where logout happened before mount)
     setSession(SessionStorage.loadSession());
@@ -33,14 +33,12 @@ const ConnectPage: React.FC = () => {
       window.removeEventListener('hashchange', onHashChange);
       window.removeEventListener('focus', onFocus);
       window.removeEventListener('storage', onStorage);
-      window.removeEventListener('safepay:session-changed', onSessionChanged as EventListener);
+      unsubscribeSession();
     };
   }, []);
   
   const onConnected = () => {
     window.location.hash = '#/dashboard';
-    // Notify other views that session changed
-    window.dispatchEvent(new Event('safepay:session-changed'));
   };
   
   const nav = (path: string) => () => { window.location.hash = `#${path}`; };
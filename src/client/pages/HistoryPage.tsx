@@ -4,10 +4,49 @@
  */
 
 import React, { useEffect, useState, useMemo } from 'react';
-import { Transaction } from '../types';
-import { TransactionStorage, EncryptionStorage, TransactionCache, SessionStorage } from '../utils/storage';
-import { formatCurrency, formatDate, filterByCategory, filterByType, searchTransactions, filterByDateRange } from '../utils/analytics';
+import { HistoryColumn, SavedView, Transaction, TransactionType } from '../types';
+import {
+  TransactionStorage,
+  EncryptionStorage,
+  TransactionCache,
+  SessionStorage,
+  CurrencyStorage,
+  AccountStorage,
+  SavedViewStorage,
+  BudgetStorage,
+} from '../utils/storage';
+import { formatCurrency, formatDate } from '../utils/analytics';
 import { getExplorerUrl } from '../services/blockchain';
+import { baseAmount, transactionCurrency } from '../utils/currency';
+import { accountName, amountPrefix, calculateRunningBalances } from '../utils/accounts';
+import { hasSplits, transactionCategories } from '../utils/splits';
+import { collectTags, formatTags, normalizeTag } from '../utils/tags';
+import {
+  DEFAULT_SORT,
+  parseTransactionQuery,
+  QueryFilterField,
+  QuerySort,
+  queryFilterValue,
+  querySort,
+  setQueryFilter,
+} from '../utils/transactionQuery';
+import {
+  createSavedView,
+  DEFAULT_COLUMNS,
+  HISTORY_COLUMNS,
+  validateViewName,
+  viewHash,
+  viewIdFromHash,
+} from '../utils/savedViews';
+import { getCategoryPaths } from '../services/categories';
+import { exportSpreadsheet } from '../utils/spreadsheetExport';
+import { XLSX_MIME_TYPE } from '../utils/xlsx';
+import { commitChange } from '../services/undo';
+import { onAppEvent, onAppEvents, TRANSACTION_EVENTS } from '../utils/eventBus';
+import { useToast } from '../components/Toast';
+import Highlight from '../components/Highlight';
+import ConfirmDialog from '../components/ConfirmDialog';
+import { runTransactionQuery } from '../services/search';
 import './HistoryPage.css';
 
 const HistoryPage: React.FC = () => {
@@ -18,14 +57,19 @@ const HistoryPage: React.FC = () => {
   const [unlockError, setUnlockError] = useState<string | null>(null);
   const [historyDisplayed, setHistoryDisplayed] = useState(false);
 
+  // The query is the single source of truth; the filter controls read and rewrite it
   const [query, setQuery] = useState('');
-  const [category, setCategory] = useState('All');
-  const [typeFilter, setTypeFilter] = useState<'all' | 'income' | 'expense'>('all');
-  const [fromDate, setFromDate] = useState<string>('');
-  const [toDate, setToDate] = useState<string>('');
-  const [sortBy, setSortBy] = useState<'date' | 'amount'>('date');
-  const [sortDir, setSortDir] = useState<'desc' | 'asc'>('desc');
+  const [accounts] = useState(() => AccountStorage.loadAccounts());
+  const [columns, setColumns] = useState<HistoryColumn[]>(DEFAULT_COLUMNS);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [missingViewId, setMissingViewId] = useState<string | null>(null);
+  const [viewName, setViewName] = useState('');
+  const [confirmDeleteView, setConfirmDeleteView] = useState(false);
   const [page, setPage] = useState(1);
+  const [recategorizeTo, setRecategorizeTo] = useState('');
+  const [recategorizing, setRecategorizing] = useState(false);
+  const { showToast } = useToast();
   const pageSize = 20;
 
   useEffect(() => {
@@ -48,33 +92,65 @@ const HistoryPage: React.FC = () => {
         setCacheLoading(false);
       });
 
-    const handleSessionChange = () => {
-      const session = SessionStorage.loadSession();
-      if (!session) {
+    const unsubscribeSession = onAppEvent('session:changed', ({ address }) => {
+      if (!address) {
         // On logout: hide history immediately
         setHistoryDisplayed(false);
         setTransactions([]);
         setIsEncrypted(false);
         return;
       }
-      // On new login: refresh encryption state and cache
+      // On new login the cache reloads itself; encrypted history waits for "Display History"
       const nowEncrypted = TransactionStorage.isEncrypted();
       setIsEncrypted(nowEncrypted);
-      TransactionCache.clearCache();
-      TransactionCache.loadCache().then(() => {
-        if (!nowEncrypted) {
-          setTransactions(TransactionCache.getCachedTransactions());
-          setHistoryDisplayed(true);
-        } else {
-          setTransactions([]);
-          setHistoryDisplayed(false);
-        }
-      });
+      setHistoryDisplayed(!nowEncrypted);
+      setTransactions([]);
+    });
+    // Every add, edit, delete, undo and restore goes through the cache
+    const unsubscribeData = onAppEvents(TRANSACTION_EVENTS, () => {
+      if (TransactionCache.isCacheLoaded()) {
+        setTransactions(TransactionCache.getCachedTransactions());
+      }
+    });
+    const unsubscribeVault = onAppEvents(['vault:locked', 'encryption:changed'], () => {
+      const nowEncrypted = TransactionStorage.isEncrypted();
+      setIsEncrypted(nowEncrypted);
+      if (nowEncrypted && !TransactionStorage.getEncryptionKey()) {
+        setHistoryDisplayed(false);
+        setTransactions([]);
+      }
+    });
+
+    return () => {
+      unsubscribeSession();
+      unsubscribeData();
+      unsubscribeVault();
     };
-    window.addEventListener('safepay:session-changed', handleSessionChange);
-    return () => window.removeEventListener('safepay:session-changed', handleSessionChange);
   }, []);
 
+  // Views are sealed in the vault, so they are read once the history is shown
+  useEffect(() => {
+    if (!historyDisplayed) return;
+
+    const openViewFromHash = () => {
+      const stored = SavedViewStorage.loadViews();
+      const id = viewIdFromHash(window.location.hash);
+      const view = id ? stored.find(v => v.id === id) : undefined;
+      setViews(stored);
+      setMissingViewId(id && !view ? id : null);
+      setActiveViewId(view ? view.id : null);
+      if (view) {
+        setQuery(view.query);
+        setColumns(view.columns.length > 0 ? view.columns : DEFAULT_COLUMNS);
+        setPage(1);
+      }
+    };
+
+    openViewFromHash();
+    window.addEventListener('hashchange', openViewFromHash);
+    return () => window.removeEventListener('hashchange', openViewFromHash);
+  }, [historyDisplayed]);
+
   const loadTransactions = async () => {
     setLoading(true);
     try {
@@ -115,32 +191,85 @@ const HistoryPage: React.FC = () => {
   const categories = useMemo(() => {
     const set = new Set<string>();
     transactions.forEach(t => {
-      if (t.category) set.add(t.category);
+      transactionCategories(t).forEach(c => {
+        if (c) set.add(c);
+      });
     });
     return ['All', ...Array.from(set).sort()];
   }, [transactions]);
 
-  const filtered = useMemo(() => {
-    let result = [...transactions];
+  const tags = useMemo(() => collectTags(transactions), [transactions]);
+
+  const parsed = useMemo(() => parseTransactionQuery(query), [query]);
+  const { sortBy, sortDir } = querySort(parsed);
+  const category = queryFilterValue(parsed, 'category') || 'All';
+  const tagFilter = normalizeTag(queryFilterValue(parsed, 'tag') || '') || 'All';
+  const typeFilter = (queryFilterValue(parsed, 'type')?.toLowerCase() || 'all') as TransactionType | 'all';
+  const accountValue = (queryFilterValue(parsed, 'account') || '').toLowerCase();
+  const accountFilter = accounts.find(a => a.id === accountValue || a.name.toLowerCase() === accountValue)?.id || 'All';
+  const fromDate = queryFilterValue(parsed, 'after') || '';
+  const toDate = queryFilterValue(parsed, 'before') || '';
+
+  const updateFilter = (field: QueryFilterField, value: string | null) => {
+    setQuery(current => setQueryFilter(current, field, value));
+    setPage(1);
+  };
 
-    // Apply filters
-    if (typeFilter !== 'all') {
-      result = filterByType(result, typeFilter);
-    }
+  const updateSort = (next: QuerySort) => {
+    const isDefault = next.sortBy === DEFAULT_SORT.sortBy && next.sortDir === DEFAULT_SORT.sortDir;
+    updateFilter('sort', isDefault ? null : `${next.sortBy}-${next.sortDir}`);
+  };
 
-    if (category !== 'All') {
-      result = filterByCategory(result, category);
-    }
+  const activeView = views.find(v => v.id === activeViewId) || null;
+  const viewChanged = !!activeView && (
+    activeView.query !== query.trim() || activeView.columns.join(',') !== columns.join(',')
+  );
+  const showColumn = (column: HistoryColumn) => columns.includes(column);
 
-    if (fromDate || toDate) {
-      const start = fromDate ? new Date(fromDate + 'T00:00:00') : new Date(0);
-      const end = toDate ? new Date(toDate + 'T23:59:59') : new Date();
-      result = filterByDateRange(result, start, end);
-    }
+  const toggleColumn = (column: HistoryColumn) => {
+    const next = showColumn(column) ? columns.filter(c => c !== column) : [...columns, column];
+    // Keep the table order regardless of the order columns were toggled in
+    setColumns(DEFAULT_COLUMNS.filter(c => next.includes(c)));
+  };
 
-    if (query.trim()) {
-      result = searchTransactions(result, query);
+  const handleSaveView = () => {
+    const problem = validateViewName(viewName, views);
+    if (problem) {
+      showToast(problem, 'error');
+      return;
     }
+    const view = createSavedView(viewName, query, columns, views);
+    setViews(SavedViewStorage.upsertView(view));
+    setViewName('');
+    showToast(`Saved view "${view.name}"`, 'success');
+    window.location.hash = viewHash(view.id);
+  };
+
+  const handleUpdateView = () => {
+    if (!activeView) return;
+    setViews(SavedViewStorage.upsertView({ ...activeView, query: query.trim(), columns }));
+    showToast(`Updated view "${activeView.name}"`, 'success');
+  };
+
+  const handleTogglePin = () => {
+    if (!activeView) return;
+    setViews(SavedViewStorage.upsertView({ ...activeView, pinned: !activeView.pinned }));
+  };
+
+  const handleDeleteView = () => {
+    if (!activeView) return;
+    setViews(SavedViewStorage.removeView(activeView.id));
+    setConfirmDeleteView(false);
+    showToast(`Deleted view "${activeView.name}"`, 'info');
+    window.location.hash = '#/history';
+  };
+
+  // Bare words go to the in-memory index, which follows the transaction events
+  const matches = useMemo(() => runTransactionQuery(transactions, parsed, accounts), [transactions, parsed, accounts]);
+  const highlightTerms = matches.terms;
+
+  const filtered = useMemo(() => {
+    const result = [...matches.transactions];
 
     // Sort
     result.sort((a, b) => {
@@ -156,7 +285,42 @@ const HistoryPage: React.FC = () => {
     });
 
     return result;
-  }, [transactions, query, category, typeFilter, fromDate, toDate, sortBy, sortDir]);
+  }, [matches, sortBy, sortDir]);
+
+  // Balance after each transaction, computed over the account's full history
+  const runningBalances = useMemo(() => {
+    const account = accounts.find(a => a.id === accountFilter);
+    if (!account) return null;
+    const balances = new Map<string | number, number>();
+    calculateRunningBalances(account, transactions).forEach(entry => {
+      balances.set(entry.transaction.id, entry.balance);
+    });
+    return { account, balances };
+  }, [accounts, accountFilter, transactions]);
+
+  const showBalance = !!runningBalances && showColumn('balance');
+
+  // Split lines and transfers keep their own categories
+  const recategorizable = useMemo(
+    () => filtered.filter(t => t.type !== 'transfer' && !hasSplits(t) && t.category !== recategorizeTo),
+    [filtered, recategorizeTo]
+  );
+
+  const handleRecategorize = async () => {
+    if (!recategorizeTo || recategorizable.length === 0) return;
+    setRecategorizing(true);
+    try {
+      await commitChange(
+        `${recategorizable.length} transaction${recategorizable.length === 1 ? '' : 's'} moved to ${recategorizeTo}`,
+        recategorizable.map(t => ({ before: t, after: { ...t, category: recategorizeTo } }))
+      );
+      setRecategorizeTo('');
+    } catch (error: any) {
+      showToast(error?.message || 'Failed to recategorize transactions', 'error');
+    } finally {
+      setRecategorizing(false);
+    }
+  };
 
   const pageCount = Math.max(1, Math.ceil(filtered.length / pageSize));
   const pageItems = filtered.slice((page - 1) * pageSize, page * pageSize);
@@ -166,7 +330,7 @@ const HistoryPage: React.FC = () => {
   }, [pageCount, page]);
 
   const handleExportCSV = () => {
-    const headers = ['Date', 'Type', 'Category', 'Amount', 'Note'];
+    const headers = ['Date', 'Type', 'Category', 'Amount', 'Currency', 'Account', 'To Account', 'Note', 'Tags'];
     const rows = [headers.join(',')];
 
     filtered.forEach(t => {
@@ -175,7 +339,11 @@ const HistoryPage: React.FC = () => {
         t.type,
         `"${t.category}"`,
         Math.abs(t.amount).toFixed(2),
+        transactionCurrency(t),
+        `"${t.accountId ? accountName(accounts, t.accountId) : ''}"`,
+        `"${t.toAccountId ? accountName(accounts, t.toAccountId) : ''}"`,
         `"${(t.note || '').replace(/"/g, '""')}"`,
+        `"${formatTags(t.tags)}"`,
       ];
       rows.push(row.join(','));
     });
@@ -190,7 +358,32 @@ const HistoryPage: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const totalShown = filtered.reduce((sum, t) => sum + (t.type === 'income' ? t.amount : -t.amount), 0);
+  const handleExportXLSX = () => {
+    try {
+      const workbook = exportSpreadsheet({
+        transactions: filtered,
+        accounts,
+        budgets: BudgetStorage.loadBudgets(),
+        currency: CurrencyStorage.getContext(),
+      });
+      const blob = new Blob([workbook], { type: XLSX_MIME_TYPE });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `safepay-history-${new Date().toISOString().split('T')[0]}.xlsx`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      showToast(error?.message || 'Failed to export the spreadsheet', 'error');
+    }
+  };
+
+  const currency = useMemo(() => CurrencyStorage.getContext(), [transactions]);
+  const totalShown = filtered.reduce((sum, t) => {
+    if (t.type === 'income') return sum + baseAmount(t, currency);
+    if (t.type === 'expense') return sum - baseAmount(t, currency);
+    return sum;
+  }, 0);
 
   if (cacheLoading) {
     return (
@@ -253,84 +446,178 @@ const HistoryPage: React.FC = () => {
       {historyDisplayed && (
         <>
           <div className="card">
+            {missingViewId && (
+              <div className="alert alert-warning">
+                Saved view "{missingViewId}" was not found.
+              </div>
+            )}
+            <div className="history-views">
+              <select
+                value={activeViewId || ''}
+                onChange={(e) => { window.location.hash = e.target.value ? viewHash(e.target.value) : '#/history'; }}
+                aria-label="Saved views"
+              >
+                <option value="">All transactions</option>
+                {views.map(v => (
+                  <option key={v.id} value={v.id}>{v.pinned ? '📌 ' : ''}{v.name}</option>
+                ))}
+              </select>
+              {activeView && viewChanged && (
+                <button className="btn btn-ghost" onClick={handleUpdateView}>Update view</button>
+              )}
+              {activeView && (
+                <>
+                  <button className="btn btn-ghost" onClick={handleTogglePin}>
+                    {activeView.pinned ? 'Unpin from dashboard' : 'Pin to dashboard'}
+                  </button>
+                  <button className="btn btn-ghost" onClick={() => setConfirmDeleteView(true)}>Delete view</button>
+                </>
+              )}
+              <input
+                type="text"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSaveView(); }}
+                placeholder="Name these filters"
+                aria-label="View name"
+              />
+              <button className="btn" onClick={handleSaveView} disabled={!viewName.trim()}>
+                Save view
+              </button>
+              <details className="history-columns">
+                <summary>Columns</summary>
+                {HISTORY_COLUMNS.map(({ id, label }) => (
+                  <label key={id}>
+                    <input
+                      type="checkbox"
+                      checked={showColumn(id)}
+                      onChange={() => toggleColumn(id)}
+                      disabled={showColumn(id) && columns.length === 1}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </details>
+            </div>
+
             <div className="history-filters">
               <input
                 type="text"
-                placeholder="Search transactions..."
+                placeholder="Search or filter, e.g. category:Food amount>20 after:2025-09-01"
                 value={query}
                 onChange={(e) => {
                   setQuery(e.target.value);
                   setPage(1);
                 }}
                 className="history-search"
+                aria-invalid={parsed.errors.length > 0}
               />
+              {parsed.errors.length > 0 && (
+                <div className="history-query-errors" role="alert">
+                  {parsed.errors.map(error => (
+                    <div key={`${error.position}-${error.message}`}>
+                      {error.message} (at character {error.position + 1})
+                    </div>
+                  ))}
+                </div>
+              )}
 
               <select
                 value={category}
-                onChange={(e) => {
-                  setCategory(e.target.value);
-                  setPage(1);
-                }}
+                onChange={(e) => updateFilter('category', e.target.value === 'All' ? null : e.target.value)}
               >
                 {categories.map(c => (
                   <option key={c} value={c}>{c}</option>
                 ))}
+                {!categories.includes(category) && <option value={category}>{category}</option>}
               </select>
 
+              {tags.length > 0 && (
+                <select
+                  value={tagFilter}
+                  onChange={(e) => updateFilter('tag', e.target.value === 'All' ? null : e.target.value)}
+                >
+                  <option value="All">All Tags</option>
+                  {tags.map(({ tag, count }) => (
+                    <option key={tag} value={tag}>#{tag} ({count})</option>
+                  ))}
+                </select>
+              )}
+
+              {accounts.length > 0 && (
+                <select
+                  value={accountFilter}
+                  onChange={(e) => updateFilter('account', e.target.value === 'All' ? null : accountName(accounts, e.target.value))}
+                >
+                  <option value="All">All Accounts</option>
+                  {accounts.map(a => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                </select>
+              )}
+
               <select
                 value={typeFilter}
-                onChange={(e) => {
-                  setTypeFilter(e.target.value as 'all' | 'income' | 'expense');
-                  setPage(1);
-                }}
+                onChange={(e) => updateFilter('type', e.target.value === 'all' ? null : e.target.value)}
               >
                 <option value="all">All Types</option>
                 <option value="income">Income</option>
                 <option value="expense">Expense</option>
+                <option value="transfer">Transfer</option>
               </select>
 
               <input
                 type="date"
                 value={fromDate}
-                onChange={(e) => {
-                  setFromDate(e.target.value);
-                  setPage(1);
-                }}
+                onChange={(e) => updateFilter('after', e.target.value || null)}
                 placeholder="From date"
               />
 
               <input
                 type="date"
                 value={toDate}
-                onChange={(e) => {
-                  setToDate(e.target.value);
-                  setPage(1);
-                }}
+                onChange={(e) => updateFilter('before', e.target.value || null)}
                 placeholder="To date"
               />
 
               <div className="history-actions">
                 <button
                   className="btn btn-ghost"
-                  onClick={() => {
-                    setSortBy('date');
-                    setSortDir(sortDir === 'desc' ? 'asc' : 'desc');
-                  }}
+                  onClick={() => updateSort({ sortBy: 'date', sortDir: sortDir === 'desc' ? 'asc' : 'desc' })}
                 >
                   Sort by Date {sortBy === 'date' && (sortDir === 'desc' ? '↓' : '↑')}
                 </button>
                 <button
                   className="btn btn-ghost"
-                  onClick={() => {
-                    setSortBy('amount');
-                    setSortDir(sortDir === 'desc' ? 'asc' : 'desc');
-                  }}
+                  onClick={() => updateSort({ sortBy: 'amount', sortDir: sortDir === 'desc' ? 'asc' : 'desc' })}
                 >
                   Sort by Amount {sortBy === 'amount' && (sortDir === 'desc' ? '↓' : '↑')}
                 </button>
                 <button className="btn" onClick={handleExportCSV}>
                   Export CSV
                 </button>
+                <button className="btn" onClick={handleExportXLSX}>
+                  Export XLSX
+                </button>
+                <select
+                  value={recategorizeTo}
+                  onChange={(e) => setRecategorizeTo(e.target.value)}
+                  aria-label="Recategorize shown transactions"
+                >
+                  <option value="">Recategorize shown…</option>
+                  {getCategoryPaths().map(path => (
+                    <option key={path} value={path}>{path}</option>
+                  ))}
+                </select>
+                {recategorizeTo && (
+                  <button
+                    className="btn btn-ghost"
+                    onClick={handleRecategorize}
+                    disabled={recategorizing || recategorizable.length === 0}
+                  >
+                    {recategorizing ? 'Moving...' : `Move ${recategorizable.length} to ${recategorizeTo}`}
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -344,7 +631,7 @@ const HistoryPage: React.FC = () => {
                 )}
               </div>
               <div>
-                <strong>Total (filtered):</strong> {formatCurrency(totalShown)}
+                <strong>Total (filtered):</strong> {formatCurrency(totalShown, currency.baseCurrency)}
               </div>
             </div>
 
@@ -358,42 +645,67 @@ const HistoryPage: React.FC = () => {
                 <table className="sp-table">
                   <thead>
                     <tr>
-                      <th>Date</th>
-                      <th>Type</th>
-                      <th>Category</th>
-                      <th>Note</th>
-                      <th style={{ textAlign: 'right' }}>Amount</th>
-                      <th style={{ textAlign: 'right' }}>Proof</th>
+                      {showColumn('date') && <th>Date</th>}
+                      {showColumn('type') && <th>Type</th>}
+                      {showColumn('category') && <th>Category</th>}
+                      {showColumn('note') && <th>Note</th>}
+                      {showColumn('amount') && <th style={{ textAlign: 'right' }}>Amount</th>}
+                      {showBalance && <th style={{ textAlign: 'right' }}>Balance</th>}
+                      {showColumn('proof') && <th style={{ textAlign: 'right' }}>Proof</th>}
                     </tr>
                   </thead>
                   <tbody>
                     {pageItems.map(t => (
                       <tr key={t.id}>
-                        <td>{formatDate(t.timestamp)}</td>
-                        <td>
-                          <span className={`badge badge-${t.type === 'income' ? 'success' : 'error'}`}>
-                            {t.type}
-                          </span>
-                        </td>
-                        <td>{t.category}</td>
-                        <td>{t.note || '—'}</td>
-                        <td style={{ textAlign: 'right', fontWeight: 600, color: t.type === 'income' ? 'var(--color-success)' : 'var(--color-softred)' }}>
-                          {t.type === 'income' ? '+' : '-'}{formatCurrency(Math.abs(t.amount))}
-                        </td>
-                        <td style={{ textAlign: 'right' }}>
-                          {t.proof?.txHash ? (
-                            <a
-                              href={getExplorerUrl(t.proof) || '#'}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="small-muted"
-                            >
-                              View
-                            </a>
-                          ) : (
-                            <span className="small-muted">—</span>
-                          )}
-                        </td>
+                        {showColumn('date') && <td>{formatDate(t.timestamp)}</td>}
+                        {showColumn('type') && (
+                          <td>
+                            <span className={`badge badge-${t.type === 'income' ? 'success' : t.type === 'transfer' ? 'warning' : 'error'}`}>
+                              {t.type}
+                            </span>
+                          </td>
+                        )}
+                        {showColumn('category') && (
+                          <td>
+                            {t.type === 'transfer'
+                              ? `${accountName(accounts, t.accountId)} → ${accountName(accounts, t.toAccountId)}`
+                              : <Highlight text={hasSplits(t) ? transactionCategories(t).join(', ') : t.category} terms={highlightTerms} />}
+                          </td>
+                        )}
+                        {showColumn('note') && (
+                          <td>
+                            {t.note ? <Highlight text={t.note} terms={highlightTerms} /> : '—'}
+                            {t.tags && t.tags.length > 0 && (
+                              <div className="small-muted"><Highlight text={formatTags(t.tags)} terms={highlightTerms} /></div>
+                            )}
+                          </td>
+                        )}
+                        {showColumn('amount') && (
+                          <td style={{ textAlign: 'right', fontWeight: 600, color: t.type === 'income' ? 'var(--color-success)' : t.type === 'expense' ? 'var(--color-softred)' : undefined }}>
+                            {amountPrefix(t)}{formatCurrency(Math.abs(t.amount), transactionCurrency(t))}
+                          </td>
+                        )}
+                        {runningBalances && showBalance && (
+                          <td style={{ textAlign: 'right' }}>
+                            {formatCurrency(runningBalances.balances.get(t.id) ?? 0, runningBalances.account.currency)}
+                          </td>
+                        )}
+                        {showColumn('proof') && (
+                          <td style={{ textAlign: 'right' }}>
+                            {t.proof?.txHash ? (
+                              <a
+                                href={getExplorerUrl(t.proof) || '#'}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="small-muted"
+                              >
+                                View
+                              </a>
+                            ) : (
+                              <span className="small-muted">—</span>
+                            )}
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
@@ -425,6 +737,15 @@ const HistoryPage: React.FC = () => {
           </div>
         </>
       )}
+
+      <ConfirmDialog
+        isOpen={confirmDeleteView}
+        title="Delete saved view"
+        message={`Delete the view "${activeView?.name || ''}"? Your transactions are not affected.`}
+        confirmText="Delete"
+        onConfirm={handleDeleteView}
+        onCancel={() => setConfirmDeleteView(false)}
+      />
     </div>
   );
 };
@@ -5,9 +5,26 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
 import { Transaction } from '../types';
-import { TransactionStorage, EncryptionStorage, SessionStorage, TransactionCache } from '../utils/storage';
+import {
+  TransactionStorage,
+  EncryptionStorage,
+  SessionStorage,
+  TransactionCache,
+  CurrencyStorage,
+  AccountStorage,
+  RecurringStorage,
+  SavedViewStorage,
+} from '../utils/storage';
 import { calculateCategoryStats, calculateTrends, calculateSummary, formatCurrency, categoryStatsToChartData } from '../utils/analytics';
+import { findMissingRates, transactionCurrency } from '../utils/currency';
+import { ACCOUNT_KINDS, amountPrefix, calculateAccountBalances } from '../utils/accounts';
+import { getCategories } from '../services/categories';
+import { runTransactionQuery } from '../services/search';
+import { parseTransactionQuery } from '../utils/transactionQuery';
+import { viewHash } from '../utils/savedViews';
+import { getCategoryMeta } from '../utils/categories';
 import { PieChart, Pie, Cell, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { onAppEvent, onAppEvents, TRANSACTION_EVENTS } from '../utils/eventBus';
 import LoadingSpinner from '../components/LoadingSpinner';
 import EmptyState from '../components/EmptyState';
 
@@ -22,24 +39,26 @@ const Homepage: React.FC = () => {
   useEffect(() => {
     loadTransactions();
 
-    const handleSessionChange = () => {
-      const session = SessionStorage.loadSession();
-      if (!session) {
+    const unsubscribeSession = onAppEvent('session:changed', ({ address }) => {
+      if (!address) {
         setTransactions([]);
         setIsEncrypted(false);
         setEncryptionAddress(null);
-        return;
       }
-      // Refresh from cache/storage on login
-      TransactionCache.clearCache();
-      loadTransactions();
+      // On login the cache reloads and announces the new collection
+    });
+    const unsubscribeData = onAppEvents(
+      [...TRANSACTION_EVENTS, 'vault:unlocked', 'vault:locked', 'encryption:changed'],
+      () => loadTransactions(false)
+    );
+    return () => {
+      unsubscribeSession();
+      unsubscribeData();
     };
-    window.addEventListener('safepay:session-changed', handleSessionChange);
-    return () => window.removeEventListener('safepay:session-changed', handleSessionChange);
   }, []);
 
-  const loadTransactions = async () => {
-    setLoading(true);
+  const loadTransactions = async (showSpinner = true) => {
+    if (showSpinner) setLoading(true);
     try {
       // Do not show any collection when logged out
       const session = SessionStorage.loadSession();
@@ -50,17 +69,17 @@ const Homepage: React.FC = () => {
         return;
       }
 
-      const encrypted = TransactionStorage.isEncrypted();
-      setIsEncrypted(encrypted);
-      
-      if (encrypted) {
+      // Encrypted data stays hidden until the vault is unlocked
+      const locked = TransactionStorage.isEncrypted() && !TransactionStorage.getEncryptionKey();
+      setIsEncrypted(locked);
+
+      if (locked) {
         const address = EncryptionStorage.loadEncryptionAddress();
         setEncryptionAddress(address);
-        // Don't load encrypted data automatically
         setTransactions([]);
       } else {
-        const loaded = await TransactionStorage.loadTransactions(false);
-        setTransactions(loaded);
+        await TransactionCache.loadCache();
+        setTransactions(TransactionCache.getCachedTransactions());
       }
     } catch (error) {
       console.error('Failed to load transactions:', error);
@@ -69,11 +88,30 @@ const Homepage: React.FC = () => {
     }
   };
 
-  const summary = useMemo(() => calculateSummary(transactions), [transactions]);
-  const categoryStats = useMemo(() => calculateCategoryStats(transactions), [transactions]);
-  const trendData = useMemo(() => calculateTrends(transactions, 'monthly'), [transactions]);
+  const currency = useMemo(() => CurrencyStorage.getContext(), [transactions]);
+  const missingRates = useMemo(() => findMissingRates(transactions, currency), [transactions, currency]);
+  const summary = useMemo(() => calculateSummary(transactions, currency), [transactions, currency]);
+  const categoryStats = useMemo(() => calculateCategoryStats(transactions, currency), [transactions, currency]);
+  const trendData = useMemo(() => calculateTrends(transactions, 'monthly', currency), [transactions, currency]);
+  const base = currency.baseCurrency;
   const chartData = useMemo(() => categoryStatsToChartData(categoryStats), [categoryStats]);
   const recentTransactions = useMemo(() => transactions.slice(0, 5), [transactions]);
+  const pendingRecurring = useMemo(() => RecurringStorage.loadPending().length, [transactions]);
+  const accountBalances = useMemo(
+    () => calculateAccountBalances(AccountStorage.loadAccounts().filter(a => !a.archived), transactions),
+    [transactions]
+  );
+
+  // Pinned views are sealed with the rest of the app state, so they only appear once unlocked
+  const pinnedViews = useMemo(() => {
+    const accounts = AccountStorage.loadAccounts();
+    return SavedViewStorage.loadViews()
+      .filter(v => v.pinned)
+      .map(view => {
+        const matches = runTransactionQuery(transactions, parseTransactionQuery(view.query), accounts).transactions;
+        return { view, count: matches.length, total: calculateSummary(matches, currency).netBalance };
+      });
+  }, [transactions, currency]);
 
   if (loading) {
     return (
@@ -92,6 +130,13 @@ const Homepage: React.FC = () => {
         </div>
       </header>
 
+      {pendingRecurring > 0 && (
+        <div className="alert alert-warning">
+          {pendingRecurring} recurring transaction{pendingRecurring === 1 ? '' : 's'} due.{' '}
+          <a href="#/subscriptions">Review and confirm</a>
+        </div>
+      )}
+
       <div className="main-grid">
         <main>
           <div className="card">
@@ -100,19 +145,19 @@ const Homepage: React.FC = () => {
               <div className="summary-item">
                 <div className="small-muted">Total Balance</div>
                 <div className="summary-value" style={{ color: summary.netBalance >= 0 ? 'var(--color-success)' : 'var(--color-softred)' }}>
-                  {isEncrypted ? '🔒 Locked' : formatCurrency(summary.netBalance)}
+                  {isEncrypted ? '🔒 Locked' : formatCurrency(summary.netBalance, base)}
                 </div>
               </div>
               <div className="summary-item">
                 <div className="small-muted">Income</div>
                 <div className="summary-value" style={{ color: 'var(--color-success)' }}>
-                  {isEncrypted ? '🔒' : formatCurrency(summary.totalIncome)}
+                  {isEncrypted ? '🔒' : formatCurrency(summary.totalIncome, base)}
                 </div>
               </div>
               <div className="summary-item">
                 <div className="small-muted">Expenses</div>
                 <div className="summary-value" style={{ color: 'var(--color-softred)' }}>
-                  {isEncrypted ? '🔒' : formatCurrency(summary.totalExpenses)}
+                  {isEncrypted ? '🔒' : formatCurrency(summary.totalExpenses, base)}
                 </div>
               </div>
               <div className="summary-item">
@@ -122,8 +167,54 @@ const Homepage: React.FC = () => {
                 </div>
               </div>
             </div>
+            {!isEncrypted && missingRates.length > 0 && (
+              <p className="small-muted" style={{ marginBottom: 0 }}>
+                No exchange rate to {base} for {missingRates.join(', ')}. Those amounts are counted unconverted;
+                add rates in <a href="#/settings">Settings</a>.
+              </p>
+            )}
           </div>
 
+          {accountBalances.length > 0 && (
+            <div className="card">
+              <h3 style={{ marginTop: 0 }}>Accounts</h3>
+              <div className="summary-grid">
+                {accountBalances.map(({ account, balance }) => (
+                  <div key={account.id} className="summary-item">
+                    <div className="small-muted">
+                      {ACCOUNT_KINDS[account.kind]?.icon} {account.name}
+                    </div>
+                    <div className="summary-value" style={{ color: balance >= 0 ? undefined : 'var(--color-softred)' }}>
+                      {isEncrypted ? '🔒' : formatCurrency(balance, account.currency)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {pinnedViews.length > 0 && (
+            <div className="card">
+              <h3 style={{ marginTop: 0 }}>Saved Views</h3>
+              <div className="summary-grid">
+                {pinnedViews.map(({ view, count, total }) => (
+                  <a
+                    key={view.id}
+                    href={viewHash(view.id)}
+                    className="summary-item"
+                    style={{ color: 'inherit', textDecoration: 'none' }}
+                  >
+                    <div className="small-muted">📌 {view.name}</div>
+                    <div className="summary-value" style={{ color: total >= 0 ? undefined : 'var(--color-softred)' }}>
+                      {formatCurrency(total, base)}
+                    </div>
+                    <div className="small-muted">{count} transaction{count === 1 ? '' : 's'}</div>
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="card">
             <h3 style={{ marginTop: 0 }}>Recent Transactions</h3>
             {isEncrypted ? (
@@ -153,7 +244,7 @@ const Homepage: React.FC = () => {
                     <div>
                       <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
                         <span className={`transaction-amount transaction-amount--${t.type}`}>
-                          {t.type === 'expense' ? '-' : '+'}{formatCurrency(Math.abs(t.amount))}
+                          {amountPrefix(t)}{formatCurrency(Math.abs(t.amount), transactionCurrency(t))}
                         </span>
                         <span className="transaction-category">{t.category}</span>
                       </div>
@@ -194,10 +285,13 @@ const Homepage: React.FC = () => {
                     }}
                   >
                     {chartData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                      <Cell
+                        key={`cell-${index}`}
+                        fill={getCategoryMeta(getCategories(), entry.name).color || COLORS[index % COLORS.length]}
+                      />
                     ))}
                   </Pie>
-                  <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value), base)} />
                 </PieChart>
               </ResponsiveContainer>
             ) : (
@@ -212,8 +306,8 @@ const Homepage: React.FC = () => {
                 <LineChart data={trendData}>
                   <CartesianGrid strokeDasharray="3 3" stroke="var(--card-border)" />
                   <XAxis dataKey="period" stroke="var(--color-muted)" />
-                  <YAxis stroke="var(--color-muted)" tickFormatter={(value) => `$${value}`} />
-                  <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                  <YAxis stroke="var(--color-muted)" tickFormatter={(value) => formatCurrency(Number(value), base)} />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value), base)} />
                   <Line type="monotone" dataKey="net" stroke="var(--color-mint)" strokeWidth={2} />
                 </LineChart>
               </ResponsiveContainer>
@@ -6,12 +6,17 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
 import { Transaction } from '../types';
-import { TransactionStorage, SessionStorage, TransactionCache } from '../utils/storage';
+import { TransactionStorage, SessionStorage, TransactionCache, CurrencyStorage } from '../utils/storage';
 import { generateInsights } from '../services/ai';
 import { calculateCategoryStats, calculateTrends, calculateSummary, formatCurrency, categoryStatsToChartData } from '../utils/analytics';
 import { detectAnomalies } from '../services/anomaly';
+import { getCategories } from '../services/categories';
+import { getCategoryMeta } from '../utils/categories';
+import { onAppEvent, onAppEvents, TRANSACTION_EVENTS } from '../utils/eventBus';
 import LoadingSpinner from '../components/LoadingSpinner';
 import EmptyState from '../components/EmptyState';
+import TagReport from '../components/TagReport';
+import StatementReport from '../components/StatementReport';
 
 const COLORS = ['#00D1A1', '#4299E1', '#F6AD55', '#E53E3E', '#48BB78', '#9F7AEA', '#ED8936'];
 
@@ -23,19 +28,21 @@ const InsightsPage: React.FC = () => {
 
   useEffect(() => {
     loadTransactions();
-    const handleSessionChange = () => {
-      const session = SessionStorage.loadSession();
-      if (!session) {
+    const unsubscribeSession = onAppEvent('session:changed', ({ address }) => {
+      if (!address) {
         setTransactions([]);
         setInsights([]);
         setAnomalies([]);
-        return;
       }
-      TransactionCache.clearCache();
-      loadTransactions();
+    });
+    const unsubscribeData = onAppEvents(
+      [...TRANSACTION_EVENTS, 'vault:unlocked', 'vault:locked', 'encryption:changed'],
+      () => loadTransactions(false)
+    );
+    return () => {
+      unsubscribeSession();
+      unsubscribeData();
     };
-    window.addEventListener('safepay:session-changed', handleSessionChange);
-    return () => window.removeEventListener('safepay:session-changed', handleSessionChange);
   }, []);
 
   useEffect(() => {
@@ -50,22 +57,21 @@ const InsightsPage: React.FC = () => {
     }
   }, [transactions]);
 
-  const loadTransactions = async () => {
-    setLoading(true);
+  const loadTransactions = async (showSpinner = true) => {
+    if (showSpinner) setLoading(true);
     try {
       const session = SessionStorage.loadSession();
       if (!session) {
         setTransactions([]);
         return;
       }
-      const isEncrypted = TransactionStorage.isEncrypted();
-      if (isEncrypted) {
-        // Do not auto-load encrypted data
+      if (TransactionStorage.isEncrypted() && !TransactionStorage.getEncryptionKey()) {
+        // Do not show encrypted data while the vault is locked
         setTransactions([]);
         return;
       }
-      const loaded = await TransactionStorage.loadTransactions(false);
-      setTransactions(loaded);
+      await TransactionCache.loadCache();
+      setTransactions(TransactionCache.getCachedTransactions());
     } catch (error) {
       console.error('Failed to load transactions:', error);
     } finally {
@@ -73,9 +79,11 @@ const InsightsPage: React.FC = () => {
     }
   };
 
-  const summary = useMemo(() => calculateSummary(transactions), [transactions]);
-  const categoryStats = useMemo(() => calculateCategoryStats(transactions), [transactions]);
-  const trendData = useMemo(() => calculateTrends(transactions, 'monthly'), [transactions]);
+  const currency = useMemo(() => CurrencyStorage.getContext(), [transactions]);
+  const summary = useMemo(() => calculateSummary(transactions, currency), [transactions, currency]);
+  const categoryStats = useMemo(() => calculateCategoryStats(transactions, currency), [transactions, currency]);
+  const trendData = useMemo(() => calculateTrends(transactions, 'monthly', currency), [transactions, currency]);
+  const base = currency.baseCurrency;
   const chartData = useMemo(() => categoryStatsToChartData(categoryStats), [categoryStats]);
 
   if (loading) {
@@ -121,19 +129,19 @@ const InsightsPage: React.FC = () => {
           <div>
             <div className="small-muted">Total Income</div>
             <div style={{ fontSize: 24, fontWeight: 700, color: 'var(--color-success)' }}>
-              {formatCurrency(summary.totalIncome)}
+              {formatCurrency(summary.totalIncome, base)}
             </div>
           </div>
           <div>
             <div className="small-muted">Total Expenses</div>
             <div style={{ fontSize: 24, fontWeight: 700, color: 'var(--color-softred)' }}>
-              {formatCurrency(summary.totalExpenses)}
+              {formatCurrency(summary.totalExpenses, base)}
             </div>
           </div>
           <div>
             <div className="small-muted">Net Balance</div>
             <div style={{ fontSize: 24, fontWeight: 700, color: summary.netBalance >= 0 ? 'var(--color-success)' : 'var(--color-softred)' }}>
-              {formatCurrency(summary.netBalance)}
+              {formatCurrency(summary.netBalance, base)}
             </div>
           </div>
           <div>
@@ -166,10 +174,13 @@ const InsightsPage: React.FC = () => {
                   dataKey="value"
                 >
                   {chartData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    <Cell
+                      key={`cell-${index}`}
+                      fill={getCategoryMeta(getCategories(), entry.name).color || COLORS[index % COLORS.length]}
+                    />
                   ))}
                 </Pie>
-                <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value), base)} />
               </PieChart>
             </ResponsiveContainer>
           ) : (
@@ -184,9 +195,9 @@ const InsightsPage: React.FC = () => {
               <LineChart data={trendData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="var(--card-border)" />
                 <XAxis dataKey="period" stroke="var(--color-muted)" />
-                <YAxis stroke="var(--color-muted)" tickFormatter={(value) => `$${value}`} />
+                <YAxis stroke="var(--color-muted)" tickFormatter={(value) => formatCurrency(Number(value), base)} />
                 <Tooltip 
-                  formatter={(value) => formatCurrency(Number(value))}
+                  formatter={(value) => formatCurrency(Number(value), base)}
                   contentStyle={{ background: 'var(--color-softgray)', border: '1px solid var(--card-border)' }}
                 />
                 <Legend />
@@ -201,6 +212,16 @@ const InsightsPage: React.FC = () => {
         </div>
       </div>
 
+      <div className="card" style={{ marginBottom: 24 }}>
+        <h3 style={{ marginTop: 0 }}>Tag Report</h3>
+        <TagReport transactions={transactions} currency={currency} />
+      </div>
+
+      <div className="card" style={{ marginBottom: 24 }}>
+        <h3 style={{ marginTop: 0 }}>Statements</h3>
+        <StatementReport transactions={transactions} />
+      </div>
+
       {insights.length > 0 && (
         <div className="card" style={{ marginBottom: 24 }}>
           <h3 style={{ marginTop: 0 }}>AI-Generated Insights</h3>
@@ -3,7 +3,6 @@ import WalletLogin from '../components/WalletLogin';
 
 const LoginPage: React.FC = () => {
   const onConnected = () => {
-    window.dispatchEvent(new Event('safepay:session-changed'));
     window.location.hash = '#/dashboard';
   };
 
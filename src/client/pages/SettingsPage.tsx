@@ -4,13 +4,33 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { TransactionStorage, EncryptionStorage, ClassifierStorage, BudgetStorage, SessionStorage, TransactionCache } from '../utils/storage';
+import {
+  TransactionStorage,
+  EncryptionStorage,
+  ClassifierStorage,
+  BudgetStorage,
+  AttachmentStorage,
+  TrashStorage,
+  SessionStorage,
+  VaultStorage,
+  TransactionCache,
+} from '../utils/storage';
 import { connectWallet, signMessage, disconnectWallet } from '../services/wallet';
 import { deriveKeyFromSignature } from '../utils/crypto';
 import { Transaction, Classifier } from '../types';
+import { onAppEvents } from '../utils/eventBus';
 import { useToast } from '../components/Toast';
 import ConfirmDialog from '../components/ConfirmDialog';
 import LoadingSpinner from '../components/LoadingSpinner';
+import FxRateManager from '../components/FxRateManager';
+import AccountManager from '../components/AccountManager';
+import CategoryManager from '../components/CategoryManager';
+import TrashManager from '../components/TrashManager';
+import CsvImporter from '../components/CsvImporter';
+import StatementImporter from '../components/StatementImporter';
+import PlainTextAccounting from '../components/PlainTextAccounting';
+import BackupManager from '../components/BackupManager';
+import DataImporter from '../components/DataImporter';
 import './SettingsPage.css';
 
 const SettingsPage: React.FC = () => {
@@ -23,11 +43,13 @@ const SettingsPage: React.FC = () => {
   const [showDisableEncryptConfirm, setShowDisableEncryptConfirm] = useState(false);
 
   useEffect(() => {
-    const address = EncryptionStorage.loadEncryptionAddress();
-    setEncryptionAddress(address);
-    
-    const session = SessionStorage.loadSession();
-    setSessionAddress(session?.address || null);
+    // Encryption settings belong to the active profile
+    const loadProfileSettings = () => {
+      setEncryptionAddress(EncryptionStorage.loadEncryptionAddress());
+      setSessionAddress(SessionStorage.loadSession()?.address || null);
+    };
+    loadProfileSettings();
+    return onAppEvents(['session:changed', 'encryption:changed'], loadProfileSettings);
   }, []);
 
   const handleDisableEncryption = async () => {
@@ -51,12 +73,11 @@ const SettingsPage: React.FC = () => {
       
       // Decrypt and save as plaintext
       const transactions = await TransactionStorage.loadTransactions(true, key);
-      const classifier = await ClassifierStorage.loadClassifier(true, key);
 
       await TransactionStorage.saveTransactions(transactions, false);
-      if (classifier) {
-        await ClassifierStorage.saveClassifier(classifier, false);
-      }
+      await VaultStorage.unseal(key);
+      await AttachmentStorage.reencryptAttachments(key, null);
+      await TrashStorage.reencryptTrash(key, null);
 
       EncryptionStorage.clearEncryptionAddress();
       TransactionStorage.clearEncryptionKey();
@@ -82,10 +103,12 @@ const SettingsPage: React.FC = () => {
     setError(null);
 
     try {
-      TransactionStorage.clearTransactions();
-      ClassifierStorage.saveClassifier({ keywords: {} }, false);
+      // Transactions and their attachments stay restorable from the trash
+      await TransactionCache.trashAllTransactions();
+      await ClassifierStorage.saveClassifier({ keywords: {} });
       BudgetStorage.saveBudgets({});
-      showToast('All data cleared successfully', 'success');
+      await VaultStorage.flush();
+      showToast('All data cleared; transactions were moved to the Trash', 'success');
       setTimeout(() => {
         window.location.reload();
       }, 1000);
@@ -105,7 +128,6 @@ const SettingsPage: React.FC = () => {
     try {
       const isEncrypted = TransactionStorage.isEncrypted();
       let transactions: Transaction[] = [];
-      let classifier: Classifier | null = null;
 
       if (isEncrypted && encryptionAddress) {
         const { address } = await connectWallet();
@@ -117,11 +139,14 @@ const SettingsPage: React.FC = () => {
         const key = await deriveKeyFromSignature(signature);
         
         transactions = await TransactionStorage.loadTransactions(true, key);
-        classifier = await ClassifierStorage.loadClassifier(true, key);
+        // Budgets and the classifier are sealed in the vault with the same key
+        if (!VaultStorage.isUnlocked()) {
+          await VaultStorage.unlock(key);
+        }
       } else {
         transactions = await TransactionStorage.loadTransactions(false);
-        classifier = await ClassifierStorage.loadClassifier(false);
       }
+      const classifier = await ClassifierStorage.loadClassifier();
 
       const data = {
         transactions,
@@ -158,15 +183,8 @@ const SettingsPage: React.FC = () => {
       console.log('Wallet disconnection not supported or failed:', err);
     }
 
-    // Clear app session + encryption context + cached decrypted data
+    // The profile is locked by disconnectWallet; its encryption settings stay for the next login
     SessionStorage.clearSession();
-    EncryptionStorage.clearEncryptionAddress();
-    TransactionCache.clearCache();
-    
-    // Broadcast unified session change so listeners update immediately
-    try { 
-      window.dispatchEvent(new Event('safepay:session-changed')); 
-    } catch {}
 
     setSessionAddress(null);
     showToast('Disconnected successfully', 'success');
@@ -233,6 +251,27 @@ const SettingsPage: React.FC = () => {
           </div>
         </section>
 
+        <section className="card">
+          <h3>Accounts</h3>
+          <div className="settings-section">
+            <AccountManager />
+          </div>
+        </section>
+
+        <section className="card">
+          <h3>Categories</h3>
+          <div className="settings-section">
+            <CategoryManager />
+          </div>
+        </section>
+
+        <section className="card">
+          <h3>Currencies & Exchange Rates</h3>
+          <div className="settings-section">
+            <FxRateManager />
+          </div>
+        </section>
+
         <section className="card">
           <h3>Data Management</h3>
           <div className="settings-section">
@@ -250,10 +289,18 @@ const SettingsPage: React.FC = () => {
               </button>
             </div>
 
+            <div>
+              <strong>Import Data</strong>
+              <p className="small-muted">
+                Check a JSON export field by field, then merge it by id or content, or replace everything
+              </p>
+              <DataImporter />
+            </div>
+
             <div className="settings-item">
               <div>
                 <strong>Clear All Data</strong>
-                <p className="small-muted text-error">Permanently delete all transactions, budgets, and classifier data</p>
+                <p className="small-muted text-error">Move all transactions to the Trash and reset budgets and classifier data</p>
               </div>
               <button
                 className="btn btn-ghost"
@@ -267,6 +314,47 @@ const SettingsPage: React.FC = () => {
           </div>
         </section>
 
+        <section className="card">
+          <h3>Backups</h3>
+          <div className="settings-section">
+            <p className="small-muted">
+              Backups are encrypted with a passphrase, so they can be restored on any device even if the wallet is lost.
+            </p>
+            <BackupManager />
+          </div>
+        </section>
+
+        <section className="card">
+          <h3>Import Bank Statement</h3>
+          <div className="settings-section">
+            <p className="small-muted">
+              Import a CSV export from your bank. Rows that match existing transactions are skipped unless you tick them.
+            </p>
+            <CsvImporter />
+            <p className="small-muted">
+              OFX, QFX, QIF, MT940 and CAMT.053 statements land in the account they name, skip entries imported before and are checked against the bank's balance.
+            </p>
+            <StatementImporter />
+          </div>
+        </section>
+
+        <section className="card">
+          <h3>Plain-Text Accounting</h3>
+          <div className="settings-section">
+            <p className="small-muted">
+              Export double-entry journals for Beancount, Ledger or hledger, or import one. Tags, ids and proof transaction hashes travel as metadata.
+            </p>
+            <PlainTextAccounting />
+          </div>
+        </section>
+
+        <section className="card">
+          <h3>Trash</h3>
+          <div className="settings-section">
+            <TrashManager />
+          </div>
+        </section>
+
         <section className="card">
           <h3>Privacy</h3>
           <div className="settings-section">
@@ -289,8 +377,8 @@ const SettingsPage: React.FC = () => {
         <ConfirmDialog
           isOpen={showClearConfirm}
           title="Clear All Data"
-          message="This will permanently delete ALL your data including transactions, budgets, and classifier data. This action cannot be undone. Are you absolutely sure?"
-          confirmText="Yes, Delete Everything"
+          message="This will move ALL transactions to the Trash and permanently reset your budgets and classifier data. Transactions can be restored from the Trash until they are purged. Are you sure?"
+          confirmText="Yes, Clear Everything"
           cancelText="Cancel"
           type="danger"
           onConfirm={confirmClearAllData}
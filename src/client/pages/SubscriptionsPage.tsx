@@ -0,0 +1,236 @@
+/**
+ * Subscriptions Page
+ * Recurring rules, due occurrences to confirm or skip, and detected subscriptions
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { PendingOccurrence, RecurringTransaction, Transaction } from '../types';
+import { RecurringStorage, TransactionCache, TransactionStorage } from '../utils/storage';
+import { formatCurrency, formatDate } from '../utils/analytics';
+import { transactionCurrency } from '../utils/currency';
+import { describeRule, nextOccurrence, toDateKey } from '../utils/recurrence';
+import {
+  confirmOccurrence,
+  materializeDue,
+  removeRecurring,
+  setRecurringPaused,
+  skipOccurrence,
+} from '../services/recurring';
+import { DetectedSubscription, detectSubscriptions } from '../services/subscriptions';
+import RecurringForm, { RecurringFormDefaults } from '../components/RecurringForm';
+import EmptyState from '../components/EmptyState';
+import { useToast } from '../components/Toast';
+import './SubscriptionsPage.css';
+
+const SubscriptionsPage: React.FC = () => {
+  const { showToast } = useToast();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [recurring, setRecurring] = useState<RecurringTransaction[]>([]);
+  const [pending, setPending] = useState<PendingOccurrence[]>([]);
+  const [isLocked, setIsLocked] = useState(false);
+  const [formDefaults, setFormDefaults] = useState<RecurringFormDefaults | null>(null);
+  const [formKey, setFormKey] = useState(0);
+
+  const refresh = () => {
+    setPending(materializeDue());
+    setRecurring(RecurringStorage.loadRecurring());
+  };
+
+  useEffect(() => {
+    refresh();
+    TransactionCache.loadCache()
+      .then(() => {
+        setTransactions(TransactionCache.getCachedTransactions());
+        setIsLocked(TransactionStorage.isEncrypted() && TransactionStorage.getEncryptionKey() === null);
+      })
+      .catch(error => console.error('Failed to load transactions:', error));
+  }, []);
+
+  const detected = useMemo(() => detectSubscriptions(transactions), [transactions]);
+  const recurringById = useMemo(
+    () => new Map(recurring.map(r => [r.id, r])),
+    [recurring]
+  );
+  const today = toDateKey(new Date());
+
+  const handleConfirm = async (occurrence: PendingOccurrence) => {
+    try {
+      const transaction = await confirmOccurrence(occurrence.id);
+      setTransactions(prev => [transaction, ...prev]);
+      refresh();
+      showToast('Transaction recorded', 'success');
+    } catch (error: any) {
+      showToast(error?.message || 'Failed to record transaction', 'error');
+    }
+  };
+
+  const handleSkip = (occurrence: PendingOccurrence) => {
+    skipOccurrence(occurrence.id);
+    refresh();
+    showToast('Occurrence skipped', 'info');
+  };
+
+  const handleTogglePaused = (r: RecurringTransaction) => {
+    setRecurringPaused(r.id, !r.paused);
+    refresh();
+  };
+
+  const handleRemove = (r: RecurringTransaction) => {
+    removeRecurring(r.id);
+    refresh();
+    showToast(`"${r.name}" removed`, 'success');
+  };
+
+  const handleTrack = (subscription: DetectedSubscription) => {
+    setFormDefaults({
+      name: subscription.merchant,
+      amount: subscription.amount,
+      currency: subscription.currency,
+      category: subscription.category,
+      frequency: subscription.frequency,
+      startDate: toDateKey(new Date(subscription.nextExpected)),
+    });
+    setFormKey(k => k + 1);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleCreated = () => {
+    setFormDefaults(null);
+    setFormKey(k => k + 1);
+    refresh();
+  };
+
+  return (
+    <div className="container">
+      <header className="header">
+        <div>
+          <h1 className="title">Subscriptions & Recurring</h1>
+          <p className="subtitle">Schedule repeating transactions and spot subscriptions in your history</p>
+        </div>
+      </header>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>Due for Confirmation</h3>
+        {pending.length === 0 ? (
+          <p className="small-muted">Nothing due. Scheduled transactions appear here on their date.</p>
+        ) : (
+          <ul className="subscriptions-list">
+            {pending.map(occurrence => {
+              const r = recurringById.get(occurrence.recurringId);
+              if (!r) return null;
+              return (
+                <li key={occurrence.id} className="subscriptions-list__item">
+                  <div>
+                    <strong>{r.name}</strong>
+                    <div className="small-muted">
+                      {formatDate(`${occurrence.date}T12:00:00`)} · {r.template.category}
+                    </div>
+                  </div>
+                  <div className="subscriptions-list__actions">
+                    <span className={`subscriptions-amount subscriptions-amount--${r.template.type}`}>
+                      {formatCurrency(r.template.amount, transactionCurrency(r.template))}
+                    </span>
+                    <button className="btn" onClick={() => handleConfirm(occurrence)}>Confirm</button>
+                    <button className="btn btn-ghost" onClick={() => handleSkip(occurrence)}>Skip</button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>{formDefaults ? `Track "${formDefaults.name}"` : 'New Recurring Transaction'}</h3>
+        <RecurringForm key={formKey} defaults={formDefaults || undefined} onCreated={handleCreated} />
+      </section>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>Recurring Transactions</h3>
+        {recurring.length === 0 ? (
+          <p className="small-muted">No recurring transactions yet.</p>
+        ) : (
+          <table className="sp-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Schedule</th>
+                <th>Next</th>
+                <th style={{ textAlign: 'right' }}>Amount</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {recurring.map(r => {
+                const next = nextOccurrence(r.rule, r.lastGenerated || today);
+                return (
+                  <tr key={r.id} className={r.paused ? 'subscriptions-row--paused' : undefined}>
+                    <td>{r.name}</td>
+                    <td>{describeRule(r.rule)}</td>
+                    <td>{r.paused ? 'Paused' : next ? formatDate(`${next}T12:00:00`) : 'Ended'}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      {formatCurrency(r.template.amount, transactionCurrency(r.template))}
+                    </td>
+                    <td style={{ textAlign: 'right', whiteSpace: 'nowrap' }}>
+                      <button className="btn btn-ghost" onClick={() => handleTogglePaused(r)}>
+                        {r.paused ? 'Resume' : 'Pause'}
+                      </button>
+                      <button className="btn btn-ghost" onClick={() => handleRemove(r)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>Detected Subscriptions</h3>
+        {isLocked ? (
+          <p className="small-muted">Unlock your encrypted data to scan your history for subscriptions.</p>
+        ) : detected.length === 0 ? (
+          <EmptyState
+            icon="🔁"
+            title="No Subscriptions Detected"
+            message="Charges with the same merchant and amount at a regular weekly, monthly or yearly interval will show up here."
+          />
+        ) : (
+          <ul className="subscriptions-list">
+            {detected.map(subscription => (
+              <li key={`${subscription.key}-${subscription.currency}`} className="subscriptions-list__item">
+                <div>
+                  <strong>{subscription.merchant}</strong>
+                  <div className="small-muted">
+                    {subscription.frequency} · {subscription.occurrences} charges since {formatDate(subscription.firstDate)}
+                    {' '}· next around {formatDate(subscription.nextExpected)}
+                  </div>
+                  <div className="small-muted">
+                    {formatCurrency(subscription.annualCost, subscription.currency)} per year ·
+                    {' '}{Math.round(subscription.confidence * 100)}% confidence
+                  </div>
+                </div>
+                <div className="subscriptions-list__actions">
+                  <span className="subscriptions-amount subscriptions-amount--expense">
+                    {formatCurrency(subscription.amount, subscription.currency)}
+                  </span>
+                  {subscription.tracked ? (
+                    <span className="badge badge-success">Tracked</span>
+                  ) : (
+                    <button className="btn btn-ghost" onClick={() => handleTrack(subscription)}>
+                      Track
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SubscriptionsPage;
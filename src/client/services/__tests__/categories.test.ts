@@ -0,0 +1,34 @@
+/**
+ * Category Registry Service Tests
+ */
+
+import { getCategories, loadCategories } from '../categories';
+import { CategoryStorage } from '../../utils/storage';
+import { emitAppEvent } from '../../utils/eventBus';
+import { Category } from '../../types';
+
+jest.mock('../../utils/storage', () => ({
+  CategoryStorage: { loadCategories: jest.fn(), saveCategories: jest.fn() },
+  TransactionCache: { getCachedTransactions: jest.fn(() => []) },
+  TransactionStorage: { isEncrypted: jest.fn(() => false), getEncryptionKey: jest.fn(() => null) },
+}));
+
+const storage = CategoryStorage as jest.Mocked<typeof CategoryStorage>;
+
+const pets: Category = { id: 'cat_pets', name: 'Pets', color: '#aa6633', icon: '🐾', archived: false };
+
+describe('Category Registry Service', () => {
+  beforeEach(async () => {
+    storage.loadCategories.mockResolvedValue([pets]);
+    await loadCategories();
+  });
+
+  test.each(['vault:locked', 'session:changed'] as const)('drops the loaded registry on %s', name => {
+    expect(getCategories()).toEqual([pets]);
+
+    if (name === 'vault:locked') emitAppEvent(name, {});
+    else emitAppEvent(name, { address: '0xdef456' });
+
+    expect(getCategories().map(category => category.name)).not.toContain('Pets');
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Subscription Detection Tests
+ */
+
+import { detectSubscriptions } from '../subscriptions';
+import { Transaction } from '../../types';
+
+const charge = (id: number, date: string, amount: number, note: string): Transaction => ({
+  id,
+  amount,
+  type: 'expense',
+  category: 'Entertainment',
+  note,
+  timestamp: `${date}T10:00:00.000Z`,
+});
+
+describe('Subscription Detection', () => {
+  test('detects monthly charges with matching merchant and amount', () => {
+    const transactions = [
+      charge(1, '2025-01-05', 15.49, 'Netflix #1234'),
+      charge(2, '2025-02-05', 15.49, 'NETFLIX #5678'),
+      charge(3, '2025-03-06', 15.49, 'netflix'),
+      charge(4, '2025-03-10', 42.1, 'Grocer'),
+      charge(5, '2025-03-20', 9.3, 'Grocer'),
+    ];
+
+    const detected = detectSubscriptions(transactions);
+    expect(detected).toHaveLength(1);
+    expect(detected[0]).toMatchObject({ key: 'netflix', frequency: 'monthly', occurrences: 3, amount: 15.49 });
+    expect(detected[0].annualCost).toBeCloseTo(185.88);
+  });
+
+  test('ignores irregular intervals', () => {
+    const transactions = [
+      charge(1, '2025-01-01', 20, 'Gym'),
+      charge(2, '2025-01-09', 20, 'Gym'),
+      charge(3, '2025-03-01', 20, 'Gym'),
+    ];
+    expect(detectSubscriptions(transactions)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Undo Service Tests
+ */
+
+import { canRedo, canUndo, clearUndoHistory, commitChange, diffTransactionLists, redo, undo } from '../undo';
+import { TransactionCache } from '../../utils/storage';
+import { Transaction } from '../../types';
+
+jest.mock('../../utils/storage', () => ({
+  TransactionCache: {
+    deleteTransaction: jest.fn(),
+    restoreTransactions: jest.fn(),
+    updateTransaction: jest.fn(),
+  },
+}));
+
+const cache = TransactionCache as jest.Mocked<typeof TransactionCache>;
+
+const txn = (id: number, category: string): Transaction => ({
+  id,
+  amount: 10,
+  type: 'expense',
+  category,
+  timestamp: '2025-01-05T10:00:00.000Z',
+});
+
+describe('Undo Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearUndoHistory();
+  });
+
+  test('diffTransactionLists reports added, edited and removed transactions', () => {
+    const changes = diffTransactionLists(
+      [txn(1, 'Food'), txn(2, 'Travel'), txn(3, 'Rent')],
+      [txn(1, 'Food'), txn(2, 'Dining'), txn(4, 'Gifts')]
+    );
+
+    expect(changes).toEqual([
+      { before: txn(2, 'Travel'), after: txn(2, 'Dining') },
+      { before: null, after: txn(4, 'Gifts') },
+      { before: txn(3, 'Rent'), after: null },
+    ]);
+  });
+
+  test('undo and redo replay a committed change in both directions', async () => {
+    await commitChange('Recategorized', [{ before: txn(1, 'Food'), after: txn(1, 'Dining') }]);
+    expect(cache.updateTransaction).toHaveBeenLastCalledWith(txn(1, 'Dining'));
+    expect(canUndo()).toBe(true);
+
+    const undone = await undo();
+    expect(undone?.label).toBe('Recategorized');
+    expect(cache.updateTransaction).toHaveBeenLastCalledWith(txn(1, 'Food'));
+    expect(canUndo()).toBe(false);
+    expect(canRedo()).toBe(true);
+
+    await redo();
+    expect(cache.updateTransaction).toHaveBeenLastCalledWith(txn(1, 'Dining'));
+    expect(canRedo()).toBe(false);
+  });
+
+  test('undoing a delete restores the transaction and redoing trashes it again', async () => {
+    await commitChange('Deleted', [{ before: txn(1, 'Food'), after: null }]);
+    expect(cache.deleteTransaction).toHaveBeenCalledWith(1);
+
+    await undo();
+    expect(cache.restoreTransactions).toHaveBeenCalledWith([txn(1, 'Food')]);
+
+    await redo();
+    expect(cache.deleteTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  test('a new change clears the redo stack', async () => {
+    await commitChange('First', [{ before: null, after: txn(1, 'Food') }]);
+    await undo();
+    await commitChange('Second', [{ before: null, after: txn(2, 'Food') }]);
+
+    expect(canRedo()).toBe(false);
+    expect(await redo()).toBeNull();
+  });
+});
@@ -5,6 +5,7 @@
 
 import { Classifier, Transaction } from '../types';
 import { tokenize, scoreByClassifier, suggestCategoryFromNote as baseSuggestCategory } from '../lib/classifier';
+import { flattenSplits } from '../utils/splits';
 
 export interface CategorySuggestion {
   category: string;
@@ -82,12 +83,30 @@ export function trainClassifier(
   return updated;
 }
 
+/**
+ * Train the classifier on every line of a transaction
+ * Split lines train their own category, falling back to the parent note
+ */
+export function trainClassifierOnTransaction(
+  classifier: Classifier,
+  transaction: Pick<Transaction, 'note' | 'category' | 'splits'>
+): Classifier {
+  const lines = transaction.splits && transaction.splits.length > 0
+    ? transaction.splits.map(s => ({ note: s.note || transaction.note, category: s.category }))
+    : [{ note: transaction.note, category: transaction.category }];
+
+  return lines
+    .filter(line => line.note && line.note.trim())
+    .reduce((current, line) => trainClassifier(current, line.note, line.category), classifier);
+}
+
 /**
  * Generate spending insights from transactions
- * All processing is done on-device
+ * All processing is done on-device. Transfers between accounts are ignored.
  */
-export function generateInsights(transactions: Transaction[]): string[] {
+export function generateInsights(allTransactions: Transaction[]): string[] {
   const insights: string[] = [];
+  const transactions = allTransactions.filter(t => t.type !== 'transfer');
 
   if (transactions.length === 0) {
     return ['Start adding transactions to see insights'];
@@ -113,7 +132,7 @@ export function generateInsights(transactions: Transaction[]): string[] {
 
   // Category breakdown
   const categoryTotals: Record<string, number> = {};
-  transactions
+  flattenSplits(transactions)
     .filter(t => t.type === 'expense')
     .forEach(t => {
       categoryTotals[t.category] = (categoryTotals[t.category] || 0) + Math.abs(t.amount);
@@ -0,0 +1,155 @@
+/**
+ * Attachment vault service
+ * Stores receipts and documents on-device, encrypted with the wallet-derived key
+ */
+
+import { Attachment, Transaction } from '../types';
+import { AttachmentStorage } from '../utils/storage';
+import { base64ToBuffer, sha256Hex } from '../utils/crypto';
+import { isImageAttachment, newAttachmentId, validateAttachmentFile } from '../utils/attachments';
+
+const THUMBNAIL_SIZE = 160;
+const PRINT_SIZE = 1600;
+
+function readFile(file: Blob): Promise<ArrayBuffer> {
+  if (typeof file.arrayBuffer === 'function') {
+    return file.arrayBuffer();
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * JPEG data URL of an image scaled to fit `maxSize`; null when the browser cannot draw it
+ */
+async function renderJpeg(file: Blob, maxSize: number, quality: number): Promise<string | null> {
+  if (typeof document === 'undefined' || typeof URL.createObjectURL !== 'function') {
+    return null;
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Image could not be decoded'));
+      img.src = url;
+    });
+
+    const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    // JPEG has no transparency; keep see-through receipts readable on white
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+  } catch (error) {
+    console.warn('Failed to render attachment image:', error);
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Small JPEG preview of an image; null when the browser cannot draw it
+ */
+function createThumbnail(file: Blob): Promise<string | null> {
+  return renderJpeg(file, THUMBNAIL_SIZE, 0.7);
+}
+
+/**
+ * An image attachment as JPEG bytes for printing; JPEGs are used as stored
+ */
+export async function printableImage(attachment: Attachment, content: ArrayBuffer): Promise<Uint8Array | null> {
+  if (!isImageAttachment(attachment)) return null;
+  if (attachment.mimeType === 'image/jpeg') return new Uint8Array(content);
+
+  const dataUrl = await renderJpeg(new Blob([content], { type: attachment.mimeType }), PRINT_SIZE, 0.85);
+  return dataUrl ? new Uint8Array(base64ToBuffer(dataUrl.slice(dataUrl.indexOf(',') + 1))) : null;
+}
+
+/**
+ * Store a file in the vault and return the metadata kept on the transaction
+ */
+export async function storeAttachment(file: File): Promise<Attachment> {
+  const error = validateAttachmentFile(file);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const content = await readFile(file);
+  const attachment: Attachment = {
+    id: newAttachmentId(),
+    name: file.name,
+    mimeType: file.type,
+    size: file.size,
+    hash: await sha256Hex(content),
+    createdAt: new Date().toISOString(),
+  };
+
+  const thumbnail = isImageAttachment(attachment) ? await createThumbnail(file) : null;
+  await AttachmentStorage.saveAttachment(attachment.id, content, thumbnail || undefined);
+  return attachment;
+}
+
+/**
+ * Store several files; if one fails, the ones already stored are removed again
+ */
+export async function storeAttachments(files: File[]): Promise<Attachment[]> {
+  const added: Attachment[] = [];
+  try {
+    for (const file of files) {
+      added.push(await storeAttachment(file));
+    }
+  } catch (error) {
+    await AttachmentStorage.deleteAttachments(added.map(a => a.id));
+    throw error;
+  }
+  return added;
+}
+
+/**
+ * Store several files and add them to a transaction
+ */
+export async function attachFiles(transaction: Transaction, files: File[]): Promise<Transaction> {
+  const added = await storeAttachments(files);
+  return { ...transaction, attachments: [...(transaction.attachments || []), ...added] };
+}
+
+/**
+ * Remove one attachment from a transaction and the vault
+ */
+export async function detachAttachment(transaction: Transaction, attachmentId: string): Promise<Transaction> {
+  await AttachmentStorage.deleteAttachments([attachmentId]);
+  const attachments = (transaction.attachments || []).filter(a => a.id !== attachmentId);
+  return { ...transaction, attachments: attachments.length > 0 ? attachments : undefined };
+}
+
+export async function loadAttachmentBlob(attachment: Attachment): Promise<Blob> {
+  const content = await AttachmentStorage.loadContent(attachment.id);
+  if (!content) {
+    throw new Error(`${attachment.name} is missing from the vault`);
+  }
+  return new Blob([content], { type: attachment.mimeType });
+}
+
+export function loadAttachmentThumbnail(attachmentId: string): Promise<string | null> {
+  return AttachmentStorage.loadThumbnail(attachmentId);
+}
+
+/**
+ * Whether the stored file still matches the hash recorded when it was attached
+ */
+export async function verifyAttachment(attachment: Attachment): Promise<boolean> {
+  const content = await AttachmentStorage.loadContent(attachment.id);
+  return !!content && (await sha256Hex(content)) === attachment.hash;
+}
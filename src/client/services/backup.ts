@@ -0,0 +1,101 @@
+/**
+ * Backup service
+ * Collects the active profile's data for a backup and writes restored or imported data back
+ */
+
+import { BackupContents, ImportMode, RestoreMode } from '../types';
+import {
+  AccountStorage,
+  BudgetStorage,
+  CategoryStorage,
+  ClassifierStorage,
+  SavedViewStorage,
+  TransactionCache,
+  TransactionStorage,
+  VaultStorage,
+} from '../utils/storage';
+import { restoredContents } from '../utils/backup';
+import { ImportReport, planImport } from '../utils/dataImport';
+import { commitChange, diffTransactionLists } from './undo';
+import { loadCategories } from './categories';
+import { logger } from '../utils/logger';
+
+/**
+ * Everything a backup carries, as it is on this device now
+ */
+export async function loadBackupContents(): Promise<BackupContents> {
+  if (TransactionStorage.isEncrypted() && !TransactionStorage.getEncryptionKey()) {
+    throw new Error('Unlock your encrypted data before backing it up or restoring');
+  }
+
+  await TransactionCache.loadCache();
+  return {
+    transactions: TransactionCache.getCachedTransactions(),
+    classifier: await ClassifierStorage.loadClassifier(),
+    budgets: BudgetStorage.loadBudgets(),
+    accounts: AccountStorage.loadAccounts(),
+    categories: await CategoryStorage.loadCategories(),
+    savedViews: SavedViewStorage.loadViews(),
+  };
+}
+
+/**
+ * Write new contents over the current ones. Transaction changes can be
+ * undone; ones that are removed go to the Trash.
+ */
+async function saveContents(label: string, current: BackupContents, next: BackupContents): Promise<void> {
+  await commitChange(label, diffTransactionLists(current.transactions, next.transactions));
+  if (next.classifier) {
+    await ClassifierStorage.saveClassifier(next.classifier);
+  }
+  BudgetStorage.saveBudgets(next.budgets);
+  AccountStorage.saveAccounts(next.accounts);
+  if (next.categories) {
+    await CategoryStorage.saveCategories(next.categories);
+  }
+  SavedViewStorage.saveViews(next.savedViews);
+  await VaultStorage.flush();
+}
+
+/**
+ * Write a backup over the current data
+ */
+export async function restoreBackup(backup: BackupContents, mode: RestoreMode, label: string): Promise<void> {
+  const current = await loadBackupContents();
+  await saveContents(label, current, restoredContents(current, backup, mode));
+  await loadCategories();
+  logger.info(`Backup: restored ${backup.transactions.length} transactions (${mode})`);
+}
+
+/**
+ * Import data from an export. Every record is validated first; with `dryRun`
+ * nothing is written and the report shows what the import would do.
+ */
+export async function importAllData(
+  input: unknown,
+  options: { mode: ImportMode; dryRun?: boolean; label?: string } = { mode: 'merge-by-id' }
+): Promise<ImportReport> {
+  const encrypted = TransactionStorage.isEncrypted();
+  const key = TransactionStorage.getEncryptionKey();
+  if (encrypted && !key) {
+    throw new Error('Unlock your encrypted data before importing');
+  }
+
+  const current: BackupContents = {
+    transactions: await TransactionStorage.loadTransactions(encrypted, key || undefined),
+    classifier: await ClassifierStorage.loadClassifier(),
+    budgets: BudgetStorage.loadBudgets(),
+    accounts: AccountStorage.loadAccounts(),
+    categories: await CategoryStorage.loadCategories(),
+    savedViews: SavedViewStorage.loadViews(),
+  };
+  const { report, next } = await planImport(input, current, options.mode);
+  if (options.dryRun) return report;
+
+  if (options.mode === 'replace' && report.errors.length > 0) {
+    throw new Error(`${report.errors.length} problem${report.errors.length === 1 ? '' : 's'} in the file; fix them or merge instead of replacing`);
+  }
+
+  await saveContents(options.label || 'Data imported', current, next);
+  return report;
+}
@@ -6,6 +6,7 @@
 import { ethers } from 'ethers';
 import { Transaction, TransactionProof } from '../types';
 import { hashTransaction } from '../utils/crypto';
+import { anchoredRevision, currentRevision, transactionAtRevision } from '../utils/revisions';
 import { isWeb3Available } from './wallet';
 
 export interface ChainConfig {
@@ -72,8 +73,12 @@ export async function getCurrentChain(): Promise<ChainConfig | null> {
 
 /**
  * Anchor transaction proof on blockchain
+ * With `includeAttachments` the proof also covers the attachment hashes
  */
-export async function anchorProof(transaction: Transaction): Promise<TransactionProof> {
+export async function anchorProof(
+  transaction: Transaction,
+  options: { includeAttachments?: boolean } = {}
+): Promise<TransactionProof> {
   if (!isWeb3Available()) {
     throw new Error('Web3 provider not available');
   }
@@ -90,7 +95,8 @@ export async function anchorProof(transaction: Transaction): Promise<Transaction
     }
 
     // Generate hash
-    const hash = await hashTransaction(transaction);
+    const includeAttachments = !!options.includeAttachments && (transaction.attachments || []).length > 0;
+    const hash = await hashTransaction(transaction, { includeAttachments });
 
     // Prepare transaction data (hash as hex string)
     // Some chains don't allow data in self-transactions, so use a burn address
@@ -135,6 +141,8 @@ export async function anchorProof(transaction: Transaction): Promise<Transaction
       chain: chain.name,
       timestamp: new Date().toISOString(),
       verified: false,
+      ...(includeAttachments ? { coversAttachments: true } : {}),
+      revision: currentRevision(transaction),
     };
 
     return proof;
@@ -145,6 +153,7 @@ export async function anchorProof(transaction: Transaction): Promise<Transaction
 
 /**
  * Verify transaction proof on blockchain
+ * Edits made after anchoring are undone first, so this checks the anchored revision
  */
 export async function verifyProof(transaction: Transaction): Promise<boolean> {
   if (!transaction.proof || !transaction.proof.txHash) {
@@ -163,8 +172,11 @@ export async function verifyProof(transaction: Transaction): Promise<boolean> {
       return false;
     }
 
-    // Generate expected hash
-    const expectedHash = await hashTransaction(transaction);
+    // Generate expected hash from the revision that was anchored
+    const anchored = transactionAtRevision(transaction, anchoredRevision(transaction) ?? currentRevision(transaction));
+    const expectedHash = await hashTransaction(anchored, {
+      includeAttachments: !!transaction.proof.coversAttachments,
+    });
 
     // Compare (normalize to lowercase)
     const normalize = (h: string) => {
@@ -0,0 +1,191 @@
+/**
+ * Category registry service
+ * Loads the user's categories and applies renames and merges across stored data
+ */
+
+import { Category } from '../types';
+import {
+  BudgetStorage,
+  CategoryStorage,
+  ClassifierStorage,
+  RecurringStorage,
+  SessionStorage,
+  TransactionCache,
+  TransactionStorage,
+  VaultStorage,
+  captureStorageSnapshot,
+  restoreStorageSnapshot,
+} from '../utils/storage';
+import {
+  CategoryData,
+  addCategory,
+  createDefaultCategories,
+  ensureCategoryPaths,
+  listCategoryPaths,
+  mergeCategories,
+  renameCategory,
+  setCategoryArchived,
+} from '../utils/categories';
+import { transactionCategories } from '../utils/splits';
+import { recordRevisions } from '../utils/revisions';
+import { DEFAULT_CATEGORIES } from './ai';
+import { logger } from '../utils/logger';
+import { onAppEvents } from '../utils/eventBus';
+
+let registry: Category[] | null = null;
+
+// Another wallet's categories must not show once its session ends; the next load reads them again
+onAppEvents(['vault:locked', 'session:changed'], () => {
+  registry = null;
+});
+
+/**
+ * Current registry; the default categories until one has been loaded
+ */
+export function getCategories(): Category[] {
+  if (!registry) {
+    registry = createDefaultCategories(DEFAULT_CATEGORIES);
+  }
+  return registry;
+}
+
+/**
+ * Paths offered when picking a category, e.g. "Food > Groceries"
+ */
+export function getCategoryPaths(includeArchived = false): string[] {
+  return listCategoryPaths(getCategories(), includeArchived);
+}
+
+function storageContext(): { encrypted: boolean; key: CryptoKey | undefined } {
+  return {
+    encrypted: TransactionStorage.isEncrypted(),
+    key: TransactionStorage.getEncryptionKey() || undefined,
+  };
+}
+
+async function persist(categories: Category[]): Promise<Category[]> {
+  await CategoryStorage.saveCategories(categories);
+  registry = categories;
+  return categories;
+}
+
+/**
+ * Load the stored registry, registering any categories already used by transactions.
+ * While encrypted data is locked the defaults are used and nothing is written.
+ */
+export async function loadCategories(): Promise<Category[]> {
+  const { encrypted, key } = storageContext();
+  if (encrypted && !key) {
+    return getCategories();
+  }
+
+  const stored = await CategoryStorage.loadCategories();
+  const base = stored || createDefaultCategories(DEFAULT_CATEGORIES);
+  const used = TransactionCache.getCachedTransactions().reduce<string[]>(
+    (paths, t) => paths.concat(transactionCategories(t)),
+    []
+  );
+  const categories = ensureCategoryPaths(base, used);
+
+  if (!stored || categories.length !== base.length) {
+    return persist(categories);
+  }
+  registry = categories;
+  return categories;
+}
+
+/**
+ * Add categories typed in by hand (e.g. "Custom") to the registry
+ */
+export async function registerCategoryPaths(paths: string[]): Promise<Category[]> {
+  const current = getCategories();
+  const updated = ensureCategoryPaths(current, paths);
+  const { encrypted, key } = storageContext();
+  if (updated.length === current.length || (encrypted && !key)) {
+    return current;
+  }
+  return persist(updated);
+}
+
+export async function createCategory(
+  name: string,
+  options: { parentId?: string; color?: string; icon?: string } = {}
+): Promise<Category[]> {
+  return persist(addCategory(getCategories(), name, options));
+}
+
+export async function updateCategory(id: string, changes: Partial<Pick<Category, 'color' | 'icon'>>): Promise<Category[]> {
+  return persist(getCategories().map(c => (c.id === id ? { ...c, ...changes } : c)));
+}
+
+/**
+ * Archive or restore a category; archived ones stay on past transactions but are not offered
+ */
+export async function archiveCategory(id: string, archived: boolean): Promise<Category[]> {
+  return persist(setCategoryArchived(getCategories(), id, archived));
+}
+
+async function loadCategoryData(): Promise<CategoryData> {
+  const { encrypted, key } = storageContext();
+  if (encrypted && !key) {
+    throw new Error('Unlock your encrypted data before changing categories');
+  }
+
+  return {
+    categories: getCategories(),
+    transactions: await TransactionStorage.loadTransactions(encrypted, key),
+    budgets: BudgetStorage.loadBudgets(),
+    classifier: await ClassifierStorage.loadClassifier(),
+    recurring: RecurringStorage.loadRecurring(),
+  };
+}
+
+/**
+ * Write every rewritten store, restoring the previous state if any write fails.
+ * Rewritten transactions get a revision, like any other edit.
+ */
+async function saveCategoryData(original: CategoryData, data: CategoryData): Promise<Category[]> {
+  const { encrypted, key } = storageContext();
+  const snapshot = await captureStorageSnapshot();
+  const previous = registry;
+
+  try {
+    await TransactionCache.updateTransactions(
+      recordRevisions(original.transactions, data.transactions, SessionStorage.loadSession()?.address)
+    );
+    BudgetStorage.saveBudgets(data.budgets);
+    if (data.classifier) {
+      await ClassifierStorage.saveClassifier(data.classifier);
+    }
+    RecurringStorage.saveRecurring(data.recurring);
+    const categories = await persist(data.categories);
+    await VaultStorage.flush();
+    return categories;
+  } catch (error) {
+    logger.error('Categories: rewrite failed, restoring previous data', error);
+    await restoreStorageSnapshot(snapshot);
+    await TransactionCache.updateTransactions(await TransactionStorage.loadTransactions(encrypted, key));
+    registry = previous;
+    throw error;
+  }
+}
+
+/**
+ * Rename a category and rewrite transactions, budgets, classifier and recurring rules
+ */
+export async function renameCategoryEverywhere(id: string, newName: string): Promise<Category[]> {
+  const data = await loadCategoryData();
+  const result = await saveCategoryData(data, renameCategory(data, id, newName));
+  logger.info(`Categories: renamed category to "${newName.trim()}"`);
+  return result;
+}
+
+/**
+ * Merge one category into another and rewrite everything that referenced it
+ */
+export async function mergeCategoriesEverywhere(sourceId: string, targetId: string): Promise<Category[]> {
+  const data = await loadCategoryData();
+  const result = await saveCategoryData(data, mergeCategories(data, sourceId, targetId));
+  logger.info('Categories: merged categories');
+  return result;
+}
@@ -0,0 +1,107 @@
+/**
+ * Recurring transaction service
+ * Queues due occurrences of recurring rules and turns confirmed ones into transactions
+ */
+
+import { PendingOccurrence, RecurrenceRule, RecurringTransaction, Transaction } from '../types';
+import { RecurringStorage, TransactionCache } from '../utils/storage';
+import { materializeDueOccurrences, occurrenceToTransaction, toDateKey, validateRule } from '../utils/recurrence';
+import { logger } from '../utils/logger';
+
+/**
+ * Queue every occurrence that is due today or earlier.
+ * Safe to call repeatedly; each occurrence is queued once.
+ */
+export function materializeDue(today: Date = new Date()): PendingOccurrence[] {
+  const result = materializeDueOccurrences(
+    RecurringStorage.loadRecurring(),
+    RecurringStorage.loadPending(),
+    toDateKey(today)
+  );
+
+  RecurringStorage.saveRecurring(result.recurring);
+  RecurringStorage.savePending(result.pending);
+
+  if (result.created.length > 0) {
+    logger.info(`Recurring: ${result.created.length} occurrence(s) due`);
+  }
+  return result.pending;
+}
+
+/**
+ * Create a recurring rule. A start date in the past queues the missed
+ * occurrences on the next check.
+ */
+export function addRecurring(
+  name: string,
+  rule: RecurrenceRule,
+  template: RecurringTransaction['template']
+): RecurringTransaction {
+  const error = validateRule(rule);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const recurring: RecurringTransaction = {
+    id: `rec_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+    name: name.trim() || template.note || template.category,
+    rule,
+    template,
+    createdAt: new Date().toISOString(),
+  };
+
+  RecurringStorage.saveRecurring([...RecurringStorage.loadRecurring(), recurring]);
+  return recurring;
+}
+
+/**
+ * Pause or resume a rule. Resuming does not back-fill the paused period.
+ */
+export function setRecurringPaused(id: string, paused: boolean, today: Date = new Date()): void {
+  RecurringStorage.saveRecurring(
+    RecurringStorage.loadRecurring().map(r => {
+      if (r.id !== id) return r;
+      return paused ? { ...r, paused } : { ...r, paused: false, lastGenerated: toDateKey(today) };
+    })
+  );
+}
+
+/**
+ * Delete a rule and drop its unconfirmed occurrences
+ */
+export function removeRecurring(id: string): void {
+  RecurringStorage.saveRecurring(RecurringStorage.loadRecurring().filter(r => r.id !== id));
+  RecurringStorage.savePending(RecurringStorage.loadPending().filter(p => p.recurringId !== id));
+}
+
+/**
+ * Record a pending occurrence as a real transaction
+ */
+export async function confirmOccurrence(occurrenceId: string): Promise<Transaction> {
+  const pending = RecurringStorage.loadPending();
+  const occurrence = pending.find(p => p.id === occurrenceId);
+  if (!occurrence) {
+    throw new Error('Occurrence not found');
+  }
+
+  const recurring = RecurringStorage.loadRecurring().find(r => r.id === occurrence.recurringId);
+  if (!recurring) {
+    throw new Error('Recurring rule no longer exists');
+  }
+
+  const transaction: Transaction = {
+    id: Date.now(),
+    ...occurrenceToTransaction(recurring, occurrence),
+  };
+
+  await TransactionCache.addTransaction(transaction);
+  RecurringStorage.savePending(pending.filter(p => p.id !== occurrenceId));
+  return transaction;
+}
+
+/**
+ * Drop a pending occurrence without recording it
+ */
+export function skipOccurrence(occurrenceId: string): void {
+  RecurringStorage.savePending(RecurringStorage.loadPending().filter(p => p.id !== occurrenceId));
+}
@@ -0,0 +1,119 @@
+/**
+ * Search service
+ * Keeps an in-memory search index in step with the transaction cache.
+ * The index is built after unlock and never written to storage.
+ */
+
+import { Account, Transaction } from '../types';
+import { TransactionCache } from '../utils/storage';
+import { onAppEvent, onAppEvents } from '../utils/eventBus';
+import {
+  addDocument,
+  clearSearchIndex,
+  createSearchIndex,
+  removeDocument,
+  searchIndex,
+  SearchDocument,
+  SearchResult,
+  tokenize,
+} from '../utils/searchIndex';
+import { compileQuery, ParsedQuery, queryText } from '../utils/transactionQuery';
+import { merchantKey } from './subscriptions';
+
+export interface QueryMatches {
+  transactions: Transaction[];
+  /** Indexed terms matched by the query's bare words, for highlighting */
+  terms: string[];
+}
+
+const index = createSearchIndex();
+let built = false;
+
+function tokenizeAll(texts: Array<string | undefined>): string[] {
+  return texts.reduce<string[]>((terms, text) => (text ? terms.concat(tokenize(text)) : terms), []);
+}
+
+/**
+ * "12.5" is found by typing 12, 12.5 or 12.50
+ */
+function amountTerms(amounts: number[]): string[] {
+  const terms = new Set<string>();
+  amounts.forEach(amount => {
+    const abs = Math.abs(amount);
+    terms.add(abs.toFixed(2));
+    terms.add(String(Math.trunc(abs)));
+  });
+  return Array.from(terms);
+}
+
+export function transactionDocument(transaction: Transaction): SearchDocument {
+  const splits = transaction.splits || [];
+  return {
+    merchant: tokenize(merchantKey(transaction)),
+    category: tokenizeAll([transaction.category, ...splits.map(s => s.category)]),
+    tag: tokenizeAll(transaction.tags || []),
+    note: tokenizeAll([transaction.note, ...splits.map(s => s.note)]),
+    amount: amountTerms([transaction.amount, ...splits.map(s => s.amount)]),
+  };
+}
+
+function indexTransactions(transactions: Transaction[]): void {
+  transactions.forEach(t => addDocument(index, String(t.id), transactionDocument(t)));
+}
+
+function rebuild(transactions: Transaction[]): void {
+  clearSearchIndex(index);
+  indexTransactions(transactions);
+  built = true;
+}
+
+function reset(): void {
+  clearSearchIndex(index);
+  built = false;
+}
+
+/**
+ * Search the cached transactions; scores are keyed by transaction id
+ */
+export function searchCachedTransactions(query: string): SearchResult {
+  if (!built && TransactionCache.isCacheLoaded()) {
+    rebuild(TransactionCache.getCachedTransactions());
+  }
+  return searchIndex(index, query);
+}
+
+/**
+ * Transactions matching a parsed query; bare words are looked up in the index
+ */
+export function runTransactionQuery(
+  transactions: Transaction[],
+  parsed: ParsedQuery,
+  accounts: Account[] = []
+): QueryMatches {
+  const matches = compileQuery(parsed.clauses, accounts);
+  const { include, exclude } = queryText(parsed);
+  const included = include ? searchCachedTransactions(include) : null;
+  const excluded = new Set<string>();
+  exclude.forEach(text => searchCachedTransactions(text).scores.forEach((_, id) => excluded.add(id)));
+
+  return {
+    transactions: transactions.filter(t => {
+      const id = String(t.id);
+      return matches(t) && (!included || included.scores.has(id)) && !excluded.has(id);
+    }),
+    terms: included ? included.terms : [],
+  };
+}
+
+onAppEvent('transactions:reset', ({ transactions }) => rebuild(transactions));
+onAppEvent('transactions:added', ({ transactions }) => {
+  if (built) indexTransactions(transactions);
+});
+onAppEvent('transactions:updated', ({ transactions }) => {
+  if (built) indexTransactions(transactions);
+});
+onAppEvent('transactions:deleted', ({ ids }) => {
+  ids.forEach(id => removeDocument(index, String(id)));
+});
+// Decrypted terms must not outlive the unlocked session
+onAppEvents(['vault:locked', 'session:changed'], reset);
@@ -0,0 +1,65 @@
+/**
+ * Statement service
+ * Builds a PDF statement from the active profile's data, entirely on this device
+ */
+
+import { AttachmentStorage, BudgetStorage, CurrencyStorage, TransactionCache, TransactionStorage } from '../utils/storage';
+import {
+  buildStatement,
+  renderStatementPdf,
+  Statement,
+  StatementAttachment,
+  StatementRange,
+} from '../utils/statementReport';
+import { getExplorerUrl } from './blockchain';
+import { printableImage } from './attachments';
+import { Transaction } from '../types';
+
+/**
+ * Load the attachments of a period's transactions, with images ready to print
+ */
+export async function loadStatementAttachments(transactions: Transaction[]): Promise<StatementAttachment[]> {
+  const loaded: StatementAttachment[] = [];
+  for (const transaction of transactions) {
+    for (const attachment of transaction.attachments || []) {
+      let content: ArrayBuffer | null = null;
+      try {
+        content = await AttachmentStorage.loadContent(attachment.id);
+      } catch (error) {
+        console.error(`Failed to load attachment ${attachment.name}:`, error);
+      }
+      loaded.push({
+        transaction,
+        attachment,
+        content: content ? new Uint8Array(content) : null,
+        jpeg: content ? await printableImage(attachment, content) : null,
+      });
+    }
+  }
+  return loaded;
+}
+
+/**
+ * The statement for a period and its PDF bytes
+ */
+export async function createStatementPdf(
+  range: StatementRange,
+  options: { includeAttachments: boolean }
+): Promise<{ statement: Statement; pdf: Uint8Array<ArrayBuffer> }> {
+  if (TransactionStorage.isEncrypted() && !TransactionStorage.getEncryptionKey()) {
+    throw new Error('Unlock your encrypted data to create a statement');
+  }
+
+  await TransactionCache.loadCache();
+  const statement = buildStatement(
+    TransactionCache.getCachedTransactions(),
+    BudgetStorage.loadBudgets(),
+    range,
+    { currency: CurrencyStorage.getContext(), explorerUrl: getExplorerUrl }
+  );
+  const attachments = options.includeAttachments
+    ? await loadStatementAttachments(statement.transactions)
+    : undefined;
+
+  return { statement, pdf: renderStatementPdf(statement, attachments) };
+}
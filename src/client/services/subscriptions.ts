@@ -0,0 +1,137 @@
+/**
+ * Subscription detection service
+ * Finds likely recurring charges in history by merchant, amount and interval
+ * All processing is done on-device
+ */
+
+import { Transaction } from '../types';
+import { transactionCurrency } from '../utils/currency';
+
+export type SubscriptionFrequency = 'weekly' | 'monthly' | 'yearly';
+
+export interface DetectedSubscription {
+  /** Normalized merchant key used for matching */
+  key: string;
+  merchant: string;
+  category: string;
+  amount: number;
+  currency: string;
+  frequency: SubscriptionFrequency;
+  occurrences: number;
+  firstDate: string;
+  lastDate: string;
+  nextExpected: string;
+  annualCost: number;
+  confidence: number;
+  transactionIds: Array<string | number>;
+  /** Already generated by a recurring rule */
+  tracked: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Accepted gap between charges, in days, for each frequency
+ */
+const INTERVALS: Array<{ frequency: SubscriptionFrequency; min: number; max: number; days: number; perYear: number }> = [
+  { frequency: 'weekly', min: 6, max: 8, days: 7, perYear: 52 },
+  { frequency: 'monthly', min: 27, max: 33, days: 30, perYear: 12 },
+  { frequency: 'yearly', min: 355, max: 375, days: 365, perYear: 1 },
+];
+
+/**
+ * Relative amount difference still treated as the same charge
+ */
+const AMOUNT_TOLERANCE = 0.1;
+
+/**
+ * Merchant key from a note: lowercase words without digits or references
+ */
+export function merchantKey(transaction: Transaction): string {
+  const source = (transaction.note || '').toLowerCase();
+  const words = source
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 1)
+    .slice(0, 3);
+  return words.length > 0 ? words.join(' ') : '';
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Detect likely subscriptions in transaction history
+ */
+export function detectSubscriptions(transactions: Transaction[]): DetectedSubscription[] {
+  const groups = new Map<string, Transaction[]>();
+
+  transactions
+    .filter(t => t.type === 'expense')
+    .forEach(t => {
+      const key = merchantKey(t);
+      if (!key) return;
+      const groupKey = `${key}|${transactionCurrency(t)}`;
+      groups.set(groupKey, [...(groups.get(groupKey) || []), t]);
+    });
+
+  const detected: DetectedSubscription[] = [];
+
+  groups.forEach((group, groupKey) => {
+    if (group.length < 2) return;
+
+    // Keep charges close to the typical amount
+    const typical = median(group.map(t => Math.abs(t.amount)));
+    const matching = group
+      .filter(t => Math.abs(Math.abs(t.amount) - typical) <= typical * AMOUNT_TOLERANCE)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    if (matching.length < 2) return;
+
+    const gaps: number[] = [];
+    for (let i = 1; i < matching.length; i++) {
+      const gap = (new Date(matching[i].timestamp).getTime() - new Date(matching[i - 1].timestamp).getTime()) / DAY_MS;
+      gaps.push(gap);
+    }
+
+    const typicalGap = median(gaps);
+    const interval = INTERVALS.find(i => typicalGap >= i.min && typicalGap <= i.max);
+    if (!interval) return;
+
+    // Weekly and monthly charges need three hits; yearly ones two
+    const minOccurrences = interval.frequency === 'yearly' ? 2 : 3;
+    if (matching.length < minOccurrences) return;
+
+    const regular = gaps.filter(g => g >= interval.min && g <= interval.max).length / gaps.length;
+    if (regular < 0.75) return;
+
+    const latest = matching[matching.length - 1];
+    const lastTime = new Date(latest.timestamp).getTime();
+    const amountSpread = Math.max(...matching.map(t => Math.abs(Math.abs(t.amount) - typical))) / (typical || 1);
+    const confidence = Math.min(
+      1,
+      0.4 + regular * 0.3 + Math.min(matching.length, 6) * 0.05 - amountSpread
+    );
+
+    detected.push({
+      key: groupKey.split('|')[0],
+      merchant: latest.note || groupKey.split('|')[0],
+      category: latest.category,
+      amount: Math.abs(latest.amount),
+      currency: transactionCurrency(latest),
+      frequency: interval.frequency,
+      occurrences: matching.length,
+      firstDate: matching[0].timestamp,
+      lastDate: latest.timestamp,
+      nextExpected: new Date(lastTime + interval.days * DAY_MS).toISOString(),
+      annualCost: Math.abs(latest.amount) * interval.perYear,
+      confidence: Math.max(0, confidence),
+      transactionIds: matching.map(t => t.id),
+      tracked: matching.some(t => !!t.recurringId),
+    });
+  });
+
+  return detected.sort((a, b) => b.annualCost - a.annualCost);
+}
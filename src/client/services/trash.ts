@@ -0,0 +1,52 @@
+/**
+ * Trash service
+ * Restore and purge soft-deleted transactions
+ */
+
+import { Transaction, TrashedTransaction } from '../types';
+import { TransactionCache, TrashStorage } from '../utils/storage';
+import { expiredTrash } from '../utils/trash';
+import { logger } from '../utils/logger';
+
+export function loadTrash(): Promise<TrashedTransaction[]> {
+  return TrashStorage.loadTrash();
+}
+
+export async function restoreFromTrash(ids: Array<string | number>): Promise<Transaction[]> {
+  const wanted = new Set(ids);
+  const restored = (await TrashStorage.loadTrash())
+    .filter(item => wanted.has(item.transaction.id))
+    .map(item => item.transaction);
+
+  await TransactionCache.restoreTransactions(restored);
+  return restored;
+}
+
+/**
+ * Permanently delete trashed transactions and their attachments
+ */
+export async function purgeFromTrash(ids: Array<string | number>): Promise<void> {
+  const wanted = new Set(ids);
+  await TrashStorage.purge((await TrashStorage.loadTrash()).filter(item => wanted.has(item.transaction.id)));
+}
+
+export async function emptyTrash(): Promise<void> {
+  await TrashStorage.purge(await TrashStorage.loadTrash());
+}
+
+/**
+ * Purge everything older than the retention period; skipped while locked
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  try {
+    const expired = expiredTrash(await TrashStorage.loadTrash(), TrashStorage.loadRetentionDays(), now);
+    if (expired.length > 0) {
+      await TrashStorage.purge(expired);
+      logger.info(`Trash: purged ${expired.length} expired transactions`);
+    }
+    return expired.length;
+  } catch (error) {
+    logger.warn('Trash: automatic purge skipped', error);
+    return 0;
+  }
+}
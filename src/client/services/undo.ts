@@ -0,0 +1,142 @@
+/**
+ * Undo service
+ * In-session undo/redo of transaction changes: add, edit, delete,
+ * bulk recategorize and import
+ */
+
+import { Transaction } from '../types';
+import { TransactionCache } from '../utils/storage';
+
+/** One transaction before and after a change; null when it did not exist */
+export interface TransactionChange {
+  before: Transaction | null;
+  after: Transaction | null;
+}
+
+export interface UndoEntry {
+  label: string;
+  changes: TransactionChange[];
+}
+
+export type UndoEvent =
+  | { kind: 'record'; entry: UndoEntry }
+  | { kind: 'undo'; entry: UndoEntry }
+  | { kind: 'redo'; entry: UndoEntry };
+
+const MAX_ENTRIES = 50;
+
+let undoStack: UndoEntry[] = [];
+let redoStack: UndoEntry[] = [];
+const listeners = new Set<(event: UndoEvent) => void>();
+
+function emit(event: UndoEvent): void {
+  listeners.forEach(listener => listener(event));
+}
+
+/**
+ * Changes that turn one list of transactions into another, matched by id
+ */
+export function diffTransactionLists(before: Transaction[], after: Transaction[]): TransactionChange[] {
+  const previous = new Map(before.map(t => [t.id, t] as const));
+  const changes: TransactionChange[] = [];
+
+  after.forEach(t => {
+    const original = previous.get(t.id) || null;
+    previous.delete(t.id);
+    if (!original || JSON.stringify(original) !== JSON.stringify(t)) {
+      changes.push({ before: original, after: t });
+    }
+  });
+  previous.forEach(original => changes.push({ before: original, after: null }));
+
+  return changes;
+}
+
+/**
+ * Write one side of a set of changes. Transactions that go away are trashed,
+ * ones that come back are restored from the trash, the rest are edits.
+ */
+async function applyChanges(changes: TransactionChange[], direction: 'undo' | 'redo'): Promise<void> {
+  const restored: Transaction[] = [];
+
+  for (const change of changes) {
+    const from = direction === 'undo' ? change.after : change.before;
+    const to = direction === 'undo' ? change.before : change.after;
+
+    if (from && !to) {
+      await TransactionCache.deleteTransaction(from.id);
+    } else if (to && !from) {
+      restored.push(to);
+    } else if (to) {
+      await TransactionCache.updateTransaction(to);
+    }
+  }
+
+  if (restored.length > 0) {
+    await TransactionCache.restoreTransactions(restored);
+  }
+}
+
+/**
+ * Remember a change that has already been saved
+ */
+export function recordChange(label: string, changes: TransactionChange[]): void {
+  if (changes.length === 0) return;
+  const entry: UndoEntry = { label, changes };
+  undoStack = [...undoStack, entry].slice(-MAX_ENTRIES);
+  redoStack = [];
+  emit({ kind: 'record', entry });
+}
+
+/**
+ * Save a change and make it undoable
+ */
+export async function commitChange(label: string, changes: TransactionChange[]): Promise<void> {
+  await applyChanges(changes, 'redo');
+  recordChange(label, changes);
+}
+
+export async function undo(): Promise<UndoEntry | null> {
+  const entry = undoStack[undoStack.length - 1];
+  if (!entry) return null;
+
+  await applyChanges(entry.changes, 'undo');
+  undoStack = undoStack.slice(0, -1);
+  redoStack = [...redoStack, entry];
+  emit({ kind: 'undo', entry });
+  return entry;
+}
+
+export async function redo(): Promise<UndoEntry | null> {
+  const entry = redoStack[redoStack.length - 1];
+  if (!entry) return null;
+
+  await applyChanges(entry.changes, 'redo');
+  redoStack = redoStack.slice(0, -1);
+  undoStack = [...undoStack, entry];
+  emit({ kind: 'redo', entry });
+  return entry;
+}
+
+export function canUndo(): boolean {
+  return undoStack.length > 0;
+}
+
+export function canRedo(): boolean {
+  return redoStack.length > 0;
+}
+
+export function subscribeUndo(listener: (event: UndoEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Forget the history, e.g. when the session ends
+ */
+export function clearUndoHistory(): void {
+  undoStack = [];
+  redoStack = [];
+}
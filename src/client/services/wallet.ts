@@ -5,6 +5,7 @@
 
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
+import { ProfileStorage, SessionStorage } from '../utils/storage';
 
 declare global {
   interface Window {
@@ -210,8 +211,14 @@ export function onAccountChange(callback: (accounts: string[]) => void): () => v
  * Attempt to disconnect from wallet (limited support)
  * Note: Most wallets don't support programmatic disconnection
  * This function tries multiple methods to disconnect
+ * Only the connected wallet's profile is locked; other profiles keep their unlock state
  */
 export async function disconnectWallet(): Promise<void> {
+  const session = SessionStorage.loadSession();
+  if (session) {
+    ProfileStorage.lockProfile(session.address);
+  }
+
   if (!isWeb3Available()) {
     return;
   }
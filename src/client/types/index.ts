@@ -2,16 +2,122 @@
  * Core type definitions for SafePay AI
  */
 
-export type TransactionType = 'income' | 'expense';
+export type TransactionType = 'income' | 'expense' | 'transfer';
 
 export interface Transaction {
   id: string | number;
   amount: number;
+  /** ISO 4217 code; transactions recorded before currencies existed are USD */
+  currency?: string;
   type: TransactionType;
   category: string;
   note?: string;
   timestamp: string;
   proof?: TransactionProof;
+  /** Account the money leaves (expense, transfer) or enters (income) */
+  accountId?: string;
+  /** Destination account of a transfer */
+  toAccountId?: string;
+  /** Amount credited to the destination when its currency differs */
+  toAmount?: number;
+  /** Per-category lines of a split expense; amounts add up to `amount` */
+  splits?: TransactionSplit[];
+  /** Recurring rule this transaction was generated from */
+  recurringId?: string;
+  /** Free-form labels such as "trip-lisbon", stored without the leading "#" */
+  tags?: string[];
+  /** Receipts and documents; the file contents live in the attachment vault */
+  attachments?: Attachment[];
+  /** Append-only edit log, oldest first; revision 0 is the transaction as created */
+  revisions?: TransactionRevision[];
+  /** Bank's id for an imported transaction, e.g. "ofx:<account>:<FITID>", so repeats are skipped */
+  externalId?: string;
+}
+
+export interface TrashedTransaction {
+  transaction: Transaction;
+  deletedAt: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface TransactionRevision {
+  /** 1 for the first edit, 2 for the second, ... */
+  revision: number;
+  editedAt: string;
+  /** Wallet address of the session that made the edit */
+  editedBy?: string;
+  changes: FieldChange[];
+}
+
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  /** SHA-256 of the file contents, 0x-prefixed hex */
+  hash: string;
+  createdAt: string;
+}
+
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+  note?: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'nth-weekday';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Repeat every `interval` days, weeks, months or years */
+  interval: number;
+  /** First occurrence (YYYY-MM-DD); also fixes the day of month for monthly rules */
+  startDate: string;
+  /** Last day an occurrence may fall on (YYYY-MM-DD), inclusive */
+  endDate?: string;
+  /** nth-weekday only: 0 = Sunday ... 6 = Saturday */
+  weekday?: number;
+  /** nth-weekday only: 1-4, or -1 for the last one in the month */
+  nth?: number;
+}
+
+export interface RecurringTransaction {
+  id: string;
+  name: string;
+  rule: RecurrenceRule;
+  template: Omit<Transaction, 'id' | 'timestamp' | 'proof'>;
+  /** Occurrences up to this date (YYYY-MM-DD) have already been generated */
+  lastGenerated?: string;
+  paused?: boolean;
+  createdAt: string;
+}
+
+/**
+ * A due occurrence waiting for the user to confirm or skip it
+ */
+export interface PendingOccurrence {
+  id: string;
+  recurringId: string;
+  date: string;
+}
+
+export type AccountKind = 'checking' | 'credit-card' | 'cash' | 'crypto-wallet';
+
+export interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  currency: string;
+  openingBalance: number;
+  archived?: boolean;
+  /** Account number in bank statements (OFX BANKACCTFROM), so imports land here */
+  bankAccountId?: string;
+  createdAt: string;
 }
 
 export interface TransactionProof {
@@ -20,6 +126,34 @@ export interface TransactionProof {
   chain?: string;
   timestamp?: string;
   verified?: boolean;
+  /** The anchored hash also covers the transaction's attachment hashes */
+  coversAttachments?: boolean;
+  /** Revision of the transaction the hash was computed from */
+  revision?: number;
+}
+
+export interface FxRate {
+  /** One unit of `from` equals `rate` units of `to` */
+  from: string;
+  to: string;
+  rate: number;
+  /** Effective date (YYYY-MM-DD) */
+  date: string;
+}
+
+export interface CurrencyContext {
+  baseCurrency: string;
+  rates: FxRate[];
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  /** Parent category; transactions use the full path, e.g. "Food > Groceries" */
+  parentId?: string;
+  color: string;
+  icon: string;
+  archived?: boolean;
 }
 
 export interface Classifier {
@@ -61,6 +195,109 @@ export interface WalletSession {
   connectedAt: string;
 }
 
+/**
+ * A wallet that has used this device. Each profile keeps its data under its own namespace;
+ * the first profile keeps the unscoped keys written before profiles existed.
+ */
+export interface WalletProfile {
+  address: string;
+  namespace: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export type HistoryColumn = 'date' | 'type' | 'category' | 'note' | 'amount' | 'balance' | 'proof';
+
+/**
+ * A named HistoryPage setup, opened at #/history?view=<id>
+ */
+export interface SavedView {
+  /** URL slug derived from the name, e.g. "business-meals" */
+  id: string;
+  name: string;
+  /** Filters and sort as a transaction query, see utils/transactionQuery */
+  query: string;
+  columns: HistoryColumn[];
+  /** Shown as a summary widget on the dashboard */
+  pinned: boolean;
+  createdAt: string;
+}
+
+export type CsvDateFormat =
+  | 'YYYY-MM-DD'
+  | 'YYYY/MM/DD'
+  | 'DD.MM.YYYY'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'DD-MM-YYYY'
+  | 'MM-DD-YYYY';
+
+/** Zero-based CSV column of each field, or null when the file has no such column */
+export interface CsvColumnMapping {
+  date: number;
+  /** Signed amount; ignored when debit or credit columns are mapped */
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  description: number;
+}
+
+export interface CsvImportSettings {
+  delimiter: string;
+  hasHeader: boolean;
+  dateFormat: CsvDateFormat;
+  columns: CsvColumnMapping;
+  /** The bank exports money going out as positive amounts */
+  invertAmounts: boolean;
+}
+
+/**
+ * Column mapping saved for one bank's statements
+ */
+export interface CsvImportTemplate {
+  id: string;
+  name: string;
+  /** Header row the template was made from, used to pick it again */
+  headers: string[];
+  settings: CsvImportSettings;
+  accountId?: string;
+  createdAt: string;
+}
+
+export type LedgerFormat = 'beancount' | 'ledger' | 'hledger';
+
+/**
+ * How transactions map onto a plain-text accounting journal
+ */
+export interface LedgerSettings {
+  format: LedgerFormat;
+  /** Journal account by category path, e.g. "Food > Coffee" -> "Expenses:Food:Coffee" */
+  categoryAccounts: Record<string, string>;
+  /** Journal account by SafePay account id, e.g. "Assets:Bank:Checking" */
+  assetAccounts: Record<string, string>;
+}
+
+/**
+ * Everything a backup carries; categories are null while the defaults are in use
+ */
+export interface BackupContents {
+  transactions: Transaction[];
+  classifier: Classifier | null;
+  budgets: Record<string, number>;
+  accounts: Account[];
+  categories: Category[] | null;
+  savedViews: SavedView[];
+}
+
+/** Merge keeps what is here and adds what is missing; replace makes this device match the backup */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * How imported transactions meet existing ones: replace them all, match by id,
+ * or match by content hash so re-importing the same data adds nothing
+ */
+export type ImportMode = 'replace' | 'merge-by-id' | 'merge-by-hash';
+
 export interface EncryptionConfig {
   enabled: boolean;
   address: string | null;
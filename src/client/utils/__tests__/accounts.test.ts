@@ -0,0 +1,48 @@
+/**
+ * Account Utility Tests
+ */
+
+import { calculateAccountBalances, calculateRunningBalances, filterByAccount, validateTransfer } from '../accounts';
+import { calculateSummary, calculateTrends } from '../analytics';
+import { generateInsights } from '../../services/ai';
+import { Account, Transaction } from '../../types';
+
+const checking: Account = {
+  id: 'chk', name: 'Checking', kind: 'checking', currency: 'USD', openingBalance: 1000, createdAt: '2025-01-01T00:00:00.000Z',
+};
+const cash: Account = {
+  id: 'cash', name: 'Wallet', kind: 'cash', currency: 'USD', openingBalance: 50, createdAt: '2025-01-01T00:00:00.000Z',
+};
+
+const transactions: Transaction[] = [
+  { id: 1, amount: 2000, type: 'income', category: 'Salary', accountId: 'chk', timestamp: '2025-03-01T09:00:00.000Z' },
+  { id: 2, amount: 300, type: 'transfer', category: 'Transfer', accountId: 'chk', toAccountId: 'cash', timestamp: '2025-03-02T09:00:00.000Z' },
+  { id: 3, amount: 40, type: 'expense', category: 'Food', accountId: 'cash', timestamp: '2025-03-03T09:00:00.000Z' },
+];
+
+describe('Account Utilities', () => {
+  test('calculates balances from opening balance and movements', () => {
+    const balances = calculateAccountBalances([checking, cash], transactions);
+    expect(balances.map(b => b.balance)).toEqual([2700, 310]);
+  });
+
+  test('calculates running balances in date order', () => {
+    const entries = calculateRunningBalances(cash, [...transactions].reverse());
+    expect(entries.map(e => e.balance)).toEqual([350, 310]);
+    expect(filterByAccount(transactions, 'cash').map(t => t.id)).toEqual([2, 3]);
+  });
+
+  test('transfers are not income or spending', () => {
+    const summary = calculateSummary(transactions);
+    expect(summary.totalIncome).toBe(2000);
+    expect(summary.totalExpenses).toBe(40);
+    expect(summary.transactionCount).toBe(2);
+    expect(calculateTrends(transactions)[0].expense).toBe(40);
+    expect(generateInsights([transactions[1]])).toEqual(['Start adding transactions to see insights']);
+  });
+
+  test('rejects transfers to the same account', () => {
+    expect(validateTransfer({ accountId: 'chk', toAccountId: 'chk', amount: 5 }, [checking, cash])).not.toBeNull();
+    expect(validateTransfer({ accountId: 'chk', toAccountId: 'cash', amount: 5 }, [checking, cash])).toBeNull();
+  });
+});
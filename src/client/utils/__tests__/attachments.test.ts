@@ -0,0 +1,69 @@
+/**
+ * Attachment Utility Tests
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import { formatFileSize, MAX_ATTACHMENT_BYTES, validateAttachmentFile } from '../attachments';
+import { hashTransaction } from '../crypto';
+
+// jsdom lacks SubtleCrypto and TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+describe('Attachment Utilities', () => {
+  describe('validateAttachmentFile', () => {
+    test('accepts images and PDFs within the size limit', () => {
+      expect(validateAttachmentFile({ name: 'receipt.jpg', type: 'image/jpeg', size: 2048 })).toBeNull();
+      expect(validateAttachmentFile({ name: 'invoice.pdf', type: 'application/pdf', size: 2048 })).toBeNull();
+    });
+
+    test('rejects other file types', () => {
+      expect(validateAttachmentFile({ name: 'notes.txt', type: 'text/plain', size: 10 })).toContain('notes.txt');
+    });
+
+    test('rejects files over the size limit', () => {
+      const error = validateAttachmentFile({ name: 'scan.png', type: 'image/png', size: MAX_ATTACHMENT_BYTES + 1 });
+      expect(error).toContain('10.0 MB');
+    });
+  });
+
+  test('formatFileSize', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(3 * 1024 * 1024)).toBe('3.0 MB');
+  });
+
+  describe('hashTransaction with attachments', () => {
+    const transaction = {
+      amount: 42,
+      type: 'expense',
+      category: 'Food',
+      note: 'Lunch',
+      timestamp: '2024-03-01T12:00:00.000Z',
+      attachments: [{ hash: '0xbbb' }, { hash: '0xaaa' }],
+    };
+
+    test('ignores attachments unless asked, so older proofs still verify', async () => {
+      const { attachments, ...plain } = transaction;
+      expect(attachments).toHaveLength(2);
+      expect(await hashTransaction(transaction)).toBe(await hashTransaction(plain));
+    });
+
+    test('covers attachment hashes regardless of order', async () => {
+      const covered = await hashTransaction(transaction, { includeAttachments: true });
+      const reordered = await hashTransaction(
+        { ...transaction, attachments: [...transaction.attachments].reverse() },
+        { includeAttachments: true }
+      );
+      const tampered = await hashTransaction(
+        { ...transaction, attachments: [{ hash: '0xaaa' }, { hash: '0xccc' }] },
+        { includeAttachments: true }
+      );
+
+      expect(covered).not.toBe(await hashTransaction(transaction));
+      expect(reordered).toBe(covered);
+      expect(tampered).not.toBe(covered);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Backup File Tests
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import {
+  BACKUP_VERSION,
+  backupWallets,
+  createBackup,
+  openBackup,
+  previewRestore,
+  readBackupFile,
+  restoredContents,
+} from '../backup';
+import { BackupContents, Transaction } from '../../types';
+
+// jsdom lacks SubtleCrypto and TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+// Few rounds keep the tests fast; real backups use DEFAULT_KDF_ITERATIONS
+const iterations = 1000;
+const passphrase = 'correct horse battery';
+
+async function walletKey(fill: number): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new Uint8Array(32).fill(fill), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+const transaction = (id: string, amount: number): Transaction => ({
+  id,
+  amount,
+  type: 'expense',
+  category: 'Food',
+  note: `Lunch ${id}`,
+  timestamp: '2025-09-03T12:00:00.000Z',
+});
+
+const backup: BackupContents = {
+  transactions: [transaction('a', 10), transaction('b', 20)],
+  classifier: { keywords: { Food: { lunch: 2 } } },
+  budgets: { Food: 300 },
+  accounts: [],
+  categories: null,
+  savedViews: [],
+};
+
+describe('Backup Files', () => {
+  it('should seal contents behind a passphrase', async () => {
+    const text = await createBackup(backup, { passphrase, iterations, now: new Date('2025-10-01T00:00:00Z') });
+    const file = readBackupFile(text);
+
+    expect(file.version).toBe(BACKUP_VERSION);
+    expect(file.createdAt).toBe('2025-10-01T00:00:00.000Z');
+    expect(file.kdf).toMatchObject({ name: 'PBKDF2', hash: 'SHA-256', iterations });
+    expect(backupWallets(file)).toEqual([]);
+    expect(text).not.toContain('Lunch');
+
+    await expect(openBackup(text, { passphrase })).resolves.toEqual(backup);
+    await expect(openBackup(text, { passphrase: 'wrong horse battery' })).rejects.toThrow('Wrong passphrase');
+    await expect(openBackup(text, { walletKey: await walletKey(1) })).rejects.toThrow('only be opened with its passphrase');
+  });
+
+  it('should let the wallet it was made with open a backup', async () => {
+    const key = await walletKey(1);
+    const text = await createBackup(backup, { passphrase, iterations, wallet: { address: '0xAbC123', key } });
+
+    expect(backupWallets(readBackupFile(text))).toEqual(['0xabc123']);
+    await expect(openBackup(text, { walletKey: key })).resolves.toEqual(backup);
+    await expect(openBackup(text, { passphrase })).resolves.toEqual(backup);
+    await expect(openBackup(text, { walletKey: await walletKey(2) })).rejects.toThrow('This wallet cannot open');
+  });
+
+  it('should detect changes to the header or contents', async () => {
+    const text = await createBackup(backup, { passphrase, iterations });
+    const file = JSON.parse(text);
+
+    const redated = JSON.stringify({ ...file, createdAt: '2020-01-01T00:00:00.000Z' });
+    await expect(openBackup(redated, { passphrase })).rejects.toThrow('damaged or has been modified');
+
+    const bytes = Buffer.from(file.payload, 'base64');
+    bytes[bytes.length - 1] ^= 1;
+    const flipped = JSON.stringify({ ...file, payload: bytes.toString('base64') });
+    await expect(openBackup(flipped, { passphrase })).rejects.toThrow('damaged or has been modified');
+  });
+
+  it('should refuse a backup with invalid records before restoring it', async () => {
+    const bad = {
+      ...backup,
+      transactions: [transaction('a', 10), { ...transaction('b', 20), amount: 'lots' } as unknown as Transaction],
+      accounts: [{ id: 'acc', name: '' }],
+    } as BackupContents;
+    const text = await createBackup(bad, { passphrase, iterations });
+
+    await expect(openBackup(text, { passphrase }))
+      .rejects.toThrow('The backup has 2 invalid entries, starting with transactions[1] amount');
+  });
+
+  it('should reject files it cannot open', async () => {
+    expect(() => readBackupFile('{"transactions": []}')).toThrow('Not a SafePay backup');
+    expect(() => readBackupFile('not json')).toThrow('Not a SafePay backup');
+    expect(() => readBackupFile(JSON.stringify({ format: 'safepay-backup', version: BACKUP_VERSION + 1 })))
+      .toThrow('newer version');
+    expect(() => readBackupFile(JSON.stringify({ format: 'safepay-backup', version: 1, keys: [] })))
+      .toThrow('incomplete');
+
+    const file = JSON.parse(await createBackup(backup, { passphrase, iterations }));
+    expect(() => readBackupFile(JSON.stringify({ ...file, keys: [{ type: 'wallet', wrapped: 'x' }] })))
+      .toThrow('incomplete');
+    expect(() => readBackupFile(JSON.stringify({ ...file, kdf: { ...file.kdf, iterations: '1000' } })))
+      .toThrow('incomplete');
+    await expect(createBackup(backup, { passphrase: 'short' })).rejects.toThrow('at least 8 characters');
+  });
+
+  it('should merge without touching what is already here', () => {
+    const current: BackupContents = {
+      transactions: [{ ...transaction('a', 12), note: 'Edited' }, transaction('c', 5)],
+      classifier: null,
+      budgets: { Food: 250, Rent: 900 },
+      accounts: [],
+      categories: null,
+      savedViews: [],
+    };
+
+    const merged = restoredContents(current, backup, 'merge');
+    expect(merged.transactions.map(t => [t.id, t.amount])).toEqual([['a', 12], ['c', 5], ['b', 20]]);
+    expect(merged.budgets).toEqual({ Food: 250, Rent: 900 });
+    expect(merged.classifier).toEqual(backup.classifier);
+
+    expect(previewRestore(current, backup, 'merge')).toMatchObject({
+      transactions: { added: 1, updated: 0, removed: 0 },
+      budgets: { added: 0, updated: 0, removed: 0 },
+      classifier: true,
+    });
+    expect(previewRestore(current, backup, 'replace')).toMatchObject({
+      transactions: { added: 1, updated: 1, removed: 1 },
+      budgets: { added: 0, updated: 1, removed: 1 },
+    });
+    expect(restoredContents(current, backup, 'replace').transactions).toEqual(backup.transactions);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Category Registry Tests
+ */
+
+import {
+  CategoryData,
+  addCategory,
+  categoryPath,
+  createDefaultCategories,
+  findCategoryByPath,
+  listCategoryPaths,
+  mergeCategories,
+  renameCategory,
+} from '../categories';
+import { calculateBudgetStatus } from '../budget';
+import { Category, Transaction } from '../../types';
+
+const now = new Date().toISOString();
+
+function buildData(): CategoryData {
+  let categories: Category[] = createDefaultCategories(['Food', 'Shopping']);
+  const food = findCategoryByPath(categories, 'Food')!;
+  categories = addCategory(categories, 'Groceries', { parentId: food.id });
+  categories = addCategory(categories, 'Groceries', { parentId: findCategoryByPath(categories, 'Shopping')!.id });
+
+  const transactions: Transaction[] = [
+    { id: 1, amount: 40, type: 'expense', category: 'Food > Groceries', note: 'market', timestamp: now },
+    { id: 2, amount: 15, type: 'expense', category: 'Food', note: 'lunch', timestamp: now },
+    {
+      id: 3,
+      amount: 30,
+      type: 'expense',
+      category: 'Split',
+      timestamp: now,
+      splits: [
+        { category: 'Shopping > Groceries', amount: 20 },
+        { category: 'Shopping', amount: 10 },
+      ],
+    },
+  ];
+
+  return {
+    categories,
+    transactions,
+    budgets: { 'Food': 200, 'Shopping > Groceries': 50 },
+    classifier: { keywords: { market: { 'Food > Groceries': 3, 'Shopping > Groceries': 1 } } },
+    recurring: [],
+  };
+}
+
+describe('Category Registry', () => {
+  test('lists parents followed by their children', () => {
+    const { categories } = buildData();
+    expect(listCategoryPaths(categories)).toEqual([
+      'Food',
+      'Food > Groceries',
+      'Shopping',
+      'Shopping > Groceries',
+    ]);
+    expect(() => addCategory(categories, 'food')).toThrow(/already exists/);
+  });
+
+  test('rename rewrites transactions, budgets and classifier keywords', () => {
+    const data = buildData();
+    const food = findCategoryByPath(data.categories, 'Food')!;
+    const result = renameCategory(data, food.id, 'Dining');
+
+    expect(result.transactions.map(t => t.category)).toEqual(['Dining > Groceries', 'Dining', 'Split']);
+    expect(result.budgets).toEqual({ 'Dining': 200, 'Shopping > Groceries': 50 });
+    expect(result.classifier!.keywords.market).toEqual({ 'Dining > Groceries': 3, 'Shopping > Groceries': 1 });
+    expect(listCategoryPaths(result.categories)).toContain('Dining > Groceries');
+  });
+
+  test('merge folds same-named children and combines totals', () => {
+    const data = buildData();
+    const shopping = findCategoryByPath(data.categories, 'Shopping')!;
+    const food = findCategoryByPath(data.categories, 'Food')!;
+    const result = mergeCategories(data, shopping.id, food.id);
+
+    expect(listCategoryPaths(result.categories)).toEqual(['Food', 'Food > Groceries']);
+    expect(result.transactions[2].splits!.map(s => s.category)).toEqual(['Food > Groceries', 'Food']);
+    expect(result.budgets).toEqual({ 'Food': 200, 'Food > Groceries': 50 });
+    expect(result.classifier!.keywords.market).toEqual({ 'Food > Groceries': 4 });
+    expect(() => mergeCategories(data, food.id, findCategoryByPath(data.categories, 'Food > Groceries')!.id))
+      .toThrow(/subcategories/);
+  });
+
+  test('a parent budget includes its subcategories', () => {
+    const { categories, transactions } = buildData();
+    expect(categoryPath(categories, findCategoryByPath(categories, 'Food > Groceries')!.id)).toBe('Food > Groceries');
+    expect(calculateBudgetStatus('Food', 200, transactions)?.spent).toBe(55);
+    expect(calculateBudgetStatus('Food > Groceries', 100, transactions)?.spent).toBe(40);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * CSV Import Tests
+ */
+
+import { TextDecoder } from 'util';
+import {
+  decodeStatement,
+  detectDateFormats,
+  detectDelimiter,
+  findTemplate,
+  flagDuplicates,
+  guessImportSettings,
+  importedTransaction,
+  mapCsvRows,
+  parseCsv,
+  parseCsvAmount,
+  parseCsvDate,
+} from '../csvImport';
+import { CsvImportTemplate, Transaction } from '../../types';
+
+// jsdom lacks TextDecoder
+Object.assign(globalThis, { TextDecoder });
+
+const statement = [
+  'Booking Date;Payee;Debit;Credit',
+  '03.09.2025;"Cafe ""Central""; Vienna";4,50;',
+  '15.09.2025;Salary;;2.400,00',
+  '',
+].join('\r\n');
+
+describe('CSV Import', () => {
+  test('detects the delimiter and parses quoted fields', () => {
+    expect(detectDelimiter(statement)).toBe(';');
+    expect(parseCsv(statement, ';')).toEqual([
+      ['Booking Date', 'Payee', 'Debit', 'Credit'],
+      ['03.09.2025', 'Cafe "Central"; Vienna', '4,50', ''],
+      ['15.09.2025', 'Salary', '', '2.400,00'],
+    ]);
+  });
+
+  test('reads dates and amounts in regional formats', () => {
+    expect(parseCsvDate('03.09.2025', 'DD.MM.YYYY')).toBe('2025-09-03');
+    expect(parseCsvDate('09/03/25', 'MM/DD/YYYY')).toBe('2025-09-03');
+    expect(parseCsvDate('31/02/2025', 'DD/MM/YYYY')).toBeNull();
+    expect(detectDateFormats(['01/02/2025', '13/02/2025'])).toEqual(['DD/MM/YYYY']);
+    expect(detectDateFormats(['01/02/2025', '03/04/2025'])).toEqual(['DD/MM/YYYY', 'MM/DD/YYYY']);
+
+    expect(parseCsvAmount('1,234.56')).toBe(1234.56);
+    expect(parseCsvAmount('1.234,56')).toBe(1234.56);
+    expect(parseCsvAmount('(12.00)')).toBe(-12);
+    expect(parseCsvAmount('12,5-')).toBe(-12.5);
+    expect(parseCsvAmount('$ -5')).toBe(-5);
+    expect(parseCsvAmount('n/a')).toBeNull();
+  });
+
+  test('guesses the column mapping and maps debit and credit columns', () => {
+    const rows = parseCsv(statement, ';');
+    const settings = guessImportSettings(rows, ';');
+
+    expect(settings.hasHeader).toBe(true);
+    expect(settings.dateFormat).toBe('DD.MM.YYYY');
+    expect(settings.columns).toEqual({ date: 0, amount: null, debit: 2, credit: 3, description: 1 });
+    expect(mapCsvRows(rows, settings)).toEqual([
+      { line: 2, date: '2025-09-03', amount: -4.5, description: 'Cafe "Central"; Vienna', error: null },
+      { line: 3, date: '2025-09-15', amount: 2400, description: 'Salary', error: null },
+    ]);
+  });
+
+  test('reports rows it cannot read', () => {
+    const rows = parseCsv('Date,Amount,Memo\n2025-13-01,5,Bad date\n2025-09-01,,No amount', ',');
+    expect(mapCsvRows(rows, guessImportSettings(rows, ',')).map(r => r.error)).toEqual([
+      'Date "2025-13-01" does not match YYYY-MM-DD',
+      'No amount',
+    ]);
+  });
+
+  test('flags duplicates of existing transactions once each', () => {
+    const row = { line: 2, date: '2025-09-03', amount: -4.5, description: 'Coffee', error: null };
+    const fields = { id: 'csv_1', category: 'Food', currency: 'EUR' };
+    const coffee = importedTransaction(row, fields);
+    const existing: Transaction[] = [{ ...coffee, id: 7, note: 'Cafe Central' }];
+
+    expect(coffee.type).toBe('expense');
+    expect(coffee.amount).toBe(4.5);
+    expect(flagDuplicates([coffee, { ...coffee, id: 'csv_2' }], existing)).toEqual([true, false]);
+  });
+
+  test('picks the template saved for the same header row', () => {
+    const rows = parseCsv(statement, ';');
+    const template: CsvImportTemplate = {
+      id: 'csv_bank',
+      name: 'Erste Bank',
+      headers: ['booking date', 'payee', 'debit', 'credit'],
+      settings: guessImportSettings(rows, ';'),
+      createdAt: '2025-09-01T00:00:00.000Z',
+    };
+    expect(findTemplate([template], rows[0])).toBe(template);
+    expect(findTemplate([template], ['Date', 'Amount'])).toBeNull();
+  });
+
+  test('decodes byte order marks and Windows-1252 files', () => {
+    const utf8 = new Uint8Array([0xef, 0xbb, 0xbf, 0x43, 0x61, 0x66, 0xc3, 0xa9]);
+    const latin = new Uint8Array([0x43, 0x61, 0x66, 0xe9]);
+
+    expect(decodeStatement(utf8.buffer)).toEqual({ text: 'Café', encoding: 'utf-8' });
+    expect(decodeStatement(latin.buffer)).toEqual({ text: 'Café', encoding: 'windows-1252' });
+  });
+});
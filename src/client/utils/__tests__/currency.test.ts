@@ -0,0 +1,61 @@
+/**
+ * Currency Utility Tests
+ */
+
+import { findRate, baseAmount, parseFxRatesCsv, findMissingRates } from '../currency';
+import { calculateSummary } from '../analytics';
+import { FxRate, Transaction, CurrencyContext } from '../../types';
+
+const rates: FxRate[] = [
+  { from: 'EUR', to: 'USD', rate: 1.1, date: '2025-01-01' },
+  { from: 'EUR', to: 'USD', rate: 1.2, date: '2025-06-01' },
+  { from: 'USD', to: 'ETB', rate: 57, date: '2025-01-01' },
+];
+
+const context: CurrencyContext = { baseCurrency: 'USD', rates };
+
+describe('Currency Utilities', () => {
+  test('uses the latest rate on or before the date', () => {
+    expect(findRate(rates, 'EUR', 'USD', '2025-03-15')).toBe(1.1);
+    expect(findRate(rates, 'EUR', 'USD', '2025-06-01')).toBe(1.2);
+    expect(findRate(rates, 'EUR', 'USD', '2024-12-01')).toBe(1.1);
+  });
+
+  test('inverts and chains rates', () => {
+    expect(findRate(rates, 'ETB', 'USD', '2025-02-01')).toBeCloseTo(1 / 57);
+    expect(findRate(rates, 'EUR', 'ETB', '2025-02-01')).toBeCloseTo(1.1 * 57);
+    expect(findRate(rates, 'GBP', 'USD', '2025-02-01')).toBeNull();
+  });
+
+  test('converts transactions to the base currency by date', () => {
+    const transactions: Transaction[] = [
+      { id: 1, amount: 100, currency: 'EUR', type: 'expense', category: 'Food', timestamp: '2025-02-01T12:00:00.000Z' },
+      { id: 2, amount: 100, currency: 'EUR', type: 'expense', category: 'Food', timestamp: '2025-07-01T12:00:00.000Z' },
+      { id: 3, amount: 5700, currency: 'ETB', type: 'income', category: 'Salary', timestamp: '2025-02-01T12:00:00.000Z' },
+    ];
+
+    expect(baseAmount(transactions[0], context)).toBeCloseTo(110);
+    const summary = calculateSummary(transactions, context);
+    expect(summary.totalExpenses).toBeCloseTo(230);
+    expect(summary.totalIncome).toBeCloseTo(100);
+  });
+
+  test('reports currencies without a usable rate', () => {
+    const transactions: Transaction[] = [
+      { id: 1, amount: 10, currency: 'GBP', type: 'expense', category: 'Food', timestamp: '2025-02-01T12:00:00.000Z' },
+      { id: 2, amount: 10, type: 'expense', category: 'Food', timestamp: '2025-02-01T12:00:00.000Z' },
+    ];
+    expect(findMissingRates(transactions, context)).toEqual(['GBP']);
+  });
+
+  test('parses rate CSV and reports bad lines', () => {
+    const { rates: parsed, errors } = parseFxRatesCsv(
+      'date,from,to,rate\n2025-09-01,eur,usd,1.09\n2025-09-01;ETB;USD;0.0175\nbad,line\n2025-13-40,EUR,USD,1'
+    );
+    expect(parsed).toEqual([
+      { date: '2025-09-01', from: 'EUR', to: 'USD', rate: 1.09 },
+      { date: '2025-09-01', from: 'ETB', to: 'USD', rate: 0.0175 },
+    ]);
+    expect(errors).toHaveLength(2);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Data Import Tests
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import { planImport, validateImportData } from '../dataImport';
+import { TransactionStorage, TrashStorage } from '../storage';
+import { importAllData } from '../../services/backup';
+import { undo } from '../../services/undo';
+import { sanitizeText } from '../sanitize';
+import { BackupContents, Transaction } from '../../types';
+
+// jsdom lacks SubtleCrypto and TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const transaction = (id: string, amount: number, note = `Lunch ${id}`): Transaction => ({
+  id,
+  amount,
+  type: 'expense',
+  category: 'Food > Lunch',
+  note,
+  timestamp: '2025-09-03T12:00:00.000Z',
+});
+
+const empty = (transactions: Transaction[] = []): BackupContents => ({
+  transactions,
+  classifier: null,
+  budgets: {},
+  accounts: [],
+  categories: null,
+  savedViews: [],
+});
+
+describe('Data Import', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should report every wrong field and keep the valid records', () => {
+    const { data, errors } = validateImportData({
+      transactions: [
+        transaction('a', 10),
+        { id: 'b', amount: -5, type: 'refund', category: '', timestamp: 'yesterday', currency: 'euro' },
+        { ...transaction('c', 30), splits: [{ category: 'Food', amount: 10 }, { category: 'Home', amount: 'x' }] },
+        { ...transaction('d', 5), type: 'transfer' },
+        transaction('a', 12),
+        'not a record',
+      ],
+      budgets: { Food: 200, Rent: -1 },
+    });
+
+    expect(data.transactions.map(t => t.id)).toEqual(['a']);
+    expect(data.budgets).toEqual({ Food: 200 });
+    expect(errors).toEqual([
+      { record: 'transactions[1]', field: 'amount', message: 'Must be greater than 0' },
+      { record: 'transactions[1]', field: 'currency', message: 'Not a currency code: "euro"' },
+      { record: 'transactions[1]', field: 'type', message: 'Expected one of income, expense, transfer' },
+      { record: 'transactions[1]', field: 'category', message: 'Required' },
+      { record: 'transactions[1]', field: 'timestamp', message: 'Not a date: "yesterday"' },
+      { record: 'transactions[2]', field: 'splits[1].amount', message: 'Expected a number' },
+      { record: 'transactions[3]', field: 'toAccountId', message: 'A transfer needs a destination account' },
+      { record: 'transactions[4]', field: 'id', message: 'Duplicate id "a"' },
+      { record: 'transactions[5]', field: '', message: 'Expected an object' },
+      { record: 'budgets', field: 'Rent', message: 'Expected a category and an amount of 0 or more' },
+    ]);
+    expect(() => validateImportData({ transactions: 'none' })).toThrow('no list of transactions');
+  });
+
+  it('should clean strings without escaping them', () => {
+    const { data } = validateImportData({
+      transactions: [{
+        ...transaction('a', 10, ' AT&T <script>alert(1)</script>bill\u0007 '),
+        tags: ['#Work Trip', 'work-trip'],
+        unknown: 'dropped',
+      }],
+    });
+
+    expect(data.transactions[0]).toEqual({
+      ...transaction('a', 10, 'AT&T alert(1)bill'),
+      tags: ['work-trip'],
+    });
+    expect(data.transactions[0].category).toBe('Food > Lunch');
+    expect(sanitizeText('x'.repeat(20), 5)).toBe('xxxxx');
+  });
+
+  it('should plan merges by id and by content', async () => {
+    const current = empty([transaction('a', 10), transaction('b', 20)]);
+    const input = { transactions: [transaction('a', 10), transaction('b', 25), transaction('c', 30)] };
+
+    const byId = await planImport(input, current, 'merge-by-id');
+    expect(byId.report.added.map(t => t.id)).toEqual(['c']);
+    expect(byId.report.updated.map(u => [u.before.amount, u.after.amount])).toEqual([[20, 25]]);
+    expect(byId.report.skipped).toEqual([{ transaction: transaction('a', 10), reason: 'Unchanged' }]);
+    expect(byId.next.transactions.map(t => [t.id, t.amount])).toEqual([['a', 10], ['b', 25], ['c', 30]]);
+
+    // The same lunch under another id is a duplicate; a changed one under a known id is new
+    const copies = { transactions: [{ ...transaction('x', 10), note: 'Lunch a' }, transaction('b', 25)] };
+    const byHash = await planImport(copies, current, 'merge-by-hash');
+    expect(byHash.report.skipped.map(s => s.reason)).toEqual(['Same transaction is already here']);
+    expect(byHash.report.added).toHaveLength(1);
+    expect(byHash.report.added[0].id).not.toBe('b');
+    expect(byHash.report.updated).toEqual([]);
+  });
+
+  it('should treat a record with its keys in another order as unchanged', async () => {
+    const stored: Transaction = {
+      timestamp: '2025-09-03T12:00:00.000Z',
+      note: 'Lunch a',
+      category: 'Food > Lunch',
+      type: 'expense',
+      amount: 10,
+      id: 'a',
+      splits: [{ amount: 8, category: 'Food > Lunch' }, { note: 'Tip', amount: 2, category: 'Food' }],
+    };
+    const current = empty([stored]);
+    const input = { transactions: [{ ...transaction('a', 10), splits: [{ category: 'Food > Lunch', amount: 8 }, { category: 'Food', amount: 2, note: 'Tip' }] }] };
+
+    for (const mode of ['merge-by-id', 'replace'] as const) {
+      const { report, next } = await planImport(input, current, mode);
+      expect(report.updated).toEqual([]);
+      expect(report.skipped.map(s => s.reason)).toEqual(['Unchanged']);
+      expect(next.transactions[0]).toBe(stored);
+    }
+  });
+
+  it('should plan a replace that trashes what the file leaves out', async () => {
+    const current = { ...empty([transaction('a', 10), transaction('b', 20)]), budgets: { Food: 100 } };
+    const { report, next } = await planImport(
+      { transactions: [transaction('b', 20), transaction('c', 5)], budgets: { Rent: 900 } },
+      current,
+      'replace'
+    );
+
+    expect(report.removed.map(t => t.id)).toEqual(['a']);
+    expect(report.added.map(t => t.id)).toEqual(['c']);
+    expect(report.budgets).toEqual({ added: 1, updated: 0, removed: 1 });
+    expect(next.budgets).toEqual({ Rent: 900 });
+  });
+
+  it('should write nothing on a dry run', async () => {
+    await TransactionStorage.saveTransactions([transaction('a', 10)], false);
+    const input = { transactions: [transaction('b', 20), { id: 'bad' }] };
+
+    const dryRun = await importAllData(input, { mode: 'replace', dryRun: true });
+    expect(dryRun.added.map(t => t.id)).toEqual(['b']);
+    expect(dryRun.removed.map(t => t.id)).toEqual(['a']);
+    expect(await TransactionStorage.loadTransactions(false)).toHaveLength(1);
+
+    await expect(importAllData(input, { mode: 'replace' })).rejects.toThrow('merge instead of replacing');
+    await importAllData({ transactions: [transaction('b', 20)] }, { mode: 'replace' });
+    expect((await TransactionStorage.loadTransactions(false)).map(t => t.id)).toEqual(['b']);
+    expect((await TrashStorage.loadTrash()).map(item => item.transaction.id)).toEqual(['a']);
+
+    expect((await undo())?.label).toBe('Data imported');
+    expect((await TransactionStorage.loadTransactions(false)).map(t => t.id)).toEqual(['a']);
+  });
+
+  it('should record a revision for each updated transaction', async () => {
+    await TransactionStorage.saveTransactions([transaction('a', 10)], false);
+    await importAllData({ transactions: [transaction('a', 12)] }, { mode: 'merge-by-id', label: 'Import' });
+
+    const [updated] = await TransactionStorage.loadTransactions(false);
+    expect(updated.amount).toBe(12);
+    expect(updated.revisions?.[0].changes).toEqual([{ field: 'amount', from: 10, to: 12 }]);
+  });
+});
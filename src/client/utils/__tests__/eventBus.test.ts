@@ -0,0 +1,48 @@
+/**
+ * Event Bus Tests
+ */
+
+import { emitAppEvent, onAppEvent, onAppEvents, TRANSACTION_EVENTS } from '../eventBus';
+
+describe('Event Bus', () => {
+  test('delivers payloads to subscribers until they unsubscribe', () => {
+    const handler = jest.fn();
+    const unsubscribe = onAppEvent('budget:changed', handler);
+
+    emitAppEvent('budget:changed', { budgets: { Food: 200 } });
+    unsubscribe();
+    emitAppEvent('budget:changed', { budgets: {} });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ budgets: { Food: 200 } });
+  });
+
+  test('onAppEvents subscribes one handler to several events', () => {
+    const handler = jest.fn();
+    const unsubscribe = onAppEvents(TRANSACTION_EVENTS, handler);
+
+    emitAppEvent('transactions:added', { transactions: [] });
+    emitAppEvent('transactions:deleted', { ids: [1] });
+    emitAppEvent('vault:locked', {});
+    unsubscribe();
+    emitAppEvent('transactions:reset', { transactions: [] });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  test('a failing handler does not stop the others', () => {
+    const failing = jest.fn(() => {
+      throw new Error('boom');
+    });
+    const handler = jest.fn();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const unsubscribers = [onAppEvent('vault:locked', failing), onAppEvent('vault:locked', handler)];
+
+    emitAppEvent('vault:locked', {});
+
+    expect(failing).toHaveBeenCalled();
+    expect(handler).toHaveBeenCalled();
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Schema Migration Tests
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import {
+  runMigrations,
+  applyMigrations,
+  getLatestSchemaVersion,
+  Migration,
+  MIGRATIONS,
+  INVALID_DATE_TAG,
+} from '../migrations';
+import { calculateCategoryStats, calculateSummary, calculateTrends } from '../analytics';
+import { TransactionStorage, ClassifierStorage, BudgetStorage, SchemaVersionStorage } from '../storage';
+import { encryptWithKey } from '../crypto';
+import { Transaction } from '../../types';
+import { anchoredRevision, transactionAtRevision } from '../revisions';
+
+// jsdom lacks SubtleCrypto and TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const fixture = JSON.parse(
+  readFileSync(join(__dirname, '__fixtures__', 'schema-v1.json'), 'utf8')
+);
+
+const LEGACY_KEY = 'safepay_txns_v1';
+
+function seedPlaintextV1() {
+  localStorage.setItem(LEGACY_KEY, JSON.stringify(fixture.transactions));
+  localStorage.setItem('safepay_classifier_v1', JSON.stringify(fixture.classifier));
+  localStorage.setItem('safepay_budgets_v1', JSON.stringify(fixture.budgets));
+}
+
+async function createKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new Uint8Array(32).fill(7),
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+describe('Schema Migrations', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    TransactionStorage.clearEncryptionKey();
+  });
+
+  test('records the latest version on a fresh install', async () => {
+    const result = await runMigrations();
+    expect(result.status).toBe('up-to-date');
+    expect(SchemaVersionStorage.loadVersion()).toBe(getLatestSchemaVersion());
+  });
+
+  test('migrates the v1 fixture to the latest schema', async () => {
+    seedPlaintextV1();
+
+    const result = await runMigrations();
+    expect(result.status).toBe('migrated');
+    expect(result.fromVersion).toBe(1);
+    expect(result.applied).toEqual(MIGRATIONS.map(m => m.version));
+    expect(SchemaVersionStorage.loadVersion()).toBe(getLatestSchemaVersion());
+    expect(localStorage.getItem(LEGACY_KEY)).toBeNull();
+
+    const transactions = await TransactionStorage.loadTransactions(false);
+    expect(transactions).toHaveLength(3);
+    transactions.forEach(t => {
+      expect(t.amount).toBeGreaterThan(0);
+      expect(typeof t.timestamp).toBe('string');
+      expect(new Date(t.timestamp).toISOString()).toBe(t.timestamp);
+    });
+    expect(transactions.find(t => t.category === 'Transport')?.proof?.txHash).toBe('0xdef456');
+    expect(BudgetStorage.loadBudgets()).toEqual(fixture.budgets);
+    expect(await ClassifierStorage.loadClassifier()).toEqual(fixture.classifier);
+  });
+
+  test('is a no-op once the schema is current', async () => {
+    seedPlaintextV1();
+    await runMigrations();
+
+    const second = await runMigrations();
+    expect(second.status).toBe('up-to-date');
+    expect(second.applied).toEqual([]);
+  });
+
+  test('rolls back a failed migration without losing data', async () => {
+    seedPlaintextV1();
+    const failing: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: 99,
+        description: 'Always fails',
+        migrate: () => {
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    const result = await runMigrations({ migrations: failing });
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('boom');
+    expect(SchemaVersionStorage.loadVersion()).toBeNull();
+    expect(JSON.parse(localStorage.getItem(LEGACY_KEY) || '[]')).toEqual(fixture.transactions);
+    expect(BudgetStorage.loadBudgets()).toEqual(fixture.budgets);
+  });
+
+  test('defers encrypted data until a key is available', async () => {
+    const key = await createKey();
+    localStorage.setItem(LEGACY_KEY, await encryptWithKey(key, fixture.transactions));
+
+    const locked = await runMigrations();
+    expect(locked.status).toBe('deferred');
+    expect(SchemaVersionStorage.loadVersion()).toBeNull();
+
+    const unlocked = await runMigrations({ key });
+    expect(unlocked.status).toBe('migrated');
+    expect(TransactionStorage.isEncrypted()).toBe(true);
+
+    const transactions = await TransactionStorage.loadTransactions(true, key);
+    expect(transactions.map(t => t.amount).sort((a, b) => a - b)).toEqual([18.75, 42.5, 2500]);
+    expect(await TransactionStorage.loadTransactions(false)).toEqual([]);
+  });
+
+  test('keeps the hashed fields of anchored transactions recoverable', () => {
+    const { data } = applyMigrations(
+      { transactions: fixture.transactions, classifier: null, budgets: {} },
+      1
+    );
+    const anchored = data.transactions.find(t => t.proof)!;
+
+    expect(anchored.amount).toBe(18.75);
+    expect(anchored.revisions).toHaveLength(1);
+    const original = transactionAtRevision(anchored, anchoredRevision(anchored)!);
+    expect(original.amount).toBe('18.75');
+    expect(original.timestamp).toBe('2024-09-24T17:46:40.000Z');
+    expect(data.transactions.filter(t => !t.proof).every(t => !t.revisions)).toBe(true);
+  });
+
+  test('redates and tags unparseable dates so aggregates can run', () => {
+    const broken: Transaction = { id: 'x', amount: -5, type: 'expense', category: 'Food', timestamp: 'not a date' };
+    const { data, applied } = applyMigrations(
+      { transactions: [...fixture.transactions, broken], classifier: null, budgets: {} },
+      1
+    );
+
+    expect(applied).toEqual(MIGRATIONS.map(m => m.version));
+    const redated = data.transactions.find(t => t.id === 'x')!;
+    expect(redated).toMatchObject({ amount: 5, tags: [INVALID_DATE_TAG], currency: 'USD' });
+    expect(new Date(redated.timestamp).toISOString()).toBe(redated.timestamp);
+    expect(redated.revisions?.[0].changes).toContainEqual({ field: 'timestamp', from: 'not a date', to: redated.timestamp });
+
+    // Converting into another base currency looks up rates by date
+    const currency = { baseCurrency: 'EUR', rates: [{ from: 'USD', to: 'EUR', rate: 0.9, date: '2024-01-01' }] };
+    expect(calculateSummary(data.transactions, currency).totalExpenses).toBeCloseTo((42.5 + 18.75 + 5) * 0.9);
+    expect(calculateTrends(data.transactions, 'daily', currency).length).toBeGreaterThan(0);
+    expect(calculateCategoryStats(data.transactions, currency).map(s => s.name)).toContain('Food');
+  });
+
+  test('applyMigrations runs only steps newer than the current version', () => {
+    const steps: Migration[] = [
+      { version: 3, description: 'third', migrate: d => ({ ...d, budgets: { ...d.budgets, c: 3 } }) },
+      { version: 2, description: 'second', migrate: d => ({ ...d, budgets: { ...d.budgets, b: 2 } }) },
+    ];
+    const { data, applied } = applyMigrations(
+      { transactions: [], classifier: null, budgets: {} },
+      2,
+      steps
+    );
+    expect(applied).toEqual([3]);
+    expect(data.budgets).toEqual({ c: 3 });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * OFX Import Tests
+ */
+
+import { parseOfx, parseOfxDate } from '../ofxImport';
+
+const sgmlStatement = [
+  'OFXHEADER:100',
+  'DATA:OFXSGML',
+  'VERSION:102',
+  'ENCODING:USASCII',
+  '',
+  '<OFX>',
+  '<BANKMSGSRSV1><STMTTRNRS><TRNUID>1<STMTRS>',
+  '<CURDEF>EUR',
+  '<BANKACCTFROM><BANKID>12345<ACCTID>000123456789<ACCTTYPE>SAVINGS</BANKACCTFROM>',
+  '<BANKTRANLIST><DTSTART>20250901<DTEND>20250930',
+  '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250903120000.000[-5:EST]<TRNAMT>-4,50<FITID>A1<NAME>Cafe &amp; Bar<MEMO>Card 1234</STMTTRN>',
+  '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250915<TRNAMT>2400.00<FITID>A2<NAME>Salary</STMTTRN>',
+  '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250915<TRNAMT>2400.00<FITID>A2<NAME>Salary</STMTTRN>',
+  '</BANKTRANLIST>',
+  '<LEDGERBAL><BALAMT>2495.50<DTASOF>20250930</LEDGERBAL>',
+  '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+  '</OFX>',
+].join('\r\n');
+
+const xmlStatement = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>USD</CURDEF>
+    <CCACCTFROM><ACCTID>4111111111111111</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20251002</DTPOSTED>
+        <TRNAMT>-60.25</TRNAMT>
+        <FITID>X9</FITID>
+        <PAYEE><NAME>Hardware Store</NAME></PAYEE>
+        <MEMO></MEMO>
+      </STMTTRN>
+    </BANKTRANLIST>
+    <LEDGERBAL><BALAMT>-60.25</BALAMT><DTASOF>20251031</DTASOF></LEDGERBAL>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe('OFX Import', () => {
+  it('should parse OFX 1.x SGML statements without closing tags', () => {
+    const [statement] = parseOfx(sgmlStatement);
+
+    expect(statement.format).toBe('ofx');
+    expect(statement.accountKey).toBe('12345-000123456789');
+    expect(statement.accountName).toBe('Savings ••6789');
+    expect(statement.accountKind).toBe('checking');
+    expect(statement.currency).toBe('EUR');
+    expect(statement.startDate).toBe('2025-09-01');
+    expect(statement.ledgerBalance).toEqual({ amount: 2495.5, asOf: '2025-09-30' });
+    expect(statement.entries[0]).toEqual({
+      id: 'A1', posted: '2025-09-03', amount: -4.5, name: 'Cafe & Bar', memo: 'Card 1234',
+    });
+  });
+
+  it('should parse OFX 2.x XML credit card statements', () => {
+    const [statement] = parseOfx(xmlStatement);
+
+    expect(statement.accountKind).toBe('credit-card');
+    expect(statement.accountKey).toBe('4111111111111111');
+    expect(statement.entries).toHaveLength(1);
+    expect(statement.entries[0].name).toBe('Hardware Store');
+    expect(statement.entries[0].memo).toBe('');
+  });
+
+  it('should reject files without a statement', () => {
+    expect(() => parseOfx('Date,Amount\n2025-09-01,5')).toThrow('Not an OFX file');
+    expect(() => parseOfx('<OFX><SIGNONMSGSRSV1></SIGNONMSGSRSV1></OFX>')).toThrow('no bank or credit card statement');
+  });
+
+  it('should read OFX dates as local days', () => {
+    expect(parseOfxDate('20250903120000.000[-5:EST]')).toBe('2025-09-03');
+    expect(parseOfxDate('20250231')).toBeNull();
+    expect(parseOfxDate('garbage')).toBeNull();
+  });
+});
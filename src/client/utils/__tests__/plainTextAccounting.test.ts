@@ -0,0 +1,195 @@
+/**
+ * Plain-Text Accounting Tests
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import { exportLedger, parseLedger, transactionPostings } from '../plainTextAccounting';
+import { createAccount } from '../accounts';
+import { hashTransaction } from '../crypto';
+import { LedgerFormat, LedgerSettings, Transaction } from '../../types';
+
+// jsdom lacks SubtleCrypto and TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const checking = { ...createAccount('Main Checking', 'checking', 'USD'), id: 'acc_checking' };
+const card = { ...createAccount('Travel Card', 'credit-card', 'USD'), id: 'acc_card' };
+const euros = { ...createAccount('Euro Savings', 'checking', 'EUR'), id: 'acc_euros' };
+const accounts = [checking, card, euros];
+const categories = ['Food > Coffee', 'Salary', 'Household', 'Transport'];
+
+const settings = (format: LedgerFormat, changes: Partial<LedgerSettings> = {}): LedgerSettings => ({
+  format,
+  categoryAccounts: {},
+  assetAccounts: {},
+  ...changes,
+});
+
+const noon = (day: string) => new Date(`${day}T12:00:00`).toISOString();
+
+const transactions: Transaction[] = [
+  {
+    id: 'tx_coffee',
+    amount: 4.5,
+    currency: 'USD',
+    type: 'expense',
+    category: 'Food > Coffee',
+    note: 'Flat white "to go"',
+    timestamp: noon('2025-09-03'),
+    accountId: 'acc_card',
+    tags: ['trip-lisbon', 'work'],
+    proof: { hash: '0xabc', txHash: '0xdef', chain: 'sepolia' },
+  },
+  {
+    id: 'tx_salary',
+    amount: 2400,
+    currency: 'USD',
+    type: 'income',
+    category: 'Salary',
+    timestamp: noon('2025-09-15'),
+    accountId: 'acc_checking',
+  },
+  {
+    id: 'tx_shop',
+    amount: 100,
+    currency: 'USD',
+    type: 'expense',
+    category: 'Split',
+    note: 'Supermarket',
+    timestamp: noon('2025-09-16'),
+    accountId: 'acc_checking',
+    splits: [
+      { category: 'Food > Coffee', amount: 60 },
+      { category: 'Household', amount: 40, note: 'detergent' },
+    ],
+  },
+  {
+    id: 'tx_move',
+    amount: 500,
+    currency: 'USD',
+    type: 'transfer',
+    category: 'Transfer',
+    note: 'Savings',
+    timestamp: noon('2025-09-20'),
+    accountId: 'acc_checking',
+    toAccountId: 'acc_euros',
+    toAmount: 460,
+  },
+];
+
+describe('Plain-Text Accounting', () => {
+  it('should write balanced Beancount entries with metadata', () => {
+    const journal = exportLedger(transactions, accounts, settings('beancount'), new Date(2025, 9, 1));
+
+    expect(journal.startsWith('; Exported from SafePay AI on 2025-10-01')).toBe(true);
+    expect(journal).toContain('2025-09-03 open Expenses:Food:Coffee');
+    expect(journal).toContain('2025-09-03 open Liabilities:CreditCard:Travel-Card');
+    expect(journal).toContain('2025-09-03 * "Flat white \\"to go\\"" #trip-lisbon #work');
+    expect(journal).toContain('  tx-hash: "0xdef"');
+    expect(journal).toMatch(/Assets:Bank:Euro-Savings\s+460\.00 EUR/);
+    expect(journal).toMatch(/Assets:Bank:Main-Checking\s+-500\.00 USD @@ 460\.00 EUR/);
+    expect(journal).toContain('    note: "detergent"');
+  });
+
+  it('should post to configured accounts', () => {
+    const custom = settings('beancount', {
+      categoryAccounts: { 'Food > Coffee': 'Expenses:Dining' },
+      assetAccounts: { acc_card: 'Liabilities:Visa' },
+    });
+    expect(transactionPostings(transactions[0], accounts, custom)).toEqual([
+      { account: 'Expenses:Dining', amount: 4.5, currency: 'USD', note: undefined },
+      { account: 'Liabilities:Visa', amount: -4.5, currency: 'USD' },
+    ]);
+
+    const [coffee] = parseLedger(exportLedger(transactions, accounts, custom), accounts, categories, custom).transactions;
+    expect(coffee).toMatchObject({ category: 'Food > Coffee', accountId: 'acc_card' });
+  });
+
+  (['beancount', 'ledger', 'hledger'] as LedgerFormat[]).forEach(format => {
+    it(`should round-trip a ${format} journal`, () => {
+      const journal = exportLedger(transactions, accounts, settings(format));
+      const { transactions: imported, errors } = parseLedger(journal, accounts, categories, settings(format));
+
+      expect(errors).toEqual([]);
+      expect(imported).toHaveLength(transactions.length);
+      imported.forEach((t, i) => {
+        const original = transactions[i];
+        expect(t).toMatchObject({
+          id: original.id,
+          type: original.type,
+          amount: original.amount,
+          currency: original.currency,
+          category: original.category,
+          accountId: original.accountId,
+          timestamp: original.timestamp,
+        });
+      });
+      expect(imported[0].tags).toEqual(['trip-lisbon', 'work']);
+      expect(imported[0].proof).toEqual({ hash: '0xabc', txHash: '0xdef', chain: 'sepolia' });
+      expect(imported[1].note).toBeUndefined();
+      expect(imported[2].splits).toEqual(transactions[2].splits);
+      expect(imported[3]).toMatchObject({ toAccountId: 'acc_euros', toAmount: 460 });
+    });
+  });
+
+  it('should keep the fields a proof was computed from', async () => {
+    const anchored: Transaction = { ...transactions[0], timestamp: new Date(2025, 8, 3, 8, 15, 42, 123).toISOString() };
+    const proof = {
+      hash: await hashTransaction(anchored),
+      txHash: '0xdef',
+      chain: 'sepolia',
+      timestamp: '2025-09-04T10:00:00.000Z',
+      revision: 0,
+      coversAttachments: true,
+    };
+
+    for (const format of ['beancount', 'ledger', 'hledger'] as LedgerFormat[]) {
+      const journal = exportLedger([{ ...anchored, proof }], accounts, settings(format));
+      const [imported] = parseLedger(journal, accounts, categories, settings(format)).transactions;
+
+      expect(imported.timestamp).toBe(anchored.timestamp);
+      expect(imported.proof).toEqual(proof);
+      expect(await hashTransaction(imported)).toBe(proof.hash);
+
+      // A date changed by hand wins over the exported timestamp
+      const moved = journal.replace(/2025[-/]09[-/]03 \*/, format === 'ledger' ? '2025/09/05 *' : '2025-09-05 *');
+      const [edited] = parseLedger(moved, accounts, categories, settings(format)).transactions;
+      expect(edited.timestamp).toBe(noon('2025-09-05'));
+    }
+  });
+
+  it('should read hand-written journals', () => {
+    const journal = [
+      'option "operating_currency" "USD"',
+      '2025-01-01 open Assets:Wallet',
+      '',
+      '2025-10-02 * "Metro" "Monthly pass"',
+      '  Expenses:Transport   30 USD',
+      '  Assets:Wallet',
+      '',
+      '2025/10/03 Bakery  ; :food:',
+      '    Expenses:Food:Coffee      $3.20',
+      '    Assets:Wallet',
+      '',
+      '2025-10-04 * "Broken"',
+      '  Expenses:Transport   10 USD',
+      '  Assets:Wallet        -9 USD',
+      '',
+      '2025-10-05 * "Odd"',
+      '  Expenses:Transport   ten USD',
+      '  Assets:Wallet',
+    ].join('\n');
+    const { transactions: imported, errors } = parseLedger(journal, accounts, categories, settings('beancount'));
+
+    expect(imported).toHaveLength(2);
+    expect(imported[0]).toMatchObject({
+      type: 'expense', amount: 30, currency: 'USD', category: 'Transport', note: 'Metro Monthly pass',
+    });
+    expect(imported[0].accountId).toBeUndefined();
+    expect(imported[1]).toMatchObject({ amount: 3.2, category: 'Food > Coffee', tags: ['food'] });
+    expect(imported[0].id).not.toBe(imported[1].id);
+    expect(errors.map(e => e.line)).toEqual([12, 17]);
+    expect(errors[0].message).toMatch(/do not balance/);
+  });
+});
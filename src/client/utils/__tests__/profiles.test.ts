@@ -0,0 +1,99 @@
+/**
+ * Wallet Profile Tests
+ */
+
+import { webcrypto } from 'crypto';
+import { BudgetStorage, EncryptionStorage, ProfileStorage, SessionStorage, TransactionStorage } from '../storage';
+import { getStorageAdapter, LocalStorageAdapter, setStorageAdapter } from '../storageAdapter';
+import { Transaction } from '../../types';
+
+// jsdom lacks SubtleCrypto
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+jest.mock('../migrations', () => ({
+  runMigrations: jest.fn().mockResolvedValue({ status: 'up-to-date' }),
+}));
+
+const walletA = '0xAAAA000000000000000000000000000000000001';
+const walletB = '0xBBBB000000000000000000000000000000000002';
+
+async function createKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new Uint8Array(32).fill(7), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+describe('Wallet Profiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('the first wallet keeps the existing data and later wallets get their own namespace', () => {
+    BudgetStorage.saveBudgets({ Food: 100 });
+
+    SessionStorage.saveSession(walletA);
+    expect(ProfileStorage.activeNamespace()).toBe('');
+    expect(BudgetStorage.loadBudgets()).toEqual({ Food: 100 });
+
+    SessionStorage.saveSession(walletB);
+    expect(ProfileStorage.activeNamespace()).toBe(walletB.toLowerCase());
+    expect(BudgetStorage.loadBudgets()).toEqual({});
+
+    BudgetStorage.saveBudgets({ Rent: 900 });
+    SessionStorage.saveSession(walletA);
+    expect(BudgetStorage.loadBudgets()).toEqual({ Food: 100 });
+    expect(ProfileStorage.loadProfiles().map(p => p.address)).toEqual([walletA, walletB]);
+  });
+
+  test('transactions of one profile are invisible to another', async () => {
+    const lunch: Transaction = {
+      id: 'a1',
+      amount: 12,
+      type: 'expense',
+      category: 'Food',
+      timestamp: '2025-09-03T12:00:00.000Z',
+    };
+
+    SessionStorage.saveSession(walletA);
+    await TransactionStorage.saveTransactions([lunch], false);
+
+    SessionStorage.saveSession(walletB);
+    expect(await TransactionStorage.loadTransactions(false)).toEqual([]);
+    await TransactionStorage.saveTransactions([{ ...lunch, id: 'b1' }], false);
+
+    SessionStorage.saveSession(walletA);
+    expect((await TransactionStorage.loadTransactions(false)).map(t => t.id)).toEqual(['a1']);
+  });
+
+  test('an adapter override applies to its own namespace only', () => {
+    const override = new LocalStorageAdapter('override_');
+    setStorageAdapter(override, walletB.toLowerCase());
+
+    expect(getStorageAdapter(walletB.toLowerCase())).toBe(override);
+    expect(getStorageAdapter('')).not.toBe(override);
+
+    setStorageAdapter(null, walletB.toLowerCase());
+    expect(getStorageAdapter(walletB.toLowerCase())).not.toBe(override);
+  });
+
+  test('encryption settings belong to one profile', () => {
+    SessionStorage.saveSession(walletA);
+    EncryptionStorage.saveEncryptionAddress(walletA);
+
+    SessionStorage.saveSession(walletB);
+    expect(EncryptionStorage.loadEncryptionAddress()).toBeNull();
+  });
+
+  test('locking a profile keeps the others unlocked', async () => {
+    const key = await createKey();
+    SessionStorage.saveSession(walletA);
+    TransactionStorage.setEncryptionKey(key);
+    SessionStorage.saveSession(walletB);
+    TransactionStorage.setEncryptionKey(key);
+
+    ProfileStorage.lockProfile(walletB);
+    expect(TransactionStorage.getEncryptionKey()).toBeNull();
+
+    SessionStorage.saveSession(walletA);
+    expect(TransactionStorage.getEncryptionKey()).toBe(key);
+    ProfileStorage.lockProfile(walletA);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Recurrence Rule Tests
+ */
+
+import { occurrencesBetween, nextOccurrence, describeRule, materializeDueOccurrences } from '../recurrence';
+import { RecurringTransaction } from '../../types';
+
+describe('Recurrence Rules', () => {
+  test('monthly rules clamp to the end of short months', () => {
+    const rule = { frequency: 'monthly' as const, interval: 1, startDate: '2025-01-31' };
+    expect(occurrencesBetween(rule, undefined, '2025-04-30')).toEqual([
+      '2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30',
+    ]);
+  });
+
+  test('nth weekday rules respect the end date', () => {
+    const rule = {
+      frequency: 'nth-weekday' as const, interval: 1, startDate: '2025-01-01', endDate: '2025-03-31', weekday: 2, nth: 2,
+    };
+    expect(occurrencesBetween(rule, undefined, '2025-12-31')).toEqual(['2025-01-14', '2025-02-11', '2025-03-11']);
+    expect(nextOccurrence(rule, '2025-03-11')).toBeNull();
+    expect(describeRule(rule)).toBe('2nd Tuesday every month until 2025-03-31');
+
+    const last = { frequency: 'nth-weekday' as const, interval: 1, startDate: '2025-01-01', weekday: 5, nth: -1 };
+    expect(occurrencesBetween(last, undefined, '2025-02-28')).toEqual(['2025-01-31', '2025-02-28']);
+  });
+
+  test('weekly and yearly rules', () => {
+    expect(occurrencesBetween({ frequency: 'weekly', interval: 2, startDate: '2025-01-06' }, '2025-01-06', '2025-02-03'))
+      .toEqual(['2025-01-20', '2025-02-03']);
+    expect(occurrencesBetween({ frequency: 'yearly', interval: 1, startDate: '2024-02-29' }, undefined, '2026-12-31'))
+      .toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+  });
+
+  test('due occurrences are queued once', () => {
+    const rent: RecurringTransaction = {
+      id: 'rent',
+      name: 'Rent',
+      rule: { frequency: 'monthly', interval: 1, startDate: '2025-01-01' },
+      template: { amount: 1200, type: 'expense', category: 'Rent' },
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    const first = materializeDueOccurrences([rent], [], '2025-02-15');
+    expect(first.pending.map(p => p.date)).toEqual(['2025-01-01', '2025-02-01']);
+
+    const second = materializeDueOccurrences(first.recurring, first.pending, '2025-03-01');
+    expect(second.created.map(p => p.id)).toEqual(['rent:2025-03-01']);
+    expect(second.pending).toHaveLength(3);
+
+    const paused = materializeDueOccurrences([{ ...rent, paused: true }], [], '2025-03-01');
+    expect(paused.pending).toHaveLength(0);
+  });
+});
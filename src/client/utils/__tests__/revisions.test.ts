@@ -0,0 +1,119 @@
+/**
+ * Revision Utility Tests
+ */
+
+import {
+  anchoredRevision,
+  currentRevision,
+  diffTransactions,
+  formatChangeValue,
+  isModifiedAfterAnchor,
+  recordRevision,
+  recordRevisions,
+  transactionAtRevision,
+} from '../revisions';
+import { Transaction } from '../../types';
+
+const original: Transaction = {
+  id: 1,
+  amount: 20,
+  type: 'expense',
+  category: 'Food',
+  note: 'Lunch',
+  timestamp: '2024-03-01T12:00:00.000Z',
+};
+
+const wallet = '0x1234567890123456789012345678901234567890';
+
+describe('Revision Utilities', () => {
+  test('diffTransactions lists changed audited fields only', () => {
+    const changes = diffTransactions(original, {
+      ...original,
+      amount: 25,
+      note: undefined,
+      tags: ['work'],
+      proof: { hash: '0xabc' },
+    });
+
+    expect(changes).toEqual([
+      { field: 'amount', from: 20, to: 25 },
+      { field: 'note', from: 'Lunch', to: undefined },
+      { field: 'tags', from: undefined, to: ['work'] },
+    ]);
+  });
+
+  test('recordRevision appends numbered revisions with editor and time', () => {
+    const first = recordRevision(original, { ...original, amount: 25 }, wallet, '2024-03-02T00:00:00.000Z');
+    const second = recordRevision(first, { ...first, category: 'Travel' }, wallet);
+
+    expect(currentRevision(original)).toBe(0);
+    expect(currentRevision(second)).toBe(2);
+    expect(second.revisions![0]).toEqual({
+      revision: 1,
+      editedAt: '2024-03-02T00:00:00.000Z',
+      editedBy: wallet,
+      changes: [{ field: 'amount', from: 20, to: 25 }],
+    });
+  });
+
+  test('recordRevision keeps the stored log and skips edits without changes', () => {
+    const edited = recordRevision(original, { ...original, amount: 25 });
+    const forged = recordRevision(edited, { ...edited, revisions: [] });
+
+    expect(forged.revisions).toEqual(edited.revisions);
+    expect(recordRevision(original, { ...original, proof: { hash: '0xabc' } }).revisions).toBeUndefined();
+  });
+
+  test('recordRevisions matches a batch rewrite by id', () => {
+    const other: Transaction = { ...original, id: 2, category: 'Travel' };
+    const rewritten = recordRevisions(
+      [original, other],
+      [{ ...original, category: 'Dining' }, other]
+    );
+
+    expect(rewritten[0].revisions).toHaveLength(1);
+    expect(rewritten[1].revisions).toBeUndefined();
+  });
+
+  test('transactionAtRevision undoes later edits', () => {
+    const first = recordRevision(original, { ...original, amount: 25, tags: ['work'] });
+    const second = recordRevision(first, { ...first, note: 'Team lunch' });
+
+    expect(transactionAtRevision(second, 0)).toEqual(original);
+    expect(transactionAtRevision(second, 1)).toEqual(first);
+  });
+
+  describe('anchoring', () => {
+    const anchored: Transaction = { ...original, proof: { hash: '0xabc', txHash: '0xdef', revision: 0 } };
+
+    test('an untouched anchored transaction is not modified', () => {
+      expect(anchoredRevision(anchored)).toBe(0);
+      expect(isModifiedAfterAnchor(anchored)).toBe(false);
+      expect(anchoredRevision(original)).toBeNull();
+    });
+
+    test('edits after anchoring are reported against the anchored revision', () => {
+      const edited = recordRevision(anchored, { ...anchored, amount: 30 });
+      expect(isModifiedAfterAnchor(edited)).toBe(true);
+      expect(transactionAtRevision(edited, anchoredRevision(edited)!).amount).toBe(20);
+    });
+
+    test('proofs without a revision are matched by their timestamp', () => {
+      const legacy: Transaction = {
+        ...original,
+        proof: { hash: '0xabc', txHash: '0xdef', timestamp: '2024-03-05T00:00:00.000Z' },
+      };
+      const before = recordRevision(legacy, { ...legacy, amount: 25 }, undefined, '2024-03-04T00:00:00.000Z');
+      const after = recordRevision(before, { ...before, amount: 30 }, undefined, '2024-03-06T00:00:00.000Z');
+
+      expect(anchoredRevision(after)).toBe(1);
+      expect(isModifiedAfterAnchor(after)).toBe(true);
+    });
+  });
+
+  test('formatChangeValue', () => {
+    expect(formatChangeValue('note', undefined)).toBe('—');
+    expect(formatChangeValue('tags', ['work', 'trip'])).toBe('#work #trip');
+    expect(formatChangeValue('amount', 12.5)).toBe('12.5');
+  });
+});
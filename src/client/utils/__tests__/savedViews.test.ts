@@ -0,0 +1,50 @@
+/**
+ * Saved View Tests
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import { createSavedView, validateViewName, viewHash, viewIdFromHash, viewSlug } from '../savedViews';
+import { SavedViewStorage, VaultStorage } from '../storage';
+
+// jsdom lacks SubtleCrypto and TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+describe('Saved Views', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    VaultStorage.lock();
+  });
+
+  test('ids are unique URL slugs of the name', () => {
+    const first = createSavedView('Business meals!', 'category:Food tag:work', ['date', 'amount'], []);
+    const second = createSavedView('business  meals', '', ['date'], [first]);
+
+    expect(viewSlug('Unanchored > $100')).toBe('unanchored-100');
+    expect(first.id).toBe('business-meals');
+    expect(second.id).toBe('business-meals-2');
+    expect(validateViewName('Business Meals!', [first])).toBe('A view named "Business Meals!" already exists');
+    expect(validateViewName('!!!', [])).toBe('View names need at least one letter or digit');
+  });
+
+  test('views are reachable by URL', () => {
+    expect(viewHash('business-meals')).toBe('#/history?view=business-meals');
+    expect(viewIdFromHash('#/history?view=business-meals')).toBe('business-meals');
+    expect(viewIdFromHash('#/history')).toBeNull();
+  });
+
+  test('views are stored in the encrypted vault', async () => {
+    const key = await crypto.subtle.importKey('raw', new Uint8Array(32).fill(7), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    await VaultStorage.seal(key);
+
+    SavedViewStorage.upsertView(createSavedView('Business meals', 'category:Food tag:work', ['date'], []));
+    await VaultStorage.flush();
+
+    expect(Object.keys(localStorage).map(name => localStorage.getItem(name)).join('\n')).not.toContain('tag:work');
+    expect(SavedViewStorage.findView('business-meals')?.query).toBe('category:Food tag:work');
+
+    VaultStorage.lock();
+    expect(SavedViewStorage.loadViews()).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Search Index Tests
+ */
+
+import {
+  addDocument,
+  createSearchIndex,
+  highlightText,
+  removeDocument,
+  searchIndex,
+  SearchIndex,
+  tokenize,
+} from '../searchIndex';
+
+function ids(index: SearchIndex, query: string): string[] {
+  return Array.from(searchIndex(index, query).scores.keys()).sort();
+}
+
+describe('Search Index', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = createSearchIndex();
+    addDocument(index, '1', {
+      merchant: ['starbucks'],
+      category: ['coffee'],
+      note: tokenize('Morning latte with client-acme'),
+      amount: ['4.50', '4'],
+    });
+    addDocument(index, '2', {
+      merchant: ['uber'],
+      category: ['transport'],
+      tag: ['trip', 'business'],
+      amount: ['23.10', '23'],
+    });
+    addDocument(index, '3', {
+      category: ['groceries'],
+      note: tokenize('Weekly shopping for the trip'),
+      amount: ['87.00', '87'],
+    });
+  });
+
+  test('matches word prefixes', () => {
+    expect(ids(index, 'star')).toEqual(['1']);
+    expect(ids(index, 'gro')).toEqual(['3']);
+  });
+
+  test('tolerates typos in longer words', () => {
+    expect(ids(index, 'starbuks')).toEqual(['1']);
+    expect(ids(index, 'transprot')).toEqual(['2']);
+    expect(ids(index, 'ubr')).toEqual([]);
+  });
+
+  test('requires every query word to match', () => {
+    expect(ids(index, 'trip')).toEqual(['2', '3']);
+    expect(ids(index, 'trip weekly')).toEqual(['3']);
+  });
+
+  test('#tag searches only tags', () => {
+    expect(ids(index, '#trip')).toEqual(['2']);
+  });
+
+  test('finds amounts and compound words', () => {
+    expect(ids(index, '23.10')).toEqual(['2']);
+    expect(ids(index, '87')).toEqual(['3']);
+    expect(ids(index, 'acme')).toEqual(['1']);
+  });
+
+  test('ranks merchant matches above note matches', () => {
+    addDocument(index, '4', { note: tokenize('gift card from starbucks') });
+    const { scores } = searchIndex(index, 'starbucks');
+    expect(scores.get('1')).toBeGreaterThan(scores.get('4')!);
+  });
+
+  test('replacing and removing documents updates the postings', () => {
+    addDocument(index, '1', { merchant: ['peets'], category: ['coffee'] });
+    expect(ids(index, 'starbucks')).toEqual([]);
+    expect(ids(index, 'peets')).toEqual(['1']);
+
+    removeDocument(index, '1');
+    expect(ids(index, 'coffee')).toEqual([]);
+    expect(index.postings.has('coffee')).toBe(false);
+  });
+
+  test('highlights matched words in display text', () => {
+    const { terms } = searchIndex(index, 'latte');
+    expect(highlightText('Morning Latte with client-acme', terms)).toEqual([
+      { text: 'Morning ', match: false },
+      { text: 'Latte', match: true },
+      { text: ' with client-acme', match: false },
+    ]);
+  });
+});
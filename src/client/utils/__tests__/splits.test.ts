@@ -0,0 +1,46 @@
+/**
+ * Split Transaction Tests
+ */
+
+import { validateSplits, flattenSplits } from '../splits';
+import { calculateCategoryStats } from '../analytics';
+import { calculateBudgetStatus } from '../budget';
+import { trainClassifierOnTransaction } from '../../services/ai';
+import { Transaction } from '../../types';
+
+const receipt: Transaction = {
+  id: 1,
+  amount: 100,
+  type: 'expense',
+  category: 'Split',
+  note: 'supermarket',
+  timestamp: new Date().toISOString(),
+  splits: [
+    { category: 'Food', amount: 60 },
+    { category: 'Household', amount: 25, note: 'detergent' },
+    { category: 'Healthcare', amount: 15, note: 'vitamins' },
+  ],
+};
+
+describe('Split Transactions', () => {
+  test('lines must add up to the total', () => {
+    expect(validateSplits(100, receipt.splits!)).toBeNull();
+    expect(validateSplits(110, receipt.splits!)).toMatch(/add up/);
+    expect(validateSplits(60, [{ category: 'Food', amount: 60 }])).not.toBeNull();
+  });
+
+  test('category statistics and budgets count each line', () => {
+    expect(flattenSplits([receipt]).map(t => t.note)).toEqual(['supermarket', 'detergent', 'vitamins']);
+
+    const stats = calculateCategoryStats([receipt]);
+    expect(stats.map(s => [s.name, s.value])).toEqual([['Food', 60], ['Household', 25], ['Healthcare', 15]]);
+    expect(calculateBudgetStatus('Household', 50, [receipt])?.spent).toBe(25);
+    expect(calculateBudgetStatus('Split', 50, [receipt])?.spent).toBe(0);
+  });
+
+  test('classifier trains each line under its own category', () => {
+    const trained = trainClassifierOnTransaction({ keywords: {} }, receipt);
+    expect(trained.keywords['vitamins']).toEqual({ Healthcare: 1 });
+    expect(trained.keywords['supermarket']).toEqual({ Food: 1 });
+  });
+});
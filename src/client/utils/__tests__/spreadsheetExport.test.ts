@@ -0,0 +1,146 @@
+/**
+ * Spreadsheet Export Tests
+ */
+
+import { TextEncoder, TextDecoder } from 'util';
+import { buildExportSheets, exportSpreadsheet, latestTaxYear } from '../spreadsheetExport';
+import { columnName, createWorkbook, excelDate, sheetName } from '../xlsx';
+import { crc32 } from '../zip';
+import { Account, Transaction } from '../../types';
+
+// jsdom lacks TextEncoder
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const transaction = (id: string, amount: number, month: number, changes: Partial<Transaction> = {}): Transaction => ({
+  id,
+  amount,
+  type: 'expense',
+  category: 'Groceries',
+  note: `Shop ${id}`,
+  timestamp: new Date(2025, month, 10, 18, 30).toISOString(),
+  ...changes,
+});
+
+const accounts: Account[] = [
+  { id: 'acc_1', name: 'Checking', kind: 'checking', currency: 'USD', openingBalance: 0, createdAt: '' },
+];
+
+const transactions: Transaction[] = [
+  transaction('t1', 50, 7, {
+    accountId: 'acc_1',
+    tags: ['home'],
+    proof: { hash: '0xabc', txHash: '0x123', chain: 'Polygon', verified: true },
+  }),
+  transaction('t2', 2000, 7, { type: 'income', category: 'Salary', note: '=HYPERLINK("x") <pay> & bonus' }),
+  transaction('t3', 80, 8, { category: 'Restaurant', note: 'Client dinner' }),
+];
+
+const input = {
+  transactions,
+  accounts,
+  budgets: { Groceries: 400 },
+  currency: { baseCurrency: 'USD', rates: [] },
+  now: new Date('2025-10-01T12:00:00Z'),
+};
+
+/** Files of an archive written with the stored method, by name */
+function unzip(zip: Uint8Array): Record<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const start = offset + 30 + nameLength + extraLength;
+    const name = Buffer.from(zip.subarray(offset + 30, offset + 30 + nameLength)).toString('utf8');
+    const data = zip.subarray(start, start + size);
+    expect(crc32(data)).toBe(view.getUint32(offset + 14, true));
+    files[name] = Buffer.from(data).toString('utf8');
+    offset = start + size;
+  }
+  expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+  expect(view.getUint16(zip.length - 12, true)).toBe(Object.keys(files).length);
+  return files;
+}
+
+describe('Spreadsheet Export', () => {
+  it('should pack a workbook with one part per sheet', () => {
+    const files = unzip(exportSpreadsheet(input));
+
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+      'xl/worksheets/sheet3.xml',
+      'xl/worksheets/sheet4.xml',
+      'xl/worksheets/sheet5.xml',
+    ]);
+    expect(Array.from(files['xl/workbook.xml'].matchAll(/<sheet name="([^"]+)"/g), m => m[1])).toEqual([
+      'Transactions', 'Categories', 'Monthly Trends', 'Budgets', 'Tax 2025',
+    ]);
+    expect(files['[Content_Types].xml']).toContain('/xl/worksheets/sheet5.xml');
+    expect(files['docProps/core.xml']).toContain('2025-10-01T12:00:00Z');
+  });
+
+  it('should keep ids, proofs and tags with typed cells', () => {
+    const files = unzip(exportSpreadsheet(input));
+    const sheet = files['xl/worksheets/sheet1.xml'];
+    const date = excelDate(new Date(transactions[0].timestamp));
+
+    expect(sheet).toContain('<c r="A2" s="1" t="inlineStr"><is><t xml:space="preserve">t1</t></is></c>');
+    expect(sheet).toContain(`<c r="B2" s="11"><v>${date}</v></c>`);
+    expect(sheet).toContain('<c r="E2" s="5"><v>50</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">#home</t>');
+    expect(sheet).toContain('<t xml:space="preserve">0xabc</t>');
+    expect(sheet).toContain('<c r="Q2" s="15" t="b"><v>1</v></c>');
+    // Text that looks like a formula stays text
+    expect(sheet).toContain('<t xml:space="preserve">=HYPERLINK(&quot;x&quot;) &lt;pay&gt; &amp; bonus</t>');
+    expect(sheet).not.toContain('<f>');
+    expect(sheet).toContain('<autoFilter ref="A1:R4"/>');
+  });
+
+  it('should total categories, months, budgets and tax deductions', () => {
+    const [, categories, trends, budgets, tax] = buildExportSheets(input);
+
+    expect(categories.rows.map(([name, count, , spent]) => [name, count, spent])).toEqual([
+      ['Restaurant', 1, 80],
+      ['Groceries', 1, 50],
+    ]);
+    expect(categories.rows[0][2]).toBeCloseTo(80 / 130);
+    expect(categories.footer).toEqual([['Total', 2, 1, 130]]);
+    expect(trends.rows).toEqual([
+      [new Date(2025, 7, 1), 2000, 50, 1950],
+      [new Date(2025, 8, 1), 0, 80, -80],
+    ]);
+    expect(budgets.rows[0]).toEqual(['Groceries', 400, expect.any(Number), expect.any(Number), 'On track']);
+
+    expect(tax.name).toBe('Tax 2025');
+    expect(tax.rows).toHaveLength(1);
+    expect(tax.rows[0].slice(1, 6)).toEqual(['Client dinner', 'Restaurant', 80, 40, 'Business Meals & Entertainment']);
+    expect(tax.rows[0][9]).toBeCloseTo(10);
+    expect(tax.footer![0][4]).toBe(40);
+  });
+
+  it('should write numbers, dates and names spreadsheets accept', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(excelDate(new Date(2025, 0, 1))).toBe(45658);
+    expect(excelDate(new Date(2025, 0, 1, 12))).toBe(45658.5);
+    expect([0, 25, 26, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'ZZ', 'AAA']);
+    expect(sheetName('Q1/Q2: [draft]?')).toBe('Q1 Q2   draft');
+    expect(sheetName('x'.repeat(40))).toHaveLength(31);
+    expect(latestTaxYear([], new Date(2030, 5, 1))).toBe(2030);
+
+    const files = unzip(createWorkbook([
+      { name: 'Data', columns: [{ header: 'A', type: 'text' }], rows: [] },
+      { name: 'data', columns: [{ header: 'A', type: 'text' }], rows: [] },
+    ]));
+    expect(files['xl/workbook.xml']).toContain('<sheet name="data (2)"');
+    expect(() => createWorkbook([])).toThrow('at least one sheet');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Statement Import Tests
+ * Runs the QIF, MT940 and CAMT.053 sample statements in __fixtures__ through the import pipeline
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  BankStatement,
+  accountForStatement,
+  detectStatementFormat,
+  findStatementAccount,
+  newStatementEntries,
+  parseStatementFile,
+  reconcileStatement,
+  statementEntryToTransaction,
+} from '../statementImport';
+import { createAccount } from '../accounts';
+import { Account } from '../../types';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+function importAll(statement: BankStatement, account: Account) {
+  return newStatementEntries(statement, account.id, []).map((entry, i) =>
+    statementEntryToTransaction(statement, entry, { id: `t${i}`, category: entry.category || 'Other', account })
+  );
+}
+
+describe('Statement Import', () => {
+  it('should detect the format from the content', () => {
+    expect(detectStatementFormat(fixture('statement.qif'))).toBe('qif');
+    expect(detectStatementFormat(fixture('statement.sta'))).toBe('mt940');
+    expect(detectStatementFormat(fixture('statement.camt053.xml'))).toBe('camt053');
+    expect(detectStatementFormat('OFXHEADER:100\n<OFX>')).toBe('ofx');
+    expect(detectStatementFormat('Date,Amount\n2025-09-01,5')).toBeNull();
+    expect(() => parseStatementFile('Date,Amount')).toThrow('Unrecognised statement');
+  });
+
+  it('should read QIF registers with Quicken dates and categories', () => {
+    const [checking, card] = parseStatementFile(fixture('statement.qif'));
+
+    expect(checking.accountName).toBe('Everyday Checking');
+    expect(checking.accountKind).toBe('checking');
+    expect(checking.accountKey).toBe('');
+    expect(checking.entries[0]).toMatchObject({
+      posted: '2025-09-03', amount: -4.5, name: 'Cafe Central', memo: 'Flat white', category: 'Food > Coffee',
+    });
+    expect(checking.entries[1].amount).toBe(2400);
+    // Transfers carry no category, and identical entries on one day keep separate ids
+    expect(checking.entries[2].category).toBeUndefined();
+    expect(checking.entries.map(e => e.id)).toEqual([
+      '2025-09-03/-4.50/1', '2025-09-15/2400.00/1', '2025-09-15/-500.00/1', '2025-09-15/-500.00/2',
+    ]);
+
+    expect(card.accountKind).toBe('credit-card');
+    expect(card.entries[0].category).toBe('Home > Repairs');
+  });
+
+  it('should merge MT940 daily statements and read structured details', () => {
+    const statements = parseStatementFile(fixture('statement.sta'));
+    expect(statements).toHaveLength(1);
+
+    const [statement] = statements;
+    expect(statement.accountKey).toBe('37040044/0532013000');
+    expect(statement.currency).toBe('EUR');
+    expect(statement.startDate).toBe('2025-09-02');
+    expect(statement.ledgerBalance).toEqual({ amount: 2883.5, asOf: '2025-09-16' });
+    expect(statement.entries.map(e => [e.id, e.amount])).toEqual([
+      ['B5C0903001', -4.5],
+      ['B5C0915001', 2400],
+      ['2025-09-15/-500.00/1', -500],
+      // RC reverses a credit, so money goes out
+      ['B5C0916001', -12],
+    ]);
+    expect(statement.entries[0]).toMatchObject({ name: 'CAFE CENTRAL', memo: 'Flat white' });
+    expect(statement.entries[1]).toMatchObject({ name: 'ACME GMBH', memo: 'September salary' });
+    expect(statement.entries[2].memo).toBe('Transfer to savings');
+    expect(statement.entries[3]).toMatchObject({ name: 'ONLINE SHOP', memo: 'Refund reversal' });
+  });
+
+  it('should read booked CAMT.053 entries', () => {
+    const [statement] = parseStatementFile(fixture('statement.camt053.xml'));
+
+    expect(statement.accountKey).toBe('NL91ABNA0417164300');
+    expect(statement.accountName).toBe('Joint Account');
+    expect(statement.startDate).toBe('2025-09-01');
+    expect(statement.endDate).toBe('2025-09-30');
+    expect(statement.ledgerBalance).toEqual({ amount: 1729.1, asOf: '2025-09-30' });
+    expect(statement.entries).toEqual([
+      { id: '2025090500012', posted: '2025-09-05', amount: -120.9, name: 'Albert Heijn', memo: 'Groceries week 36' },
+      { id: 'E2E-SAL-0925', posted: '2025-09-25', amount: 1600, name: 'ACME BV', memo: 'Salary September' },
+    ]);
+  });
+
+  it('should open new accounts so the bank balance reconciles', () => {
+    ['statement.sta', 'statement.camt053.xml'].forEach(name => {
+      const [statement] = parseStatementFile(fixture(name));
+      const account = accountForStatement(statement, 'USD');
+      expect(account.currency).toBe('EUR');
+      expect(account.bankAccountId).toBe(statement.accountKey);
+
+      const transactions = importAll(statement, account);
+      expect(reconcileStatement(statement, account, transactions)?.matches).toBe(true);
+      expect(reconcileStatement(statement, account, transactions.slice(1))?.matches).toBe(false);
+    });
+  });
+
+  it('should skip entries imported before', () => {
+    const [statement] = parseStatementFile(fixture('statement.sta'));
+    const account = accountForStatement(statement, 'EUR');
+    const first = importAll(statement, account);
+    expect(first[0].externalId).toBe('mt940:37040044/0532013000:B5C0903001');
+    expect(first[0].note).toBe('CAFE CENTRAL Flat white');
+    expect(new Date(first[0].timestamp).getHours()).toBe(12);
+
+    expect(newStatementEntries(statement, account.id, first)).toEqual([]);
+    expect(newStatementEntries(statement, account.id, first.slice(2)).map(e => e.id)).toEqual([
+      'B5C0903001', 'B5C0915001',
+    ]);
+  });
+
+  it('should key QIF imports by the account they go into', () => {
+    const [checking] = parseStatementFile(fixture('statement.qif'));
+    const everyday = createAccount('Everyday', 'checking', 'USD');
+    const other = createAccount('Other', 'checking', 'USD');
+    const imported = importAll(checking, everyday);
+
+    expect(imported[0].currency).toBe('USD');
+    expect(imported[0].category).toBe('Food > Coffee');
+    expect(newStatementEntries(checking, everyday.id, imported)).toEqual([]);
+    expect(newStatementEntries(checking, other.id, imported)).toHaveLength(4);
+  });
+
+  it('should match accounts by bank account number', () => {
+    const [statement] = parseStatementFile(fixture('statement.camt053.xml'));
+    const [qif] = parseStatementFile(fixture('statement.qif'));
+    const other = createAccount('Other', 'checking', 'EUR');
+    const joint = { ...createAccount('Joint', 'checking', 'EUR'), bankAccountId: 'NL91ABNA0417164300' };
+
+    expect(findStatementAccount([other, joint], statement)).toBe(joint);
+    expect(findStatementAccount([other], statement)).toBeNull();
+    expect(findStatementAccount([other, { ...other, bankAccountId: '' }], qif)).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Statement Report Tests
+ */
+
+import {
+  buildStatement,
+  describeStatementRange,
+  monthRange,
+  renderStatementPdf,
+  statementFileName,
+  statementMonthCount,
+  statementMonths,
+} from '../statementReport';
+import { fitText, jpegInfo, PdfDocument, textWidth } from '../pdf';
+import { Transaction } from '../../types';
+
+const transaction = (id: string, amount: number, day: number, changes: Partial<Transaction> = {}): Transaction => ({
+  id,
+  amount,
+  type: 'expense',
+  category: 'Food',
+  note: `Lunch ${id}`,
+  timestamp: new Date(2025, 8, day, 12).toISOString(),
+  ...changes,
+});
+
+const transactions: Transaction[] = [
+  transaction('a', 40, 3, { proof: { hash: '0xabc', txHash: '0x123', chain: 'Polygon' } }),
+  transaction('b', 1000, 1, { type: 'income', category: 'Salary', note: 'Pay (September)' }),
+  transaction('c', 900, 5, { category: 'Rent', proof: { hash: '0xdef' } }),
+  transaction('d', 25, 20, { note: undefined, category: 'Food > Coffee' }),
+  transaction('e', 500, 12, { type: 'transfer', toAccountId: 'savings' }),
+  { ...transaction('f', 70, 2), timestamp: new Date(2025, 9, 2).toISOString() },
+];
+
+const options = {
+  currency: { baseCurrency: 'USD', rates: [] },
+  explorerUrl: (proof: { txHash?: string }) => (proof.txHash ? `https://polygonscan.com/tx/${proof.txHash}` : null),
+  now: new Date('2025-10-01T09:00:00Z'),
+};
+
+const september = monthRange(new Date(2025, 8, 15));
+
+/** Text drawn with Tj operators, decoded from the hex strings the writer uses */
+function drawnText(pdf: Uint8Array): string[] {
+  const source = Buffer.from(pdf).toString('latin1');
+  return Array.from(source.matchAll(/<([0-9a-f]*)> Tj/g), match => Buffer.from(match[1], 'hex').toString('latin1'));
+}
+
+describe('Statement Report', () => {
+  it('should gather a period\'s figures, budgets and proofs', () => {
+    const statement = buildStatement(transactions, { Food: 100, Rent: 800 }, september, options);
+
+    expect(statement.transactions.map(t => t.id)).toEqual(['b', 'a', 'c', 'e', 'd']);
+    expect(statement.summary).toMatchObject({ totalIncome: 1000, totalExpenses: 965, transactionCount: 4 });
+    expect(statement.categories.map(c => [c.name, c.value])).toEqual([['Rent', 900], ['Food', 40], ['Food > Coffee', 25]]);
+    expect(statement.budgets.map(b => [b.category, b.spent, b.status])).toEqual([
+      ['Rent', 900, 'exceeded'],
+      ['Food', 65, 'on-track'],
+    ]);
+    expect(statement.proofs).toEqual([
+      { transaction: transactions[0], hash: '0xabc', chain: 'Polygon', url: 'https://polygonscan.com/tx/0x123' },
+      { transaction: transactions[2], hash: '0xdef', chain: undefined, url: null },
+    ]);
+  });
+
+  it('should scale monthly budgets to the length of the period', () => {
+    const quarter = { start: new Date(2025, 6, 1), end: monthRange(new Date(2025, 8, 1)).end };
+    const fortnight = { start: new Date(2025, 8, 1), end: new Date(2025, 8, 14, 23, 59, 59, 999) };
+
+    expect(statementMonthCount(september)).toBe(1);
+    expect(statementMonthCount(quarter)).toBe(3);
+    expect(statementMonthCount(fortnight)).toBe(0.46);
+    expect(buildStatement(transactions, { Rent: 800 }, quarter, options).budgets[0].budget).toBe(2400);
+
+    expect(describeStatementRange(september)).toBe('September 2025');
+    expect(describeStatementRange(fortnight)).toBe('Sep 1, 2025 – Sep 14, 2025');
+    expect(statementFileName(september)).toBe('safepay-statement-2025-09.pdf');
+    expect(statementFileName(fortnight)).toBe('safepay-statement-2025-09-01_2025-09-14.pdf');
+    expect(statementMonths(transactions).map(describeStatementRange)).toEqual(['October 2025', 'September 2025']);
+  });
+
+  it('should write a PDF whose cross-reference table points at every object', () => {
+    const pdf = renderStatementPdf(buildStatement(transactions, { Food: 100, Rent: 800 }, september, options));
+    const source = Buffer.from(pdf).toString('latin1');
+
+    expect(source.startsWith('%PDF-1.7')).toBe(true);
+    expect(source.trimEnd().endsWith('%%EOF')).toBe(true);
+    const startxref = Number(source.match(/startxref\n(\d+)/)![1]);
+    expect(source.slice(startxref, startxref + 4)).toBe('xref');
+
+    const offsets = Array.from(source.matchAll(/^(\d{10}) 00000 n $/gm), match => Number(match[1]));
+    offsets.forEach((offset, i) => {
+      expect(source.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+
+    const text = drawnText(pdf);
+    expect(text).toEqual(expect.arrayContaining([
+      'Statement', 'September 2025', 'Pay (September)', '+$1,000.00', '-$900.00', 'Over budget', '0xabc', 'Page 1 of 1',
+    ]));
+    expect(source).toContain('/URI (https://polygonscan.com/tx/0x123)');
+    expect(source).not.toContain('/EmbeddedFiles');
+  });
+
+  it('should print images and embed the original files', () => {
+    // Smallest header jpegInfo reads: SOI then a baseline frame of 4x2 RGB
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x02, 0x00, 0x04, 0x03, 0, 0, 0, 0]);
+    const receipt = {
+      id: 'att_1', name: 'receipt.jpg', mimeType: 'image/jpeg', size: jpeg.length, hash: '0xfeed', createdAt: '',
+    };
+    const invoice = { ...receipt, id: 'att_2', name: 'invoice.pdf', mimeType: 'application/pdf' };
+    const statement = buildStatement(transactions, {}, september, options);
+
+    const pdf = renderStatementPdf(statement, [
+      { transaction: transactions[0], attachment: receipt, content: jpeg, jpeg },
+      { transaction: transactions[2], attachment: invoice, content: new Uint8Array([1, 2, 3]) },
+      { transaction: transactions[2], attachment: { ...invoice, id: 'att_3', name: 'lost.pdf' }, content: null },
+    ]);
+    const source = Buffer.from(pdf).toString('latin1');
+
+    expect(jpegInfo(jpeg)).toEqual({ width: 4, height: 2, components: 3 });
+    expect(source).toContain('/Subtype /Image /Width 4 /Height 2 /ColorSpace /DeviceRGB');
+    expect(source).toContain('/Subtype /image#2fjpeg');
+    expect(source).toContain('/F (invoice.pdf)');
+    expect(source).not.toContain('/F (lost.pdf)');
+    expect(drawnText(pdf)).toContain('Not available on this device');
+  });
+
+  it('should measure and shorten text in the standard fonts', () => {
+    expect(textWidth('Hello', 10)).toBeCloseTo(22.78);
+    expect(textWidth('Hello', 10, 'bold')).toBeGreaterThan(textWidth('Hello', 10));
+    expect(fitText('Short', 100, 10)).toBe('Short');
+    const fitted = fitText('A very long description of a lunch', 60, 10);
+    expect(fitted.endsWith('…')).toBe(true);
+    expect(textWidth(fitted, 10)).toBeLessThanOrEqual(60);
+
+    const doc = new PdfDocument();
+    expect(() => doc.image(new Uint8Array([0x89, 0x50, 0x4e, 0x47]), 0, 0, 10, 10)).toThrow('Only JPEG');
+    expect(() => doc.setPage(3)).toThrow('no page 4');
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { SessionStorage, TransactionStorage } from '../storage';
+import { FallbackStorageAdapter, IndexedDBAdapter, LocalStorageAdapter } from '../storageAdapter';
 import { Transaction } from '../../types';
 
 describe('Storage Utilities', () => {
@@ -35,7 +36,7 @@ describe('Storage Utilities', () => {
           amount: 100,
           type: 'expense',
           category: 'Food',
-          timestamp: Date.now(),
+          timestamp: new Date().toISOString(),
         },
       ];
 
@@ -50,6 +51,95 @@ describe('Storage Utilities', () => {
       const loaded = await TransactionStorage.loadTransactions(false);
       expect(loaded).toEqual([]);
     });
+
+    test('should write and delete single records', async () => {
+      await TransactionStorage.saveTransactions([], false);
+      await TransactionStorage.putTransaction({
+        id: 'a',
+        amount: 12,
+        type: 'expense',
+        category: 'Food',
+        timestamp: '2025-01-01T10:00:00.000Z',
+      });
+      await TransactionStorage.putTransaction({
+        id: 'b',
+        amount: 40,
+        type: 'income',
+        category: 'Salary',
+        timestamp: '2025-01-02T10:00:00.000Z',
+      });
+
+      let loaded = await TransactionStorage.loadTransactions(false);
+      expect(loaded.map(t => t.id)).toEqual(['b', 'a']);
+
+      await TransactionStorage.deleteTransaction('a');
+      loaded = await TransactionStorage.loadTransactions(false);
+      expect(loaded.map(t => t.id)).toEqual(['b']);
+    });
+
+    test('should keep the stored transactions when a save fails part way', async () => {
+      const transaction = (id: string): Transaction => ({
+        id,
+        amount: 10,
+        type: 'expense',
+        category: 'Food',
+        timestamp: '2025-01-01T10:00:00.000Z',
+      });
+      await TransactionStorage.saveTransactions([transaction('a'), transaction('b')], false);
+
+      const setItem = Storage.prototype.setItem;
+      let writes = 0;
+      const spy = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key, value) {
+        if (key.includes('transactions:') && ++writes === 2) {
+          throw new Error('QuotaExceededError');
+        }
+        setItem.call(this, key, value);
+      });
+      await expect(
+        TransactionStorage.saveTransactions([transaction('a'), transaction('c')], false)
+      ).rejects.toThrow('Failed to save transactions');
+      spy.mockRestore();
+
+      const loaded = await TransactionStorage.loadTransactions(false);
+      expect(loaded.map(t => t.id).sort()).toEqual(['a', 'b']);
+    });
+
+    test('should migrate the legacy transaction blob once', async () => {
+      await TransactionStorage.clearTransactions();
+      const legacy: Transaction[] = [
+        { id: 1, amount: 5, type: 'expense', category: 'Food', timestamp: '2025-01-01T00:00:00.000Z' },
+        { id: 2, amount: 9, type: 'expense', category: 'Transport', timestamp: '2025-01-03T00:00:00.000Z' },
+      ];
+      localStorage.setItem('safepay_txns_v1', JSON.stringify(legacy));
+
+      const loaded = await TransactionStorage.loadTransactions(false);
+      expect(loaded.map(t => t.id)).toEqual([2, 1]);
+      expect(localStorage.getItem('safepay_txns_v1')).toBeNull();
+      expect(TransactionStorage.isEncrypted()).toBe(false);
+    });
   });
-});
 
+  describe('FallbackStorageAdapter', () => {
+    afterEach(() => {
+      delete (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+    });
+
+    test('should use localStorage when IndexedDB fails to open', async () => {
+      // Firefox private mode: indexedDB exists but open() errors
+      const open = jest.fn(() => {
+        const request: { error: Error; onerror?: () => void } = { error: new Error('InvalidStateError') };
+        setTimeout(() => request.onerror?.());
+        return request as unknown as IDBOpenDBRequest;
+      });
+      Object.defineProperty(globalThis, 'indexedDB', { value: { open }, configurable: true });
+
+      const adapter = new FallbackStorageAdapter(new IndexedDBAdapter('blocked'), new LocalStorageAdapter('fallback_'));
+      await adapter.put('transactions', { id: 'a', data: 1 });
+
+      expect(await adapter.getAll('transactions')).toEqual([{ id: 'a', data: 1 }]);
+      expect(adapter.kind).toBe('localstorage');
+      expect(localStorage.getItem('fallback_transactions:a')).not.toBeNull();
+      expect(open).toHaveBeenCalledTimes(1);
+    });
+  });
+});
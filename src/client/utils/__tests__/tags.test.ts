@@ -0,0 +1,40 @@
+/**
+ * Tag Tests
+ */
+
+import { buildTagReport, collectTags, parseTags } from '../tags';
+import { filterByTag, searchTransactions } from '../analytics';
+import { Transaction } from '../../types';
+
+const transactions: Transaction[] = [
+  { id: 1, amount: 320, type: 'expense', category: 'Travel', note: 'flights', timestamp: '2024-05-02T10:00:00.000Z', tags: ['trip-lisbon'] },
+  { id: 2, amount: 45, type: 'expense', category: 'Food', note: 'dinner', timestamp: '2024-05-04T20:00:00.000Z', tags: ['trip-lisbon', 'client-acme'] },
+  { id: 3, amount: 30, type: 'expense', category: 'Food', note: 'lunch', timestamp: '2024-05-06T12:00:00.000Z', tags: ['trip-lisbon'] },
+  { id: 4, amount: 500, type: 'income', category: 'Salary', timestamp: '2024-05-01T09:00:00.000Z', tags: ['client-acme'] },
+  { id: 5, amount: 12, type: 'expense', category: 'Food', timestamp: '2024-05-03T09:00:00.000Z' },
+];
+
+describe('Tags', () => {
+  test('parses and normalizes typed tags', () => {
+    expect(parseTags('#Trip Lisbon, #trip-lisbon wedding')).toEqual(['trip', 'lisbon', 'trip-lisbon', 'wedding']);
+    expect(parseTags('  #Client_ACME!  ')).toEqual(['client_acme']);
+  });
+
+  test('collects tags by usage and filters by tag', () => {
+    expect(collectTags(transactions)).toEqual([
+      { tag: 'trip-lisbon', count: 3 },
+      { tag: 'client-acme', count: 2 },
+    ]);
+    expect(filterByTag(transactions, 'client-acme').map(t => t.id)).toEqual([2, 4]);
+    expect(searchTransactions(transactions, '#client').map(t => t.id)).toEqual([2, 4]);
+  });
+
+  test('builds a report with totals, date range and categories', () => {
+    const report = buildTagReport(transactions, 'trip-lisbon');
+    expect(report.totalExpenses).toBe(395);
+    expect(report.transactionCount).toBe(3);
+    expect(report.firstDate).toBe('2024-05-02T10:00:00.000Z');
+    expect(report.lastDate).toBe('2024-05-06T12:00:00.000Z');
+    expect(report.categories.map(c => [c.name, c.value])).toEqual([['Travel', 320], ['Food', 75]]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Transaction Query Language Tests
+ */
+
+import {
+  compileQuery,
+  parseTransactionQuery,
+  queryFilterValue,
+  querySort,
+  queryText,
+  setQueryFilter,
+} from '../transactionQuery';
+import { Account, Transaction } from '../../types';
+
+const checking: Account = {
+  id: 'chk', name: 'Main Checking', kind: 'checking', currency: 'USD', openingBalance: 0, createdAt: '2025-01-01T00:00:00.000Z',
+};
+
+const transactions: Transaction[] = [
+  { id: 1, amount: 42.5, type: 'expense', category: 'Food > Groceries', note: 'Weekly shop', tags: ['home'], timestamp: '2025-09-03T12:00:00' },
+  { id: 2, amount: 18, type: 'expense', category: 'Food > Dining', note: 'Lunch refund', tags: ['work'], timestamp: '2025-09-10T12:00:00' },
+  { id: 3, amount: 65, type: 'expense', category: 'Food', note: 'Team dinner', tags: ['work'], accountId: 'chk', timestamp: '2025-09-12T12:00:00' },
+  {
+    id: 4, amount: 2400, type: 'income', category: 'Salary', accountId: 'chk', timestamp: '2025-08-28T12:00:00',
+    proof: { hash: 'abc', txHash: '0x1' },
+  },
+];
+
+function run(query: string): Array<string | number> {
+  const parsed = parseTransactionQuery(query);
+  expect(parsed.errors).toEqual([]);
+  return transactions.filter(compileQuery(parsed.clauses, [checking])).map(t => t.id);
+}
+
+describe('Transaction Query Language', () => {
+  test('combines field filters', () => {
+    expect(run('category:Food amount>20 after:2025-09-01 tag:work -note:refund')).toEqual([3]);
+    expect(run('category:food')).toEqual([1, 2, 3]);
+    expect(run('category=Food')).toEqual([3]);
+    expect(run('type:income account:"main checking"')).toEqual([4]);
+    expect(run('date:2025-09 amount<=42.50')).toEqual([1, 2]);
+    expect(run('before:2025-09-03')).toEqual([1, 4]);
+  });
+
+  test('filters on anchoring and periods relative to today', () => {
+    const parsed = parseTransactionQuery('anchored:no amount>40 date:this-month');
+    const now = new Date(2025, 8, 20);
+    expect(transactions.filter(compileQuery(parsed.clauses, [], now)).map(t => t.id)).toEqual([1, 3]);
+    expect(run('anchored:yes')).toEqual([4]);
+  });
+
+  test('leaves bare words to the full-text search', () => {
+    const parsed = parseTransactionQuery('coffee -refund "team dinner" type:expense');
+    expect(queryText(parsed)).toEqual({ include: 'coffee team dinner', exclude: ['refund'] });
+  });
+
+  test('reports syntax errors with their position', () => {
+    const { clauses, errors } = parseTransactionQuery('amount>abc categry:Food type:gift note:"open');
+    expect(errors.map(e => e.message)).toEqual([
+      'Amount "abc" is not a number',
+      'Unknown field "categry"',
+      'Unknown type "gift"; use income, expense or transfer',
+      'Missing closing quote',
+    ]);
+    expect(errors[1].position).toBe(11);
+    expect(clauses.map(c => c.field)).toEqual(['note']);
+    expect(parseTransactionQuery('tag>work').errors[0].message).toBe('tag only supports ":" and "="');
+  });
+
+  test('reads and rewrites the clauses behind filter controls', () => {
+    const parsed = parseTransactionQuery('lunch category:Food sort:amount-asc');
+    expect(queryFilterValue(parsed, 'category')).toBe('Food');
+    expect(queryFilterValue(parsed, 'tag')).toBeNull();
+    expect(querySort(parsed)).toEqual({ sortBy: 'amount', sortDir: 'asc' });
+
+    expect(setQueryFilter('lunch category:Food amount>20', 'category', 'Food > Dining'))
+      .toBe('lunch amount>20 category:"Food > Dining"');
+    expect(setQueryFilter('lunch category:Food amount>20', 'category', null)).toBe('lunch amount>20');
+    expect(setQueryFilter('-tag:work', 'tag', 'home')).toBe('-tag:work tag:home');
+  });
+});
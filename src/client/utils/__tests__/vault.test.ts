@@ -0,0 +1,122 @@
+/**
+ * Vault Storage Tests
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import { BudgetStorage, ClassifierStorage, EncryptionStorage, VaultStorage } from '../storage';
+import { encryptWithKey } from '../crypto';
+
+// jsdom lacks SubtleCrypto and TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const budgets = { Groceries: 400 };
+const classifier = { keywords: { Coffee: { starbucks: 3 } } };
+
+async function createKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new Uint8Array(32).fill(7),
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function plaintextValues(): string {
+  return Object.keys(localStorage)
+    .map(name => localStorage.getItem(name))
+    .join('\n');
+}
+
+describe('Vault Storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    VaultStorage.lock();
+  });
+
+  test('sealing leaves no app state in plaintext', async () => {
+    const key = await createKey();
+    BudgetStorage.saveBudgets(budgets);
+    await ClassifierStorage.saveClassifier(classifier);
+    expect(plaintextValues()).toContain('Groceries');
+
+    await VaultStorage.seal(key);
+
+    expect(VaultStorage.isSealed()).toBe(true);
+    expect(plaintextValues()).not.toContain('Groceries');
+    expect(plaintextValues()).not.toContain('starbucks');
+    expect(BudgetStorage.loadBudgets()).toEqual(budgets);
+    expect(await ClassifierStorage.loadClassifier()).toEqual(classifier);
+  });
+
+  test('a locked vault reads empty and refuses writes', async () => {
+    const key = await createKey();
+    BudgetStorage.saveBudgets(budgets);
+    await VaultStorage.seal(key);
+    VaultStorage.lock();
+
+    expect(BudgetStorage.loadBudgets()).toEqual({});
+    expect(() => VaultStorage.setItem('safepay_budgets_v1', '{}')).toThrow('locked');
+
+    await VaultStorage.unlock(key);
+    expect(BudgetStorage.loadBudgets()).toEqual(budgets);
+  });
+
+  test('writes while unlocked are re-encrypted into the vault', async () => {
+    const key = await createKey();
+    await VaultStorage.seal(key);
+
+    BudgetStorage.saveBudgets({ Rent: 1200 });
+    await VaultStorage.flush();
+    VaultStorage.lock();
+    await VaultStorage.unlock(key);
+
+    expect(BudgetStorage.loadBudgets()).toEqual({ Rent: 1200 });
+    expect(plaintextValues()).not.toContain('Rent');
+  });
+
+  test('flush reports a write that did not reach storage', async () => {
+    const key = await createKey();
+    await VaultStorage.seal(key);
+
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    BudgetStorage.saveBudgets({ Rent: 1200 });
+    await expect(VaultStorage.flush()).rejects.toThrow('Failed to save encrypted app state');
+    setItem.mockRestore();
+
+    BudgetStorage.saveBudgets({ Rent: 1300 });
+    await expect(VaultStorage.flush()).resolves.toBeUndefined();
+    VaultStorage.lock();
+    await VaultStorage.unlock(key);
+    expect(BudgetStorage.loadBudgets()).toEqual({ Rent: 1300 });
+  });
+
+  test('unlocking seals state left by older encrypted installs', async () => {
+    const key = await createKey();
+    EncryptionStorage.saveEncryptionAddress('0x1234567890123456789012345678901234567890');
+    localStorage.setItem('safepay_classifier_v1', await encryptWithKey(key, classifier));
+    localStorage.setItem('safepay_budgets_v1', JSON.stringify(budgets));
+
+    await VaultStorage.unlock(key);
+
+    expect(VaultStorage.isSealed()).toBe(true);
+    expect(localStorage.getItem('safepay_budgets_v1')).toBeNull();
+    expect(await ClassifierStorage.loadClassifier()).toEqual(classifier);
+  });
+
+  test('unsealing restores plaintext storage', async () => {
+    const key = await createKey();
+    BudgetStorage.saveBudgets(budgets);
+    await VaultStorage.seal(key);
+    VaultStorage.lock();
+
+    await VaultStorage.unseal(key);
+
+    expect(VaultStorage.isSealed()).toBe(false);
+    expect(JSON.parse(localStorage.getItem('safepay_budgets_v1') || '{}')).toEqual(budgets);
+  });
+});
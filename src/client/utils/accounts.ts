@@ -0,0 +1,172 @@
+/**
+ * Account utilities for SafePay AI
+ * Opening balances, running balances and transfers between accounts
+ */
+
+import { Account, AccountKind, Transaction } from '../types';
+import { transactionCurrency } from './currency';
+
+export const ACCOUNT_KINDS: Record<AccountKind, { label: string; icon: string }> = {
+  'checking': { label: 'Checking', icon: '🏦' },
+  'credit-card': { label: 'Credit Card', icon: '💳' },
+  'cash': { label: 'Cash', icon: '💵' },
+  'crypto-wallet': { label: 'Crypto Wallet', icon: '🪙' },
+};
+
+/**
+ * Category assigned to transfers, which never count as income or spending
+ */
+export const TRANSFER_CATEGORY = 'Transfer';
+
+export interface AccountBalance {
+  account: Account;
+  balance: number;
+  transactionCount: number;
+}
+
+export interface RunningBalanceEntry {
+  transaction: Transaction;
+  change: number;
+  balance: number;
+}
+
+/**
+ * Create a new account
+ */
+export function createAccount(
+  name: string,
+  kind: AccountKind,
+  currency: string,
+  openingBalance = 0
+): Account {
+  return {
+    id: `acct_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+    name: name.trim(),
+    kind,
+    currency,
+    openingBalance,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether a transaction moves money in or out of an account
+ */
+export function touchesAccount(transaction: Transaction, accountId: string): boolean {
+  return transaction.accountId === accountId || transaction.toAccountId === accountId;
+}
+
+/**
+ * Signed effect of a transaction on an account's balance
+ */
+export function accountDelta(transaction: Transaction, accountId: string): number {
+  const amount = Math.abs(transaction.amount);
+
+  if (transaction.type === 'transfer') {
+    if (transaction.toAccountId === accountId) {
+      return Math.abs(transaction.toAmount ?? amount);
+    }
+    return transaction.accountId === accountId ? -amount : 0;
+  }
+
+  if (transaction.accountId !== accountId) return 0;
+  return transaction.type === 'income' ? amount : -amount;
+}
+
+/**
+ * Current balance of every account (opening balance plus all movements)
+ */
+export function calculateAccountBalances(
+  accounts: Account[],
+  transactions: Transaction[]
+): AccountBalance[] {
+  return accounts.map(account => {
+    const related = transactions.filter(t => touchesAccount(t, account.id));
+    const balance = related.reduce(
+      (sum, t) => sum + accountDelta(t, account.id),
+      account.openingBalance
+    );
+    return { account, balance, transactionCount: related.length };
+  });
+}
+
+/**
+ * Balance after each transaction, in chronological order
+ */
+export function calculateRunningBalances(
+  account: Account,
+  transactions: Transaction[]
+): RunningBalanceEntry[] {
+  const related = transactions
+    .filter(t => touchesAccount(t, account.id))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  let balance = account.openingBalance;
+  return related.map(transaction => {
+    const change = accountDelta(transaction, account.id);
+    balance += change;
+    return { transaction, change, balance };
+  });
+}
+
+/**
+ * Filter transactions by account
+ */
+export function filterByAccount(transactions: Transaction[], accountId: string): Transaction[] {
+  if (accountId === 'All') {
+    return transactions;
+  }
+  return transactions.filter(t => touchesAccount(t, accountId));
+}
+
+/**
+ * Validate a transfer before saving it
+ */
+export function validateTransfer(
+  transaction: Pick<Transaction, 'accountId' | 'toAccountId' | 'amount'>,
+  accounts: Account[]
+): string | null {
+  if (!transaction.accountId || !transaction.toAccountId) {
+    return 'Transfers need both a source and a destination account';
+  }
+  if (transaction.accountId === transaction.toAccountId) {
+    return 'Source and destination accounts must differ';
+  }
+  const ids = new Set(accounts.map(a => a.id));
+  if (!ids.has(transaction.accountId) || !ids.has(transaction.toAccountId)) {
+    return 'Unknown account';
+  }
+  return null;
+}
+
+/**
+ * Display name for an account id
+ */
+export function accountName(accounts: Account[], accountId?: string): string {
+  if (!accountId) return 'Unassigned';
+  return accounts.find(a => a.id === accountId)?.name || 'Unknown account';
+}
+
+/**
+ * Label ending in the last digits of an account number, e.g. "Savings ••6789"
+ */
+export function maskedAccountName(label: string, accountNumber: string): string {
+  return accountNumber ? `${label} ••${accountNumber.slice(-4)}` : label;
+}
+
+/**
+ * Sign shown before an amount in lists
+ */
+export function amountPrefix(transaction: Transaction): string {
+  if (transaction.type === 'income') return '+';
+  if (transaction.type === 'expense') return '-';
+  return '';
+}
+
+/**
+ * Currency a transfer arrives in at the destination account
+ */
+export function transferDestinationCurrency(transaction: Transaction, accounts: Account[]): string {
+  const destination = accounts.find(a => a.id === transaction.toAccountId);
+  return destination?.currency || transactionCurrency(transaction);
+}
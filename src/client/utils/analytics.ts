@@ -2,19 +2,26 @@
  * Analytics utilities for financial data analysis
  */
 
-import { Transaction, CategoryStat, TrendData, ChartData } from '../types';
+import { Transaction, TransactionType, CategoryStat, TrendData, ChartData, CurrencyContext } from '../types';
+import { baseAmount } from './currency';
+import { flattenSplits, transactionCategories } from './splits';
 
 /**
  * Calculate category statistics
+ * Amounts are converted to the base currency when a currency context is given.
+ * Split transactions count each line under its own category.
  */
-export function calculateCategoryStats(transactions: Transaction[]): CategoryStat[] {
+export function calculateCategoryStats(
+  transactions: Transaction[],
+  currency?: CurrencyContext
+): CategoryStat[] {
   const categoryMap = new Map<string, { total: number; count: number }>();
 
-  transactions.forEach(t => {
+  flattenSplits(transactions).forEach(t => {
     if (t.type === 'expense') {
       const existing = categoryMap.get(t.category) || { total: 0, count: 0 };
       categoryMap.set(t.category, {
-        total: existing.total + Math.abs(t.amount),
+        total: existing.total + baseAmount(t, currency),
         count: existing.count + 1,
       });
     }
@@ -37,7 +44,8 @@ export function calculateCategoryStats(transactions: Transaction[]): CategorySta
  */
 export function calculateTrends(
   transactions: Transaction[],
-  period: 'daily' | 'weekly' | 'monthly' = 'monthly'
+  period: 'daily' | 'weekly' | 'monthly' = 'monthly',
+  currency?: CurrencyContext
 ): TrendData[] {
   const trendMap = new Map<string, { income: number; expense: number }>();
 
@@ -58,9 +66,9 @@ export function calculateTrends(
     const existing = trendMap.get(key) || { income: 0, expense: 0 };
     
     if (t.type === 'income') {
-      existing.income += Math.abs(t.amount);
-    } else {
-      existing.expense += Math.abs(t.amount);
+      existing.income += baseAmount(t, currency);
+    } else if (t.type === 'expense') {
+      existing.expense += baseAmount(t, currency);
     }
 
     trendMap.set(key, existing);
@@ -90,8 +98,10 @@ export function categoryStatsToChartData(stats: CategoryStat[]): ChartData[] {
 
 /**
  * Calculate financial summary
+ * Amounts are converted to the base currency when a currency context is given.
+ * Transfers move money between accounts and are left out of every figure.
  */
-export function calculateSummary(transactions: Transaction[]): {
+export function calculateSummary(transactions: Transaction[], currency?: CurrencyContext): {
   totalIncome: number;
   totalExpenses: number;
   netBalance: number;
@@ -100,14 +110,14 @@ export function calculateSummary(transactions: Transaction[]): {
 } {
   const totalIncome = transactions
     .filter(t => t.type === 'income')
-    .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+    .reduce((sum, t) => sum + baseAmount(t, currency), 0);
 
   const totalExpenses = transactions
     .filter(t => t.type === 'expense')
-    .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+    .reduce((sum, t) => sum + baseAmount(t, currency), 0);
 
   const netBalance = totalIncome - totalExpenses;
-  const transactionCount = transactions.length;
+  const transactionCount = transactions.filter(t => t.type !== 'transfer').length;
   const averageTransaction = transactionCount > 0
     ? (totalIncome + totalExpenses) / transactionCount
     : 0;
@@ -145,7 +155,20 @@ export function filterByCategory(
   if (category === 'All') {
     return transactions;
   }
-  return transactions.filter(t => t.category === category);
+  return transactions.filter(t => t.category === category || transactionCategories(t).includes(category));
+}
+
+/**
+ * Filter transactions by tag (tags are stored normalized, see utils/tags)
+ */
+export function filterByTag(
+  transactions: Transaction[],
+  tag: string
+): Transaction[] {
+  if (tag === 'All') {
+    return transactions;
+  }
+  return transactions.filter(t => (t.tags || []).includes(tag));
 }
 
 /**
@@ -153,7 +176,7 @@ export function filterByCategory(
  */
 export function filterByType(
   transactions: Transaction[],
-  type: 'income' | 'expense' | 'all'
+  type: TransactionType | 'all'
 ): Transaction[] {
   if (type === 'all') {
     return transactions;
@@ -162,7 +185,7 @@ export function filterByType(
 }
 
 /**
- * Search transactions
+ * Search transactions by substring; the history page uses the indexed search in services/search
  */
 export function searchTransactions(
   transactions: Transaction[],
@@ -178,6 +201,8 @@ export function searchTransactions(
     const searchableText = [
       t.category,
       t.note || '',
+      ...(t.splits || []).map(s => `${s.category} ${s.note || ''}`),
+      ...(t.tags || []).map(tag => `#${tag}`),
       t.type,
       t.amount.toString(),
     ].join(' ').toLowerCase();
@@ -0,0 +1,43 @@
+/**
+ * Attachment utilities for SafePay AI
+ * Validation and display helpers for receipts and documents
+ */
+
+import { Attachment } from '../types';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+];
+
+export function newAttachmentId(): string {
+  return `att_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Reason a file cannot be attached, or null when it is fine
+ */
+export function validateAttachmentFile(file: { name: string; type: string; size: number }): string | null {
+  if (!ACCEPTED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name}: only images and PDFs can be attached`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name}: files larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)} cannot be attached`;
+  }
+  return null;
+}
+
+export function isImageAttachment(attachment: Pick<Attachment, 'mimeType'>): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,338 @@
+/**
+ * Portable backup files for SafePay AI
+ * A versioned ".safepay" container sealed with a passphrase, and optionally a wallet,
+ * plus the merge and replace rules used when one is restored
+ */
+
+import { BackupContents, RestoreMode } from '../types';
+import { base64ToBuffer, bufferToBase64, decryptWithKey, encryptWithKey } from './crypto';
+import { validateImportData } from './dataImport';
+
+export const BACKUP_FORMAT = 'safepay-backup';
+export const BACKUP_VERSION = 1;
+export const BACKUP_EXTENSION = 'safepay';
+export const MIN_PASSPHRASE_LENGTH = 8;
+/** PBKDF2-SHA-256 rounds for new backups; older files keep the count they were made with */
+export const DEFAULT_KDF_ITERATIONS = 600000;
+
+export interface BackupKdf {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  /** Base64, 16 random bytes */
+  salt: string;
+}
+
+/** The backup's data key, sealed for one way of opening the file */
+export type BackupKeySlot =
+  | { type: 'passphrase'; wrapped: string }
+  | { type: 'wallet'; address: string; wrapped: string };
+
+export interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  kdf: BackupKdf;
+  keys: BackupKeySlot[];
+}
+
+export interface BackupFile extends BackupHeader {
+  /** Base64 IV and AES-GCM ciphertext of the contents; the header is authenticated with it */
+  payload: string;
+}
+
+export type BackupUnlock = { passphrase: string } | { walletKey: CryptoKey };
+
+export interface BackupOptions {
+  passphrase: string;
+  /** Lets the wallet that derived `key` open the backup without the passphrase */
+  wallet?: { address: string; key: CryptoKey };
+  iterations?: number;
+  now?: Date;
+}
+
+export interface RestoreCount {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export interface RestorePreview {
+  transactions: RestoreCount;
+  accounts: RestoreCount;
+  categories: RestoreCount;
+  budgets: RestoreCount;
+  savedViews: RestoreCount;
+  /** The category classifier would be swapped for the backup's */
+  classifier: boolean;
+}
+
+const DATA_KEY_BYTES = 32;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Header bytes in a fixed key order, bound to the payload as AES-GCM additional data
+ */
+function headerBytes(header: BackupHeader): BufferSource {
+  const { format, version, createdAt, kdf, keys } = header;
+  return new TextEncoder().encode(JSON.stringify({
+    format,
+    version,
+    createdAt,
+    kdf: { name: kdf.name, hash: kdf.hash, iterations: kdf.iterations, salt: kdf.salt },
+    keys: keys.map(slot => (slot.type === 'wallet'
+      ? { type: slot.type, address: slot.address, wrapped: slot.wrapped }
+      : { type: slot.type, wrapped: slot.wrapped })),
+  }));
+}
+
+async function passphraseKey(passphrase: string, kdf: BackupKdf): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase.normalize('NFC')),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: kdf.hash, iterations: kdf.iterations, salt: new Uint8Array(base64ToBuffer(kdf.salt)) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function importDataKey(raw: BufferSource): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Seal data as the text of a ".safepay" file
+ */
+export async function createBackup(contents: BackupContents, options: BackupOptions): Promise<string> {
+  if (options.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const rawKey = crypto.getRandomValues(new Uint8Array(DATA_KEY_BYTES));
+  const encodedKey = bufferToBase64(rawKey.buffer);
+  const kdf: BackupKdf = {
+    name: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: options.iterations ?? DEFAULT_KDF_ITERATIONS,
+    salt: bufferToBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)).buffer),
+  };
+  const keys: BackupKeySlot[] = [
+    { type: 'passphrase', wrapped: await encryptWithKey(await passphraseKey(options.passphrase, kdf), encodedKey) },
+  ];
+  if (options.wallet) {
+    keys.push({
+      type: 'wallet',
+      address: options.wallet.address.toLowerCase(),
+      wrapped: await encryptWithKey(options.wallet.key, encodedKey),
+    });
+  }
+
+  const header: BackupHeader = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: (options.now || new Date()).toISOString(),
+    kdf,
+    keys,
+  };
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+    await importDataKey(rawKey),
+    new TextEncoder().encode(JSON.stringify(contents))
+  );
+  const payload = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  payload.set(iv, 0);
+  payload.set(new Uint8Array(ciphertext), IV_BYTES);
+
+  const file: BackupFile = { ...header, payload: bufferToBase64(payload.buffer) };
+  return JSON.stringify(file, null, 2);
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isKdf(value: unknown): value is BackupKdf {
+  return isObject(value) && value.name === 'PBKDF2' && value.hash === 'SHA-256'
+    && typeof value.iterations === 'number' && Number.isInteger(value.iterations) && value.iterations > 0
+    && typeof value.salt === 'string';
+}
+
+function isKeySlot(value: unknown): value is BackupKeySlot {
+  return isObject(value) && typeof value.wrapped === 'string'
+    && (value.type === 'passphrase' || (value.type === 'wallet' && typeof value.address === 'string'));
+}
+
+/**
+ * Check a file is a backup this version can open, without unlocking it
+ */
+export function readBackupFile(text: string): BackupFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a SafePay backup file');
+  }
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('Not a SafePay backup file');
+  }
+  const { version, createdAt, kdf, keys, payload } = parsed;
+  if (typeof version !== 'number' || version > BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version of SafePay (format ${String(version)})`);
+  }
+
+  if (typeof createdAt !== 'string' || !isKdf(kdf) || !Array.isArray(keys) || keys.length === 0
+    || !keys.every(isKeySlot) || typeof payload !== 'string') {
+    throw new Error('The backup file is incomplete');
+  }
+  return { format: BACKUP_FORMAT, version, createdAt, kdf, keys, payload };
+}
+
+/**
+ * Wallet addresses that can open a backup besides its passphrase
+ */
+export function backupWallets(file: BackupHeader): string[] {
+  return file.keys.reduce<string[]>(
+    (addresses, slot) => (slot.type === 'wallet' ? addresses.concat(slot.address) : addresses),
+    []
+  );
+}
+
+async function unwrapDataKey(file: BackupFile, unlock: BackupUnlock): Promise<BufferSource> {
+  if ('passphrase' in unlock) {
+    const slot = file.keys.find(k => k.type === 'passphrase');
+    if (!slot) throw new Error('This backup has no passphrase');
+    try {
+      const encoded = await decryptWithKey(await passphraseKey(unlock.passphrase, file.kdf), slot.wrapped);
+      return new Uint8Array(base64ToBuffer(encoded));
+    } catch {
+      throw new Error('Wrong passphrase');
+    }
+  }
+
+  const slots = file.keys.filter(k => k.type === 'wallet');
+  if (slots.length === 0) throw new Error('This backup can only be opened with its passphrase');
+  for (const slot of slots) {
+    try {
+      return new Uint8Array(base64ToBuffer(await decryptWithKey(unlock.walletKey, slot.wrapped)));
+    } catch {
+      // Sealed for another wallet
+    }
+  }
+  throw new Error('This wallet cannot open the backup');
+}
+
+/**
+ * Unlock a backup and check that neither its header nor its contents were altered
+ */
+export async function openBackup(text: string, unlock: BackupUnlock): Promise<BackupContents> {
+  const file = readBackupFile(text);
+  const dataKey = await importDataKey(await unwrapDataKey(file, unlock));
+
+  let contents: unknown;
+  try {
+    const payload = new Uint8Array(base64ToBuffer(file.payload));
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: payload.slice(0, IV_BYTES), additionalData: headerBytes(file) },
+      dataKey,
+      payload.slice(IV_BYTES)
+    );
+    contents = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new Error('The backup is damaged or has been modified');
+  }
+  if (!isObject(contents) || !Array.isArray(contents.transactions)) {
+    throw new Error('The backup file is incomplete');
+  }
+
+  // Every record goes through the import checks, so a bad one stops the restore before anything is written
+  const { data, errors } = validateImportData(contents);
+  if (errors.length > 0) {
+    const [first] = errors;
+    const invalid = new Set(errors.map(error => error.record)).size;
+    throw new Error(
+      `The backup has ${invalid} invalid ${invalid === 1 ? 'entry' : 'entries'}, `
+      + `starting with ${first.record}${first.field && ` ${first.field}`}: ${first.message}`
+    );
+  }
+
+  return {
+    transactions: data.transactions,
+    classifier: data.classifier ?? null,
+    budgets: data.budgets ?? {},
+    accounts: data.accounts ?? [],
+    categories: data.categories ?? null,
+    savedViews: data.savedViews ?? [],
+  };
+}
+
+function mergeById<T>(current: T[], backup: T[], idOf: (item: T) => string): T[] {
+  const known = new Set(current.map(idOf));
+  return [...current, ...backup.filter(item => !known.has(idOf(item)))];
+}
+
+/**
+ * Data after a restore. Merging keeps every record here, including ones the
+ * backup has a different copy of, and adds the rest. Replacing takes the
+ * backup as it is, except that a backup without categories or a classifier
+ * leaves those alone.
+ */
+export function restoredContents(current: BackupContents, backup: BackupContents, mode: RestoreMode): BackupContents {
+  if (mode === 'replace') {
+    return {
+      ...backup,
+      classifier: backup.classifier || current.classifier,
+      categories: backup.categories || current.categories,
+    };
+  }
+
+  return {
+    transactions: mergeById(current.transactions, backup.transactions, t => String(t.id)),
+    classifier: current.classifier || backup.classifier,
+    budgets: { ...backup.budgets, ...current.budgets },
+    accounts: mergeById(current.accounts, backup.accounts, a => a.id),
+    categories: current.categories && backup.categories
+      ? mergeById(current.categories, backup.categories, c => c.id)
+      : current.categories || backup.categories,
+    savedViews: mergeById(current.savedViews, backup.savedViews, v => v.id),
+  };
+}
+
+/**
+ * Records a new list adds, changes and drops compared with an old one, matched by id
+ */
+export function countRecordChanges<T>(before: T[], after: T[], idOf: (item: T) => string): RestoreCount {
+  const previous = new Map(before.map(item => [idOf(item), JSON.stringify(item)] as const));
+  const count: RestoreCount = { added: 0, updated: 0, removed: 0 };
+  after.forEach(item => {
+    const id = idOf(item);
+    if (!previous.has(id)) count.added++;
+    else if (previous.get(id) !== JSON.stringify(item)) count.updated++;
+    previous.delete(id);
+  });
+  count.removed = previous.size;
+  return count;
+}
+
+/**
+ * What a restore would add, change and remove on this device
+ */
+export function previewRestore(current: BackupContents, backup: BackupContents, mode: RestoreMode): RestorePreview {
+  const next = restoredContents(current, backup, mode);
+  return {
+    transactions: countRecordChanges(current.transactions, next.transactions, t => String(t.id)),
+    accounts: countRecordChanges(current.accounts, next.accounts, a => a.id),
+    categories: countRecordChanges(current.categories || [], next.categories || [], c => c.id),
+    budgets: countRecordChanges(Object.entries(current.budgets), Object.entries(next.budgets), ([category]) => category),
+    savedViews: countRecordChanges(current.savedViews, next.savedViews, v => v.id),
+    classifier: JSON.stringify(current.classifier) !== JSON.stringify(next.classifier),
+  };
+}
@@ -2,16 +2,22 @@
  * Budget management utilities
  */
 
-import { Transaction, Budget, BudgetAlert } from '../types';
+import { Transaction, Budget, BudgetAlert, CurrencyContext } from '../types';
+import { baseAmount } from './currency';
+import { flattenSplits } from './splits';
+import { isInCategory } from './categories';
 
 /**
  * Calculate budget status for a category
+ * Split transactions contribute only the lines in this category, and a
+ * parent category's budget includes its subcategories
  */
 export function calculateBudgetStatus(
   category: string,
   budget: number,
   transactions: Transaction[],
-  period: 'monthly' | 'weekly' | 'yearly' = 'monthly'
+  period: 'monthly' | 'weekly' | 'yearly' = 'monthly',
+  currency?: CurrencyContext
 ): BudgetAlert | null {
   const now = new Date();
   let startDate: Date;
@@ -28,14 +34,28 @@ export function calculateBudgetStatus(
     startDate = new Date(now.getFullYear(), 0, 1);
   }
 
-  const categoryTransactions = transactions.filter(
-    t => t.category === category && 
+  return calculateBudgetStatusInRange(category, budget, transactions, startDate, endDate, currency);
+}
+
+/**
+ * Budget status over a fixed date range, such as a statement period
+ */
+export function calculateBudgetStatusInRange(
+  category: string,
+  budget: number,
+  transactions: Transaction[],
+  startDate: Date,
+  endDate: Date,
+  currency?: CurrencyContext
+): BudgetAlert {
+  const categoryTransactions = flattenSplits(transactions).filter(
+    t => isInCategory(t.category, category) &&
          t.type === 'expense' &&
          new Date(t.timestamp) >= startDate &&
          new Date(t.timestamp) <= endDate
   );
 
-  const spent = categoryTransactions.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+  const spent = categoryTransactions.reduce((sum, t) => sum + baseAmount(t, currency), 0);
   const percentage = budget > 0 ? (spent / budget) * 100 : 0;
 
   let status: 'warning' | 'exceeded' | 'on-track' = 'on-track';
@@ -60,12 +80,13 @@ export function calculateBudgetStatus(
 export function calculateBudgetAlerts(
   budgets: Record<string, number>,
   transactions: Transaction[],
-  period: 'monthly' | 'weekly' | 'yearly' = 'monthly'
+  period: 'monthly' | 'weekly' | 'yearly' = 'monthly',
+  currency?: CurrencyContext
 ): BudgetAlert[] {
   const alerts: BudgetAlert[] = [];
 
   Object.entries(budgets).forEach(([category, budget]) => {
-    const status = calculateBudgetStatus(category, budget, transactions, period);
+    const status = calculateBudgetStatus(category, budget, transactions, period, currency);
     if (status && status.status !== 'on-track') {
       alerts.push(status);
     }
@@ -79,7 +100,8 @@ export function calculateBudgetAlerts(
  */
 export function getBudgetRecommendations(
   budgets: Record<string, number>,
-  transactions: Transaction[]
+  transactions: Transaction[],
+  currency?: CurrencyContext
 ): string[] {
   const recommendations: string[] = [];
 
@@ -87,10 +109,10 @@ export function getBudgetRecommendations(
   const categoryAverages: Record<string, number> = {};
   const categoryCounts: Record<string, number> = {};
 
-  transactions
+  flattenSplits(transactions)
     .filter(t => t.type === 'expense')
     .forEach(t => {
-      categoryAverages[t.category] = (categoryAverages[t.category] || 0) + Math.abs(t.amount);
+      categoryAverages[t.category] = (categoryAverages[t.category] || 0) + baseAmount(t, currency);
       categoryCounts[t.category] = (categoryCounts[t.category] || 0) + 1;
     });
 
@@ -0,0 +1,132 @@
+/**
+ * CAMT.053 import utilities for SafePay AI
+ * Parses ISO 20022 bank-to-customer statements of any camt.053 version
+ */
+
+import { maskedAccountName } from './accounts';
+import { BankStatement, StatementEntry } from './statementImport';
+
+/**
+ * Child elements by local name, so the schema version's namespace does not matter
+ */
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+/**
+ * First element along a path of local names, e.g. "Acct/Id/IBAN"
+ */
+function at(parent: Element | undefined, path: string): Element | undefined {
+  return path.split('/').reduce<Element | undefined>(
+    (element, name) => (element ? childElements(element, name)[0] : undefined),
+    parent
+  );
+}
+
+function textAt(parent: Element | undefined, path: string): string {
+  return (at(parent, path)?.textContent || '').trim();
+}
+
+/**
+ * Day of an ISO date or date-time
+ */
+function camtDate(parent: Element | undefined, path: string): string | null {
+  const value = textAt(parent, `${path}/Dt`) || textAt(parent, `${path}/DtTm`);
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function signedAmount(element: Element): number | null {
+  const amount = Number(textAt(element, 'Amt'));
+  if (!textAt(element, 'Amt') || isNaN(amount)) return null;
+  return textAt(element, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+}
+
+function balanceCode(balance: Element): string {
+  return textAt(balance, 'Tp/CdOrPrtry/Cd') || textAt(balance, 'Tp/CdOrPrtry/Prtry');
+}
+
+/**
+ * Name of the other party: the creditor of a payment out, the debtor of a payment in
+ */
+function counterparty(details: Element | undefined, outgoing: boolean): string {
+  const role = outgoing ? 'Cdtr' : 'Dbtr';
+  return textAt(details, `RltdPties/${role}/Nm`) || textAt(details, `RltdPties/${role}/Pty/Nm`);
+}
+
+function parseEntry(entry: Element): StatementEntry | null {
+  // Pending entries may still change or disappear
+  const status = textAt(entry, 'Sts') || textAt(entry, 'Sts/Cd');
+  if (status && status !== 'BOOK') return null;
+
+  // CdtDbtInd gives the direction of the booking itself, also for reversals (RvslInd)
+  const amount = signedAmount(entry);
+  const posted = camtDate(entry, 'BookgDt') || camtDate(entry, 'ValDt');
+  if (amount === null || !posted) return null;
+
+  const details = at(entry, 'NtryDtls/TxDtls');
+  const outgoing = amount < 0;
+  const remittance = at(details, 'RmtInf');
+  const memo = remittance
+    ? childElements(remittance, 'Ustrd').map(e => (e.textContent || '').trim()).join(' ')
+    : '';
+  const endToEnd = textAt(details, 'Refs/EndToEndId');
+
+  return {
+    id: textAt(entry, 'AcctSvcrRef')
+      || textAt(entry, 'NtryRef')
+      || textAt(details, 'Refs/AcctSvcrRef')
+      || (endToEnd && endToEnd !== 'NOTPROVIDED' ? endToEnd : ''),
+    posted,
+    amount,
+    name: counterparty(details, outgoing),
+    memo: memo || textAt(entry, 'AddtlNtryInf'),
+  };
+}
+
+/**
+ * Every statement in a CAMT.053 file
+ */
+export function parseCamt053(text: string): BankStatement[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The CAMT.053 file is not well-formed XML');
+  }
+
+  const statements = Array.from(doc.getElementsByTagNameNS('*', 'Stmt')).map(statement => {
+    const account = at(statement, 'Acct');
+    const accountKey = textAt(account, 'Id/IBAN') || textAt(account, 'Id/Othr/Id');
+    const balances = childElements(statement, 'Bal');
+    const closing = balances.find(b => balanceCode(b) === 'CLBD');
+    const closingAmount = closing ? signedAmount(closing) : null;
+    const closingDate = closing ? camtDate(closing, 'Dt') : null;
+
+    const entries = childElements(statement, 'Ntry')
+      .map(parseEntry)
+      .filter((entry): entry is StatementEntry => entry !== null);
+
+    const period = at(statement, 'FrToDt');
+    const start = textAt(period, 'FrDtTm') || textAt(period, 'FrDt');
+    const end = textAt(period, 'ToDtTm') || textAt(period, 'ToDt');
+
+    return {
+      format: 'camt053' as const,
+      accountKey,
+      accountName: textAt(account, 'Nm') || maskedAccountName('Account', accountKey),
+      accountKind: 'checking' as const,
+      currency: textAt(account, 'Ccy') || at(closing, 'Amt')?.getAttribute('Ccy') || '',
+      startDate: start ? start.slice(0, 10) : null,
+      endDate: end ? end.slice(0, 10) : null,
+      entries,
+      ledgerBalance: closingAmount !== null && closingDate ? { amount: closingAmount, asOf: closingDate } : null,
+    };
+  });
+
+  if (statements.length === 0) {
+    throw new Error('The CAMT.053 file has no statement (Stmt)');
+  }
+  if (statements.some(s => !s.accountKey)) {
+    throw new Error('A statement in the file has no account number');
+  }
+  return statements;
+}
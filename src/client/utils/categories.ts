@@ -0,0 +1,316 @@
+/**
+ * Category registry utilities for SafePay AI
+ * Hierarchical categories, and the rewrites behind rename and merge
+ */
+
+import { Category, Classifier, RecurringTransaction, Transaction } from '../types';
+
+/**
+ * Separator between a parent and child in a category path
+ */
+export const CATEGORY_SEPARATOR = ' > ';
+
+export const CATEGORY_COLORS = ['#00D1A1', '#4299E1', '#F6AD55', '#E53E3E', '#48BB78', '#9F7AEA', '#ED8936'];
+
+const DEFAULT_ICONS: Record<string, string> = {
+  'Food': '🍽️',
+  'Transport': '🚗',
+  'Rent': '🏠',
+  'Salary': '💰',
+  'Utilities': '⚡',
+  'Entertainment': '🎬',
+  'Shopping': '🛍️',
+  'Healthcare': '🏥',
+  'Education': '📚',
+  'Other': '📦',
+};
+
+const FALLBACK_ICON = '📦';
+
+/**
+ * Everything a rename or merge rewrites
+ */
+export interface CategoryData {
+  categories: Category[];
+  transactions: Transaction[];
+  budgets: Record<string, number>;
+  classifier: Classifier | null;
+  recurring: RecurringTransaction[];
+}
+
+function newCategoryId(): string {
+  return `cat_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Seed registry built from a list of top-level names
+ */
+export function createDefaultCategories(names: readonly string[]): Category[] {
+  return names.map((name, index) => ({
+    id: newCategoryId() + index,
+    name,
+    color: CATEGORY_COLORS[index % CATEGORY_COLORS.length],
+    icon: DEFAULT_ICONS[name] || FALLBACK_ICON,
+  }));
+}
+
+/**
+ * Full path of a category, e.g. "Food > Groceries"
+ */
+export function categoryPath(categories: Category[], id: string): string {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = categories.find(c => c.id === id);
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    const parentId: string | undefined = current.parentId;
+    current = parentId ? categories.find(c => c.id === parentId) : undefined;
+  }
+
+  return names.join(CATEGORY_SEPARATOR);
+}
+
+export function findCategoryByPath(categories: Category[], path: string): Category | undefined {
+  return categories.find(c => categoryPath(categories, c.id) === path);
+}
+
+/**
+ * Whether a transaction category falls under a category (itself or a descendant)
+ */
+export function isInCategory(path: string, category: string): boolean {
+  return path === category || path.startsWith(category + CATEGORY_SEPARATOR);
+}
+
+/**
+ * Category paths in display order: each parent followed by its children
+ */
+export function listCategoryPaths(categories: Category[], includeArchived = false): string[] {
+  const paths: string[] = [];
+
+  const visit = (parentId: string | undefined, depth: number) => {
+    categories
+      .filter(c => c.parentId === parentId && (includeArchived || !c.archived))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(c => {
+        paths.push(categoryPath(categories, c.id));
+        if (depth < 10) visit(c.id, depth + 1);
+      });
+  };
+
+  visit(undefined, 0);
+  return paths;
+}
+
+/**
+ * All descendants of a category, nearest first
+ */
+export function descendantIds(categories: Category[], id: string): string[] {
+  const result: string[] = [];
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    categories
+      .filter(c => c.parentId === current && !result.includes(c.id))
+      .forEach(c => {
+        result.push(c.id);
+        queue.push(c.id);
+      });
+  }
+  return result;
+}
+
+/**
+ * Icon and color for a category path, inherited from the nearest registered ancestor
+ */
+export function getCategoryMeta(categories: Category[], path: string): { icon: string; color?: string } {
+  const parts = path.split(CATEGORY_SEPARATOR);
+  for (let i = parts.length; i > 0; i--) {
+    const match = findCategoryByPath(categories, parts.slice(0, i).join(CATEGORY_SEPARATOR));
+    if (match) {
+      return { icon: match.icon, color: match.color };
+    }
+  }
+  return { icon: DEFAULT_ICONS[path] || FALLBACK_ICON };
+}
+
+/**
+ * Validate a name for a new or renamed category
+ */
+export function validateCategoryName(
+  categories: Category[],
+  name: string,
+  parentId?: string,
+  ignoreId?: string
+): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Category name is required';
+  if (trimmed.includes(CATEGORY_SEPARATOR.trim())) return `Category names cannot contain "${CATEGORY_SEPARATOR.trim()}"`;
+  const clash = categories.some(c =>
+    c.id !== ignoreId &&
+    c.parentId === parentId &&
+    c.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  return clash ? 'A category with this name already exists here' : null;
+}
+
+export function addCategory(
+  categories: Category[],
+  name: string,
+  options: { parentId?: string; color?: string; icon?: string } = {}
+): Category[] {
+  const error = validateCategoryName(categories, name, options.parentId);
+  if (error) throw new Error(error);
+
+  const parent = options.parentId ? categories.find(c => c.id === options.parentId) : undefined;
+  return [
+    ...categories,
+    {
+      id: newCategoryId(),
+      name: name.trim(),
+      parentId: parent?.id,
+      color: options.color || parent?.color || CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
+      icon: options.icon || parent?.icon || FALLBACK_ICON,
+    },
+  ];
+}
+
+/**
+ * Register category paths used in data but missing from the registry
+ */
+export function ensureCategoryPaths(categories: Category[], paths: string[]): Category[] {
+  let result = categories;
+  paths.forEach(path => {
+    const parts = path.split(CATEGORY_SEPARATOR).map(p => p.trim()).filter(Boolean);
+    let parentId: string | undefined;
+    parts.forEach(part => {
+      const existing = result.find(c => c.parentId === parentId && c.name.toLowerCase() === part.toLowerCase());
+      if (existing) {
+        parentId = existing.id;
+      } else {
+        result = addCategory(result, part, { parentId });
+        parentId = result[result.length - 1].id;
+      }
+    });
+  });
+  return result;
+}
+
+/**
+ * Map a path from one category to another, carrying sub-paths along
+ */
+function remapPath(path: string, from: string, to: string): string {
+  if (path === from) return to;
+  if (path.startsWith(from + CATEGORY_SEPARATOR)) return to + path.slice(from.length);
+  return path;
+}
+
+/**
+ * Rewrite every category reference in transactions, budgets, classifier and recurring rules
+ */
+function rewriteReferences(data: CategoryData, from: string, to: string): CategoryData {
+  const remap = (path: string) => remapPath(path, from, to);
+
+  const transactions = data.transactions.map(t => {
+    const category = remap(t.category);
+    const splits = t.splits?.map(s => ({ ...s, category: remap(s.category) }));
+    const changed = category !== t.category || splits?.some((s, i) => s.category !== t.splits![i].category);
+    return changed ? { ...t, category, ...(splits ? { splits } : {}) } : t;
+  });
+
+  const budgets: Record<string, number> = {};
+  Object.entries(data.budgets).forEach(([category, amount]) => {
+    const target = remap(category);
+    budgets[target] = (budgets[target] || 0) + amount;
+  });
+
+  let classifier = data.classifier;
+  if (classifier) {
+    const keywords: Classifier['keywords'] = {};
+    Object.entries(classifier.keywords).forEach(([token, counts]) => {
+      keywords[token] = {};
+      Object.entries(counts).forEach(([category, count]) => {
+        const target = remap(category);
+        keywords[token][target] = (keywords[token][target] || 0) + count;
+      });
+    });
+    classifier = { keywords };
+  }
+
+  const recurring = data.recurring.map(r => {
+    const category = remap(r.template.category);
+    return category === r.template.category ? r : { ...r, template: { ...r.template, category } };
+  });
+
+  return { ...data, transactions, budgets, classifier, recurring };
+}
+
+/**
+ * Rename a category; children keep their place under the new name
+ */
+export function renameCategory(data: CategoryData, id: string, newName: string): CategoryData {
+  const category = data.categories.find(c => c.id === id);
+  if (!category) throw new Error('Category not found');
+
+  const error = validateCategoryName(data.categories, newName, category.parentId, id);
+  if (error) throw new Error(error);
+
+  const from = categoryPath(data.categories, id);
+  const categories = data.categories.map(c => (c.id === id ? { ...c, name: newName.trim() } : c));
+  const to = categoryPath(categories, id);
+
+  return rewriteReferences({ ...data, categories }, from, to);
+}
+
+/**
+ * Merge one category into another. The source disappears; its transactions,
+ * budget and classifier counts move to the target, and its children move
+ * under the target (merging with same-named children there).
+ */
+export function mergeCategories(data: CategoryData, sourceId: string, targetId: string): CategoryData {
+  if (sourceId === targetId) throw new Error('Choose two different categories');
+  const source = data.categories.find(c => c.id === sourceId);
+  const target = data.categories.find(c => c.id === targetId);
+  if (!source || !target) throw new Error('Category not found');
+  if (descendantIds(data.categories, sourceId).includes(targetId)) {
+    throw new Error('Cannot merge a category into one of its own subcategories');
+  }
+
+  const from = categoryPath(data.categories, sourceId);
+  const to = categoryPath(data.categories, targetId);
+  let categories = data.categories;
+  const folded: Array<[string, string]> = [];
+
+  // Move children across, folding them into same-named children of the target
+  const moveChildren = (fromParent: string, toParent: string) => {
+    categories
+      .filter(c => c.parentId === fromParent)
+      .forEach(child => {
+        const twin = categories.find(c => c.parentId === toParent && c.name.toLowerCase() === child.name.toLowerCase());
+        if (twin) {
+          folded.push([categoryPath(data.categories, child.id), categoryPath(data.categories, twin.id)]);
+          moveChildren(child.id, twin.id);
+          categories = categories.filter(c => c.id !== child.id);
+        } else {
+          categories = categories.map(c => (c.id === child.id ? { ...c, parentId: toParent } : c));
+        }
+      });
+  };
+  moveChildren(sourceId, targetId);
+  categories = categories.filter(c => c.id !== sourceId);
+
+  // Deepest folds first, so their paths keep the twin's spelling
+  const withFolds = folded
+    .sort((a, b) => b[0].length - a[0].length)
+    .reduce((current, [fromPath, toPath]) => rewriteReferences(current, fromPath, toPath), { ...data, categories });
+  return rewriteReferences(withFolds, from, to);
+}
+
+/**
+ * Archive or restore a category together with its subcategories
+ */
+export function setCategoryArchived(categories: Category[], id: string, archived: boolean): Category[] {
+  const affected = new Set([id, ...descendantIds(categories, id)]);
+  return categories.map(c => (affected.has(c.id) ? { ...c, archived } : c));
+}
@@ -82,29 +82,44 @@ export async function decryptWithKey(key: CryptoKey, encrypted: string): Promise
   return JSON.parse(decoder.decode(plaintext));
 }
 
+/**
+ * SHA-256 of raw bytes as 0x-prefixed hex
+ */
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', data);
+  const hashArray = Array.from(new Uint8Array(hash));
+  return '0x' + hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Generate a hash for transaction proof
+ * With `includeAttachments`, the attachment hashes are part of the payload,
+ * so the proof also covers the receipts. Without it the hash is unchanged
+ * from earlier versions and existing proofs still verify.
  */
-export async function hashTransaction(transaction: {
-  amount: number;
-  type: string;
-  category: string;
-  note?: string;
-  timestamp: string;
-}): Promise<string> {
-  const payload = JSON.stringify({
+export async function hashTransaction(
+  transaction: {
+    amount: number;
+    type: string;
+    category: string;
+    note?: string;
+    timestamp: string;
+    attachments?: Array<{ hash: string }>;
+  },
+  options: { includeAttachments?: boolean } = {}
+): Promise<string> {
+  const fields: Record<string, unknown> = {
     amount: transaction.amount,
     type: transaction.type,
     category: transaction.category,
     note: transaction.note || '',
     timestamp: transaction.timestamp,
-  });
-  
+  };
+  if (options.includeAttachments) {
+    fields.attachments = (transaction.attachments || []).map(a => a.hash).sort();
+  }
+
   const encoder = new TextEncoder();
-  const data = encoder.encode(payload);
-  const hash = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hash));
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  return '0x' + hashHex;
+  return sha256Hex(encoder.encode(JSON.stringify(fields)));
 }
 
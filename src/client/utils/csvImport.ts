@@ -0,0 +1,356 @@
+/**
+ * CSV import utilities for SafePay AI
+ * Decodes bank statements, detects their layout and maps rows to transactions
+ */
+
+import { CsvColumnMapping, CsvDateFormat, CsvImportSettings, CsvImportTemplate, Transaction } from '../types';
+import { toDateKey } from './recurrence';
+
+export interface CsvImportRow {
+  /** 1-based line in the file, for error messages */
+  line: number;
+  /** YYYY-MM-DD */
+  date: string | null;
+  /** Signed: negative amounts are money going out */
+  amount: number | null;
+  description: string;
+  error: string | null;
+}
+
+export const CSV_DELIMITERS: Array<{ value: string; label: string }> = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = [
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'DD.MM.YYYY',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'DD-MM-YYYY',
+  'MM-DD-YYYY',
+];
+
+const HEADER_PATTERNS: Record<keyof CsvColumnMapping, RegExp> = {
+  date: /date|datum|posted|booking/i,
+  debit: /debit|withdrawal|money out|paid out|outflow/i,
+  credit: /credit|deposit|money in|paid in|inflow/i,
+  amount: /amount|value|sum|betrag/i,
+  description: /description|memo|details|payee|narrative|merchant|reference|text|name/i,
+};
+
+/**
+ * Decode statement file bytes (CSV or OFX), honouring a byte order mark and falling back to Windows-1252
+ */
+export function decodeStatement(buffer: ArrayBuffer): { text: string; encoding: string } {
+  const bytes = new Uint8Array(buffer);
+  let encoding = 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = 'utf-16le';
+  else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = 'utf-16be';
+
+  if (encoding === 'utf-8') {
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding };
+    } catch (error) {
+      // Not valid UTF-8; older bank exports are usually Windows-1252
+      encoding = 'windows-1252';
+    }
+  }
+  return { text: new TextDecoder(encoding).decode(bytes), encoding };
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+/**
+ * Delimiter that splits the first lines into the same, largest number of fields
+ */
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const counts = lines.map(line => countOutsideQuotes(line, value));
+    const consistent = counts.every(count => count === counts[0]);
+    const score = consistent ? counts[0] : Math.min(...counts);
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting); blank lines are skipped
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim())) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Day key of a date written in the given format, or null when it does not fit
+ */
+export function parseCsvDate(value: string, format: CsvDateFormat): string | null {
+  const separator = format.replace(/[YMD]/g, '')[0];
+  const parts = value.trim().split(/[\sT]/)[0].split(separator);
+  const order = format.split(separator);
+  if (parts.length !== 3 || parts.some(part => !/^\d{1,4}$/.test(part))) return null;
+
+  const field = (name: string) => Number(parts[order.findIndex(p => p.startsWith(name))]);
+  let year = field('Y');
+  const month = field('M');
+  const day = field('D');
+  const yearPart = parts[order.findIndex(p => p.startsWith('Y'))];
+  if (yearPart.length === 2) year += 2000;
+  else if (yearPart.length !== 4) return null;
+
+  const date = new Date(year, month - 1, day);
+  if (month < 1 || month > 12 || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateKey(date);
+}
+
+/**
+ * Formats that read every sample date; more than one means the dates are ambiguous
+ */
+export function detectDateFormats(values: string[]): CsvDateFormat[] {
+  const samples = values.filter(value => value.trim()).slice(0, 50);
+  if (samples.length === 0) return [];
+  return CSV_DATE_FORMATS.filter(format => samples.every(value => parseCsvDate(value, format) !== null));
+}
+
+/**
+ * Parse "1,234.56", "1.234,56", "(12.00)", "12.00-" or "$ -5" into a number
+ */
+export function parseCsvAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+  text = text.replace(/[^\d.,-]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+  if (!/^[\d.,]+$/.test(text)) return null;
+
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  let decimal: string | null = null;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimal = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const once = text.indexOf(separator) === text.lastIndexOf(separator);
+    // "1,234" groups thousands, "12,5" and "12.50" have decimals
+    const digitsAfter = text.length - text.lastIndexOf(separator) - 1;
+    decimal = once && digitsAfter !== 3 ? separator : null;
+  }
+
+  const normalized = text
+    .split('')
+    .filter(char => /\d/.test(char) || char === decimal)
+    .join('')
+    .replace(',', '.');
+  const amount = Number(normalized);
+  if (!normalized || isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+/**
+ * Column labels shown in the mapping form
+ */
+export function csvHeaders(rows: string[][], hasHeader: boolean): string[] {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return Array.from({ length: width }, (_, i) => {
+    const label = hasHeader ? (rows[0]?.[i] || '').trim() : '';
+    return label || `Column ${i + 1}`;
+  });
+}
+
+function findColumn(headers: string[], pattern: RegExp, taken: number[]): number | null {
+  const index = headers.findIndex((header, i) => !taken.includes(i) && pattern.test(header));
+  return index >= 0 ? index : null;
+}
+
+/**
+ * First guess at the settings for a file, from its header names and date values
+ */
+export function guessImportSettings(rows: string[][], delimiter: string): CsvImportSettings {
+  const first = rows[0] || [];
+  const hasHeader = first.length > 0 && first.every(value => parseCsvAmount(value) === null);
+  const headers = csvHeaders(rows, hasHeader);
+
+  const taken: number[] = [];
+  const claim = (key: keyof CsvColumnMapping): number | null => {
+    const index = findColumn(headers, HEADER_PATTERNS[key], taken);
+    if (index !== null) taken.push(index);
+    return index;
+  };
+  const unclaimed = (): number | null => {
+    const index = headers.findIndex((_, i) => !taken.includes(i));
+    if (index === -1) return null;
+    taken.push(index);
+    return index;
+  };
+  const date = claim('date') ?? unclaimed() ?? 0;
+  const debit = claim('debit');
+  const credit = claim('credit');
+  const amount = claim('amount') ?? (debit === null && credit === null ? unclaimed() : null);
+  const description = claim('description') ?? unclaimed() ?? 0;
+
+  const dateValues = rows.slice(hasHeader ? 1 : 0).map(row => row[date] || '');
+  const [dateFormat] = detectDateFormats(dateValues);
+
+  return {
+    delimiter,
+    hasHeader,
+    dateFormat: dateFormat || 'YYYY-MM-DD',
+    columns: { date, amount, debit, credit, description },
+    invertAmounts: false,
+  };
+}
+
+/**
+ * Template saved for files with the same header row
+ */
+export function findTemplate(templates: CsvImportTemplate[], headers: string[]): CsvImportTemplate | null {
+  const key = headers.map(h => h.trim().toLowerCase()).join('|');
+  return templates.find(t => t.headers.map(h => h.trim().toLowerCase()).join('|') === key) || null;
+}
+
+function rowAmount(row: string[], settings: CsvImportSettings): number | null {
+  const { amount, debit, credit } = settings.columns;
+  if (debit !== null || credit !== null) {
+    const out = debit !== null ? parseCsvAmount(row[debit] || '') : null;
+    const incoming = credit !== null ? parseCsvAmount(row[credit] || '') : null;
+    if (out === null && incoming === null) return null;
+    return Math.abs(incoming || 0) - Math.abs(out || 0);
+  }
+  if (amount === null) return null;
+  const value = parseCsvAmount(row[amount] || '');
+  return value !== null && settings.invertAmounts ? -value : value;
+}
+
+/**
+ * Read every data row with the given settings; rows that cannot be read carry an error
+ */
+export function mapCsvRows(rows: string[][], settings: CsvImportSettings): CsvImportRow[] {
+  const offset = settings.hasHeader ? 1 : 0;
+  return rows.slice(offset).map((row, i) => {
+    const rawDate = row[settings.columns.date] || '';
+    const date = parseCsvDate(rawDate, settings.dateFormat);
+    const amount = rowAmount(row, settings);
+    const description = (row[settings.columns.description] || '').trim();
+
+    let error: string | null = null;
+    if (!date) error = `Date "${rawDate}" does not match ${settings.dateFormat}`;
+    else if (amount === null) error = 'No amount';
+    else if (amount === 0) error = 'Amount is zero';
+
+    return { line: i + offset + 1, date, amount, description, error };
+  });
+}
+
+/**
+ * Transaction for a readable row, dated at local noon so the day survives time zones
+ */
+export function importedTransaction(
+  row: CsvImportRow,
+  fields: { id: string; category: string; currency: string; accountId?: string }
+): Transaction {
+  const [year, month, day] = (row.date || '').split('-').map(Number);
+  return {
+    id: fields.id,
+    amount: Math.abs(row.amount || 0),
+    currency: fields.currency,
+    type: (row.amount || 0) < 0 ? 'expense' : 'income',
+    category: fields.category,
+    note: row.description || undefined,
+    timestamp: new Date(year, month - 1, day, 12).toISOString(),
+    accountId: fields.accountId,
+  };
+}
+
+function duplicateKey(transaction: Transaction): string {
+  return [
+    toDateKey(new Date(transaction.timestamp)),
+    transaction.type,
+    Math.abs(transaction.amount).toFixed(2),
+  ].join('|');
+}
+
+/**
+ * Whether each candidate matches an existing transaction on day, type and amount.
+ * Every existing transaction is matched at most once, so two identical
+ * purchases on one day are only flagged if both are already recorded.
+ */
+export function flagDuplicates(candidates: Transaction[], existing: Transaction[]): boolean[] {
+  const available = new Map<string, number>();
+  existing.forEach(t => {
+    const key = duplicateKey(t);
+    available.set(key, (available.get(key) || 0) + 1);
+  });
+
+  return candidates.map(t => {
+    const key = duplicateKey(t);
+    const count = available.get(key) || 0;
+    if (count === 0) return false;
+    available.set(key, count - 1);
+    return true;
+  });
+}
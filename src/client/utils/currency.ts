@@ -0,0 +1,199 @@
+/**
+ * Currency utilities for SafePay AI
+ * Local FX rate table and conversion to the user's base currency
+ */
+
+import { Transaction, FxRate, CurrencyContext } from '../types';
+
+/**
+ * Currency recorded for transactions created before multi-currency support
+ */
+export const LEGACY_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'ETB'] as const;
+
+/**
+ * Normalize a currency code (e.g. " eur " -> "EUR")
+ */
+export function normalizeCurrency(code: string | undefined | null): string {
+  return (code || '').trim().toUpperCase();
+}
+
+export function isValidCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(normalizeCurrency(code));
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) a transaction's rate is looked up for
+ */
+export function rateDate(timestamp: string | Date): string {
+  const d = typeof timestamp === 'string' ? new Date(timestamp) : timestamp;
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Pick the rate effective on `date`: the latest rate on or before the date,
+ * or the earliest known rate when the date predates the table.
+ */
+function pickRate(candidates: FxRate[], date: string): FxRate | null {
+  if (candidates.length === 0) return null;
+  const sorted = [...candidates].sort((a, b) => a.date.localeCompare(b.date));
+  let chosen: FxRate | null = null;
+  for (const rate of sorted) {
+    if (rate.date <= date) chosen = rate;
+  }
+  return chosen || sorted[0];
+}
+
+function directRate(rates: FxRate[], from: string, to: string, date: string): number | null {
+  const direct = pickRate(rates.filter(r => r.from === from && r.to === to), date);
+  if (direct) return direct.rate;
+
+  const inverse = pickRate(rates.filter(r => r.from === to && r.to === from), date);
+  if (inverse && inverse.rate !== 0) return 1 / inverse.rate;
+
+  return null;
+}
+
+/**
+ * Find the rate that converts one unit of `from` into `to` on a given date.
+ * Tries a direct pair, its inverse, then a single intermediate currency.
+ */
+export function findRate(rates: FxRate[], from: string, to: string, date: string): number | null {
+  const src = normalizeCurrency(from);
+  const dst = normalizeCurrency(to);
+  if (src === dst) return 1;
+
+  const direct = directRate(rates, src, dst, date);
+  if (direct !== null) return direct;
+
+  const intermediates = new Set<string>();
+  rates.forEach(r => {
+    intermediates.add(r.from);
+    intermediates.add(r.to);
+  });
+  intermediates.delete(src);
+  intermediates.delete(dst);
+
+  for (const via of intermediates) {
+    const first = directRate(rates, src, via, date);
+    if (first === null) continue;
+    const second = directRate(rates, via, dst, date);
+    if (second !== null) return first * second;
+  }
+
+  return null;
+}
+
+/**
+ * Convert an amount between currencies using the rate for `date`.
+ * Returns null when no rate is known.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date: string,
+  rates: FxRate[]
+): number | null {
+  const rate = findRate(rates, from, to, date);
+  return rate === null ? null : amount * rate;
+}
+
+export function transactionCurrency(transaction: Pick<Transaction, 'currency'>): string {
+  return normalizeCurrency(transaction.currency) || LEGACY_CURRENCY;
+}
+
+/**
+ * Absolute transaction amount expressed in the base currency.
+ * Without a currency context, or when no rate is known, the raw amount is used.
+ */
+export function baseAmount(transaction: Transaction, currency?: CurrencyContext): number {
+  const amount = Math.abs(transaction.amount);
+  if (!currency) return amount;
+
+  const converted = convertAmount(
+    amount,
+    transactionCurrency(transaction),
+    currency.baseCurrency,
+    rateDate(transaction.timestamp),
+    currency.rates
+  );
+  return converted === null ? amount : converted;
+}
+
+/**
+ * Currencies used by transactions that cannot be converted to the base currency
+ */
+export function findMissingRates(transactions: Transaction[], currency: CurrencyContext): string[] {
+  const missing = new Set<string>();
+  transactions.forEach(t => {
+    const code = transactionCurrency(t);
+    if (findRate(currency.rates, code, currency.baseCurrency, rateDate(t.timestamp)) === null) {
+      missing.add(code);
+    }
+  });
+  return Array.from(missing).sort();
+}
+
+/**
+ * Insert or replace the rate for the same pair and date
+ */
+export function upsertRate(rates: FxRate[], rate: FxRate): FxRate[] {
+  const normalized: FxRate = {
+    from: normalizeCurrency(rate.from),
+    to: normalizeCurrency(rate.to),
+    rate: rate.rate,
+    date: rate.date,
+  };
+  const rest = rates.filter(
+    r => !(r.from === normalized.from && r.to === normalized.to && r.date === normalized.date)
+  );
+  return [...rest, normalized].sort(
+    (a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to) || a.date.localeCompare(b.date)
+  );
+}
+
+export function removeRate(rates: FxRate[], rate: FxRate): FxRate[] {
+  return rates.filter(
+    r => !(r.from === rate.from && r.to === rate.to && r.date === rate.date)
+  );
+}
+
+/**
+ * Parse FX rates from CSV.
+ * Expected columns: date,from,to,rate (header row optional, "," or ";" separated).
+ */
+export function parseFxRatesCsv(text: string): { rates: FxRate[]; errors: string[] } {
+  const rates: FxRate[] = [];
+  const errors: string[] = [];
+
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  lines.forEach((line, index) => {
+    const cells = line.split(/[;,]/).map(c => c.trim().replace(/^"|"$/g, ''));
+    if (index === 0 && cells[0].toLowerCase() === 'date') {
+      return; // header
+    }
+
+    const lineNo = index + 1;
+    if (cells.length < 4) {
+      errors.push(`Line ${lineNo}: expected date,from,to,rate`);
+      return;
+    }
+
+    const [date, from, to, rawRate] = cells;
+    const rate = parseFloat(rawRate);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      errors.push(`Line ${lineNo}: invalid date "${date}" (use YYYY-MM-DD)`);
+    } else if (!isValidCurrencyCode(from) || !isValidCurrencyCode(to)) {
+      errors.push(`Line ${lineNo}: invalid currency code`);
+    } else if (!isFinite(rate) || rate <= 0) {
+      errors.push(`Line ${lineNo}: rate must be a positive number`);
+    } else {
+      rates.push({ date, from: normalizeCurrency(from), to: normalizeCurrency(to), rate });
+    }
+  });
+
+  return { rates, errors };
+}
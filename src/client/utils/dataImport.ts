@@ -0,0 +1,555 @@
+/**
+ * Data import validation for SafePay AI
+ * Checks every incoming record field by field and plans how it meets the data already here
+ */
+
+import {
+  Account,
+  AccountKind,
+  Attachment,
+  BackupContents,
+  Category,
+  Classifier,
+  FieldChange,
+  HistoryColumn,
+  ImportMode,
+  SavedView,
+  Transaction,
+  TransactionProof,
+  TransactionRevision,
+  TransactionSplit,
+  TransactionType,
+} from '../types';
+import { sanitizeText } from './sanitize';
+import { isValidCurrencyCode, normalizeCurrency } from './currency';
+import { validateSplits } from './splits';
+import { normalizeTag } from './tags';
+import { hashTransaction } from './crypto';
+import { RestoreCount, countRecordChanges, isObject } from './backup';
+
+export interface ImportFieldError {
+  /** Where the record sits in the file, e.g. "transactions[3]" */
+  record: string;
+  /** Offending field, e.g. "splits[1].amount"; empty when the whole record is wrong */
+  field: string;
+  message: string;
+}
+
+/** Incoming data that passed validation; stores missing from the file are undefined */
+export type ValidatedImport = Partial<Omit<BackupContents, 'transactions'>> & { transactions: Transaction[] };
+
+export interface ImportReport {
+  mode: ImportMode;
+  added: Transaction[];
+  updated: Array<{ before: Transaction; after: Transaction }>;
+  skipped: Array<{ transaction: Transaction; reason: string }>;
+  /** Transactions a replace moves to the Trash */
+  removed: Transaction[];
+  errors: ImportFieldError[];
+  accounts: RestoreCount;
+  categories: RestoreCount;
+  savedViews: RestoreCount;
+  budgets: RestoreCount;
+  classifier: boolean;
+}
+
+export interface ImportPlan {
+  report: ImportReport;
+  next: BackupContents;
+}
+
+export const IMPORT_MODES: Array<{ value: ImportMode; label: string }> = [
+  { value: 'merge-by-id', label: 'Merge by id' },
+  { value: 'merge-by-hash', label: 'Merge by content' },
+  { value: 'replace', label: 'Replace everything' },
+];
+
+const TRANSACTION_TYPES: TransactionType[] = ['income', 'expense', 'transfer'];
+const ACCOUNT_KINDS: AccountKind[] = ['checking', 'credit-card', 'cash', 'crypto-wallet'];
+const HISTORY_COLUMNS: HistoryColumn[] = ['date', 'type', 'category', 'note', 'amount', 'balance', 'proof'];
+
+const ID_LIMIT = 200;
+const NAME_LIMIT = 100;
+const TEXT_LIMIT = 500;
+
+type Source = Record<string, unknown>;
+
+/**
+ * Reads the fields of one record, collecting an error for each field that is wrong
+ */
+class RecordReader {
+  constructor(
+    private source: Source,
+    private record: string,
+    private errors: ImportFieldError[],
+    private prefix = ''
+  ) {}
+
+  fail(field: string, message: string): undefined {
+    this.errors.push({ record: this.record, field: this.prefix + field, message });
+    return undefined;
+  }
+
+  nested(field: string, source: Source): RecordReader {
+    return new RecordReader(source, this.record, this.errors, `${this.prefix}${field}.`);
+  }
+
+  raw(field: string): unknown {
+    return this.source[field];
+  }
+
+  string(field: string, options: { required?: boolean; max?: number } = {}): string | undefined {
+    const value = this.source[field];
+    const max = options.max ?? TEXT_LIMIT;
+    if (value === undefined || value === null || value === '') {
+      return options.required ? this.fail(field, 'Required') : undefined;
+    }
+    if (typeof value !== 'string') return this.fail(field, `Expected text, got ${typeof value}`);
+    if (value.length > max) return this.fail(field, `Longer than ${max} characters`);
+    const clean = sanitizeText(value, max);
+    if (!clean && options.required) return this.fail(field, 'Required');
+    return clean || undefined;
+  }
+
+  number(field: string, options: { required?: boolean; positive?: boolean; integer?: boolean } = {}): number | undefined {
+    const value = this.source[field];
+    if (value === undefined || value === null) {
+      return options.required ? this.fail(field, 'Required') : undefined;
+    }
+    if (typeof value !== 'number' || !isFinite(value)) return this.fail(field, 'Expected a number');
+    if (options.positive && value <= 0) return this.fail(field, 'Must be greater than 0');
+    if (options.integer && !Number.isInteger(value)) return this.fail(field, 'Expected a whole number');
+    return value;
+  }
+
+  boolean(field: string): boolean | undefined {
+    const value = this.source[field];
+    if (value === undefined || value === null) return undefined;
+    return typeof value === 'boolean' ? value : this.fail(field, 'Expected true or false');
+  }
+
+  date(field: string, required = false): string | undefined {
+    const value = this.string(field, { required });
+    if (value === undefined) return undefined;
+    const time = Date.parse(value);
+    return isNaN(time) ? this.fail(field, `Not a date: "${value}"`) : new Date(time).toISOString();
+  }
+
+  oneOf<T extends string>(field: string, values: readonly T[], required = false): T | undefined {
+    const value = this.string(field, { required, max: NAME_LIMIT });
+    if (value === undefined) return undefined;
+    return values.includes(value as T) ? value as T : this.fail(field, `Expected one of ${values.join(', ')}`);
+  }
+
+  id(field: string): string | number | undefined {
+    const value = this.source[field];
+    if (typeof value === 'number') {
+      return Number.isSafeInteger(value) ? value : this.fail(field, 'Expected a whole number or text');
+    }
+    return this.string(field, { required: true, max: ID_LIMIT });
+  }
+
+  list<T>(field: string, read: (reader: RecordReader, index: number) => T | undefined): T[] | undefined {
+    const value = this.source[field];
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) return this.fail(field, 'Expected a list');
+    const items: T[] = [];
+    value.forEach((item, index) => {
+      if (!isObject(item)) {
+        this.fail(`${field}[${index}]`, 'Expected an object');
+        return;
+      }
+      const result = read(this.nested(`${field}[${index}]`, item), index);
+      if (result !== undefined) items.push(result);
+    });
+    return items;
+  }
+}
+
+/** Drop fields that were left out so records compare equal to stored ones */
+function compact<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as T;
+}
+
+function readSplit(reader: RecordReader): TransactionSplit {
+  return compact({
+    category: reader.string('category', { required: true, max: NAME_LIMIT }) || '',
+    amount: reader.number('amount', { required: true, positive: true }) || 0,
+    note: reader.string('note'),
+  });
+}
+
+function readAttachment(reader: RecordReader): Attachment {
+  return {
+    id: reader.string('id', { required: true, max: ID_LIMIT }) || '',
+    name: reader.string('name', { required: true }) || '',
+    mimeType: reader.string('mimeType', { required: true, max: NAME_LIMIT }) || '',
+    size: reader.number('size', { required: true, integer: true }) || 0,
+    hash: reader.string('hash', { required: true, max: NAME_LIMIT }) || '',
+    createdAt: reader.date('createdAt', true) || '',
+  };
+}
+
+function readChangedValue(value: unknown): unknown {
+  return typeof value === 'string' ? sanitizeText(value) : value;
+}
+
+function readRevision(reader: RecordReader): TransactionRevision {
+  return compact({
+    revision: reader.number('revision', { required: true, positive: true, integer: true }) || 0,
+    editedAt: reader.date('editedAt', true) || '',
+    editedBy: reader.string('editedBy', { max: NAME_LIMIT }),
+    changes: reader.list<FieldChange>('changes', change => compact({
+      field: change.string('field', { required: true, max: NAME_LIMIT }) || '',
+      from: readChangedValue(change.raw('from')),
+      to: readChangedValue(change.raw('to')),
+    })) || [],
+  });
+}
+
+function readProof(reader: RecordReader): TransactionProof | undefined {
+  const value = reader.raw('proof');
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) return reader.fail('proof', 'Expected an object');
+
+  const proof = reader.nested('proof', value);
+  return compact({
+    hash: proof.string('hash', { required: true, max: NAME_LIMIT }) || '',
+    txHash: proof.string('txHash', { max: NAME_LIMIT }),
+    chain: proof.string('chain', { max: NAME_LIMIT }),
+    timestamp: proof.date('timestamp'),
+    verified: proof.boolean('verified'),
+    coversAttachments: proof.boolean('coversAttachments'),
+    revision: proof.number('revision', { integer: true }),
+  });
+}
+
+function readTags(reader: RecordReader): string[] | undefined {
+  const value = reader.raw('tags');
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    return reader.fail('tags', 'Expected a list of text');
+  }
+  const tags = Array.from(new Set(value.map(tag => normalizeTag(sanitizeText(tag, NAME_LIMIT))).filter(Boolean)));
+  return tags.length > 0 ? tags : undefined;
+}
+
+function readCurrency(reader: RecordReader, field: string, required = false): string | undefined {
+  const value = reader.string(field, { required, max: NAME_LIMIT });
+  if (value === undefined) return undefined;
+  return isValidCurrencyCode(value) ? normalizeCurrency(value) : reader.fail(field, `Not a currency code: "${value}"`);
+}
+
+/**
+ * A transaction built only from known, checked fields, or null when any field is wrong
+ */
+export function validateTransaction(value: unknown, record: string, errors: ImportFieldError[]): Transaction | null {
+  if (!isObject(value)) {
+    errors.push({ record, field: '', message: 'Expected an object' });
+    return null;
+  }
+  const before = errors.length;
+  const reader = new RecordReader(value, record, errors);
+
+  const transaction: Transaction = compact({
+    id: reader.id('id') ?? '',
+    amount: reader.number('amount', { required: true, positive: true }) ?? 0,
+    currency: readCurrency(reader, 'currency'),
+    type: reader.oneOf('type', TRANSACTION_TYPES, true) || 'expense',
+    category: reader.string('category', { required: true, max: NAME_LIMIT }) || '',
+    note: reader.string('note'),
+    timestamp: reader.date('timestamp', true) || '',
+    proof: readProof(reader),
+    accountId: reader.string('accountId', { max: ID_LIMIT }),
+    toAccountId: reader.string('toAccountId', { max: ID_LIMIT }),
+    toAmount: reader.number('toAmount', { positive: true }),
+    splits: reader.list('splits', readSplit),
+    recurringId: reader.string('recurringId', { max: ID_LIMIT }),
+    tags: readTags(reader),
+    attachments: reader.list('attachments', readAttachment),
+    revisions: reader.list('revisions', readRevision),
+    externalId: reader.string('externalId', { max: ID_LIMIT }),
+  });
+
+  if (transaction.type === 'transfer' && !transaction.toAccountId) {
+    reader.fail('toAccountId', 'A transfer needs a destination account');
+  }
+  if (transaction.splits?.length === 0) {
+    delete transaction.splits;
+  }
+  if (transaction.splits && errors.length === before) {
+    const problem = validateSplits(transaction.amount, transaction.splits);
+    if (problem) reader.fail('splits', problem);
+  }
+  return errors.length === before ? transaction : null;
+}
+
+function validateAccount(reader: RecordReader): Account {
+  return compact({
+    id: reader.string('id', { required: true, max: ID_LIMIT }) || '',
+    name: reader.string('name', { required: true, max: NAME_LIMIT }) || '',
+    kind: reader.oneOf('kind', ACCOUNT_KINDS, true) || 'checking',
+    currency: readCurrency(reader, 'currency', true) || '',
+    openingBalance: reader.number('openingBalance', { required: true }) ?? 0,
+    archived: reader.boolean('archived'),
+    bankAccountId: reader.string('bankAccountId', { max: ID_LIMIT }),
+    createdAt: reader.date('createdAt', true) || '',
+  });
+}
+
+function validateCategory(reader: RecordReader): Category {
+  return compact({
+    id: reader.string('id', { required: true, max: ID_LIMIT }) || '',
+    name: reader.string('name', { required: true, max: NAME_LIMIT }) || '',
+    parentId: reader.string('parentId', { max: ID_LIMIT }),
+    color: reader.string('color', { required: true, max: NAME_LIMIT }) || '',
+    icon: reader.string('icon', { required: true, max: NAME_LIMIT }) || '',
+    archived: reader.boolean('archived'),
+  });
+}
+
+function validateSavedView(reader: RecordReader): SavedView {
+  const columns = reader.raw('columns');
+  const validColumns = Array.isArray(columns) && columns.every(c => HISTORY_COLUMNS.includes(c));
+  if (!validColumns) reader.fail('columns', `Expected a list of ${HISTORY_COLUMNS.join(', ')}`);
+  return {
+    id: reader.string('id', { required: true, max: ID_LIMIT }) || '',
+    name: reader.string('name', { required: true, max: NAME_LIMIT }) || '',
+    query: reader.string('query') || '',
+    columns: validColumns ? columns as HistoryColumn[] : [],
+    pinned: reader.boolean('pinned') || false,
+    createdAt: reader.date('createdAt', true) || '',
+  };
+}
+
+/**
+ * Records of one list that passed validation; a record with any wrong field is left out
+ */
+function validateList<T>(
+  input: Source,
+  field: string,
+  read: (reader: RecordReader) => T,
+  errors: ImportFieldError[]
+): T[] | undefined {
+  const value = input[field];
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push({ record: field, field: '', message: 'Expected a list' });
+    return undefined;
+  }
+  return value.reduce<T[]>((records, item, index) => {
+    const record = `${field}[${index}]`;
+    if (!isObject(item)) {
+      errors.push({ record, field: '', message: 'Expected an object' });
+      return records;
+    }
+    const before = errors.length;
+    const result = read(new RecordReader(item, record, errors));
+    return errors.length === before ? records.concat(result) : records;
+  }, []);
+}
+
+function validateBudgets(value: unknown, errors: ImportFieldError[]): Record<string, number> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) {
+    errors.push({ record: 'budgets', field: '', message: 'Expected an object of category amounts' });
+    return undefined;
+  }
+  const budgets: Record<string, number> = {};
+  Object.entries(value).forEach(([category, amount]) => {
+    const name = sanitizeText(category, NAME_LIMIT);
+    if (!name || typeof amount !== 'number' || !isFinite(amount) || amount < 0) {
+      errors.push({ record: 'budgets', field: category, message: 'Expected a category and an amount of 0 or more' });
+    } else {
+      budgets[name] = amount;
+    }
+  });
+  return budgets;
+}
+
+function validateClassifier(value: unknown, errors: ImportFieldError[]): Classifier | undefined {
+  if (value === undefined || value === null) return undefined;
+  const keywords = isObject(value) ? value.keywords : undefined;
+  const valid = isObject(keywords) && Object.values(keywords).every(counts =>
+    isObject(counts) && Object.values(counts).every(count => typeof count === 'number' && isFinite(count))
+  );
+  if (!valid) {
+    errors.push({ record: 'classifier', field: 'keywords', message: 'Expected keyword counts by category' });
+    return undefined;
+  }
+  const clean: Classifier = { keywords: {} };
+  Object.entries(keywords as Record<string, Record<string, number>>).forEach(([category, counts]) => {
+    const name = sanitizeText(category, NAME_LIMIT);
+    if (!name) return;
+    clean.keywords[name] = {};
+    Object.entries(counts).forEach(([word, count]) => {
+      const cleanWord = sanitizeText(word, NAME_LIMIT);
+      if (cleanWord) clean.keywords[name][cleanWord] = count;
+    });
+  });
+  return clean;
+}
+
+/**
+ * Validate a parsed import file; throws when it is not import data at all
+ */
+export function validateImportData(input: unknown): { data: ValidatedImport; errors: ImportFieldError[] } {
+  if (!isObject(input) || !Array.isArray(input.transactions)) {
+    throw new Error('The file has no list of transactions');
+  }
+
+  const errors: ImportFieldError[] = [];
+  const seen = new Set<string>();
+  const transactions = input.transactions.reduce<Transaction[]>((valid, value, index) => {
+    const record = `transactions[${index}]`;
+    const transaction = validateTransaction(value, record, errors);
+    if (!transaction) return valid;
+    if (seen.has(String(transaction.id))) {
+      errors.push({ record, field: 'id', message: `Duplicate id "${transaction.id}"` });
+      return valid;
+    }
+    seen.add(String(transaction.id));
+    return valid.concat(transaction);
+  }, []);
+
+  return {
+    data: {
+      transactions,
+      classifier: validateClassifier(input.classifier, errors),
+      budgets: validateBudgets(input.budgets, errors),
+      accounts: validateList(input, 'accounts', validateAccount, errors),
+      categories: validateList(input, 'categories', validateCategory, errors),
+      savedViews: validateList(input, 'savedViews', validateSavedView, errors),
+    },
+    errors,
+  };
+}
+
+/**
+ * JSON with object keys sorted, so records written in another key order compare equal
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_, item: unknown) =>
+    isObject(item)
+      ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+      : item
+  );
+}
+
+function sameRecord(a: unknown, b: unknown): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+function mergeRecords<T>(current: T[], incoming: T[] | undefined, idOf: (item: T) => string): T[] {
+  if (!incoming) return current;
+  const byId = new Map(incoming.map(item => [idOf(item), item] as const));
+  const merged = current.map(item => byId.get(idOf(item)) || item);
+  const known = new Set(current.map(idOf));
+  return merged.concat(incoming.filter(item => !known.has(idOf(item))));
+}
+
+async function planTransactions(
+  current: Transaction[],
+  incoming: Transaction[],
+  mode: ImportMode
+): Promise<Pick<ImportReport, 'added' | 'updated' | 'skipped' | 'removed'> & { next: Transaction[] }> {
+  const existing = new Map(current.map(t => [String(t.id), t] as const));
+  const added: Transaction[] = [];
+  const updated: ImportReport['updated'] = [];
+  const skipped: ImportReport['skipped'] = [];
+
+  if (mode === 'merge-by-hash') {
+    const hashes = new Map<string, string>();
+    for (const t of current) hashes.set(await hashTransaction(t), 'Same transaction is already here');
+    const stamp = Date.now().toString(36);
+    for (const [index, t] of incoming.entries()) {
+      const hash = await hashTransaction(t);
+      const reason = hashes.get(hash);
+      if (reason) {
+        skipped.push({ transaction: t, reason });
+        continue;
+      }
+      hashes.set(hash, 'Same transaction appears earlier in the file');
+      // A different transaction under a known id keeps its content and gets a new id
+      const taken = existing.has(String(t.id)) || added.some(a => String(a.id) === String(t.id));
+      added.push(taken ? { ...t, id: `import_${stamp}_${index}` } : t);
+    }
+    return { added, updated, skipped, removed: [], next: [...current, ...added] };
+  }
+
+  incoming.forEach(t => {
+    const before = existing.get(String(t.id));
+    if (!before) added.push(t);
+    else if (sameRecord(before, t)) skipped.push({ transaction: t, reason: 'Unchanged' });
+    else updated.push({ before, after: t });
+  });
+
+  if (mode === 'replace') {
+    const kept = new Set(incoming.map(t => String(t.id)));
+    // Unchanged records stay as stored, so the write does not touch them
+    const unchanged = new Set(skipped.map(({ transaction }) => String(transaction.id)));
+    return {
+      added,
+      updated,
+      skipped,
+      removed: current.filter(t => !kept.has(String(t.id))),
+      next: incoming.map(t => (unchanged.has(String(t.id)) ? existing.get(String(t.id))! : t)),
+    };
+  }
+
+  const replacements = new Map(updated.map(({ after }) => [String(after.id), after] as const));
+  return {
+    added,
+    updated,
+    skipped,
+    removed: [],
+    next: [...current.map(t => replacements.get(String(t.id)) || t), ...added],
+  };
+}
+
+/**
+ * What an import would do, as a dry-run report, and the data it would leave behind.
+ * Records that fail validation are reported and left out. Accounts, categories,
+ * saved views and budgets are matched by id or name in both merge modes.
+ */
+export async function planImport(input: unknown, current: BackupContents, mode: ImportMode): Promise<ImportPlan> {
+  const { data, errors } = validateImportData(input);
+  const transactions = await planTransactions(current.transactions, data.transactions, mode);
+
+  const next: BackupContents = mode === 'replace'
+    ? {
+      transactions: transactions.next,
+      classifier: data.classifier || current.classifier,
+      budgets: data.budgets || current.budgets,
+      accounts: data.accounts || current.accounts,
+      categories: data.categories || current.categories,
+      savedViews: data.savedViews || current.savedViews,
+    }
+    : {
+      transactions: transactions.next,
+      classifier: current.classifier || data.classifier || null,
+      budgets: { ...current.budgets, ...data.budgets },
+      accounts: mergeRecords(current.accounts, data.accounts, a => a.id),
+      categories: data.categories
+        ? mergeRecords(current.categories || [], data.categories, c => c.id)
+        : current.categories,
+      savedViews: mergeRecords(current.savedViews, data.savedViews, v => v.id),
+    };
+
+  return {
+    report: {
+      mode,
+      added: transactions.added,
+      updated: transactions.updated,
+      skipped: transactions.skipped,
+      removed: transactions.removed,
+      errors,
+      accounts: countRecordChanges(current.accounts, next.accounts, a => a.id),
+      categories: countRecordChanges(current.categories || [], next.categories || [], c => c.id),
+      savedViews: countRecordChanges(current.savedViews, next.savedViews, v => v.id),
+      budgets: countRecordChanges(Object.entries(current.budgets), Object.entries(next.budgets), ([category]) => category),
+      classifier: !sameRecord(current.classifier, next.classifier),
+    },
+    next,
+  };
+}
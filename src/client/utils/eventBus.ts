@@ -0,0 +1,71 @@
+/**
+ * Application event bus for SafePay AI
+ * Typed, in-process events so a change made on one page reaches every view
+ */
+
+import { Transaction } from '../types';
+import { logger } from './logger';
+
+export interface AppEvents {
+  /** Wallet session started (address) or ended (null) */
+  'session:changed': { address: string | null };
+  'transactions:added': { transactions: Transaction[] };
+  'transactions:updated': { transactions: Transaction[] };
+  'transactions:deleted': { ids: Array<string | number> };
+  /** The whole collection was reloaded or replaced */
+  'transactions:reset': { transactions: Transaction[] };
+  'vault:unlocked': { address: string | null };
+  'vault:locked': Record<string, never>;
+  /** Encryption was turned on or off */
+  'encryption:changed': { enabled: boolean; address: string | null };
+  'budget:changed': { budgets: Record<string, number> };
+  'sync:completed': { deviceId: string; transactions: number };
+}
+
+export type AppEventName = keyof AppEvents;
+export type AppEventHandler<K extends AppEventName> = (payload: AppEvents[K]) => void;
+
+/** Events that change which transactions a view should show */
+export const TRANSACTION_EVENTS: AppEventName[] = [
+  'transactions:added',
+  'transactions:updated',
+  'transactions:deleted',
+  'transactions:reset',
+];
+
+const handlers: { [K in AppEventName]?: Set<AppEventHandler<K>> } = {};
+
+/**
+ * Subscribe to an event; returns the unsubscribe function
+ */
+export function onAppEvent<K extends AppEventName>(name: K, handler: AppEventHandler<K>): () => void {
+  const set = (handlers[name] || new Set()) as Set<AppEventHandler<K>>;
+  set.add(handler);
+  (handlers as Record<string, unknown>)[name] = set;
+  return () => {
+    set.delete(handler);
+  };
+}
+
+/**
+ * Subscribe one handler to several events, e.g. from a useEffect
+ */
+export function onAppEvents(names: AppEventName[], handler: () => void): () => void {
+  const unsubscribers = names.map(name => onAppEvent(name, handler));
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
+
+/**
+ * Deliver an event to every subscriber; a failing handler does not stop the others
+ */
+export function emitAppEvent<K extends AppEventName>(name: K, payload: AppEvents[K]): void {
+  const set = handlers[name] as Set<AppEventHandler<K>> | undefined;
+  if (!set) return;
+  Array.from(set).forEach(handler => {
+    try {
+      handler(payload);
+    } catch (error) {
+      logger.error(`EventBus: handler for ${name} failed`, error);
+    }
+  });
+}
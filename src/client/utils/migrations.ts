@@ -0,0 +1,226 @@
+/**
+ * Schema migrations for SafePay AI
+ * Ordered, versioned data migrations with rollback on failure
+ */
+
+import { Transaction, Classifier } from '../types';
+import {
+  TransactionStorage,
+  ClassifierStorage,
+  BudgetStorage,
+  SchemaVersionStorage,
+  VaultStorage,
+  captureStorageSnapshot,
+  restoreStorageSnapshot,
+} from './storage';
+import { LEGACY_CURRENCY } from './currency';
+import { recordRevision } from './revisions';
+import { logger } from './logger';
+
+/**
+ * Everything a migration step can read and rewrite
+ */
+export interface SchemaData {
+  transactions: Transaction[];
+  classifier: Classifier | null;
+  budgets: Record<string, number>;
+}
+
+export interface Migration {
+  /** Schema version produced by this step */
+  version: number;
+  description: string;
+  migrate: (data: SchemaData) => SchemaData;
+}
+
+export type MigrationStatus = 'up-to-date' | 'migrated' | 'deferred' | 'failed';
+
+export interface MigrationResult {
+  status: MigrationStatus;
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  error?: string;
+}
+
+/**
+ * Version of data written before the schema version record existed
+ */
+export const BASELINE_SCHEMA_VERSION = 1;
+
+/** Tag that marks transactions whose stored date could not be read */
+export const INVALID_DATE_TAG = 'invalid-date';
+
+/** Legacy ids are creation times in milliseconds; anything else is dated now */
+function fallbackTimestamp(transaction: Transaction): string {
+  const created = Number(transaction.id);
+  return created > Date.UTC(2000, 0, 1) && !isNaN(new Date(created).getTime())
+    ? new Date(created).toISOString()
+    : new Date().toISOString();
+}
+
+/**
+ * v2 rewrite of one transaction. An amount that cannot be parsed is left as
+ * it was. A date that cannot be parsed is replaced, since charts and rate
+ * lookups cannot handle it, and the transaction is tagged so it can be found
+ * and fixed. Anchored and redated transactions get a revision for the
+ * rewrite, so proofs are still checked against the fields that were hashed
+ * and the stored date stays in the history.
+ */
+function normalizeAmountAndTimestamp(transaction: Transaction): Transaction {
+  const amount = Math.abs(Number(transaction.amount));
+  const date = new Date(transaction.timestamp);
+  const validDate = !isNaN(date.getTime());
+  if (isNaN(amount)) {
+    logger.warn(`Migrations: transaction ${transaction.id} has an invalid amount, left unchanged`);
+  }
+  if (!validDate) {
+    logger.warn(`Migrations: transaction ${transaction.id} has an invalid date, tagged #${INVALID_DATE_TAG}`);
+  }
+
+  const normalized: Transaction = {
+    ...transaction,
+    amount: isNaN(amount) ? transaction.amount : amount,
+    timestamp: validDate ? date.toISOString() : fallbackTimestamp(transaction),
+  };
+  if (!validDate) {
+    normalized.tags = Array.from(new Set([...(transaction.tags || []), INVALID_DATE_TAG]));
+  }
+  return transaction.proof || !validDate ? recordRevision(transaction, normalized) : normalized;
+}
+
+/**
+ * Registered migrations, in order. Append new steps; never edit shipped ones.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Normalize transaction amounts to positive values and timestamps to ISO strings',
+    migrate: (data) => ({
+      ...data,
+      transactions: data.transactions.map(normalizeAmountAndTimestamp),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Record the currency of transactions created before multi-currency support',
+    migrate: (data) => ({
+      ...data,
+      transactions: data.transactions.map(t => ({
+        ...t,
+        currency: t.currency || LEGACY_CURRENCY,
+      })),
+    }),
+  },
+];
+
+export function getLatestSchemaVersion(migrations: Migration[] = MIGRATIONS): number {
+  return migrations.reduce((max, m) => Math.max(max, m.version), BASELINE_SCHEMA_VERSION);
+}
+
+/**
+ * Apply pending steps to a data snapshot without touching storage
+ */
+export function applyMigrations(
+  data: SchemaData,
+  fromVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): { data: SchemaData; applied: number[] } {
+  const pending = migrations
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let current = data;
+  const applied: number[] = [];
+
+  for (const step of pending) {
+    const next = step.migrate(current);
+    if (!next || !Array.isArray(next.transactions)) {
+      throw new Error(`Migration ${step.version} returned invalid data`);
+    }
+    current = next;
+    applied.push(step.version);
+  }
+
+  return { data: current, applied };
+}
+
+/**
+ * Bring persisted data up to the latest schema version.
+ * Runs at startup, and again with a key once encrypted data is unlocked.
+ * A failing step restores the pre-migration snapshot and leaves the
+ * version record untouched.
+ */
+export async function runMigrations(
+  options: { key?: CryptoKey; migrations?: Migration[] } = {}
+): Promise<MigrationResult> {
+  const migrations = options.migrations || MIGRATIONS;
+  const latest = getLatestSchemaVersion(migrations);
+  let fromVersion = SchemaVersionStorage.loadVersion();
+
+  if (fromVersion === null) {
+    const hasData = await SchemaVersionStorage.hasExistingData();
+    if (!hasData) {
+      SchemaVersionStorage.saveVersion(latest);
+      return { status: 'up-to-date', fromVersion: latest, toVersion: latest, applied: [] };
+    }
+    fromVersion = BASELINE_SCHEMA_VERSION;
+  }
+
+  if (fromVersion >= latest) {
+    return { status: 'up-to-date', fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  const encrypted = TransactionStorage.isEncrypted();
+  if (encrypted && !options.key) {
+    logger.info(`Migrations: schema v${fromVersion} is encrypted, waiting for unlock`);
+    return { status: 'deferred', fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  const snapshot = await captureStorageSnapshot();
+  const previousKey = TransactionStorage.getEncryptionKey();
+
+  try {
+    const key = encrypted ? options.key : undefined;
+    // The classifier and budgets live in the vault while encryption is on
+    if (key && !VaultStorage.isUnlocked()) {
+      await VaultStorage.unlock(key);
+    }
+    const data: SchemaData = {
+      transactions: await TransactionStorage.loadTransactions(encrypted, key),
+      classifier: await ClassifierStorage.loadClassifier(),
+      budgets: BudgetStorage.loadBudgets(),
+    };
+
+    const result = applyMigrations(data, fromVersion, migrations);
+
+    if (key) {
+      TransactionStorage.setEncryptionKey(key);
+    }
+    await TransactionStorage.saveTransactions(result.data.transactions, encrypted);
+    if (result.data.classifier) {
+      await ClassifierStorage.saveClassifier(result.data.classifier);
+    }
+    BudgetStorage.saveBudgets(result.data.budgets);
+    await VaultStorage.flush();
+
+    SchemaVersionStorage.saveVersion(latest);
+    logger.info(`Migrations: upgraded schema v${fromVersion} -> v${latest}`);
+    return { status: 'migrated', fromVersion, toVersion: latest, applied: result.applied };
+  } catch (error: any) {
+    logger.error('Migrations: failed, rolling back:', error);
+    await restoreStorageSnapshot(snapshot);
+    if (previousKey) {
+      TransactionStorage.setEncryptionKey(previousKey);
+    } else {
+      TransactionStorage.clearEncryptionKey();
+    }
+    return {
+      status: 'failed',
+      fromVersion,
+      toVersion: fromVersion,
+      applied: [],
+      error: error?.message || String(error),
+    };
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * MT940 import utilities for SafePay AI
+ * Parses SWIFT MT940 customer statements, including the structured :86:
+ * details German banks use
+ */
+
+import { maskedAccountName } from './accounts';
+import { toDateKey } from './recurrence';
+import { BankStatement, StatementEntry } from './statementImport';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+interface Mt940Balance {
+  amount: number;
+  date: string;
+  currency: string;
+}
+
+const BALANCE_PATTERN = /^([CD])(\d{6})([A-Z]{3})(\d+(?:,\d*)?)/;
+const LINE_PATTERN = /^(\d{6})(\d{4})?(R?[CD])[A-Z]?(\d+(?:,\d*)?)[NSF][A-Z0-9]{3}(.*)$/;
+
+function parseMt940Amount(value: string): number {
+  return Number(value.replace(',', '.'));
+}
+
+function parseMt940Date(value: string): string | null {
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) return null;
+  const year = 2000 + Number(match[1]);
+  const [month, day] = [Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateKey(date);
+}
+
+function parseBalance(value: string): Mt940Balance | null {
+  const match = BALANCE_PATTERN.exec(value.trim());
+  const date = match ? parseMt940Date(match[2]) : null;
+  if (!match || !date) return null;
+  const amount = parseMt940Amount(match[4]);
+  return { amount: match[1] === 'D' ? -amount : amount, date, currency: match[3] };
+}
+
+/**
+ * Fields of each statement (one per :20:), without the SWIFT block wrappers
+ */
+function splitStatements(text: string): Mt940Field[][] {
+  const body = text
+    .replace(/\{[1235]:(?:[^{}]|\{[^{}]*\})*\}/g, '')
+    .replace(/\{4:/g, '');
+
+  const statements: Mt940Field[][] = [];
+  let fields: Mt940Field[] = [];
+  body.split(/\r?\n/).forEach(line => {
+    const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (match) {
+      if (match[1] === '20' && fields.length > 0) {
+        statements.push(fields);
+        fields = [];
+      }
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (/^-}?\s*$/.test(line)) {
+      // End of message
+    } else if (fields.length > 0 && line.trim()) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+  if (fields.length > 0) statements.push(fields);
+  return statements;
+}
+
+/**
+ * Counterparty and purpose from :86:, either structured ("?20SVWZ+...?32NAME") or free text
+ */
+function parseDetails(value: string): { name: string; memo: string } {
+  const joined = value.replace(/\r?\n/g, '');
+  if (/^\d{3}\?\d{2}/.test(joined) || /^\?\d{2}/.test(joined)) {
+    const subfields: Record<string, string> = {};
+    joined.split(/\?(?=\d{2})/).slice(1).forEach(part => {
+      subfields[part.slice(0, 2)] = (subfields[part.slice(0, 2)] || '') + part.slice(2);
+    });
+    const purposeCodes = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63'];
+    const purpose = purposeCodes.map(code => subfields[code] || '').join('');
+    const sepaPurpose = /SVWZ\+(.*)$/.exec(purpose);
+    return {
+      name: `${subfields['32'] || ''}${subfields['33'] || ''}`.trim(),
+      memo: (sepaPurpose ? sepaPurpose[1] : purpose || subfields['00'] || '').trim(),
+    };
+  }
+
+  if (joined.startsWith('/')) {
+    const name = /\/NAME\/([^/]*)/.exec(joined);
+    const remittance = /\/REMI\/(?:USTD\/\/)?([^/]*)/.exec(joined);
+    if (name || remittance) {
+      return { name: name ? name[1].trim() : '', memo: remittance ? remittance[1].trim() : '' };
+    }
+  }
+  return { name: '', memo: value.split(/\r?\n/).map(line => line.trim()).join(' ').trim() };
+}
+
+/**
+ * Booking day of a :61: line; the entry date has no year, so it follows the value date across New Year
+ */
+function bookingDate(valueDate: string, entryDate: string | undefined): string | null {
+  const value = parseMt940Date(valueDate);
+  if (!value || !entryDate) return value;
+  let year = Number(value.slice(0, 4));
+  const month = Number(entryDate.slice(0, 2));
+  const valueMonth = Number(value.slice(5, 7));
+  if (month - valueMonth > 6) year--;
+  if (valueMonth - month > 6) year++;
+  return parseMt940Date(`${String(year).slice(2)}${entryDate}`) || value;
+}
+
+function parseStatementLine(value: string, details: string): StatementEntry | null {
+  const [line] = value.split(/\r?\n/);
+  const match = LINE_PATTERN.exec(line.trim());
+  if (!match) return null;
+  const [, valueDate, entryDate, mark, rawAmount, references] = match;
+  const posted = bookingDate(valueDate, entryDate);
+  if (!posted) return null;
+
+  // RC reverses a credit and RD a debit
+  const amount = parseMt940Amount(rawAmount);
+  const outgoing = mark === 'D' || mark === 'RC';
+  const bankReference = references.split('//')[1];
+  const { name, memo } = parseDetails(details);
+  return {
+    id: bankReference ? bankReference.trim() : '',
+    posted,
+    amount: outgoing ? -amount : amount,
+    name,
+    memo,
+  };
+}
+
+/**
+ * Every statement in an MT940 file
+ */
+export function parseMt940(text: string): BankStatement[] {
+  const statements = splitStatements(text)
+    .filter(fields => fields.some(f => f.tag === '25'))
+    .map(fields => {
+      const accountKey = (fields.find(f => f.tag === '25')?.value || '').replace(/\s/g, '');
+      const opening = parseBalance(fields.find(f => f.tag === '60F' || f.tag === '60M')?.value || '');
+      const closing = parseBalance(
+        (fields.find(f => f.tag === '62F') || fields.find(f => f.tag === '62M'))?.value || ''
+      );
+
+      const entries: StatementEntry[] = [];
+      fields.forEach((field, i) => {
+        if (field.tag !== '61') return;
+        const next = fields[i + 1];
+        const entry = parseStatementLine(field.value, next && next.tag === '86' ? next.value : '');
+        if (entry) entries.push(entry);
+      });
+
+      return {
+        format: 'mt940' as const,
+        accountKey,
+        accountName: maskedAccountName('Account', accountKey),
+        accountKind: 'checking' as const,
+        currency: opening?.currency || closing?.currency || '',
+        startDate: opening?.date || null,
+        endDate: closing?.date || null,
+        entries,
+        ledgerBalance: closing ? { amount: closing.amount, asOf: closing.date } : null,
+      };
+    });
+
+  if (statements.length === 0) {
+    throw new Error('The MT940 file has no statement with an account (:25:)');
+  }
+  return statements;
+}
@@ -0,0 +1,162 @@
+/**
+ * OFX/QFX import utilities for SafePay AI
+ * Parses OFX 1.x (SGML) and 2.x (XML) bank statements
+ */
+
+import { AccountKind } from '../types';
+import { maskedAccountName } from './accounts';
+import { toDateKey } from './recurrence';
+import { BankStatement, StatementEntry } from './statementImport';
+
+export interface OfxNode {
+  name: string;
+  /** Text of a leaf element; aggregates have children instead */
+  value: string | null;
+  children: OfxNode[];
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isNaN(point) ? entity : String.fromCharCode(point);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Element tree of an OFX document. SGML leaves have no closing tag, so an
+ * element with text is a leaf and only elements without text are opened.
+ */
+export function parseOfxTree(text: string): OfxNode {
+  const start = text.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error('Not an OFX file: the <OFX> element is missing');
+  }
+
+  const root: OfxNode = { name: '#document', value: null, children: [] };
+  const stack: OfxNode[] = [root];
+  const pattern = /<(\/?)([A-Za-z0-9_.]+)[^>]*>([^<]*)/g;
+  const body = text.slice(start);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(body)) !== null) {
+    const [, closing, rawName, rawText] = match;
+    const name = rawName.toUpperCase();
+    if (closing) {
+      // Closing an aggregate also closes anything left open inside it
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const value = decodeEntities(rawText.trim());
+    const node: OfxNode = { name, value: value || null, children: [] };
+    stack[stack.length - 1].children.push(node);
+    if (!value) stack.push(node);
+  }
+
+  const ofx = root.children.find(n => n.name === 'OFX');
+  if (!ofx) {
+    throw new Error('Not an OFX file: the <OFX> element is missing');
+  }
+  return ofx;
+}
+
+function findAll(node: OfxNode, name: string): OfxNode[] {
+  const found: OfxNode[] = [];
+  node.children.forEach(child => {
+    if (child.name === name) found.push(child);
+    found.push(...findAll(child, name));
+  });
+  return found;
+}
+
+function find(node: OfxNode | undefined, name: string): OfxNode | undefined {
+  return node ? findAll(node, name)[0] : undefined;
+}
+
+function valueOf(node: OfxNode | undefined, name: string): string {
+  return find(node, name)?.value || '';
+}
+
+/**
+ * Day of an OFX date such as "20250903120000.000[-5:EST]"
+ */
+export function parseOfxDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateKey(date);
+}
+
+function parseOfxAmount(value: string): number | null {
+  const amount = Number(value.trim().replace(',', '.'));
+  return value.trim() && !isNaN(amount) ? amount : null;
+}
+
+/**
+ * Every bank and credit card statement in an OFX document
+ */
+export function parseOfx(text: string): BankStatement[] {
+  const ofx = parseOfxTree(text);
+  const statements = [...findAll(ofx, 'STMTRS'), ...findAll(ofx, 'CCSTMTRS')];
+  if (statements.length === 0) {
+    throw new Error('The file contains no bank or credit card statement');
+  }
+
+  return statements.map(statement => {
+    const creditCard = statement.name === 'CCSTMTRS';
+    const from = find(statement, creditCard ? 'CCACCTFROM' : 'BANKACCTFROM');
+    const accountId = valueOf(from, 'ACCTID');
+    if (!accountId) {
+      throw new Error('A statement in the file has no account number');
+    }
+    const bankId = valueOf(from, 'BANKID');
+    const list = find(statement, 'BANKTRANLIST');
+    const ledger = find(statement, 'LEDGERBAL');
+    const ledgerAmount = parseOfxAmount(valueOf(ledger, 'BALAMT'));
+    const ledgerDate = parseOfxDate(valueOf(ledger, 'DTASOF'));
+
+    const entries: StatementEntry[] = [];
+    findAll(list || statement, 'STMTTRN').forEach(trn => {
+      const posted = parseOfxDate(valueOf(trn, 'DTPOSTED'));
+      const amount = parseOfxAmount(valueOf(trn, 'TRNAMT'));
+      const fitId = valueOf(trn, 'FITID');
+      if (!posted || amount === null || !fitId) return;
+      entries.push({
+        id: fitId,
+        posted,
+        amount,
+        name: valueOf(trn, 'NAME') || valueOf(find(trn, 'PAYEE'), 'NAME'),
+        memo: valueOf(trn, 'MEMO'),
+      });
+    });
+
+    const accountKey = bankId ? `${bankId}-${accountId}` : accountId;
+    const accountType = creditCard ? 'CREDITCARD' : valueOf(from, 'ACCTTYPE') || 'CHECKING';
+    const accountKind: AccountKind = creditCard || accountType === 'CREDITLINE' ? 'credit-card' : 'checking';
+    const label = creditCard ? 'Card' : accountType.charAt(0) + accountType.slice(1).toLowerCase();
+
+    return {
+      format: 'ofx' as const,
+      accountKey,
+      accountName: maskedAccountName(label, accountKey),
+      accountKind,
+      currency: valueOf(statement, 'CURDEF').toUpperCase() || 'USD',
+      startDate: parseOfxDate(valueOf(list, 'DTSTART')),
+      endDate: parseOfxDate(valueOf(list, 'DTEND')),
+      entries,
+      ledgerBalance: ledgerAmount !== null && ledgerDate ? { amount: ledgerAmount, asOf: ledgerDate } : null,
+    };
+  });
+}
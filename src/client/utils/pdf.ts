@@ -0,0 +1,389 @@
+/**
+ * Minimal PDF writer for SafePay AI
+ * Text in the standard Helvetica fonts, lines, filled boxes, JPEG images, web links
+ * and embedded files, enough to lay out reports in the browser without a library.
+ * Callers measure from the top-left corner of the page, in points.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+/** RGB components from 0 to 1 */
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  /** Right-aligned text ends at x */
+  align?: 'left' | 'right';
+}
+
+export interface PdfFile {
+  name: string;
+  mimeType: string;
+  content: Uint8Array;
+  description?: string;
+}
+
+export interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+}
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+const BLACK: PdfColor = [0, 0, 0];
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+/** Advance widths of characters 32-126, in 1/1000 em, from the Adobe font metrics */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** Characters outside Latin-1 that WinAnsiEncoding has a code for */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x97: 1000, 0x99: 1000,
+};
+
+const ELLIPSIS = '…';
+
+/**
+ * Text as WinAnsiEncoding bytes; characters the standard fonts cannot show become "?"
+ */
+function encodeWinAnsi(text: string): number[] {
+  return Array.from(text.replace(/[\u2000-\u200a\u202f]/g, ' ')).map(char => {
+    const code = char.codePointAt(0) || 0;
+    if (code >= 32 && code <= 126) return code;
+    if (code >= 0xa0 && code <= 0xff) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+  });
+}
+
+function charWidth(code: number, font: PdfFont): number {
+  if (code >= 32 && code <= 126) {
+    return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  }
+  return EXTRA_WIDTHS[code] ?? 556;
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  return encodeWinAnsi(text).reduce((sum, code) => sum + charWidth(code, font), 0) * size / 1000;
+}
+
+/**
+ * Shorten text with an ellipsis until it fits the width
+ */
+export function fitText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string {
+  if (textWidth(text, size, font) <= maxWidth) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0 && textWidth(chars.join('') + ELLIPSIS, size, font) > maxWidth) {
+    chars.pop();
+  }
+  return chars.join('').trimEnd() + ELLIPSIS;
+}
+
+/**
+ * Dimensions of a baseline or progressive JPEG, or null when the bytes are not one
+ */
+export function jpegInfo(bytes: Uint8Array): JpegInfo | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      return {
+        height: (bytes[i + 5] << 8) | bytes[i + 6],
+        width: (bytes[i + 7] << 8) | bytes[i + 8],
+        components: bytes[i + 9],
+      };
+    }
+    i += 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+  }
+  return null;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function color(c: PdfColor): string {
+  return c.map(num).join(' ');
+}
+
+function hexString(bytes: number[]): string {
+  return `<${bytes.map(b => b.toString(16).padStart(2, '0')).join('')}>`;
+}
+
+/** Text string for document metadata, in UTF-16 so any character survives */
+function unicodeString(text: string): string {
+  const bytes = [0xfe, 0xff];
+  for (let i = 0; i < text.length; i++) {
+    const unit = text.charCodeAt(i);
+    bytes.push(unit >> 8, unit & 0xff);
+  }
+  return hexString(bytes);
+}
+
+function asciiString(text: string): string {
+  const ascii = text.replace(/[^\x20-\x7e]/g, c => encodeURIComponent(c));
+  return `(${ascii.replace(/[\\()]/g, c => `\\${c}`)})`;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+interface PdfPage {
+  content: string[];
+  links: Array<{ rect: number[]; url: string }>;
+}
+
+interface PdfImage {
+  name: string;
+  data: Uint8Array;
+  info: JpegInfo;
+}
+
+/**
+ * A document built page by page and serialized with toBytes()
+ */
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: PdfPage[] = [];
+  private current = -1;
+  private images: PdfImage[] = [];
+  private files: PdfFile[] = [];
+  private title: string;
+  private createdAt: Date;
+
+  constructor(options: { title?: string; now?: Date; size?: { width: number; height: number } } = {}) {
+    this.width = (options.size || A4).width;
+    this.height = (options.size || A4).height;
+    this.title = options.title || '';
+    this.createdAt = options.now || new Date();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Start a new page and draw on it; returns its index
+   */
+  addPage(): number {
+    this.pages.push({ content: [], links: [] });
+    this.current = this.pages.length - 1;
+    return this.current;
+  }
+
+  /**
+   * Draw on an earlier page, e.g. to add page numbers once the count is known
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`There is no page ${index + 1}`);
+    }
+    this.current = index;
+  }
+
+  private page(): PdfPage {
+    if (this.current < 0) this.addPage();
+    return this.pages[this.current];
+  }
+
+  /**
+   * Write one line of text with its baseline at y
+   */
+  text(value: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size || 10;
+    const font = options.font || 'regular';
+    const left = options.align === 'right' ? x - textWidth(value, size, font) : x;
+    this.page().content.push(
+      `BT /${FONT_NAMES[font]} ${num(size)} Tf ${color(options.color || BLACK)} rg `
+      + `${num(left)} ${num(this.height - y)} Td ${hexString(encodeWinAnsi(value))} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; color?: PdfColor } = {}): void {
+    this.page().content.push(
+      `q ${num(options.width || 0.5)} w ${color(options.color || BLACK)} RG `
+      + `${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S Q`
+    );
+  }
+
+  /**
+   * Fill a box whose top-left corner is at x, y
+   */
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): void {
+    this.page().content.push(
+      `q ${color(fill)} rg ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f Q`
+    );
+  }
+
+  /**
+   * Make a box open a web address when clicked
+   */
+  link(x: number, y: number, width: number, height: number, url: string): void {
+    this.page().links.push({
+      rect: [x, this.height - y - height, x + width, this.height - y],
+      url,
+    });
+  }
+
+  /**
+   * Draw a JPEG scaled into a box whose top-left corner is at x, y
+   */
+  image(jpeg: Uint8Array, x: number, y: number, width: number, height: number): void {
+    const info = jpegInfo(jpeg);
+    if (!info) {
+      throw new Error('Only JPEG images can be placed in a PDF');
+    }
+    const name = `Im${this.images.length + 1}`;
+    this.images.push({ name, data: jpeg, info });
+    this.page().content.push(
+      `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /${name} Do Q`
+    );
+  }
+
+  /**
+   * Carry a file inside the PDF; viewers list it with the document's attachments
+   */
+  attachFile(file: PdfFile): void {
+    this.files.push(file);
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    if (this.pages.length === 0) this.addPage();
+
+    // Fixed objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info; the rest follow in order
+    let next = 6;
+    const imageIds = this.images.map(() => next++);
+    const pageIds = this.pages.map(page => ({
+      page: next++,
+      content: next++,
+      links: page.links.map(() => next++),
+    }));
+    const fileIds = this.files.map(() => ({ stream: next++, spec: next++ }));
+
+    const objects: Array<string | Uint8Array[]> = [];
+    const set = (id: number, body: string | Uint8Array[]) => {
+      objects[id] = body;
+    };
+    const stream = (dictionary: string, data: Uint8Array): Uint8Array[] => [
+      latin1(`<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+      data,
+      latin1('\nendstream'),
+    ];
+
+    const names = fileIds.map((ids, i) => `(${String(i + 1).padStart(4, '0')}) ${ids.spec} 0 R`);
+    set(1, `<< /Type /Catalog /Pages 2 0 R${names.length > 0
+      ? ` /Names << /EmbeddedFiles << /Names [${names.join(' ')}] >> >> /PageMode /UseAttachments`
+      : ''} >>`);
+    set(2, `<< /Type /Pages /Kids [${pageIds.map(ids => `${ids.page} 0 R`).join(' ')}] /Count ${this.pages.length} >>`);
+    set(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    set(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    set(5, `<< /Title ${unicodeString(this.title)} /Producer (SafePay AI) /CreationDate (${pdfDate(this.createdAt)}) >>`);
+
+    this.images.forEach((image, i) => {
+      const colorSpace = image.info.components === 1 ? '/DeviceGray'
+        : image.info.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+      set(imageIds[i], stream(
+        `/Type /XObject /Subtype /Image /Width ${image.info.width} /Height ${image.info.height} `
+        + `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+        image.data
+      ));
+    });
+
+    const xObjects = this.images.map((image, i) => `/${image.name} ${imageIds[i]} 0 R`).join(' ');
+    const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`;
+    this.pages.forEach((page, i) => {
+      const ids = pageIds[i];
+      const annots = ids.links.length > 0 ? ` /Annots [${ids.links.map(id => `${id} 0 R`).join(' ')}]` : '';
+      set(ids.page, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] `
+        + `/Resources ${resources} /Contents ${ids.content} 0 R${annots} >>`);
+      set(ids.content, stream('', latin1(page.content.join('\n'))));
+      page.links.forEach((link, j) => {
+        set(ids.links[j], `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(' ')}] `
+          + `/Border [0 0 0] /A << /S /URI /URI ${asciiString(link.url)} >> >>`);
+      });
+    });
+
+    this.files.forEach((file, i) => {
+      const ids = fileIds[i];
+      const subtype = file.mimeType.replace(/[^a-zA-Z0-9.+-]/g, c => `#${c.charCodeAt(0).toString(16).padStart(2, '0')}`);
+      set(ids.stream, stream(`/Type /EmbeddedFile /Subtype /${subtype} /Params << /Size ${file.content.length} >>`, file.content));
+      set(ids.spec, `<< /Type /Filespec /F ${asciiString(file.name)} /UF ${unicodeString(file.name)} `
+        + `/EF << /F ${ids.stream} 0 R >>${file.description ? ` /Desc ${unicodeString(file.description)}` : ''} >>`);
+    });
+
+    const chunks: Uint8Array[] = [latin1('%PDF-1.7\n%âãÏÓ\n')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    for (let id = 1; id < next; id++) {
+      offsets[id] = offset;
+      const body = objects[id];
+      const parts = [latin1(`${id} 0 obj\n`), ...(typeof body === 'string' ? [latin1(body)] : body), latin1('\nendobj\n')];
+      parts.forEach(part => {
+        chunks.push(part);
+        offset += part.length;
+      });
+    }
+
+    const xref = [`xref\n0 ${next}\n0000000000 65535 f \n`];
+    for (let id = 1; id < next; id++) {
+      xref.push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    xref.push(`trailer\n<< /Size ${next} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${offset}\n%%EOF\n`);
+    chunks.push(latin1(xref.join('')));
+
+    const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let position = 0;
+    chunks.forEach(chunk => {
+      bytes.set(chunk, position);
+      position += chunk.length;
+    });
+    return bytes;
+  }
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
@@ -0,0 +1,546 @@
+/**
+ * Plain-text accounting utilities for SafePay AI
+ * Writes transactions as double-entry Beancount, Ledger or hledger journals and reads them back
+ */
+
+import {
+  Account,
+  AccountKind,
+  LedgerFormat,
+  LedgerSettings,
+  Transaction,
+  TransactionProof,
+  TransactionSplit,
+} from '../types';
+import { TRANSFER_CATEGORY, transferDestinationCurrency } from './accounts';
+import { transactionCurrency } from './currency';
+import { SPLIT_CATEGORY } from './splits';
+import { toDateKey } from './recurrence';
+import { normalizeTag } from './tags';
+
+export interface LedgerPosting {
+  account: string;
+  amount: number;
+  currency: string;
+  /** Total price in another currency (@@), for transfers between currencies */
+  price?: { amount: number; currency: string };
+  note?: string;
+}
+
+export interface LedgerImportError {
+  line: number;
+  message: string;
+}
+
+export interface LedgerImportResult {
+  transactions: Transaction[];
+  errors: LedgerImportError[];
+}
+
+export const LEDGER_FORMATS: Array<{ value: LedgerFormat; label: string; extension: string }> = [
+  { value: 'beancount', label: 'Beancount', extension: 'beancount' },
+  { value: 'ledger', label: 'Ledger', extension: 'ledger' },
+  { value: 'hledger', label: 'hledger', extension: 'journal' },
+];
+
+/** Journal account for transactions without a SafePay account */
+export const UNASSIGNED_ACCOUNT = 'Assets:Unassigned';
+
+const KIND_ROOTS: Record<AccountKind, string> = {
+  checking: 'Assets:Bank',
+  'credit-card': 'Liabilities:CreditCard',
+  cash: 'Assets:Cash',
+  'crypto-wallet': 'Assets:Crypto',
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { $: 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' };
+
+/**
+ * One account name component as Beancount accepts it: "eating out" -> "Eating-out"
+ */
+function accountComponent(name: string): string {
+  const clean = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return clean ? clean.charAt(0).toUpperCase() + clean.slice(1) : 'Other';
+}
+
+function derivedCategoryAccount(category: string, type: 'income' | 'expense'): string {
+  return [type === 'income' ? 'Income' : 'Expenses', ...category.split('>').map(accountComponent)].join(':');
+}
+
+/**
+ * Journal account of a category: the configured one, or "Expenses:Food:Coffee" for "Food > Coffee"
+ */
+export function categoryAccount(category: string, type: 'income' | 'expense', settings: LedgerSettings): string {
+  return settings.categoryAccounts[category] || derivedCategoryAccount(category, type);
+}
+
+function derivedAssetAccount(account: Account): string {
+  return `${KIND_ROOTS[account.kind]}:${accountComponent(account.name)}`;
+}
+
+/**
+ * Journal account of a SafePay account: the configured one, or one named after its kind
+ */
+export function assetAccount(account: Account | undefined, settings: LedgerSettings): string {
+  if (!account) return UNASSIGNED_ACCOUNT;
+  return settings.assetAccounts[account.id] || derivedAssetAccount(account);
+}
+
+/**
+ * Postings of a transaction; they always sum to zero in each currency after prices
+ */
+export function transactionPostings(t: Transaction, accounts: Account[], settings: LedgerSettings): LedgerPosting[] {
+  const currency = transactionCurrency(t);
+  const amount = Math.abs(t.amount);
+  const source = assetAccount(accounts.find(a => a.id === t.accountId), settings);
+
+  if (t.type === 'transfer') {
+    const toCurrency = transferDestinationCurrency(t, accounts);
+    const toAmount = Math.abs(t.toAmount ?? amount);
+    return [
+      { account: assetAccount(accounts.find(a => a.id === t.toAccountId), settings), amount: toAmount, currency: toCurrency },
+      {
+        account: source,
+        amount: -amount,
+        currency,
+        price: toCurrency !== currency ? { amount: toAmount, currency: toCurrency } : undefined,
+      },
+    ];
+  }
+
+  if (t.type === 'income') {
+    return [
+      { account: source, amount, currency },
+      { account: categoryAccount(t.category, 'income', settings), amount: -amount, currency },
+    ];
+  }
+
+  const lines: TransactionSplit[] = t.splits && t.splits.length > 0 ? t.splits : [{ category: t.category, amount }];
+  return [
+    ...lines.map(split => ({
+      account: categoryAccount(split.category, 'expense', settings),
+      amount: Math.abs(split.amount),
+      currency,
+      note: split.note,
+    })),
+    { account: source, amount: -amount, currency },
+  ];
+}
+
+function formatAmount(amount: number, currency: string): string {
+  const [whole, fraction = ''] = amount.toFixed(8).replace(/\.?0+$/, '').split('.');
+  return `${whole}.${fraction.padEnd(2, '0')} ${currency}`;
+}
+
+function postingLine(posting: LedgerPosting): string {
+  const price = posting.price ? ` @@ ${formatAmount(posting.price.amount, posting.price.currency)}` : '';
+  return `${posting.account.padEnd(38)}  ${formatAmount(posting.amount, posting.currency)}${price}`;
+}
+
+function oneLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function quote(value: string): string {
+  return `"${oneLine(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Metadata carried along so an exported journal can be imported without losing ids or proofs.
+ * Proofs hash the full timestamp, which the entry date alone does not keep.
+ */
+function transactionMetadata(t: Transaction): Array<[string, string]> {
+  const metadata: Array<[string, string]> = [['safepay-id', String(t.id)], ['timestamp', t.timestamp]];
+  if (t.proof?.hash) metadata.push(['proof-hash', t.proof.hash]);
+  if (t.proof?.txHash) metadata.push(['tx-hash', t.proof.txHash]);
+  if (t.proof?.chain) metadata.push(['chain', t.proof.chain]);
+  if (t.proof?.timestamp) metadata.push(['proof-timestamp', t.proof.timestamp]);
+  if (t.proof?.revision !== undefined) metadata.push(['proof-revision', String(t.proof.revision)]);
+  if (t.proof?.coversAttachments) metadata.push(['proof-covers-attachments', 'true']);
+  return metadata;
+}
+
+function beancountEntry(t: Transaction, postings: LedgerPosting[]): string {
+  const tags = (t.tags || []).map(tag => ` #${tag}`).join('');
+  const lines = [`${toDateKey(new Date(t.timestamp))} * ${quote(t.note || '')}${tags}`];
+  transactionMetadata(t).forEach(([key, value]) => lines.push(`  ${key}: ${quote(value)}`));
+  postings.forEach(posting => {
+    lines.push(`  ${postingLine(posting)}`);
+    if (posting.note) lines.push(`    note: ${quote(posting.note)}`);
+  });
+  return lines.join('\n');
+}
+
+function ledgerEntry(t: Transaction, postings: LedgerPosting[], format: LedgerFormat): string {
+  const day = toDateKey(new Date(t.timestamp));
+  // Ledger wants a payee, so an empty note falls back to the category
+  const lines = [`${format === 'ledger' ? day.replace(/-/g, '/') : day} * ${oneLine(t.note || t.category)}`];
+  if (t.tags && t.tags.length > 0) {
+    lines.push(format === 'ledger' ? `    ; :${t.tags.join(':')}:` : `    ; ${t.tags.map(tag => `${tag}:`).join(', ')}`);
+  }
+  transactionMetadata(t).forEach(([key, value]) => lines.push(`    ; ${key}: ${value}`));
+  postings.forEach(posting => {
+    lines.push(`    ${postingLine(posting)}${posting.note ? `  ; ${oneLine(posting.note)}` : ''}`);
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Journal of the given transactions, oldest first, with every account declared
+ */
+export function exportLedger(
+  transactions: Transaction[],
+  accounts: Account[],
+  settings: LedgerSettings,
+  now: Date = new Date()
+): string {
+  const entries = [...transactions]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map(t => ({ t, postings: transactionPostings(t, accounts, settings) }));
+
+  // Beancount needs every account opened on or before its first posting
+  const opened = new Map<string, string>();
+  entries.forEach(({ t, postings }) => postings.forEach(posting => {
+    if (!opened.has(posting.account)) opened.set(posting.account, toDateKey(new Date(t.timestamp)));
+  }));
+  const names = Array.from(opened.keys()).sort();
+  const declarations = settings.format === 'beancount'
+    ? names.map(name => `${opened.get(name)} open ${name}`)
+    : names.map(name => `account ${name}`);
+
+  const body = entries.map(({ t, postings }) => (
+    settings.format === 'beancount' ? beancountEntry(t, postings) : ledgerEntry(t, postings, settings.format)
+  ));
+  return [`; Exported from SafePay AI on ${toDateKey(now)}`, declarations.join('\n'), ...body]
+    .filter(Boolean)
+    .join('\n\n') + '\n';
+}
+
+interface DraftPosting {
+  account: string;
+  amount: number | null;
+  currency: string;
+  price?: { amount: number; currency: string };
+  note?: string;
+}
+
+interface DraftEntry {
+  line: number;
+  date: string;
+  description: string;
+  /** Beancount separates account and amount with any whitespace, Ledger with two spaces */
+  beancount: boolean;
+  tags: string[];
+  metadata: Record<string, string>;
+  postings: DraftPosting[];
+  /** A posting could not be read; the error is reported on its line */
+  unreadable?: boolean;
+}
+
+const DIRECTIVE_PATTERN = /^\d{4}-\d{2}-\d{2}\s+(open|close|commodity|balance|pad|note|document|price|event|custom|query)\b/;
+const BEANCOUNT_HEADER = /^(\d{4}-\d{2}-\d{2})\s+(?:\*|!|txn)((?:\s+"(?:[^"\\]|\\.)*")+)(.*)$/;
+const LEDGER_HEADER = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:=\S+)?\s*(?:[*!]\s*)?(?:\([^)]*\)\s*)?(.*)$/;
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (!/^".*"$/.test(trimmed)) return trimmed;
+  return trimmed.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+/**
+ * "-45.00 USD", "$45.00", "EUR -1,200.50" as a signed amount and currency
+ */
+function parseCommodityAmount(text: string): { amount: number; currency: string } | null {
+  const match = /^(-)?\s*([^\d\s.,-]+)?\s*(-)?\s*(\d[\d,]*(?:\.\d+)?|\.\d+)\s*([^\d\s@]+)?$/.exec(text.trim());
+  if (!match) return null;
+  const symbol = unquote(match[2] || match[5] || '');
+  const amount = Number(match[4].replace(/,/g, ''));
+  return {
+    amount: match[1] || match[3] ? -amount : amount,
+    currency: CURRENCY_SYMBOLS[symbol] || symbol,
+  };
+}
+
+function parsePostingAmount(text: string): Pick<DraftPosting, 'amount' | 'currency' | 'price'> | null {
+  const totalPrice = text.indexOf('@@');
+  const unitPrice = totalPrice === -1 ? text.indexOf('@') : -1;
+  const split = totalPrice !== -1 ? totalPrice : unitPrice;
+  const main = parseCommodityAmount(split === -1 ? text : text.slice(0, split));
+  if (!main) return null;
+  if (split === -1) return main;
+
+  const price = parseCommodityAmount(text.slice(split + (totalPrice !== -1 ? 2 : 1)));
+  if (!price) return null;
+  const total = totalPrice !== -1 ? Math.abs(price.amount) : Math.abs(price.amount * main.amount);
+  return { ...main, price: { amount: total, currency: price.currency } };
+}
+
+/**
+ * Tags and metadata in a Ledger or hledger comment: ":trip:work:", "trip:, work:" or "key: value"
+ */
+function readComment(text: string, entry: DraftEntry): boolean {
+  const comment = text.trim();
+  if (/^:(?:[^\s:]+:)+$/.test(comment)) {
+    entry.tags.push(...comment.split(':').filter(Boolean));
+    return true;
+  }
+  const parts = comment.split(',').map(part => part.trim());
+  if (!parts.every(part => /^[A-Za-z][\w-]*:/.test(part))) return false;
+  parts.forEach(part => {
+    const [key, ...rest] = part.split(':');
+    const value = rest.join(':').trim();
+    if (value) entry.metadata[key.toLowerCase()] = value;
+    else entry.tags.push(key);
+  });
+  return true;
+}
+
+function readPosting(text: string, entry: DraftEntry): DraftPosting | string {
+  const commentAt = text.indexOf(';');
+  const body = (commentAt === -1 ? text : text.slice(0, commentAt)).trim().replace(/^[*!]\s+/, '');
+  const note = commentAt === -1 ? undefined : text.slice(commentAt + 1).trim() || undefined;
+  const separator = entry.beancount ? /\s+/ : /\s{2,}|\t/;
+  const match = separator.exec(body);
+  const account = match ? body.slice(0, match.index) : body;
+  const amountText = match ? body.slice(match.index).trim() : '';
+
+  if (!amountText) return { account, amount: null, currency: '', note };
+  const amount = parsePostingAmount(amountText);
+  return amount ? { account, ...amount, note } : `Cannot read the amount "${amountText}"`;
+}
+
+/**
+ * Split a journal into transactions; directives, comments and prices are skipped
+ */
+function readEntries(text: string, errors: LedgerImportError[]): DraftEntry[] {
+  const entries: DraftEntry[] = [];
+  let entry: DraftEntry | null = null;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (!line.trim()) return;
+
+    if (!/^\s/.test(line)) {
+      entry = null;
+      if (DIRECTIVE_PATTERN.test(line)) return;
+      const beancount = BEANCOUNT_HEADER.exec(line);
+      if (beancount) {
+        const strings = (beancount[2].match(/"(?:[^"\\]|\\.)*"/g) || []).map(unquote);
+        entry = {
+          line: lineNumber,
+          date: beancount[1],
+          description: strings.filter(Boolean).join(' '),
+          beancount: true,
+          tags: (beancount[3].match(/#[\w/.-]+/g) || []).map(tag => tag.slice(1)),
+          metadata: {},
+          postings: [],
+        };
+      } else {
+        const ledger = LEDGER_HEADER.exec(line);
+        if (!ledger) return;
+        const [description, comment] = ledger[4].split(/\s{2,};|\t;/);
+        entry = {
+          line: lineNumber,
+          date: `${ledger[1]}-${ledger[2].padStart(2, '0')}-${ledger[3].padStart(2, '0')}`,
+          description: description.trim(),
+          beancount: false,
+          tags: [],
+          metadata: {},
+          postings: [],
+        };
+        if (comment) readComment(comment, entry);
+      }
+      entries.push(entry);
+      return;
+    }
+
+    if (!entry) return;
+    const current: DraftEntry = entry;
+    const content = line.trim();
+    const lastPosting = current.postings[current.postings.length - 1];
+
+    if (content.startsWith(';')) {
+      const handled = readComment(content.slice(1), current);
+      if (!handled && lastPosting && !lastPosting.note) lastPosting.note = content.slice(1).trim();
+      return;
+    }
+
+    const metadata = /^([a-z][\w-]*):\s*(.*)$/.exec(content);
+    if (metadata && current.beancount) {
+      // Metadata after the first posting belongs to that posting
+      if (lastPosting) {
+        if (metadata[1] === 'note') lastPosting.note = unquote(metadata[2]);
+      } else {
+        current.metadata[metadata[1]] = unquote(metadata[2]);
+      }
+      return;
+    }
+
+    // Virtual postings in parentheses do not have to balance and are left out
+    if (content.startsWith('(')) return;
+    const posting = readPosting(content.replace(/^\[([^\]]+)\]/, '$1'), current);
+    if (typeof posting === 'string') {
+      errors.push({ line: lineNumber, message: posting });
+      current.unreadable = true;
+    } else {
+      current.postings.push(posting);
+    }
+  });
+
+  return entries;
+}
+
+function weight(posting: DraftPosting): { amount: number; currency: string } {
+  if (!posting.price) return { amount: posting.amount || 0, currency: posting.currency };
+  return { amount: Math.sign(posting.amount || 0) * posting.price.amount, currency: posting.price.currency };
+}
+
+/**
+ * Fill in an elided amount and check that the postings balance
+ */
+function balancePostings(postings: DraftPosting[]): string | null {
+  const totals = new Map<string, number>();
+  postings.filter(p => p.amount !== null).forEach(posting => {
+    const { amount, currency } = weight(posting);
+    totals.set(currency, (totals.get(currency) || 0) + amount);
+  });
+
+  const elided = postings.filter(p => p.amount === null);
+  if (elided.length > 1) return 'Only one posting may leave out its amount';
+  if (elided.length === 1) {
+    if (totals.size !== 1) return 'Cannot infer the missing amount across several currencies';
+    const [[currency, total]] = Array.from(totals.entries());
+    elided[0].amount = -total;
+    elided[0].currency = currency;
+    return null;
+  }
+  const unbalanced = Array.from(totals.entries()).find(([, total]) => Math.abs(total) >= 0.005);
+  return unbalanced ? `Postings do not balance: ${unbalanced[1].toFixed(2)} ${unbalanced[0]} left over` : null;
+}
+
+/**
+ * The exported timestamp while it still falls on the entry's date; noon on that date otherwise
+ */
+function entryTimestamp(entry: DraftEntry): string {
+  const exported = entry.metadata.timestamp ? new Date(entry.metadata.timestamp) : null;
+  if (exported && !isNaN(exported.getTime()) && toDateKey(exported) === entry.date) {
+    return exported.toISOString();
+  }
+  const [year, month, day] = entry.date.split('-').map(Number);
+  return new Date(year, month - 1, day, 12).toISOString();
+}
+
+function entryProof(metadata: Record<string, string>): TransactionProof | undefined {
+  if (!metadata['proof-hash']) return undefined;
+  const proof: TransactionProof = { hash: metadata['proof-hash'], txHash: metadata['tx-hash'], chain: metadata.chain };
+  if (metadata['proof-timestamp']) proof.timestamp = metadata['proof-timestamp'];
+  const revision = Number(metadata['proof-revision']);
+  if (metadata['proof-revision'] && Number.isInteger(revision) && revision >= 0) proof.revision = revision;
+  if (metadata['proof-covers-attachments'] === 'true') proof.coversAttachments = true;
+  return proof;
+}
+
+interface ImportContext {
+  categoryByAccount: Map<string, string>;
+  accountIdByName: Map<string, string>;
+}
+
+function entryToTransaction(entry: DraftEntry, context: ImportContext, id: string): Transaction | string {
+  const problem = balancePostings(entry.postings);
+  if (problem) return problem;
+
+  const isCategory = (name: string) => context.categoryByAccount.has(name) || /^(Expenses|Income)(:|$)/.test(name);
+  const categoryOf = (name: string) =>
+    context.categoryByAccount.get(name) || name.split(':').slice(1).join(' > ') || name;
+  const postings = entry.postings as Array<DraftPosting & { amount: number }>;
+  const categoryPostings = postings.filter(p => isCategory(p.account));
+  const assetPostings = postings.filter(p => !isCategory(p.account));
+
+  const base = {
+    id: entry.metadata['safepay-id'] || id,
+    timestamp: entryTimestamp(entry),
+    tags: entry.tags.length > 0 ? Array.from(new Set(entry.tags.map(normalizeTag))) : undefined,
+    proof: entryProof(entry.metadata),
+  };
+
+  if (categoryPostings.length === 0) {
+    const from = assetPostings.find(p => p.amount < 0);
+    const to = assetPostings.find(p => p.amount > 0);
+    if (assetPostings.length !== 2 || !from || !to) {
+      return 'A transaction needs an Expenses or Income posting, or exactly two accounts for a transfer';
+    }
+    return {
+      ...base,
+      type: 'transfer',
+      amount: Math.abs(from.amount),
+      currency: from.currency,
+      category: TRANSFER_CATEGORY,
+      note: entry.description || undefined,
+      accountId: context.accountIdByName.get(from.account),
+      toAccountId: context.accountIdByName.get(to.account),
+      toAmount: to.currency !== from.currency ? to.amount : undefined,
+    };
+  }
+
+  if (assetPostings.length !== 1) {
+    return 'Only one asset or liability posting is supported next to Expenses and Income';
+  }
+  const [asset] = assetPostings;
+  if (categoryPostings.some(p => p.currency !== asset.currency || p.price)) {
+    return 'All postings must be in one currency';
+  }
+
+  const total = Math.round(categoryPostings.reduce((sum, p) => sum + p.amount, 0) * 1e8) / 1e8;
+  const splits = total > 0 && categoryPostings.length > 1
+    ? categoryPostings.map(p => ({ category: categoryOf(p.account), amount: p.amount, note: p.note }))
+    : undefined;
+  const category = splits ? SPLIT_CATEGORY : categoryOf(categoryPostings[0].account);
+  return {
+    ...base,
+    type: total < 0 ? 'income' : 'expense',
+    amount: Math.abs(total),
+    currency: asset.currency,
+    category,
+    // Ledger exports fall back to the category when there is no note
+    note: entry.description && entry.description !== category ? entry.description : undefined,
+    accountId: context.accountIdByName.get(asset.account),
+    splits,
+  };
+}
+
+/**
+ * Transactions in a Beancount, Ledger or hledger journal; entries that cannot be read are reported
+ */
+export function parseLedger(
+  text: string,
+  accounts: Account[],
+  categories: string[],
+  settings: LedgerSettings
+): LedgerImportResult {
+  const categoryByAccount = new Map<string, string>();
+  categories.forEach(category => {
+    categoryByAccount.set(derivedCategoryAccount(category, 'expense'), category);
+    categoryByAccount.set(derivedCategoryAccount(category, 'income'), category);
+  });
+  Object.entries(settings.categoryAccounts).forEach(([category, name]) => categoryByAccount.set(name, category));
+
+  const accountIdByName = new Map<string, string>();
+  accounts.forEach(account => {
+    accountIdByName.set(derivedAssetAccount(account), account.id);
+    accountIdByName.set(assetAccount(account, settings), account.id);
+  });
+
+  const errors: LedgerImportError[] = [];
+  const transactions: Transaction[] = [];
+  const stamp = Date.now().toString(36);
+  readEntries(text, errors).filter(entry => !entry.unreadable).forEach((entry, i) => {
+    const result = entryToTransaction(entry, { categoryByAccount, accountIdByName }, `ledger_${stamp}_${i}`);
+    if (typeof result === 'string') errors.push({ line: entry.line, message: result });
+    else transactions.push(result);
+  });
+  return { transactions, errors: errors.sort((a, b) => a.line - b.line) };
+}
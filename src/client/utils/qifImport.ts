@@ -0,0 +1,154 @@
+/**
+ * QIF import utilities for SafePay AI
+ * Parses Quicken Interchange Format files from bank, cash and card registers
+ */
+
+import { AccountKind, CsvDateFormat } from '../types';
+import { parseCsvAmount, parseCsvDate } from './csvImport';
+import { BankStatement, StatementEntry } from './statementImport';
+
+interface QifRecord {
+  date: string;
+  amount: string;
+  payee: string;
+  memo: string;
+  category: string;
+}
+
+interface QifSection {
+  type: string;
+  accountName: string;
+  records: QifRecord[];
+}
+
+const REGISTER_KINDS: Record<string, AccountKind> = {
+  bank: 'checking',
+  'oth a': 'checking',
+  cash: 'cash',
+  ccard: 'credit-card',
+  'oth l': 'credit-card',
+};
+
+/** Quicken writes month first; other tools export ISO or day-first dates */
+const QIF_DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY'];
+
+/**
+ * Spell out two-digit years: Quicken marks 2000 and later with an apostrophe, as in "9/3'25"
+ */
+function normalizeQifDate(value: string): string {
+  const match = /^(\d{1,2})\s*([/.-])\s*(\d{1,2})\s*(['/.-])\s*(\d{2}|\d{4})$/.exec(value.trim());
+  if (!match) return value.trim();
+  const [, first, separator, second, yearMark, year] = match;
+  let fullYear = year;
+  if (year.length === 2) {
+    fullYear = String(yearMark === "'" || Number(year) < 50 ? 2000 + Number(year) : 1900 + Number(year));
+  }
+  return `${first}${separator}${second}${separator}${fullYear}`;
+}
+
+/**
+ * Quicken category "Food:Groceries/Business" as a category path; transfers ("[Savings]") have none
+ */
+function qifCategory(value: string): string | undefined {
+  const category = value.split('/')[0].trim();
+  if (!category || category.startsWith('[')) return undefined;
+  return category.split(':').map(part => part.trim()).filter(Boolean).join(' > ');
+}
+
+function splitSections(text: string): QifSection[] {
+  const sections: QifSection[] = [];
+  let section: QifSection | null = null;
+  let accountName = '';
+  let inAccountList = false;
+  let record: Record<string, string> = {};
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      const header = line.slice(1).toLowerCase();
+      record = {};
+      if (header === 'account') {
+        inAccountList = true;
+        section = null;
+      } else if (header.startsWith('type:')) {
+        inAccountList = false;
+        const type = header.slice(5).trim();
+        // Investment, category and memorized lists are not register transactions
+        section = REGISTER_KINDS[type] ? { type, accountName, records: [] } : null;
+        if (section) sections.push(section);
+      }
+      return;
+    }
+
+    if (line === '^') {
+      if (inAccountList) {
+        accountName = record.N || accountName;
+      } else if (section) {
+        section.records.push({
+          date: record.D || '',
+          amount: record.T || record.U || '',
+          payee: record.P || '',
+          memo: record.M || '',
+          category: record.L || '',
+        });
+      }
+      record = {};
+      return;
+    }
+
+    const code = line[0];
+    // Split lines (S, E, $) repeat within a record; the first value is kept
+    if (record[code] === undefined) record[code] = line.slice(1).trim();
+  });
+
+  return sections;
+}
+
+/**
+ * Every bank, cash and card register in a QIF file
+ */
+export function parseQif(text: string): BankStatement[] {
+  const statements = splitSections(text)
+    .filter(section => section.records.length > 0)
+    .map(section => {
+      const dates = section.records.map(r => normalizeQifDate(r.date));
+      const format = QIF_DATE_FORMATS.find(f => dates.every(date => parseCsvDate(date, f) !== null));
+
+      const entries: StatementEntry[] = [];
+      section.records.forEach((record, i) => {
+        const posted = format ? parseCsvDate(dates[i], format) : null;
+        const amount = parseCsvAmount(record.amount);
+        if (!posted || amount === null) return;
+        entries.push({
+          id: '',
+          posted,
+          amount,
+          name: record.payee,
+          memo: record.memo,
+          category: qifCategory(record.category),
+        });
+      });
+
+      const days = entries.map(e => e.posted).sort();
+      return {
+        format: 'qif' as const,
+        // QIF carries no account numbers, so the account is chosen on import
+        accountKey: '',
+        accountName: section.accountName || 'Quicken import',
+        accountKind: REGISTER_KINDS[section.type],
+        currency: '',
+        startDate: days[0] || null,
+        endDate: days[days.length - 1] || null,
+        entries,
+        ledgerBalance: null,
+      };
+    })
+    .filter(statement => statement.entries.length > 0);
+
+  if (statements.length === 0) {
+    throw new Error('The QIF file has no bank, cash or card transactions');
+  }
+  return statements;
+}
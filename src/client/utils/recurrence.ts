@@ -0,0 +1,229 @@
+/**
+ * Recurrence rules for SafePay AI
+ * Expands daily, weekly, monthly, yearly and nth-weekday rules into dates
+ */
+
+import { PendingOccurrence, RecurrenceRule, RecurringTransaction, Transaction } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' };
+
+/**
+ * Upper bound on generated occurrences, so a bad rule cannot hang the app
+ */
+const MAX_OCCURRENCES = 1000;
+
+function parseDay(date: string): { y: number; m: number; d: number } {
+  const [y, m, d] = date.split('-').map(Number);
+  return { y, m: m - 1, d };
+}
+
+function formatDay(y: number, m: number, d: number): string {
+  const date = new Date(Date.UTC(y, m, d));
+  return date.toISOString().split('T')[0];
+}
+
+function daysInMonth(y: number, m: number): number {
+  return new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+}
+
+function addDays(date: string, days: number): string {
+  const { y, m, d } = parseDay(date);
+  return new Date(Date.UTC(y, m, d) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD)
+ */
+export function toDateKey(date: Date): string {
+  return formatDay(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Date of the nth weekday of a month; nth = -1 is the last one
+ */
+export function nthWeekdayOfMonth(y: number, m: number, weekday: number, nth: number): string {
+  if (nth === -1) {
+    const last = daysInMonth(y, m);
+    const lastWeekday = new Date(Date.UTC(y, m, last)).getUTCDay();
+    return formatDay(y, m, last - ((lastWeekday - weekday + 7) % 7));
+  }
+  const firstWeekday = new Date(Date.UTC(y, m, 1)).getUTCDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+  return formatDay(y, m, day);
+}
+
+/**
+ * The k-th period of a rule, before start/end filtering
+ */
+function occurrenceAt(rule: RecurrenceRule, k: number): string {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const start = parseDay(rule.startDate);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(rule.startDate, k * interval);
+    case 'weekly':
+      return addDays(rule.startDate, k * interval * 7);
+    case 'monthly': {
+      const month = start.m + k * interval;
+      const y = start.y + Math.floor(month / 12);
+      const m = month % 12;
+      return formatDay(y, m, Math.min(start.d, daysInMonth(y, m)));
+    }
+    case 'yearly': {
+      const y = start.y + k * interval;
+      return formatDay(y, start.m, Math.min(start.d, daysInMonth(y, start.m)));
+    }
+    case 'nth-weekday': {
+      const month = start.m + k * interval;
+      const weekday = rule.weekday ?? new Date(Date.UTC(start.y, start.m, start.d)).getUTCDay();
+      const nth = rule.nth ?? Math.min(4, Math.ceil(start.d / 7));
+      return nthWeekdayOfMonth(start.y + Math.floor(month / 12), month % 12, weekday, nth);
+    }
+    default:
+      throw new Error(`Unknown recurrence frequency: ${rule.frequency}`);
+  }
+}
+
+/**
+ * Occurrence dates after `after` (exclusive) up to `until` (inclusive)
+ */
+export function occurrencesBetween(
+  rule: RecurrenceRule,
+  after: string | undefined,
+  until: string
+): string[] {
+  const last = rule.endDate && rule.endDate < until ? rule.endDate : until;
+  const dates: string[] = [];
+
+  for (let k = 0; k < MAX_OCCURRENCES * 10 && dates.length < MAX_OCCURRENCES; k++) {
+    const date = occurrenceAt(rule, k);
+    if (date > last) break;
+    if (date < rule.startDate) continue;
+    if (after && date <= after) continue;
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * First occurrence strictly after a date, or null once the rule has ended
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: string): string | null {
+  for (let k = 0; k < MAX_OCCURRENCES * 10; k++) {
+    const date = occurrenceAt(rule, k);
+    if (rule.endDate && date > rule.endDate) return null;
+    if (date >= rule.startDate && date > after) return date;
+  }
+  return null;
+}
+
+/**
+ * Human-readable summary, e.g. "Monthly on day 1" or "2nd Tuesday every month"
+ */
+export function describeRule(rule: RecurrenceRule): string {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const every = (unit: string) => (interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`);
+  const start = parseDay(rule.startDate);
+  let text: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      text = interval === 1 ? 'Daily' : `Every ${interval} days`;
+      break;
+    case 'weekly':
+      text = `${interval === 1 ? 'Weekly' : `Every ${interval} weeks`} on ${WEEKDAYS[new Date(Date.UTC(start.y, start.m, start.d)).getUTCDay()]}`;
+      break;
+    case 'monthly':
+      text = `${interval === 1 ? 'Monthly' : `Every ${interval} months`} on day ${start.d}`;
+      break;
+    case 'yearly':
+      text = `${interval === 1 ? 'Yearly' : `Every ${interval} years`} on ${rule.startDate.slice(5)}`;
+      break;
+    case 'nth-weekday': {
+      const weekday = rule.weekday ?? new Date(Date.UTC(start.y, start.m, start.d)).getUTCDay();
+      const nth = rule.nth ?? Math.min(4, Math.ceil(start.d / 7));
+      text = `${ORDINALS[nth] || `${nth}th`} ${WEEKDAYS[weekday]} ${every('month')}`;
+      break;
+    }
+    default:
+      text = rule.frequency;
+  }
+
+  return rule.endDate ? `${text} until ${rule.endDate}` : text;
+}
+
+/**
+ * Check a rule before saving it
+ */
+export function validateRule(rule: RecurrenceRule): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(rule.startDate)) {
+    return 'Please choose a start date';
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    return 'Interval must be a whole number of at least 1';
+  }
+  if (rule.endDate && rule.endDate < rule.startDate) {
+    return 'End date must be after the start date';
+  }
+  if (rule.frequency === 'nth-weekday') {
+    if (rule.weekday !== undefined && (rule.weekday < 0 || rule.weekday > 6)) {
+      return 'Invalid weekday';
+    }
+    if (rule.nth !== undefined && ![1, 2, 3, 4, -1].includes(rule.nth)) {
+      return 'Week of month must be 1-4 or last';
+    }
+  }
+  return null;
+}
+
+/**
+ * Queue every occurrence that has come due since each rule was last checked.
+ * Returns updated rules and queue; existing pending entries are kept as-is.
+ */
+export function materializeDueOccurrences(
+  recurring: RecurringTransaction[],
+  pending: PendingOccurrence[],
+  today: string
+): { recurring: RecurringTransaction[]; pending: PendingOccurrence[]; created: PendingOccurrence[] } {
+  const existing = new Set(pending.map(p => p.id));
+  const created: PendingOccurrence[] = [];
+
+  const updated = recurring.map(r => {
+    if (r.paused) return r;
+
+    occurrencesBetween(r.rule, r.lastGenerated, today).forEach(date => {
+      const id = `${r.id}:${date}`;
+      if (!existing.has(id)) {
+        existing.add(id);
+        created.push({ id, recurringId: r.id, date });
+      }
+    });
+
+    return { ...r, lastGenerated: today };
+  });
+
+  return {
+    recurring: updated,
+    pending: [...pending, ...created].sort((a, b) => a.date.localeCompare(b.date)),
+    created,
+  };
+}
+
+/**
+ * Transaction for a confirmed occurrence, dated at local noon on its day
+ */
+export function occurrenceToTransaction(
+  recurring: RecurringTransaction,
+  occurrence: PendingOccurrence
+): Omit<Transaction, 'id' | 'proof'> {
+  const { y, m, d } = parseDay(occurrence.date);
+  return {
+    ...recurring.template,
+    timestamp: new Date(y, m, d, 12).toISOString(),
+    recurringId: recurring.id,
+  };
+}
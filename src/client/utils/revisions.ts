@@ -0,0 +1,183 @@
+/**
+ * Revision utilities for SafePay AI
+ * Append-only, field-level edit history of transactions
+ */
+
+import { FieldChange, Transaction } from '../types';
+import { formatDate } from './analytics';
+
+/** Fields whose edits are recorded; the id, proof and log itself are not */
+export const AUDITED_FIELDS: Array<keyof Transaction> = [
+  'amount',
+  'currency',
+  'type',
+  'category',
+  'note',
+  'timestamp',
+  'accountId',
+  'toAccountId',
+  'toAmount',
+  'splits',
+  'recurringId',
+  'tags',
+  'attachments',
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  amount: 'Amount',
+  currency: 'Currency',
+  type: 'Type',
+  category: 'Category',
+  note: 'Note',
+  timestamp: 'Date',
+  accountId: 'Account',
+  toAccountId: 'Destination account',
+  toAmount: 'Destination amount',
+  splits: 'Split lines',
+  recurringId: 'Recurring rule',
+  tags: 'Tags',
+  attachments: 'Attachments',
+};
+
+function snapshot<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Audited fields that differ between two versions of a transaction
+ */
+export function diffTransactions(before: Transaction, after: Transaction): FieldChange[] {
+  const changes: FieldChange[] = [];
+  AUDITED_FIELDS.forEach(field => {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes.push({ field, from: snapshot(before[field]), to: snapshot(after[field]) });
+    }
+  });
+  return changes;
+}
+
+export function currentRevision(transaction: Transaction): number {
+  const revisions = transaction.revisions || [];
+  return revisions.length > 0 ? revisions[revisions.length - 1].revision : 0;
+}
+
+/**
+ * Save `after` over `before`, appending a revision when audited fields changed.
+ * The log always comes from `before`, so an edit cannot rewrite its own history.
+ */
+export function recordRevision(
+  before: Transaction,
+  after: Transaction,
+  editedBy?: string,
+  editedAt: string = new Date().toISOString()
+): Transaction {
+  const changes = diffTransactions(before, after);
+  const revisions = [...(before.revisions || [])];
+  if (changes.length > 0) {
+    revisions.push({
+      revision: currentRevision(before) + 1,
+      editedAt,
+      ...(editedBy ? { editedBy } : {}),
+      changes,
+    });
+  }
+
+  const result: Transaction = { ...after };
+  delete result.revisions;
+  if (revisions.length > 0) {
+    result.revisions = revisions;
+  }
+  return result;
+}
+
+/**
+ * Record revisions for a batch rewrite, matching transactions by id
+ */
+export function recordRevisions(before: Transaction[], after: Transaction[], editedBy?: string): Transaction[] {
+  const previous = new Map(before.map(t => [t.id, t] as const));
+  const editedAt = new Date().toISOString();
+  return after.map(t => {
+    const original = previous.get(t.id);
+    return original ? recordRevision(original, t, editedBy, editedAt) : t;
+  });
+}
+
+/**
+ * The transaction as it was at an earlier revision, rebuilt by undoing later edits
+ */
+export function transactionAtRevision(transaction: Transaction, revision: number): Transaction {
+  const revisions = transaction.revisions || [];
+  const result: Transaction = { ...transaction };
+  // Recorded values are typed by field name only
+  const fields: Partial<Record<keyof Transaction, unknown>> = result;
+
+  revisions
+    .filter(r => r.revision > revision)
+    .reverse()
+    .forEach(r => {
+      r.changes.forEach(change => {
+        const field = change.field as keyof Transaction;
+        if (change.from === undefined) {
+          delete fields[field];
+        } else {
+          fields[field] = snapshot(change.from);
+        }
+      });
+    });
+
+  const kept = revisions.filter(r => r.revision <= revision);
+  delete result.revisions;
+  if (kept.length > 0) {
+    result.revisions = kept;
+  }
+  return result;
+}
+
+/**
+ * Revision the proof was computed from, or null when not anchored.
+ * Proofs from before revisions were tracked are matched by their timestamp.
+ */
+export function anchoredRevision(transaction: Transaction): number | null {
+  const proof = transaction.proof;
+  if (!proof?.txHash) return null;
+  if (proof.revision !== undefined) return proof.revision;
+  if (!proof.timestamp) return 0;
+
+  const anchoredAt = proof.timestamp;
+  const earlier = (transaction.revisions || []).filter(r => r.editedAt <= anchoredAt);
+  return earlier.length > 0 ? earlier[earlier.length - 1].revision : 0;
+}
+
+export function isModifiedAfterAnchor(transaction: Transaction): boolean {
+  const anchored = anchoredRevision(transaction);
+  return anchored !== null && currentRevision(transaction) > anchored;
+}
+
+export function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] || field;
+}
+
+/**
+ * Human-readable value of a recorded field, "—" when it was empty
+ */
+export function formatChangeValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    switch (field) {
+      case 'tags':
+        return value.map(tag => `#${tag}`).join(' ');
+      case 'attachments':
+        return value.map(a => a.name).join(', ');
+      case 'splits':
+        return value.map(s => `${s.category} ${s.amount}`).join('; ');
+    }
+    return JSON.stringify(value);
+  }
+
+  if (field === 'timestamp' && typeof value === 'string') {
+    return formatDate(value, 'long');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -69,3 +69,19 @@ export function sanitizeNote(note: string): string {
   return sanitizeString(note.trim().slice(0, 500));
 }
 
+
+/**
+ * Clean text that is rendered as text rather than HTML: markup and control
+ * characters are dropped but nothing is escaped, so "Food > Coffee" and
+ * "AT&T" survive a round trip
+ */
+export function sanitizeText(input: string, maxLength = 500): string {
+  if (typeof input !== 'string') {
+    return '';
+  }
+  return input
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, '')
+    .trim()
+    .slice(0, maxLength);
+}
@@ -0,0 +1,82 @@
+/**
+ * Saved view utilities for SafePay AI
+ * Named HistoryPage setups: a transaction query plus the visible columns
+ */
+
+import { HistoryColumn, SavedView } from '../types';
+
+export const HISTORY_COLUMNS: Array<{ id: HistoryColumn; label: string }> = [
+  { id: 'date', label: 'Date' },
+  { id: 'type', label: 'Type' },
+  { id: 'category', label: 'Category' },
+  { id: 'note', label: 'Note' },
+  { id: 'amount', label: 'Amount' },
+  { id: 'balance', label: 'Balance' },
+  { id: 'proof', label: 'Proof' },
+];
+
+export const DEFAULT_COLUMNS: HistoryColumn[] = HISTORY_COLUMNS.map(c => c.id);
+
+/**
+ * URL slug of a view name: "Business meals" -> "business-meals"
+ */
+export function viewSlug(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Validate a view name before saving it
+ */
+export function validateViewName(name: string, views: SavedView[], editingId?: string): string | null {
+  if (!name.trim()) {
+    return 'Give the view a name';
+  }
+  if (!viewSlug(name)) {
+    return 'View names need at least one letter or digit';
+  }
+  const taken = views.some(v => v.id !== editingId && v.name.trim().toLowerCase() === name.trim().toLowerCase());
+  return taken ? `A view named "${name.trim()}" already exists` : null;
+}
+
+export function createSavedView(
+  name: string,
+  query: string,
+  columns: HistoryColumn[],
+  views: SavedView[]
+): SavedView {
+  const base = viewSlug(name);
+  let id = base;
+  for (let n = 2; views.some(v => v.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return {
+    id,
+    name: name.trim(),
+    query: query.trim(),
+    columns,
+    pinned: false,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function viewHash(id: string): string {
+  return `#/history?view=${encodeURIComponent(id)}`;
+}
+
+/**
+ * View id in a hash like "#/history?view=business-meals", or null
+ */
+export function viewIdFromHash(hash: string): string | null {
+  const queryStart = hash.indexOf('?');
+  if (queryStart === -1) return null;
+  const match = hash
+    .slice(queryStart + 1)
+    .split('&')
+    .map(pair => pair.split('='))
+    .find(([key]) => key === 'view');
+  return match && match[1] ? decodeURIComponent(match[1]) : null;
+}
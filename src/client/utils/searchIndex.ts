@@ -0,0 +1,267 @@
+/**
+ * Full-text search index for SafePay AI
+ * Incremental in-memory inverted index with prefix and fuzzy term matching
+ */
+
+export type SearchField = 'merchant' | 'category' | 'tag' | 'note' | 'amount';
+
+/** Terms of one document, by field */
+export type SearchDocument = Partial<Record<SearchField, string[]>>;
+
+export interface SearchIndex {
+  /** term -> document id -> fields the term occurs in */
+  postings: Map<string, Map<string, Set<SearchField>>>;
+  /** document id -> its terms, so a document can be removed or replaced */
+  documents: Map<string, string[]>;
+  /** Vocabulary in sorted order for prefix lookups; rebuilt lazily after changes */
+  sortedTerms: string[] | null;
+}
+
+export interface SearchQueryToken {
+  term: string;
+  /** Restricts the token to one field, e.g. "#trip" only matches tags */
+  field?: SearchField;
+}
+
+export interface SearchResult {
+  /** Relevance of every matching document; documents missing any token are left out */
+  scores: Map<string, number>;
+  /** Indexed terms that matched, for highlighting */
+  terms: string[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  merchant: 4,
+  category: 3,
+  tag: 3,
+  note: 2,
+  amount: 2,
+};
+
+const EXACT = 1;
+const PREFIX = 0.7;
+const FUZZY = 0.4;
+
+const TOKEN_PATTERN = /[a-z0-9À-ɏ]+(?:[.\-_][a-z0-9À-ɏ]+)*/g;
+
+export function createSearchIndex(): SearchIndex {
+  return { postings: new Map(), documents: new Map(), sortedTerms: null };
+}
+
+/**
+ * Lowercase terms of a text. "client-acme" and "12.50" stay whole and
+ * compound words are also indexed by their parts.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  (text.toLowerCase().match(TOKEN_PATTERN) || []).forEach(word => {
+    terms.push(word);
+    const parts = word.split(/[.\-_]/);
+    if (parts.length > 1 && !/^\d+\.\d+$/.test(word)) {
+      terms.push(...parts);
+    }
+  });
+  return terms;
+}
+
+/**
+ * Split a query into tokens; "#tag" searches tags only
+ */
+export function parseQuery(query: string): SearchQueryToken[] {
+  const tokens: SearchQueryToken[] = [];
+  query.split(/\s+/).forEach(word => {
+    const tagOnly = word.startsWith('#');
+    const words = (word.toLowerCase().match(TOKEN_PATTERN) || []);
+    words.forEach(term => tokens.push(tagOnly ? { term, field: 'tag' } : { term }));
+  });
+  return tokens;
+}
+
+/**
+ * Add a document, replacing any earlier version with the same id
+ */
+export function addDocument(index: SearchIndex, id: string, document: SearchDocument): void {
+  removeDocument(index, id);
+
+  const terms = new Set<string>();
+  (Object.keys(document) as SearchField[]).forEach(field => {
+    (document[field] || []).forEach(term => {
+      let docs = index.postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        index.postings.set(term, docs);
+        index.sortedTerms = null;
+      }
+      const fields = docs.get(id) || new Set<SearchField>();
+      fields.add(field);
+      docs.set(id, fields);
+      terms.add(term);
+    });
+  });
+  index.documents.set(id, Array.from(terms));
+}
+
+export function removeDocument(index: SearchIndex, id: string): void {
+  const terms = index.documents.get(id);
+  if (!terms) return;
+
+  terms.forEach(term => {
+    const docs = index.postings.get(term);
+    if (!docs) return;
+    docs.delete(id);
+    if (docs.size === 0) {
+      index.postings.delete(term);
+      index.sortedTerms = null;
+    }
+  });
+  index.documents.delete(id);
+}
+
+export function clearSearchIndex(index: SearchIndex): void {
+  index.postings.clear();
+  index.documents.clear();
+  index.sortedTerms = null;
+}
+
+function sortedTerms(index: SearchIndex): string[] {
+  if (!index.sortedTerms) {
+    index.sortedTerms = Array.from(index.postings.keys()).sort();
+  }
+  return index.sortedTerms;
+}
+
+/**
+ * Terms starting with a prefix, found by binary search over the sorted vocabulary
+ */
+function termsWithPrefix(index: SearchIndex, prefix: string): string[] {
+  const terms = sortedTerms(index);
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (terms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+    matches.push(terms[i]);
+  }
+  return matches;
+}
+
+/**
+ * Edit distance between two terms, or maxDistance + 1 once it is exceeded
+ */
+export function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Typos tolerated for a query term of this length */
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Indexed terms matching a query term, with how closely they match
+ */
+function matchingTerms(index: SearchIndex, term: string): Map<string, number> {
+  const matches = new Map<string, number>();
+  termsWithPrefix(index, term).forEach(candidate => {
+    matches.set(candidate, candidate === term ? EXACT : PREFIX);
+  });
+
+  const typos = allowedTypos(term);
+  if (typos > 0) {
+    sortedTerms(index).forEach(candidate => {
+      if (matches.has(candidate) || /^\d/.test(candidate)) return;
+      if (boundedEditDistance(term, candidate, typos) <= typos) {
+        matches.set(candidate, FUZZY);
+      }
+    });
+  }
+  return matches;
+}
+
+/**
+ * Documents matching every query token, scored by field weight and match quality
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchResult {
+  const tokens = parseQuery(query);
+  const matchedTerms = new Set<string>();
+  let scores: Map<string, number> | null = null;
+
+  for (const token of tokens) {
+    const tokenScores = new Map<string, number>();
+    matchingTerms(index, token.term).forEach((quality, term) => {
+      index.postings.get(term)!.forEach((fields, id) => {
+        fields.forEach(field => {
+          if (token.field && token.field !== field) return;
+          const score = FIELD_WEIGHTS[field] * quality;
+          tokenScores.set(id, Math.max(tokenScores.get(id) || 0, score));
+          matchedTerms.add(term);
+        });
+      });
+    });
+
+    const combined = new Map<string, number>();
+    tokenScores.forEach((score, id) => {
+      if (scores === null) {
+        combined.set(id, score);
+      } else if (scores.has(id)) {
+        combined.set(id, scores.get(id)! + score);
+      }
+    });
+    scores = combined;
+  }
+
+  return { scores: scores || new Map(), terms: Array.from(matchedTerms) };
+}
+
+/**
+ * Split text into plain and matching segments for display
+ */
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+  if (!text || terms.length === 0) return text ? [{ text, match: false }] : [];
+
+  const wanted = new Set(terms);
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'gi');
+  let found: RegExpExecArray | null;
+
+  while ((found = pattern.exec(text)) !== null) {
+    const word = found[0];
+    if (!tokenize(word).some(term => wanted.has(term))) continue;
+    if (found.index > last) {
+      segments.push({ text: text.slice(last, found.index), match: false });
+    }
+    segments.push({ text: word, match: true });
+    last = found.index + word.length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+  return segments;
+}
@@ -0,0 +1,77 @@
+/**
+ * Split transaction utilities for SafePay AI
+ * A split transaction carries several category lines that add up to its amount
+ */
+
+import { Transaction, TransactionSplit } from '../types';
+
+/**
+ * Category shown on the parent of a split transaction
+ */
+export const SPLIT_CATEGORY = 'Split';
+
+/**
+ * Largest rounding difference tolerated between the lines and the total
+ */
+const SPLIT_TOLERANCE = 0.005;
+
+export function hasSplits(transaction: Pick<Transaction, 'splits'>): boolean {
+  return Array.isArray(transaction.splits) && transaction.splits.length > 0;
+}
+
+export function splitsTotal(splits: TransactionSplit[]): number {
+  return splits.reduce((sum, s) => sum + Math.abs(Number(s.amount) || 0), 0);
+}
+
+/**
+ * Check that split lines are complete and add up to the total
+ */
+export function validateSplits(total: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < 2) {
+    return 'A split needs at least two lines';
+  }
+  if (splits.some(s => !s.category.trim())) {
+    return 'Every split line needs a category';
+  }
+  if (splits.some(s => !isFinite(s.amount) || s.amount <= 0)) {
+    return 'Every split line needs an amount greater than 0';
+  }
+  const difference = Math.abs(total) - splitsTotal(splits);
+  if (Math.abs(difference) > SPLIT_TOLERANCE) {
+    return `Split lines must add up to the total (${difference > 0 ? 'remaining' : 'over by'} ${Math.abs(difference).toFixed(2)})`;
+  }
+  return null;
+}
+
+/**
+ * One transaction per split line, inheriting everything but category, amount and note.
+ * Transactions without splits are returned as-is.
+ */
+export function expandSplits(transaction: Transaction): Transaction[] {
+  if (!hasSplits(transaction)) {
+    return [transaction];
+  }
+  return transaction.splits!.map(split => ({
+    ...transaction,
+    category: split.category,
+    amount: Math.abs(split.amount),
+    note: split.note || transaction.note,
+    splits: undefined,
+  }));
+}
+
+/**
+ * Expand every split transaction into its lines
+ */
+export function flattenSplits(transactions: Transaction[]): Transaction[] {
+  return transactions.reduce<Transaction[]>((lines, t) => lines.concat(expandSplits(t)), []);
+}
+
+/**
+ * Categories a transaction is counted under
+ */
+export function transactionCategories(transaction: Pick<Transaction, 'category' | 'splits'>): string[] {
+  return hasSplits(transaction)
+    ? transaction.splits!.map(s => s.category)
+    : [transaction.category];
+}
@@ -0,0 +1,215 @@
+/**
+ * Spreadsheet export for SafePay AI
+ * One workbook with transactions, category totals, monthly trends, budgets and the tax report
+ */
+
+import { Account, BudgetAlert, CurrencyContext, Transaction } from '../types';
+import { calculateCategoryStats, calculateTrends } from './analytics';
+import { calculateBudgetStatus } from './budget';
+import { accountName } from './accounts';
+import { baseAmount, transactionCurrency } from './currency';
+import { formatTags } from './tags';
+import { generateTaxReport } from '../ai/tax/taxAssistant';
+import { createWorkbook, XlsxSheet } from './xlsx';
+
+export interface SpreadsheetExportInput {
+  transactions: Transaction[];
+  accounts: Account[];
+  budgets: Record<string, number>;
+  currency: CurrencyContext;
+  /** Year of the tax sheet; defaults to the year of the newest transaction */
+  taxYear?: number;
+  now?: Date;
+}
+
+const BUDGET_STATUS_LABELS: Record<BudgetAlert['status'], string> = {
+  'on-track': 'On track',
+  warning: 'Near limit',
+  exceeded: 'Over budget',
+};
+
+/**
+ * Year of the newest transaction, or the current year when there are none
+ */
+export function latestTaxYear(transactions: Transaction[], now: Date = new Date()): number {
+  const years = transactions
+    .map(t => new Date(t.timestamp).getFullYear())
+    .filter(year => !isNaN(year));
+  return years.length > 0 ? Math.max(...years) : now.getFullYear();
+}
+
+function transactionsSheet(input: SpreadsheetExportInput): XlsxSheet {
+  const { accounts, currency } = input;
+  return {
+    name: 'Transactions',
+    columns: [
+      { header: 'ID', type: 'text', width: 18 },
+      { header: 'Date', type: 'datetime' },
+      { header: 'Type', type: 'text', width: 10 },
+      { header: 'Category', type: 'text' },
+      { header: 'Amount', type: 'money' },
+      { header: 'Currency', type: 'text', width: 10 },
+      { header: `Amount (${currency.baseCurrency})`, type: 'money' },
+      { header: 'Account', type: 'text', width: 18 },
+      { header: 'To Account', type: 'text', width: 18 },
+      { header: 'Note', type: 'text', width: 32 },
+      { header: 'Tags', type: 'text' },
+      { header: 'Splits', type: 'text', width: 32 },
+      { header: 'Attachments', type: 'text' },
+      { header: 'Proof Hash', type: 'text', width: 68 },
+      { header: 'Proof Transaction', type: 'text', width: 68 },
+      { header: 'Chain', type: 'text', width: 14 },
+      { header: 'Proof Verified', type: 'boolean', width: 14 },
+      { header: 'External ID', type: 'text' },
+    ],
+    rows: input.transactions.map(t => [
+      String(t.id),
+      new Date(t.timestamp),
+      t.type,
+      t.category,
+      Math.abs(t.amount),
+      transactionCurrency(t),
+      t.type === 'transfer' ? null : baseAmount(t, currency),
+      t.accountId ? accountName(accounts, t.accountId) : null,
+      t.toAccountId ? accountName(accounts, t.toAccountId) : null,
+      t.note,
+      formatTags(t.tags),
+      (t.splits || []).map(s => `${s.category}: ${s.amount}${s.note ? ` (${s.note})` : ''}`).join('; '),
+      (t.attachments || []).map(a => a.name).join('; '),
+      t.proof?.hash,
+      t.proof?.txHash,
+      t.proof?.chain,
+      t.proof ? !!t.proof.verified : null,
+      t.externalId,
+    ]),
+  };
+}
+
+function categoriesSheet(input: SpreadsheetExportInput): XlsxSheet {
+  const stats = calculateCategoryStats(input.transactions, input.currency);
+  return {
+    name: 'Categories',
+    columns: [
+      { header: 'Category', type: 'text', width: 32 },
+      { header: 'Transactions', type: 'integer', width: 14 },
+      { header: 'Share', type: 'percent' },
+      { header: `Spent (${input.currency.baseCurrency})`, type: 'money' },
+    ],
+    rows: stats.map(stat => [stat.name, stat.count, stat.percentage / 100, stat.value]),
+    footer: [[
+      'Total',
+      stats.reduce((sum, stat) => sum + stat.count, 0),
+      stats.length > 0 ? 1 : null,
+      stats.reduce((sum, stat) => sum + stat.value, 0),
+    ]],
+  };
+}
+
+function trendsSheet(input: SpreadsheetExportInput): XlsxSheet {
+  const trends = calculateTrends(input.transactions, 'monthly', input.currency);
+  const base = input.currency.baseCurrency;
+  return {
+    name: 'Monthly Trends',
+    columns: [
+      { header: 'Month', type: 'month' },
+      { header: `Income (${base})`, type: 'money' },
+      { header: `Expenses (${base})`, type: 'money' },
+      { header: `Net (${base})`, type: 'money' },
+    ],
+    rows: trends.map(trend => {
+      const [year, month] = trend.period.split('-').map(Number);
+      return [new Date(year, month - 1, 1), trend.income, trend.expense, trend.net];
+    }),
+    footer: [[
+      'Total',
+      trends.reduce((sum, trend) => sum + trend.income, 0),
+      trends.reduce((sum, trend) => sum + trend.expense, 0),
+      trends.reduce((sum, trend) => sum + trend.net, 0),
+    ]],
+  };
+}
+
+function budgetsSheet(input: SpreadsheetExportInput): XlsxSheet {
+  const statuses = Object.entries(input.budgets)
+    .map(([category, amount]) => calculateBudgetStatus(category, amount, input.transactions, 'monthly', input.currency))
+    .filter((status): status is BudgetAlert => status !== null);
+  const base = input.currency.baseCurrency;
+  return {
+    name: 'Budgets',
+    columns: [
+      { header: 'Category', type: 'text', width: 32 },
+      { header: `Monthly Budget (${base})`, type: 'money', width: 22 },
+      { header: `Spent This Month (${base})`, type: 'money', width: 24 },
+      { header: 'Used', type: 'percent' },
+      { header: 'Status', type: 'text', width: 14 },
+    ],
+    rows: statuses.map(status => [
+      status.category,
+      status.budget,
+      status.spent,
+      status.percentage / 100,
+      BUDGET_STATUS_LABELS[status.status],
+    ]),
+  };
+}
+
+function taxSheet(input: SpreadsheetExportInput): XlsxSheet {
+  const taxYear = input.taxYear ?? latestTaxYear(input.transactions, input.now);
+  const report = generateTaxReport(input.transactions, taxYear);
+  const rate = report.totalDeductions > 0 ? report.potentialTaxSavings / report.totalDeductions : 0;
+  return {
+    name: `Tax ${taxYear}`,
+    columns: [
+      { header: 'Date', type: 'date' },
+      { header: 'Description', type: 'text', width: 32 },
+      { header: 'Category', type: 'text' },
+      { header: 'Amount', type: 'money' },
+      { header: 'Deductible Amount', type: 'money', width: 19 },
+      { header: 'Tax Category', type: 'text' },
+      { header: 'Confidence', type: 'percent', width: 12 },
+      { header: 'Documentation Needed', type: 'text', width: 32 },
+      { header: 'Attachments', type: 'text' },
+      { header: 'Potential Savings', type: 'money', width: 18 },
+    ],
+    rows: report.deductions.map(deduction => {
+      const deductible = Math.abs(deduction.transaction.amount) * (deduction.category.maxDeduction || 1);
+      return [
+        new Date(deduction.transaction.timestamp),
+        deduction.transaction.note,
+        deduction.transaction.category,
+        Math.abs(deduction.transaction.amount),
+        deductible,
+        deduction.category.name,
+        deduction.confidence,
+        deduction.documentationNeeded.join('; '),
+        deduction.attachments.map(a => a.name).join('; '),
+        deductible * rate,
+      ];
+    }),
+    footer: [
+      ['Total deductions', null, null, null, report.totalDeductions, null, null, null, null, report.potentialTaxSavings],
+      ['Total income', null, null, report.totalIncome],
+      ['Taxable income', null, null, report.taxableIncome],
+    ],
+  };
+}
+
+/**
+ * The sheets of an export, in workbook order
+ */
+export function buildExportSheets(input: SpreadsheetExportInput): XlsxSheet[] {
+  return [
+    transactionsSheet(input),
+    categoriesSheet(input),
+    trendsSheet(input),
+    budgetsSheet(input),
+    taxSheet(input),
+  ];
+}
+
+/**
+ * The export as .xlsx bytes
+ */
+export function exportSpreadsheet(input: SpreadsheetExportInput): Uint8Array<ArrayBuffer> {
+  return createWorkbook(buildExportSheets(input), { title: 'SafePay AI export', now: input.now });
+}
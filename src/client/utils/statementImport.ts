@@ -0,0 +1,237 @@
+/**
+ * Bank statement import pipeline for SafePay AI
+ * Format-neutral statements from the OFX, QIF, MT940 and CAMT.053 parsers,
+ * deduplicated by the bank's ids and checked against the bank's balance
+ */
+
+import { Account, AccountKind, Transaction } from '../types';
+import { accountDelta, createAccount } from './accounts';
+import { toDateKey } from './recurrence';
+import { parseOfx } from './ofxImport';
+import { parseQif } from './qifImport';
+import { parseMt940 } from './mt940Import';
+import { parseCamt053 } from './camtImport';
+
+export type StatementFormat = 'ofx' | 'qif' | 'mt940' | 'camt053';
+
+export interface StatementEntry {
+  /** Bank's id (FITID, reference); generated from the entry when the file has none */
+  id: string;
+  /** YYYY-MM-DD */
+  posted: string;
+  /** Signed: negative amounts are money going out */
+  amount: number;
+  name: string;
+  memo: string;
+  /** Category carried by the file, e.g. from Quicken */
+  category?: string;
+}
+
+export interface BankStatement {
+  format: StatementFormat;
+  /** Account number in the file, matched against Account.bankAccountId; empty when the file has none */
+  accountKey: string;
+  /** Name for an account created by the import */
+  accountName: string;
+  accountKind: AccountKind;
+  /** Empty when the file does not say */
+  currency: string;
+  startDate: string | null;
+  endDate: string | null;
+  entries: StatementEntry[];
+  /** Closing balance the bank reports */
+  ledgerBalance: { amount: number; asOf: string } | null;
+}
+
+export interface StatementReconciliation {
+  /** Balance the bank reports */
+  expected: number;
+  /** SafePay's balance for the account on the same day */
+  actual: number;
+  asOf: string;
+  matches: boolean;
+}
+
+export const STATEMENT_FORMATS: Record<StatementFormat, string> = {
+  ofx: 'OFX/QFX',
+  qif: 'QIF',
+  mt940: 'MT940',
+  camt053: 'CAMT.053',
+};
+
+/** File types offered by the importer's file picker */
+export const STATEMENT_FILE_TYPES = '.ofx,.qfx,.qif,.sta,.mt940,.940,.xml,.txt';
+
+/**
+ * Format of a statement file, judged by its content rather than its name
+ */
+export function detectStatementFormat(text: string): StatementFormat | null {
+  if (/<OFX>|OFXHEADER/i.test(text)) return 'ofx';
+  if (/camt\.053|<BkToCstmrStmt/.test(text)) return 'camt053';
+  if (/^\s*!(Type|Account|Option)/im.test(text)) return 'qif';
+  if (/^:(20|25|60[FM]|61):/m.test(text)) return 'mt940';
+  return null;
+}
+
+/**
+ * Give entries without a bank id one built from their day, amount and order,
+ * so importing the same file again finds them; repeated ids are dropped
+ */
+function uniqueEntries(entries: StatementEntry[]): StatementEntry[] {
+  const ordinals = new Map<string, number>();
+  const ids = new Set<string>();
+  const unique: StatementEntry[] = [];
+  entries.forEach(entry => {
+    let id = entry.id;
+    if (!id) {
+      const key = `${entry.posted}/${entry.amount.toFixed(2)}`;
+      const n = (ordinals.get(key) || 0) + 1;
+      ordinals.set(key, n);
+      id = `${key}/${n}`;
+    }
+    if (ids.has(id)) return;
+    ids.add(id);
+    unique.push({ ...entry, id });
+  });
+  return unique;
+}
+
+/**
+ * Combine statements for the same account, e.g. the daily statements of an MT940 file
+ */
+function mergeStatements(statements: BankStatement[]): BankStatement[] {
+  const merged: BankStatement[] = [];
+  statements.forEach(statement => {
+    const previous = statement.accountKey
+      ? merged.find(s => s.format === statement.format && s.accountKey === statement.accountKey)
+      : undefined;
+    if (!previous) {
+      merged.push({ ...statement, entries: [...statement.entries] });
+      return;
+    }
+    previous.entries.push(...statement.entries);
+    if (statement.startDate && (!previous.startDate || statement.startDate < previous.startDate)) {
+      previous.startDate = statement.startDate;
+    }
+    if (statement.endDate && (!previous.endDate || statement.endDate > previous.endDate)) {
+      previous.endDate = statement.endDate;
+    }
+    if (statement.ledgerBalance && (!previous.ledgerBalance || statement.ledgerBalance.asOf >= previous.ledgerBalance.asOf)) {
+      previous.ledgerBalance = statement.ledgerBalance;
+    }
+  });
+  return merged.map(statement => ({ ...statement, entries: uniqueEntries(statement.entries) }));
+}
+
+/**
+ * Every statement in a file of any supported format
+ */
+export function parseStatementFile(text: string): BankStatement[] {
+  const format = detectStatementFormat(text);
+  switch (format) {
+    case 'ofx':
+      return mergeStatements(parseOfx(text));
+    case 'qif':
+      return mergeStatements(parseQif(text));
+    case 'mt940':
+      return mergeStatements(parseMt940(text));
+    case 'camt053':
+      return mergeStatements(parseCamt053(text));
+    default:
+      throw new Error('Unrecognised statement; use an OFX, QFX, QIF, MT940 or CAMT.053 file');
+  }
+}
+
+/**
+ * Id stored on an imported transaction, e.g. "ofx:<account>:<FITID>".
+ * Files without an account number are keyed by the account they are imported into.
+ */
+export function statementExternalId(statement: BankStatement, entry: StatementEntry, accountId: string): string {
+  return `${statement.format}:${statement.accountKey || accountId}:${entry.id}`;
+}
+
+/**
+ * Statement entries not imported into the account before, judged by their ids
+ */
+export function newStatementEntries(
+  statement: BankStatement,
+  accountId: string,
+  existing: Transaction[]
+): StatementEntry[] {
+  const seen = new Set(existing.map(t => t.externalId).filter(Boolean));
+  return statement.entries.filter(entry => {
+    const id = statementExternalId(statement, entry, accountId);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+/**
+ * Transaction for a statement entry, dated at local noon so the day survives time zones
+ */
+export function statementEntryToTransaction(
+  statement: BankStatement,
+  entry: StatementEntry,
+  fields: { id: string; category: string; account: Account }
+): Transaction {
+  const [year, month, day] = entry.posted.split('-').map(Number);
+  const note = entry.memo && entry.memo !== entry.name ? `${entry.name} ${entry.memo}`.trim() : entry.name;
+  return {
+    id: fields.id,
+    amount: Math.abs(entry.amount),
+    currency: fields.account.currency,
+    type: entry.amount < 0 ? 'expense' : 'income',
+    category: fields.category,
+    note: note || undefined,
+    timestamp: new Date(year, month - 1, day, 12).toISOString(),
+    accountId: fields.account.id,
+    externalId: statementExternalId(statement, entry, fields.account.id),
+  };
+}
+
+export function findStatementAccount(accounts: Account[], statement: BankStatement): Account | null {
+  if (!statement.accountKey) return null;
+  return accounts.find(a => a.bankAccountId === statement.accountKey) || null;
+}
+
+/**
+ * New account for a statement, opened so its balance on the ledger date matches the bank
+ */
+export function accountForStatement(statement: BankStatement, fallbackCurrency: string): Account {
+  const ledger = statement.ledgerBalance;
+  const movement = ledger
+    ? statement.entries.filter(e => e.posted <= ledger.asOf).reduce((sum, e) => sum + e.amount, 0)
+    : 0;
+  const openingBalance = ledger ? Math.round((ledger.amount - movement) * 100) / 100 : 0;
+  const account = createAccount(
+    statement.accountName,
+    statement.accountKind,
+    statement.currency || fallbackCurrency,
+    openingBalance
+  );
+  return statement.accountKey ? { ...account, bankAccountId: statement.accountKey } : account;
+}
+
+/**
+ * Compare the account's balance on the ledger date with the bank's closing balance
+ */
+export function reconcileStatement(
+  statement: BankStatement,
+  account: Account,
+  transactions: Transaction[]
+): StatementReconciliation | null {
+  const ledger = statement.ledgerBalance;
+  if (!ledger) return null;
+
+  const actual = transactions
+    .filter(t => toDateKey(new Date(t.timestamp)) <= ledger.asOf)
+    .reduce((sum, t) => sum + accountDelta(t, account.id), account.openingBalance);
+  const rounded = Math.round(actual * 100) / 100;
+  return {
+    expected: ledger.amount,
+    actual: rounded,
+    asOf: ledger.asOf,
+    matches: Math.abs(rounded - ledger.amount) < 0.005,
+  };
+}
@@ -0,0 +1,515 @@
+/**
+ * Printable statements for SafePay AI
+ * Collects a period's summary, category totals, budgets, transactions and proofs,
+ * and lays them out as a PDF with the receipts optionally attached
+ */
+
+import { Attachment, BudgetAlert, CategoryStat, CurrencyContext, Transaction, TransactionProof } from '../types';
+import { calculateCategoryStats, calculateSummary, filterByDateRange, formatCurrency, formatDate } from './analytics';
+import { calculateBudgetStatusInRange } from './budget';
+import { findMissingRates, transactionCurrency } from './currency';
+import { formatFileSize } from './attachments';
+import { fitText, jpegInfo, PdfColor, PdfDocument, PdfFont } from './pdf';
+
+export interface StatementRange {
+  start: Date;
+  /** Last moment included, e.g. 23:59:59.999 on the final day */
+  end: Date;
+}
+
+export interface StatementProof {
+  transaction: Transaction;
+  hash: string;
+  chain?: string;
+  /** Block explorer page of the anchoring transaction; null until it is anchored */
+  url: string | null;
+}
+
+export interface Statement {
+  range: StatementRange;
+  generatedAt: Date;
+  baseCurrency: string;
+  /** Monthly budgets are scaled by this many months */
+  months: number;
+  /** Oldest first */
+  transactions: Transaction[];
+  summary: ReturnType<typeof calculateSummary>;
+  categories: CategoryStat[];
+  budgets: BudgetAlert[];
+  proofs: StatementProof[];
+  /** Currencies counted at face value because no rate to the base currency is known */
+  missingRates: string[];
+}
+
+export interface StatementOptions {
+  currency: CurrencyContext;
+  explorerUrl: (proof: TransactionProof) => string | null;
+  now?: Date;
+}
+
+export interface StatementAttachment {
+  transaction: Transaction;
+  attachment: Attachment;
+  /** Original file; null when it is not on this device */
+  content: Uint8Array | null;
+  /** JPEG rendering of an image attachment to print on the page */
+  jpeg?: Uint8Array | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVERAGE_MONTH_DAYS = 365.25 / 12;
+
+/**
+ * The calendar month containing a date, in local time
+ */
+export function monthRange(date: Date): StatementRange {
+  return {
+    start: new Date(date.getFullYear(), date.getMonth(), 1),
+    end: new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999),
+  };
+}
+
+/**
+ * Months that have transactions, newest first
+ */
+export function statementMonths(transactions: Transaction[]): StatementRange[] {
+  const keys = new Set<string>();
+  transactions.forEach(t => {
+    const date = new Date(t.timestamp);
+    if (!isNaN(date.getTime())) keys.add(`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`);
+  });
+  return Array.from(keys)
+    .sort((a, b) => b.localeCompare(a))
+    .map(key => {
+      const [year, month] = key.split('-').map(Number);
+      return monthRange(new Date(year, month - 1, 1));
+    });
+}
+
+function monthsSpanned(range: StatementRange): number | null {
+  const { start, end } = range;
+  const dayAfter = new Date(end.getTime() + 1);
+  const whole = start.getDate() === 1 && start.getHours() === 0 && start.getMinutes() === 0
+    && dayAfter.getDate() === 1 && dayAfter.getHours() === 0;
+  if (!whole) return null;
+  return (dayAfter.getFullYear() - start.getFullYear()) * 12 + dayAfter.getMonth() - start.getMonth();
+}
+
+/**
+ * Months a range covers: whole calendar months are counted, other ranges are prorated by day
+ */
+export function statementMonthCount(range: StatementRange): number {
+  const whole = monthsSpanned(range);
+  if (whole !== null) return whole;
+  const days = (range.end.getTime() - range.start.getTime() + 1) / DAY_MS;
+  return Math.round((days / AVERAGE_MONTH_DAYS) * 100) / 100;
+}
+
+/**
+ * "September 2025" for a calendar month, otherwise the first and last day
+ */
+export function describeStatementRange(range: StatementRange): string {
+  if (monthsSpanned(range) === 1) {
+    return range.start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  return `${formatDate(range.start)} – ${formatDate(range.end)}`;
+}
+
+export function statementFileName(range: StatementRange): string {
+  const day = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  const name = monthsSpanned(range) === 1
+    ? day(range.start).slice(0, 7)
+    : `${day(range.start)}_${day(range.end)}`;
+  return `safepay-statement-${name}.pdf`;
+}
+
+/**
+ * Figures for a statement period. Budgets are monthly amounts, so they are
+ * scaled to the length of the period before spending is compared with them.
+ */
+export function buildStatement(
+  transactions: Transaction[],
+  budgets: Record<string, number>,
+  range: StatementRange,
+  options: StatementOptions
+): Statement {
+  const { currency } = options;
+  const inRange = filterByDateRange(transactions, range.start, range.end)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const months = statementMonthCount(range);
+
+  return {
+    range,
+    generatedAt: options.now || new Date(),
+    baseCurrency: currency.baseCurrency,
+    months,
+    transactions: inRange,
+    summary: calculateSummary(inRange, currency),
+    categories: calculateCategoryStats(inRange, currency),
+    budgets: Object.entries(budgets)
+      .map(([category, amount]) =>
+        calculateBudgetStatusInRange(category, amount * months, inRange, range.start, range.end, currency))
+      .sort((a, b) => b.percentage - a.percentage),
+    proofs: inRange
+      .filter(t => t.proof?.hash)
+      .map(t => ({
+        transaction: t,
+        hash: t.proof!.hash,
+        chain: t.proof!.chain,
+        url: options.explorerUrl(t.proof!),
+      })),
+    missingRates: findMissingRates(inRange.filter(t => t.type !== 'transfer'), currency),
+  };
+}
+
+const MARGIN = 40;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 28;
+const ROW_HEIGHT = 14;
+const TABLE_FONT_SIZE = 8.5;
+const IMAGE_MAX_HEIGHT = 360;
+
+const TEXT: PdfColor = [0.1, 0.12, 0.16];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.8, 0.82, 0.85];
+const HEADER_FILL: PdfColor = [0.93, 0.95, 0.96];
+const GREEN: PdfColor = [0.13, 0.55, 0.33];
+const RED: PdfColor = [0.77, 0.19, 0.19];
+const AMBER: PdfColor = [0.8, 0.5, 0.1];
+const LINK: PdfColor = [0.12, 0.4, 0.75];
+
+interface Column {
+  label: string;
+  width: number;
+  align?: 'left' | 'right';
+  size?: number;
+}
+
+interface Cell {
+  text: string;
+  color?: PdfColor;
+  font?: PdfFont;
+  url?: string | null;
+}
+
+/**
+ * Flowing layout on top of PdfDocument: starts pages as content runs past the footer
+ */
+class StatementWriter {
+  y = 0;
+
+  constructor(readonly doc: PdfDocument) {
+    this.newPage();
+  }
+
+  get contentWidth(): number {
+    return this.doc.width - MARGIN * 2;
+  }
+
+  newPage(): void {
+    this.doc.addPage();
+    this.y = MARGIN + HEADER_HEIGHT;
+  }
+
+  /** Move to a new page unless `height` more points fit on this one */
+  ensure(height: number): boolean {
+    if (this.y + height <= this.doc.height - MARGIN - FOOTER_HEIGHT) return false;
+    this.newPage();
+    return true;
+  }
+
+  text(value: string, options: { size?: number; font?: PdfFont; color?: PdfColor; gap?: number } = {}): void {
+    const size = options.size || 10;
+    this.ensure(size + 4);
+    this.y += size;
+    this.doc.text(fitText(value, this.contentWidth, size, options.font), MARGIN, this.y, {
+      size,
+      font: options.font,
+      color: options.color || TEXT,
+    });
+    this.y += options.gap ?? 4;
+  }
+
+  section(title: string): void {
+    this.ensure(60);
+    this.y += 18;
+    this.text(title, { size: 13, font: 'bold', gap: 6 });
+    this.doc.line(MARGIN, this.y, MARGIN + this.contentWidth, this.y, { color: RULE });
+    this.y += 8;
+  }
+
+  private tableHeader(columns: Column[]): void {
+    this.doc.rect(MARGIN, this.y, this.contentWidth, ROW_HEIGHT + 2, HEADER_FILL);
+    let x = MARGIN;
+    columns.forEach(column => {
+      const textX = column.align === 'right' ? x + column.width - 4 : x + 4;
+      this.doc.text(column.label, textX, this.y + 11, {
+        size: TABLE_FONT_SIZE,
+        font: 'bold',
+        color: MUTED,
+        align: column.align,
+      });
+      x += column.width;
+    });
+    this.y += ROW_HEIGHT + 2;
+  }
+
+  table(columns: Column[], rows: Cell[][]): void {
+    this.ensure((ROW_HEIGHT + 2) * 2);
+    this.tableHeader(columns);
+
+    rows.forEach(row => {
+      if (this.ensure(ROW_HEIGHT)) this.tableHeader(columns);
+      let x = MARGIN;
+      row.forEach((cell, i) => {
+        const column = columns[i];
+        const size = column.size || TABLE_FONT_SIZE;
+        const value = fitText(cell.text, column.width - 8, size, cell.font);
+        const textX = column.align === 'right' ? x + column.width - 4 : x + 4;
+        this.doc.text(value, textX, this.y + 10, {
+          size,
+          font: cell.font,
+          color: cell.url ? LINK : cell.color || TEXT,
+          align: column.align,
+        });
+        if (cell.url) this.doc.link(x, this.y, column.width, ROW_HEIGHT, cell.url);
+        x += column.width;
+      });
+      this.y += ROW_HEIGHT;
+      this.doc.line(MARGIN, this.y, MARGIN + this.contentWidth, this.y, { width: 0.25, color: RULE });
+    });
+  }
+}
+
+/** Widths as shares of the content width */
+function columns(writer: StatementWriter, specs: Array<Omit<Column, 'width'> & { share: number }>): Column[] {
+  return specs.map(({ share, ...column }) => ({ ...column, width: writer.contentWidth * share }));
+}
+
+function describe(transaction: Transaction): string {
+  return transaction.note || transaction.category;
+}
+
+function signedAmount(transaction: Transaction): Cell {
+  const amount = formatCurrency(Math.abs(transaction.amount), transactionCurrency(transaction));
+  if (transaction.type === 'income') return { text: `+${amount}`, color: GREEN };
+  if (transaction.type === 'expense') return { text: `-${amount}` };
+  return { text: amount, color: MUTED };
+}
+
+const BUDGET_LABELS: Record<BudgetAlert['status'], Cell> = {
+  'on-track': { text: 'On track', color: GREEN },
+  warning: { text: 'Near limit', color: AMBER },
+  exceeded: { text: 'Over budget', color: RED, font: 'bold' },
+};
+
+function writeSummary(writer: StatementWriter, statement: Statement): void {
+  const base = statement.baseCurrency;
+  const { summary } = statement;
+  const figures: Array<[string, string, PdfColor]> = [
+    ['Income', formatCurrency(summary.totalIncome, base), GREEN],
+    ['Expenses', formatCurrency(summary.totalExpenses, base), RED],
+    ['Net', formatCurrency(summary.netBalance, base), summary.netBalance >= 0 ? GREEN : RED],
+    ['Transactions', String(summary.transactionCount), TEXT],
+  ];
+
+  writer.section('Summary');
+  const width = writer.contentWidth / figures.length;
+  writer.ensure(36);
+  figures.forEach(([label, value, color], i) => {
+    const x = MARGIN + width * i;
+    writer.doc.text(label, x, writer.y + 9, { size: 8.5, color: MUTED });
+    writer.doc.text(fitText(value, width - 8, 14, 'bold'), x, writer.y + 27, { size: 14, font: 'bold', color });
+  });
+  writer.y += 36;
+  writer.text(`Average transaction: ${formatCurrency(summary.averageTransaction, base)}. Transfers between accounts are not counted.`, {
+    size: 8.5,
+    color: MUTED,
+  });
+  if (statement.missingRates.length > 0) {
+    writer.text(
+      `No exchange rate to ${base} for ${statement.missingRates.join(', ')}; those amounts are counted as they are.`,
+      { size: 8.5, color: AMBER }
+    );
+  }
+}
+
+function writeCategories(writer: StatementWriter, statement: Statement): void {
+  writer.section('Spending by Category');
+  if (statement.categories.length === 0) {
+    writer.text('No expenses in this period.', { color: MUTED });
+    return;
+  }
+  writer.table(
+    columns(writer, [
+      { label: 'Category', share: 0.52 },
+      { label: 'Transactions', share: 0.16, align: 'right' },
+      { label: 'Share', share: 0.12, align: 'right' },
+      { label: 'Spent', share: 0.2, align: 'right' },
+    ]),
+    statement.categories.map(stat => [
+      { text: stat.name },
+      { text: String(stat.count) },
+      { text: `${stat.percentage.toFixed(1)}%` },
+      { text: formatCurrency(stat.value, statement.baseCurrency) },
+    ])
+  );
+}
+
+function writeBudgets(writer: StatementWriter, statement: Statement): void {
+  writer.section('Budgets');
+  if (statement.budgets.length === 0) {
+    writer.text('No budgets are set.', { color: MUTED });
+    return;
+  }
+  if (statement.months !== 1) {
+    writer.text(`Monthly budgets are multiplied by ${statement.months} for this period.`, { size: 8.5, color: MUTED });
+  }
+  writer.table(
+    columns(writer, [
+      { label: 'Category', share: 0.36 },
+      { label: 'Budget', share: 0.17, align: 'right' },
+      { label: 'Spent', share: 0.17, align: 'right' },
+      { label: 'Used', share: 0.12, align: 'right' },
+      { label: 'Status', share: 0.18 },
+    ]),
+    statement.budgets.map(alert => [
+      { text: alert.category },
+      { text: formatCurrency(alert.budget, statement.baseCurrency) },
+      { text: formatCurrency(alert.spent, statement.baseCurrency) },
+      { text: `${alert.percentage.toFixed(0)}%` },
+      BUDGET_LABELS[alert.status],
+    ])
+  );
+}
+
+function writeTransactions(writer: StatementWriter, statement: Statement): void {
+  writer.section('Transactions');
+  if (statement.transactions.length === 0) {
+    writer.text('No transactions in this period.', { color: MUTED });
+    return;
+  }
+  writer.table(
+    columns(writer, [
+      { label: 'Date', share: 0.15 },
+      { label: 'Description', share: 0.42 },
+      { label: 'Category', share: 0.25 },
+      { label: 'Amount', share: 0.18, align: 'right' },
+    ]),
+    statement.transactions.map(t => [
+      { text: formatDate(t.timestamp) },
+      { text: describe(t) },
+      { text: t.type === 'transfer' ? 'Transfer' : t.category },
+      signedAmount(t),
+    ])
+  );
+}
+
+function writeProofs(writer: StatementWriter, statement: Statement): void {
+  writer.section('Proofs');
+  if (statement.proofs.length === 0) {
+    writer.text('No transactions in this period have a proof.', { color: MUTED });
+    return;
+  }
+  writer.text('Each hash fingerprints a transaction as recorded. Anchored hashes link to the blockchain transaction that holds them.', {
+    size: 8.5,
+    color: MUTED,
+  });
+  writer.table(
+    columns(writer, [
+      { label: 'Date', share: 0.13 },
+      { label: 'Description', share: 0.22 },
+      { label: 'Proof hash', share: 0.5, size: 6.5 },
+      { label: 'Explorer', share: 0.15 },
+    ]),
+    statement.proofs.map(proof => [
+      { text: formatDate(proof.transaction.timestamp) },
+      { text: describe(proof.transaction) },
+      { text: proof.hash, url: proof.url },
+      proof.url
+        ? { text: proof.chain || 'View', url: proof.url }
+        : { text: 'Not anchored', color: MUTED },
+    ])
+  );
+}
+
+function writeAttachments(writer: StatementWriter, attachments: StatementAttachment[]): void {
+  writer.section('Attachments');
+  if (attachments.length === 0) {
+    writer.text('No transactions in this period have attachments.', { color: MUTED });
+    return;
+  }
+  writer.text('Original files are embedded in this PDF and listed in your viewer\'s attachments panel.', {
+    size: 8.5,
+    color: MUTED,
+  });
+
+  attachments.forEach(({ transaction, attachment, content, jpeg }) => {
+    const info = jpeg ? jpegInfo(jpeg) : null;
+    const scale = info ? Math.min(1, writer.contentWidth / info.width, IMAGE_MAX_HEIGHT / info.height) : 0;
+    writer.ensure(40 + (info ? info.height * scale : 0));
+    writer.y += 8;
+    writer.text(`${formatDate(transaction.timestamp)} · ${describe(transaction)}`, { size: 10, font: 'bold', gap: 2 });
+    writer.text(`${attachment.name} · ${formatFileSize(attachment.size)} · SHA-256 ${attachment.hash}`, {
+      size: 7,
+      color: MUTED,
+    });
+
+    if (!content) {
+      writer.text('Not available on this device', { size: 8.5, color: AMBER });
+      return;
+    }
+    writer.doc.attachFile({
+      name: attachment.name,
+      mimeType: attachment.mimeType,
+      content,
+      description: `${formatDate(transaction.timestamp)} ${describe(transaction)}`,
+    });
+    if (jpeg && info) {
+      const height = info.height * scale;
+      writer.doc.image(jpeg, MARGIN, writer.y + 2, info.width * scale, height);
+      writer.y += height + 6;
+    }
+  });
+}
+
+/**
+ * Lay a statement out as PDF bytes. Passing attachments adds a section with
+ * each image printed and every original file embedded.
+ */
+export function renderStatementPdf(
+  statement: Statement,
+  attachments?: StatementAttachment[]
+): Uint8Array<ArrayBuffer> {
+  const period = describeStatementRange(statement.range);
+  const doc = new PdfDocument({ title: `SafePay AI statement, ${period}`, now: statement.generatedAt });
+  const writer = new StatementWriter(doc);
+
+  writer.text('Statement', { size: 22, font: 'bold', gap: 6 });
+  writer.text(period, { size: 12, gap: 4 });
+  writer.text(`Amounts in ${statement.baseCurrency} unless shown otherwise`, { size: 8.5, color: MUTED });
+
+  writeSummary(writer, statement);
+  writeCategories(writer, statement);
+  writeBudgets(writer, statement);
+  writeTransactions(writer, statement);
+  writeProofs(writer, statement);
+  if (attachments) writeAttachments(writer, attachments);
+
+  const generated = `Generated ${formatDate(statement.generatedAt, 'long')}`;
+  for (let i = 0; i < doc.pageCount; i++) {
+    doc.setPage(i);
+    doc.text('SafePay AI', MARGIN, MARGIN, { size: 9, font: 'bold', color: MUTED });
+    doc.text(period, doc.width - MARGIN, MARGIN, { size: 9, color: MUTED, align: 'right' });
+    doc.line(MARGIN, MARGIN + 8, doc.width - MARGIN, MARGIN + 8, { color: RULE });
+    doc.text(generated, MARGIN, doc.height - MARGIN, { size: 8, color: MUTED });
+    doc.text(`Page ${i + 1} of ${doc.pageCount}`, doc.width - MARGIN, doc.height - MARGIN, {
+      size: 8,
+      color: MUTED,
+      align: 'right',
+    });
+  }
+
+  return doc.toBytes();
+}
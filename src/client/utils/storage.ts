@@ -3,120 +3,719 @@
  * Handles localStorage with encryption support
  */
 
-import { Transaction, Classifier, EncryptionConfig } from '../types';
-import { deriveKeyFromSignature, encryptWithKey, decryptWithKey } from './crypto';
+import {
+  Transaction,
+  Classifier,
+  EncryptionConfig,
+  FxRate,
+  CurrencyContext,
+  Account,
+  RecurringTransaction,
+  PendingOccurrence,
+  Category,
+  TrashedTransaction,
+  WalletProfile,
+  SavedView,
+  CsvImportTemplate,
+  LedgerSettings,
+  BackupContents,
+} from '../types';
+import { encryptWithKey, decryptWithKey, bufferToBase64, base64ToBuffer } from './crypto';
+import { getStorageAdapter, StorageAdapter } from './storageAdapter';
+import { logger } from './logger';
+import { recordRevision } from './revisions';
+import { emitAppEvent, onAppEvent } from './eventBus';
 
 const STORAGE_KEYS = {
   TRANSACTIONS: 'safepay_txns_v1',
+  TRANSACTIONS_ENCRYPTED: 'safepay_txns_encrypted_v1',
   CLASSIFIER: 'safepay_classifier_v1',
   BUDGETS: 'safepay_budgets_v1',
   SESSION: 'safepay_session',
   ENCRYPTION: 'safepay_enc_addr_v1',
+  SCHEMA_VERSION: 'safepay_schema_version',
+  BASE_CURRENCY: 'safepay_base_currency_v1',
+  FX_RATES: 'safepay_fx_rates_v1',
+  ACCOUNTS: 'safepay_accounts_v1',
+  RECURRING: 'safepay_recurring_v1',
+  RECURRING_PENDING: 'safepay_recurring_pending_v1',
+  CATEGORIES: 'safepay_categories_v1',
+  TRASH_RETENTION: 'safepay_trash_retention_v1',
+  RECENT_CATEGORIES: 'safepay_recent_categories',
+  VAULT: 'safepay_vault_v1',
+  PROFILES: 'safepay_profiles_v1',
+  SAVED_VIEWS: 'safepay_saved_views_v1',
+  CSV_TEMPLATES: 'safepay_csv_templates_v1',
+  LEDGER_SETTINGS: 'safepay_ledger_settings_v1',
 } as const;
 
+/** Keys shared by every profile on the device; all others are scoped to the active profile */
+const GLOBAL_KEYS: string[] = [STORAGE_KEYS.SESSION, STORAGE_KEYS.PROFILES];
+
+/**
+ * localStorage key of a setting within the active profile
+ */
+function scopedKey(name: string): string {
+  const namespace = ProfileStorage.activeNamespace();
+  return namespace ? `${name}:${namespace}` : name;
+}
+
+function storageAdapter(): StorageAdapter {
+  return getStorageAdapter(ProfileStorage.activeNamespace());
+}
+
+/**
+ * Raised when persisted data exists but cannot be read back.
+ * Callers must not treat this as "no data" and overwrite storage.
+ */
+export class StorageReadError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'StorageReadError';
+  }
+}
+
+/**
+ * Persisted shape of a single transaction.
+ * Plaintext records carry `data`, encrypted records carry `cipher`.
+ */
+interface TransactionRecord {
+  id: string;
+  data?: Transaction;
+  cipher?: string;
+}
+
+function sortNewestFirst(transactions: Transaction[]): Transaction[] {
+  return transactions.sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
 /**
  * Storage service for transactions
+ * Stores one record per transaction through the active storage adapter
  */
 export class TransactionStorage {
-  private static encryptKey: CryptoKey | null = null;
+  /** Keys by profile namespace, so switching profiles does not lock the others */
+  private static keys: Record<string, CryptoKey> = {};
+
+  private static get encryptKey(): CryptoKey | null {
+    return this.keys[ProfileStorage.activeNamespace()] || null;
+  }
 
   static setEncryptionKey(key: CryptoKey) {
-    this.encryptKey = key;
+    this.keys[ProfileStorage.activeNamespace()] = key;
+    emitAppEvent('vault:unlocked', { address: EncryptionStorage.loadEncryptionAddress() });
   }
 
-  static clearEncryptionKey() {
-    this.encryptKey = null;
+  static clearEncryptionKey(namespace: string = ProfileStorage.activeNamespace()) {
+    const wasUnlocked = !!this.keys[namespace];
+    delete this.keys[namespace];
+    if (wasUnlocked && namespace === ProfileStorage.activeNamespace()) {
+      emitAppEvent('vault:locked', {});
+    }
   }
 
   static getEncryptionKey(): CryptoKey | null {
     return this.encryptKey;
   }
 
-  static async saveTransactions(transactions: Transaction[], encrypted = false): Promise<void> {
+  private static async toRecord(transaction: Transaction, key: CryptoKey | null): Promise<TransactionRecord> {
+    const id = String(transaction.id);
+    if (key) {
+      return { id, cipher: await encryptWithKey(key, transaction) };
+    }
+    return { id, data: transaction };
+  }
+
+  private static setEncryptedFlag(encrypted: boolean): void {
+    if (encrypted) {
+      localStorage.setItem(scopedKey(STORAGE_KEYS.TRANSACTIONS_ENCRYPTED), '1');
+    } else {
+      localStorage.removeItem(scopedKey(STORAGE_KEYS.TRANSACTIONS_ENCRYPTED));
+    }
+  }
+
+  /**
+   * One-time migration from the single localStorage blob used before
+   * record-level storage. Encrypted blobs stay in place until a key is
+   * available to decrypt them.
+   */
+  static async migrateLegacyTransactions(key?: CryptoKey): Promise<boolean> {
+    const raw = localStorage.getItem(scopedKey(STORAGE_KEYS.TRANSACTIONS));
+    if (!raw) return false;
+
+    let transactions: Transaction[] | null = null;
+    let wasEncrypted = false;
+
     try {
-      if (encrypted && this.encryptKey) {
-        const encrypted = await encryptWithKey(this.encryptKey, transactions);
-        localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, encrypted);
-      } else {
-        localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(transactions));
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        throw new StorageReadError('Legacy transaction data is not a list');
       }
+      transactions = parsed;
+    } catch (error) {
+      if (error instanceof StorageReadError) throw error;
+      wasEncrypted = true;
+    }
+
+    if (wasEncrypted) {
+      if (!key) return false;
+      let decrypted: unknown;
+      try {
+        decrypted = await decryptWithKey(key, raw);
+      } catch (error) {
+        throw new StorageReadError('Failed to decrypt legacy transaction data', error);
+      }
+      if (!Array.isArray(decrypted)) {
+        throw new StorageReadError('Legacy transaction data is not a list');
+      }
+      transactions = decrypted;
+    }
+
+    const adapter = storageAdapter();
+    const records = await Promise.all(
+      (transactions || []).map(t => this.toRecord(t, wasEncrypted ? key! : null))
+    );
+    await adapter.putMany('transactions', records);
+
+    this.setEncryptedFlag(wasEncrypted);
+    localStorage.removeItem(scopedKey(STORAGE_KEYS.TRANSACTIONS));
+    logger.info(`TransactionStorage: Migrated ${records.length} legacy transactions`);
+    return true;
+  }
+
+  static async saveTransactions(transactions: Transaction[], encrypted = false): Promise<void> {
+    try {
+      const key = encrypted && this.encryptKey ? this.encryptKey : null;
+      const adapter = storageAdapter();
+      const records = await Promise.all(transactions.map(t => this.toRecord(t, key)));
+
+      await adapter.replaceAll('transactions', records);
+      localStorage.removeItem(scopedKey(STORAGE_KEYS.TRANSACTIONS));
+      this.setEncryptedFlag(!!key);
     } catch (error) {
       console.error('Failed to save transactions:', error);
       throw new Error('Failed to save transactions');
     }
   }
 
-  static async loadTransactions(encrypted = false, key?: CryptoKey): Promise<Transaction[]> {
+  /**
+   * Write a single transaction, encrypting it when storage is encrypted
+   */
+  static async putTransaction(transaction: Transaction): Promise<void> {
+    const encrypted = this.isEncrypted();
+    if (encrypted && !this.encryptKey) {
+      throw new Error('Encrypted storage is locked. Unlock it before saving transactions.');
+    }
+
     try {
-      const raw = localStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
-      if (!raw) return [];
+      const record = await this.toRecord(transaction, encrypted ? this.encryptKey : null);
+      await storageAdapter().put('transactions', record);
+    } catch (error) {
+      console.error('Failed to save transaction:', error);
+      throw new Error('Failed to save transaction');
+    }
+  }
 
-      if (encrypted && key) {
-        const decrypted = await decryptWithKey(key, raw);
-        return Array.isArray(decrypted) ? decrypted : [];
-      }
+  /**
+   * Load one stored transaction, or null when it does not exist or is locked
+   */
+  static async loadTransaction(id: string | number): Promise<Transaction | null> {
+    const record = await storageAdapter().get<TransactionRecord>('transactions', String(id));
+    if (record?.data) return record.data;
+    if (record?.cipher && this.encryptKey) {
+      return decryptWithKey(this.encryptKey, record.cipher);
+    }
+    return null;
+  }
 
-      try {
-        const parsed = JSON.parse(raw);
-        return Array.isArray(parsed) ? parsed : [];
-      } catch {
-        // Invalid JSON - likely encrypted
-        return [];
-      }
+  static async deleteTransaction(id: string | number): Promise<void> {
+    try {
+      await storageAdapter().delete('transactions', String(id));
+    } catch (error) {
+      console.error('Failed to delete transaction:', error);
+      throw new Error('Failed to delete transaction');
+    }
+  }
+
+  /**
+   * Load all readable transactions.
+   * Throws StorageReadError when stored data is corrupt or cannot be decrypted,
+   * instead of reporting an empty collection.
+   */
+  static async loadTransactions(encrypted = false, key?: CryptoKey): Promise<Transaction[]> {
+    const decryptKey = encrypted && key ? key : undefined;
+    await this.migrateLegacyTransactions(decryptKey);
+
+    let records: TransactionRecord[];
+    try {
+      records = await storageAdapter().getAll<TransactionRecord>('transactions');
     } catch (error) {
       console.error('Failed to load transactions:', error);
-      return [];
+      throw new StorageReadError('Failed to read transactions from storage', error);
     }
+
+    const transactions: Transaction[] = [];
+    for (const record of records) {
+      if (record.data) {
+        transactions.push(record.data);
+      } else if (record.cipher && decryptKey) {
+        try {
+          transactions.push(await decryptWithKey(decryptKey, record.cipher));
+        } catch (error) {
+          console.error(`Failed to decrypt transaction ${record.id}:`, error);
+          throw new StorageReadError(`Failed to decrypt transaction ${record.id}`, error);
+        }
+      }
+    }
+
+    return sortNewestFirst(transactions);
   }
 
   static isEncrypted(): boolean {
     try {
-      const raw = localStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
-      if (!raw) return false;
-      
-      try {
-        JSON.parse(raw);
-        return false; // Valid JSON = not encrypted
-      } catch {
-        return true; // Invalid JSON = likely encrypted
+      const legacy = localStorage.getItem(scopedKey(STORAGE_KEYS.TRANSACTIONS));
+      if (legacy) {
+        try {
+          JSON.parse(legacy);
+          return false; // Valid JSON = not encrypted
+        } catch {
+          return true; // Invalid JSON = likely encrypted
+        }
       }
+
+      return localStorage.getItem(scopedKey(STORAGE_KEYS.TRANSACTIONS_ENCRYPTED)) === '1';
     } catch {
       return false;
     }
   }
 
-  static clearTransactions(): void {
-    localStorage.removeItem(STORAGE_KEYS.TRANSACTIONS);
+  static async clearTransactions(): Promise<void> {
+    localStorage.removeItem(scopedKey(STORAGE_KEYS.TRANSACTIONS));
+    this.setEncryptedFlag(false);
+    await storageAdapter().clear('transactions');
+  }
+}
+
+/**
+ * Persisted shape of an attachment in the vault.
+ * `content` is the base64 file and `thumbnail` a data URL; both are
+ * encrypted when `encrypted` is set.
+ */
+interface AttachmentRecord {
+  id: string;
+  content: string;
+  thumbnail?: string;
+  encrypted: boolean;
+}
+
+/**
+ * Storage service for the attachment vault
+ * File contents live in their own object store, encrypted with the transaction key
+ */
+export class AttachmentStorage {
+  private static activeKey(): CryptoKey | null {
+    if (!TransactionStorage.isEncrypted()) return null;
+    const key = TransactionStorage.getEncryptionKey();
+    if (!key) {
+      throw new Error('Unlock your encrypted data to access attachments');
+    }
+    return key;
+  }
+
+  private static async seal(value: string, key: CryptoKey | null): Promise<string> {
+    return key ? encryptWithKey(key, value) : value;
+  }
+
+  private static async unseal(value: string, record: AttachmentRecord, key: CryptoKey | null): Promise<string> {
+    if (!record.encrypted) return value;
+    if (!key) {
+      throw new Error('Unlock your encrypted data to access attachments');
+    }
+    return decryptWithKey(key, value);
+  }
+
+  static async saveAttachment(id: string, content: ArrayBuffer, thumbnail?: string): Promise<void> {
+    const key = this.activeKey();
+    const record: AttachmentRecord = {
+      id,
+      content: await this.seal(bufferToBase64(content), key),
+      thumbnail: thumbnail ? await this.seal(thumbnail, key) : undefined,
+      encrypted: !!key,
+    };
+    await storageAdapter().put('attachments', record);
+  }
+
+  static async loadContent(id: string): Promise<ArrayBuffer | null> {
+    const record = await storageAdapter().get<AttachmentRecord>('attachments', id);
+    if (!record) return null;
+    const key = record.encrypted ? this.activeKey() : null;
+    return base64ToBuffer(await this.unseal(record.content, record, key));
+  }
+
+  static async loadThumbnail(id: string): Promise<string | null> {
+    const record = await storageAdapter().get<AttachmentRecord>('attachments', id);
+    if (!record?.thumbnail) return null;
+    const key = record.encrypted ? this.activeKey() : null;
+    return this.unseal(record.thumbnail, record, key);
+  }
+
+  static async deleteAttachments(ids: string[]): Promise<void> {
+    const adapter = storageAdapter();
+    for (const id of ids) {
+      await adapter.delete('attachments', id);
+    }
+  }
+
+  static async clearAttachments(): Promise<void> {
+    await storageAdapter().clear('attachments');
+  }
+
+  /**
+   * Re-seal every attachment when encryption is turned on or off
+   */
+  static async reencryptAttachments(fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<void> {
+    const adapter = storageAdapter();
+    const records = await adapter.getAll<AttachmentRecord>('attachments');
+    const rewritten: AttachmentRecord[] = [];
+
+    for (const record of records) {
+      const content = await this.unseal(record.content, record, fromKey);
+      const thumbnail = record.thumbnail ? await this.unseal(record.thumbnail, record, fromKey) : undefined;
+      rewritten.push({
+        id: record.id,
+        content: await this.seal(content, toKey),
+        thumbnail: thumbnail ? await this.seal(thumbnail, toKey) : undefined,
+        encrypted: !!toKey,
+      });
+    }
+
+    await adapter.putMany('attachments', rewritten);
+  }
+}
+
+/**
+ * Persisted shape of a deleted transaction; encrypted like live transactions
+ */
+interface TrashRecord extends TransactionRecord {
+  deletedAt: string;
+}
+
+/**
+ * Storage service for the trash
+ * Deleted transactions are kept in their own object store until purged
+ */
+export class TrashStorage {
+  static readonly DEFAULT_RETENTION_DAYS = 30;
+
+  private static activeKey(): CryptoKey | null {
+    if (!TransactionStorage.isEncrypted()) return null;
+    const key = TransactionStorage.getEncryptionKey();
+    if (!key) {
+      throw new Error('Encrypted storage is locked. Unlock it before using the trash.');
+    }
+    return key;
+  }
+
+  private static async toRecord(
+    transaction: Transaction,
+    deletedAt: string,
+    key: CryptoKey | null
+  ): Promise<TrashRecord> {
+    const id = String(transaction.id);
+    if (key) {
+      return { id, deletedAt, cipher: await encryptWithKey(key, transaction) };
+    }
+    return { id, deletedAt, data: transaction };
+  }
+
+  private static async fromRecord(record: TrashRecord, key: CryptoKey | null): Promise<Transaction> {
+    if (record.data) return record.data;
+    if (!key) {
+      throw new Error('Encrypted storage is locked. Unlock it before using the trash.');
+    }
+    return decryptWithKey(key, record.cipher!);
+  }
+
+  static loadRetentionDays(): number {
+    const stored = Number(VaultStorage.getItem(STORAGE_KEYS.TRASH_RETENTION));
+    return stored > 0 ? stored : this.DEFAULT_RETENTION_DAYS;
+  }
+
+  static saveRetentionDays(days: number): void {
+    VaultStorage.setItem(STORAGE_KEYS.TRASH_RETENTION, String(days));
+  }
+
+  static async moveToTrash(transactions: Transaction[], deletedAt = new Date().toISOString()): Promise<void> {
+    const key = this.activeKey();
+    const records = await Promise.all(transactions.map(t => this.toRecord(t, deletedAt, key)));
+    await storageAdapter().putMany('trash', records);
+  }
+
+  /**
+   * Trashed transactions, most recently deleted first
+   */
+  static async loadTrash(): Promise<TrashedTransaction[]> {
+    const key = this.activeKey();
+    const records = await storageAdapter().getAll<TrashRecord>('trash');
+    const items: TrashedTransaction[] = [];
+    for (const record of records) {
+      items.push({ transaction: await this.fromRecord(record, key), deletedAt: record.deletedAt });
+    }
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Drop trash records without touching attachments, used when restoring
+   */
+  static async removeFromTrash(ids: Array<string | number>): Promise<void> {
+    const adapter = storageAdapter();
+    for (const id of ids) {
+      await adapter.delete('trash', String(id));
+    }
+  }
+
+  /**
+   * Permanently delete trashed transactions and their attachments
+   */
+  static async purge(items: TrashedTransaction[]): Promise<void> {
+    const attachmentIds: string[] = [];
+    items.forEach(item => {
+      (item.transaction.attachments || []).forEach(a => attachmentIds.push(a.id));
+    });
+    await AttachmentStorage.deleteAttachments(attachmentIds);
+    await this.removeFromTrash(items.map(item => item.transaction.id));
+  }
+
+  /**
+   * Re-seal every trashed transaction when encryption is turned on or off
+   */
+  static async reencryptTrash(fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<void> {
+    const adapter = storageAdapter();
+    const records = await adapter.getAll<TrashRecord>('trash');
+    const rewritten: TrashRecord[] = [];
+    for (const record of records) {
+      rewritten.push(await this.toRecord(await this.fromRecord(record, fromKey), record.deletedAt, toKey));
+    }
+    await adapter.putMany('trash', rewritten);
+  }
+}
+
+/**
+ * Encrypted vault for app state kept outside the transaction store.
+ * While encryption is on the sealed keys exist only inside one ciphertext:
+ * reads come from the copy decrypted at unlock and every write re-encrypts it.
+ * The session and encryption address stay plaintext, they name the wallet
+ * that unlocks the vault.
+ */
+export class VaultStorage {
+  static readonly SEALED_KEYS: string[] = [
+    STORAGE_KEYS.CLASSIFIER,
+    STORAGE_KEYS.CATEGORIES,
+    STORAGE_KEYS.RECENT_CATEGORIES,
+    STORAGE_KEYS.BUDGETS,
+    STORAGE_KEYS.ACCOUNTS,
+    STORAGE_KEYS.RECURRING,
+    STORAGE_KEYS.RECURRING_PENDING,
+    STORAGE_KEYS.BASE_CURRENCY,
+    STORAGE_KEYS.FX_RATES,
+    STORAGE_KEYS.TRASH_RETENTION,
+    STORAGE_KEYS.SAVED_VIEWS,
+    STORAGE_KEYS.CSV_TEMPLATES,
+    STORAGE_KEYS.LEDGER_SETTINGS,
+  ];
+
+  /** Keys that were encrypted on their own before the vault existed */
+  private static readonly LEGACY_ENCRYPTED_KEYS: string[] = [STORAGE_KEYS.CLASSIFIER, STORAGE_KEYS.CATEGORIES];
+
+  /** Decrypted state by profile namespace; switching profiles does not lock the others */
+  private static unlocked: Record<string, { entries: Record<string, string>; key: CryptoKey }> = {};
+  private static pending: Promise<void> = Promise.resolve();
+  /** Why the latest write did not reach storage; cleared by the next successful one */
+  private static failure: Error | null = null;
+
+  private static current(): { entries: Record<string, string>; key: CryptoKey } | null {
+    return this.unlocked[ProfileStorage.activeNamespace()] || null;
+  }
+
+  static isSealed(): boolean {
+    return localStorage.getItem(scopedKey(STORAGE_KEYS.VAULT)) !== null;
+  }
+
+  static isUnlocked(): boolean {
+    return this.current() !== null;
+  }
+
+  /**
+   * Raw value of a key; null while the vault is locked
+   */
+  static getItem(name: string): string | null {
+    if (!this.isSealed()) return localStorage.getItem(scopedKey(name));
+    const current = this.current();
+    return current ? current.entries[name] ?? null : null;
+  }
+
+  static setItem(name: string, value: string): void {
+    if (!this.isSealed()) {
+      localStorage.setItem(scopedKey(name), value);
+      return;
+    }
+    this.writableEntries()[name] = value;
+    this.persist();
+  }
+
+  static removeItem(name: string): void {
+    if (!this.isSealed()) {
+      localStorage.removeItem(scopedKey(name));
+      return;
+    }
+    delete this.writableEntries()[name];
+    this.persist();
+  }
+
+  /**
+   * Decrypt the vault. Encrypted data from before the vault existed is sealed into it.
+   */
+  static async unlock(key: CryptoKey): Promise<void> {
+    const raw = localStorage.getItem(scopedKey(STORAGE_KEYS.VAULT));
+    if (!raw) {
+      if (EncryptionStorage.loadEncryptionAddress()) {
+        await this.seal(key);
+      }
+      return;
+    }
+
+    let entries: unknown;
+    try {
+      entries = await decryptWithKey(key, raw);
+    } catch (error) {
+      throw new StorageReadError('Encrypted app state could not be read', error);
+    }
+    if (!entries || typeof entries !== 'object') {
+      throw new StorageReadError('Encrypted app state is not a key map');
+    }
+    this.unlocked[ProfileStorage.activeNamespace()] = { entries: entries as Record<string, string>, key };
+  }
+
+  static lock(namespace: string = ProfileStorage.activeNamespace()): void {
+    delete this.unlocked[namespace];
+  }
+
+  /**
+   * Move every sealed key from plaintext localStorage into the vault
+   */
+  static async seal(key: CryptoKey): Promise<void> {
+    if (this.isSealed()) {
+      await this.unlock(key);
+      return;
+    }
+
+    const entries: Record<string, string> = {};
+    for (const name of this.SEALED_KEYS) {
+      const raw = localStorage.getItem(scopedKey(name));
+      if (raw === null) continue;
+      entries[name] = this.LEGACY_ENCRYPTED_KEYS.includes(name) ? await this.legacyPlaintext(raw, key) : raw;
+    }
+
+    localStorage.setItem(scopedKey(STORAGE_KEYS.VAULT), await encryptWithKey(key, entries));
+    this.unlocked[ProfileStorage.activeNamespace()] = { entries, key };
+    this.SEALED_KEYS.forEach(name => localStorage.removeItem(scopedKey(name)));
+  }
+
+  /**
+   * Write every sealed key back to plaintext and drop the vault
+   */
+  static async unseal(key: CryptoKey): Promise<void> {
+    // Every entry is written out below, so an earlier failed write does not matter
+    await this.pending;
+    if (!this.isSealed()) return;
+    if (!this.current()) {
+      await this.unlock(key);
+    }
+
+    Object.entries(this.current()?.entries || {}).forEach(([name, value]) => {
+      localStorage.setItem(scopedKey(name), value);
+    });
+    localStorage.removeItem(scopedKey(STORAGE_KEYS.VAULT));
+    this.lock();
+  }
+
+  /**
+   * Re-read the vault after its ciphertext was replaced, e.g. by a rollback
+   */
+  static async reload(): Promise<void> {
+    const key = this.current()?.key;
+    this.lock();
+    if (key && this.isSealed()) {
+      await this.unlock(key);
+    }
+  }
+
+  /**
+   * Resolves once every pending write has been encrypted and stored.
+   * Rejects while the latest write failed, so callers can report that
+   * their change exists only in memory.
+   */
+  static async flush(): Promise<void> {
+    await this.pending;
+    if (this.failure) throw this.failure;
+  }
+
+  private static writableEntries(): Record<string, string> {
+    const current = this.current();
+    if (!current) {
+      throw new Error('Encrypted storage is locked. Unlock it before saving changes.');
+    }
+    return current.entries;
+  }
+
+  private static persist(): void {
+    const { key, entries } = this.current()!;
+    const vaultKey = scopedKey(STORAGE_KEYS.VAULT);
+    const snapshot = { ...entries };
+    this.pending = this.pending.then(async () => {
+      try {
+        localStorage.setItem(vaultKey, await encryptWithKey(key, snapshot));
+        this.failure = null;
+      } catch (error) {
+        console.error('Failed to save encrypted app state:', error);
+        this.failure = new Error('Failed to save encrypted app state');
+      }
+    });
+  }
+
+  private static async legacyPlaintext(raw: string, key: CryptoKey): Promise<string> {
+    try {
+      JSON.parse(raw);
+      return raw;
+    } catch {
+      try {
+        return JSON.stringify(await decryptWithKey(key, raw));
+      } catch (error) {
+        throw new StorageReadError('Stored app state could not be decrypted', error);
+      }
+    }
   }
 }
 
 /**
  * Storage service for classifier
+ * Sealed in the vault while encryption is on
  */
 export class ClassifierStorage {
-  static async saveClassifier(classifier: Classifier, encrypted = false, key?: CryptoKey): Promise<void> {
+  static async saveClassifier(classifier: Classifier): Promise<void> {
     try {
-      if (encrypted && key) {
-        const encrypted = await encryptWithKey(key, classifier);
-        localStorage.setItem(STORAGE_KEYS.CLASSIFIER, encrypted);
-      } else {
-        localStorage.setItem(STORAGE_KEYS.CLASSIFIER, JSON.stringify(classifier));
-      }
+      VaultStorage.setItem(STORAGE_KEYS.CLASSIFIER, JSON.stringify(classifier));
     } catch (error) {
       console.error('Failed to save classifier:', error);
     }
   }
 
-  static async loadClassifier(encrypted = false, key?: CryptoKey): Promise<Classifier | null> {
+  static async loadClassifier(): Promise<Classifier | null> {
     try {
-      const raw = localStorage.getItem(STORAGE_KEYS.CLASSIFIER);
-      if (!raw) return null;
-
-      if (encrypted && key) {
-        return await decryptWithKey(key, raw);
-      }
-
-      return JSON.parse(raw);
+      const raw = VaultStorage.getItem(STORAGE_KEYS.CLASSIFIER);
+      return raw ? JSON.parse(raw) : null;
     } catch (error) {
       console.error('Failed to load classifier:', error);
       return null;
@@ -124,13 +723,59 @@ export class ClassifierStorage {
   }
 }
 
+/**
+ * Storage service for the category registry and recently picked categories
+ * Sealed in the vault while encryption is on
+ */
+export class CategoryStorage {
+  static async saveCategories(categories: Category[]): Promise<void> {
+    VaultStorage.setItem(STORAGE_KEYS.CATEGORIES, JSON.stringify(categories));
+  }
+
+  /**
+   * Returns null when nothing is stored yet or the registry is locked
+   */
+  static async loadCategories(): Promise<Category[] | null> {
+    const raw = VaultStorage.getItem(STORAGE_KEYS.CATEGORIES);
+    if (!raw) return null;
+
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : null;
+    } catch (error) {
+      throw new StorageReadError('Stored categories could not be read', error);
+    }
+  }
+
+  static loadRecent(): string[] {
+    try {
+      const raw = VaultStorage.getItem(STORAGE_KEYS.RECENT_CATEGORIES);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Failed to load recent categories:', error);
+      return [];
+    }
+  }
+
+  static saveRecent(categories: string[]): void {
+    try {
+      VaultStorage.setItem(STORAGE_KEYS.RECENT_CATEGORIES, JSON.stringify(categories));
+    } catch (error) {
+      console.error('Failed to save recent categories:', error);
+    }
+  }
+}
+
 /**
  * Storage service for budgets
+ * Sealed in the vault while encryption is on
  */
 export class BudgetStorage {
   static saveBudgets(budgets: Record<string, number>): void {
     try {
-      localStorage.setItem(STORAGE_KEYS.BUDGETS, JSON.stringify(budgets));
+      VaultStorage.setItem(STORAGE_KEYS.BUDGETS, JSON.stringify(budgets));
+      emitAppEvent('budget:changed', { budgets });
     } catch (error) {
       console.error('Failed to save budgets:', error);
     }
@@ -138,7 +783,7 @@ export class BudgetStorage {
 
   static loadBudgets(): Record<string, number> {
     try {
-      const raw = localStorage.getItem(STORAGE_KEYS.BUDGETS);
+      const raw = VaultStorage.getItem(STORAGE_KEYS.BUDGETS);
       return raw ? JSON.parse(raw) : {};
     } catch (error) {
       console.error('Failed to load budgets:', error);
@@ -147,17 +792,309 @@ export class BudgetStorage {
   }
 }
 
+/**
+ * Storage service for the base currency and FX rate table
+ */
+export class CurrencyStorage {
+  static loadBaseCurrency(): string {
+    return VaultStorage.getItem(STORAGE_KEYS.BASE_CURRENCY) || 'USD';
+  }
+
+  static saveBaseCurrency(currency: string): void {
+    VaultStorage.setItem(STORAGE_KEYS.BASE_CURRENCY, currency);
+  }
+
+  static loadRates(): FxRate[] {
+    try {
+      const raw = VaultStorage.getItem(STORAGE_KEYS.FX_RATES);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Failed to load FX rates:', error);
+      return [];
+    }
+  }
+
+  static saveRates(rates: FxRate[]): void {
+    try {
+      VaultStorage.setItem(STORAGE_KEYS.FX_RATES, JSON.stringify(rates));
+    } catch (error) {
+      console.error('Failed to save FX rates:', error);
+    }
+  }
+
+  static getContext(): CurrencyContext {
+    return {
+      baseCurrency: this.loadBaseCurrency(),
+      rates: this.loadRates(),
+    };
+  }
+}
+
+/**
+ * Storage service for accounts
+ */
+export class AccountStorage {
+  static loadAccounts(): Account[] {
+    try {
+      const raw = VaultStorage.getItem(STORAGE_KEYS.ACCOUNTS);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+      return [];
+    }
+  }
+
+  static saveAccounts(accounts: Account[]): void {
+    try {
+      VaultStorage.setItem(STORAGE_KEYS.ACCOUNTS, JSON.stringify(accounts));
+    } catch (error) {
+      console.error('Failed to save accounts:', error);
+    }
+  }
+
+  static upsertAccount(account: Account): Account[] {
+    const accounts = this.loadAccounts();
+    const index = accounts.findIndex(a => a.id === account.id);
+    const updated = index >= 0
+      ? accounts.map(a => (a.id === account.id ? account : a))
+      : [...accounts, account];
+    this.saveAccounts(updated);
+    return updated;
+  }
+}
+
+/**
+ * Storage service for recurring rules and their pending occurrences
+ */
+export class RecurringStorage {
+  static loadRecurring(): RecurringTransaction[] {
+    return this.readList<RecurringTransaction>(STORAGE_KEYS.RECURRING, 'recurring transactions');
+  }
+
+  static saveRecurring(recurring: RecurringTransaction[]): void {
+    this.writeList(STORAGE_KEYS.RECURRING, recurring, 'recurring transactions');
+  }
+
+  static loadPending(): PendingOccurrence[] {
+    return this.readList<PendingOccurrence>(STORAGE_KEYS.RECURRING_PENDING, 'pending occurrences');
+  }
+
+  static savePending(pending: PendingOccurrence[]): void {
+    this.writeList(STORAGE_KEYS.RECURRING_PENDING, pending, 'pending occurrences');
+  }
+
+  private static readList<T>(key: string, label: string): T[] {
+    try {
+      const raw = VaultStorage.getItem(key);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error(`Failed to load ${label}:`, error);
+      return [];
+    }
+  }
+
+  private static writeList<T>(key: string, items: T[], label: string): void {
+    try {
+      VaultStorage.setItem(key, JSON.stringify(items));
+    } catch (error) {
+      console.error(`Failed to save ${label}:`, error);
+    }
+  }
+}
+
+/**
+ * Storage service for saved HistoryPage views
+ */
+export class SavedViewStorage {
+  static loadViews(): SavedView[] {
+    try {
+      const raw = VaultStorage.getItem(STORAGE_KEYS.SAVED_VIEWS);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Failed to load saved views:', error);
+      return [];
+    }
+  }
+
+  static saveViews(views: SavedView[]): void {
+    try {
+      VaultStorage.setItem(STORAGE_KEYS.SAVED_VIEWS, JSON.stringify(views));
+    } catch (error) {
+      console.error('Failed to save saved views:', error);
+    }
+  }
+
+  static findView(id: string): SavedView | null {
+    return this.loadViews().find(v => v.id === id) || null;
+  }
+
+  static upsertView(view: SavedView): SavedView[] {
+    const views = this.loadViews();
+    const updated = views.some(v => v.id === view.id)
+      ? views.map(v => (v.id === view.id ? view : v))
+      : [...views, view];
+    this.saveViews(updated);
+    return updated;
+  }
+
+  static removeView(id: string): SavedView[] {
+    const updated = this.loadViews().filter(v => v.id !== id);
+    this.saveViews(updated);
+    return updated;
+  }
+}
+
+/**
+ * Storage service for CSV import templates, one per bank
+ */
+export class CsvTemplateStorage {
+  static loadTemplates(): CsvImportTemplate[] {
+    try {
+      const raw = VaultStorage.getItem(STORAGE_KEYS.CSV_TEMPLATES);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Failed to load import templates:', error);
+      return [];
+    }
+  }
+
+  static saveTemplates(templates: CsvImportTemplate[]): void {
+    try {
+      VaultStorage.setItem(STORAGE_KEYS.CSV_TEMPLATES, JSON.stringify(templates));
+    } catch (error) {
+      console.error('Failed to save import templates:', error);
+    }
+  }
+
+  static upsertTemplate(template: CsvImportTemplate): CsvImportTemplate[] {
+    const templates = this.loadTemplates();
+    const updated = templates.some(t => t.id === template.id)
+      ? templates.map(t => (t.id === template.id ? template : t))
+      : [...templates, template];
+    this.saveTemplates(updated);
+    return updated;
+  }
+
+  static removeTemplate(id: string): CsvImportTemplate[] {
+    const updated = this.loadTemplates().filter(t => t.id !== id);
+    this.saveTemplates(updated);
+    return updated;
+  }
+}
+
+/**
+ * Storage service for the plain-text accounting export settings
+ */
+export class LedgerSettingsStorage {
+  static readonly DEFAULT_SETTINGS: LedgerSettings = {
+    format: 'beancount',
+    categoryAccounts: {},
+    assetAccounts: {},
+  };
+
+  static loadSettings(): LedgerSettings {
+    try {
+      const raw = VaultStorage.getItem(STORAGE_KEYS.LEDGER_SETTINGS);
+      return raw ? { ...this.DEFAULT_SETTINGS, ...JSON.parse(raw) } : this.DEFAULT_SETTINGS;
+    } catch (error) {
+      console.error('Failed to load ledger settings:', error);
+      return this.DEFAULT_SETTINGS;
+    }
+  }
+
+  static saveSettings(settings: LedgerSettings): void {
+    try {
+      VaultStorage.setItem(STORAGE_KEYS.LEDGER_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save ledger settings:', error);
+    }
+  }
+}
+
+/**
+ * Storage service for wallet profiles
+ * Every wallet gets its own storage namespace, encryption settings and unlock state
+ */
+export class ProfileStorage {
+  static loadProfiles(): WalletProfile[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEYS.PROFILES);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+      return [];
+    }
+  }
+
+  static findProfile(address: string): WalletProfile | null {
+    const wanted = address.toLowerCase();
+    return this.loadProfiles().find(p => p.address.toLowerCase() === wanted) || null;
+  }
+
+  /**
+   * Profile of a wallet, created on its first connection
+   */
+  static touchProfile(address: string): WalletProfile {
+    const profiles = this.loadProfiles();
+    const now = new Date().toISOString();
+    const existing = profiles.find(p => p.address.toLowerCase() === address.toLowerCase());
+    const profile: WalletProfile = existing
+      ? { ...existing, lastUsedAt: now }
+      : {
+          address,
+          // The first wallet inherits the data stored before profiles existed
+          namespace: profiles.length === 0 ? '' : address.toLowerCase(),
+          createdAt: now,
+          lastUsedAt: now,
+        };
+
+    const updated = existing
+      ? profiles.map(p => (p === existing ? profile : p))
+      : [...profiles, profile];
+    localStorage.setItem(STORAGE_KEYS.PROFILES, JSON.stringify(updated));
+    return profile;
+  }
+
+  /**
+   * Namespace of the connected wallet; signed-out reads use the unscoped keys
+   */
+  static activeNamespace(): string {
+    const session = SessionStorage.loadSession();
+    if (!session) return '';
+    return this.findProfile(session.address)?.namespace ?? session.address.toLowerCase();
+  }
+
+  /**
+   * Forget the key and decrypted state of one wallet; other profiles stay unlocked
+   */
+  static lockProfile(address: string): void {
+    const profile = this.findProfile(address);
+    if (!profile) return;
+    TransactionStorage.clearEncryptionKey(profile.namespace);
+    VaultStorage.lock(profile.namespace);
+  }
+}
+
 /**
  * Storage service for session
+ * The session names the active profile, so it is shared by all of them
  */
 export class SessionStorage {
   static saveSession(address: string): void {
     try {
+      ProfileStorage.touchProfile(address);
       const session = {
         address,
         connectedAt: new Date().toISOString(),
       };
       localStorage.setItem(STORAGE_KEYS.SESSION, JSON.stringify(session));
+      emitAppEvent('session:changed', { address });
     } catch (error) {
       console.error('Failed to save session:', error);
     }
@@ -175,6 +1112,7 @@ export class SessionStorage {
 
   static clearSession(): void {
     localStorage.removeItem(STORAGE_KEYS.SESSION);
+    emitAppEvent('session:changed', { address: null });
   }
 }
 
@@ -191,7 +1129,9 @@ export class TransactionCache {
     if (this.cacheLoaded) return;
     if (this.cachePromise) return this.cachePromise;
 
-    this.cachePromise = this._loadCacheInternal();
+    this.cachePromise = this._loadCacheInternal().then(() => {
+      emitAppEvent('transactions:reset', { transactions: this.getCachedTransactions() });
+    });
     return this.cachePromise;
   }
 
@@ -236,6 +1176,14 @@ export class TransactionCache {
           return;
         }
 
+        // The profile may still be unlocked from earlier in this tab
+        const unlockedKey = TransactionStorage.getEncryptionKey();
+        if (unlockedKey) {
+          this.cachedTransactions = await TransactionStorage.loadTransactions(true, unlockedKey);
+          this.cacheLoaded = true;
+          return;
+        }
+
         // Try to derive the key and decrypt
         try {
           // Import wallet functions to avoid circular dependency
@@ -246,6 +1194,12 @@ export class TransactionCache {
           const key = await deriveKeyFromSignature(signature);
 
           console.log('TransactionCache: Successfully derived decryption key');
+
+          // Encrypted data can only be migrated once it is unlocked
+          await VaultStorage.unlock(key);
+          const { runMigrations } = await import('./migrations');
+          await runMigrations({ key });
+
           this.cachedTransactions = await TransactionStorage.loadTransactions(true, key);
 
           // Set the encryption key for future operations
@@ -279,7 +1233,6 @@ export class TransactionCache {
     this.cachedTransactions = null;
     this.cacheLoaded = false;
     this.cachePromise = null;
-    TransactionStorage.clearEncryptionKey();
   }
 
   static async refreshCache(): Promise<void> {
@@ -287,18 +1240,97 @@ export class TransactionCache {
     await this.loadCache();
   }
 
+  /**
+   * Replace the cached collection with data that is already in storage, e.g. after unlocking
+   */
+  static replaceCache(transactions: Transaction[]): void {
+    this.cachedTransactions = sortNewestFirst([...transactions]);
+    this.cacheLoaded = true;
+    emitAppEvent('transactions:reset', { transactions: this.cachedTransactions });
+  }
+
   static async addTransaction(transaction: Transaction): Promise<void> {
-    if (!this.cachedTransactions) {
-      await this.loadCache();
+    // Only the new record is written to storage
+    await TransactionStorage.putTransaction(transaction);
+    if (this.cachedTransactions) {
+      this.cachedTransactions = [transaction, ...this.cachedTransactions];
+    }
+    emitAppEvent('transactions:added', { transactions: [transaction] });
+  }
+
+  /**
+   * Save an edited transaction, appending a revision to its history.
+   * Returns the transaction as stored, including the updated history.
+   */
+  static async updateTransaction(transaction: Transaction): Promise<Transaction> {
+    const previous = this.cachedTransactions?.find(t => t.id === transaction.id)
+      || await TransactionStorage.loadTransaction(transaction.id);
+    const saved = previous
+      ? recordRevision(previous, transaction, SessionStorage.loadSession()?.address)
+      : transaction;
+
+    await TransactionStorage.putTransaction(saved);
+    if (this.cachedTransactions) {
+      this.cachedTransactions = this.cachedTransactions.map(t =>
+        t.id === saved.id ? saved : t
+      );
     }
+    emitAppEvent('transactions:updated', { transactions: [saved] });
+    return saved;
+  }
 
+  /**
+   * Move a transaction to the trash; its attachments stay until it is purged
+   */
+  static async deleteTransaction(id: string | number): Promise<void> {
+    const existing = this.cachedTransactions?.find(t => t.id === id)
+      || await TransactionStorage.loadTransaction(id);
+    if (existing) {
+      await TrashStorage.moveToTrash([existing]);
+    }
+    await TransactionStorage.deleteTransaction(id);
     if (this.cachedTransactions) {
-      this.cachedTransactions.push(transaction);
+      this.cachedTransactions = this.cachedTransactions.filter(t => t.id !== id);
+    }
+    emitAppEvent('transactions:deleted', { ids: [id] });
+  }
 
-      // Also save to storage
-      const isEncrypted = TransactionStorage.isEncrypted();
-      await TransactionStorage.saveTransactions(this.cachedTransactions, isEncrypted);
+  /**
+   * Bring transactions back from the trash as they were
+   */
+  static async restoreTransactions(transactions: Transaction[]): Promise<void> {
+    for (const transaction of transactions) {
+      await TransactionStorage.putTransaction(transaction);
+    }
+    await TrashStorage.removeFromTrash(transactions.map(t => t.id));
+    if (this.cachedTransactions) {
+      const restoredIds = new Set(transactions.map(t => t.id));
+      this.cachedTransactions = sortNewestFirst([
+        ...this.cachedTransactions.filter(t => !restoredIds.has(t.id)),
+        ...transactions,
+      ]);
     }
+    emitAppEvent('transactions:added', { transactions });
+  }
+
+  /**
+   * Move every stored transaction to the trash, used by "clear all data"
+   */
+  static async trashAllTransactions(): Promise<void> {
+    const encrypted = TransactionStorage.isEncrypted();
+    const key = TransactionStorage.getEncryptionKey();
+    if (encrypted && !key) {
+      throw new Error('Unlock your encrypted data before clearing it');
+    }
+
+    const transactions = await TransactionStorage.loadTransactions(encrypted, key || undefined);
+    await TrashStorage.moveToTrash(transactions);
+    // Keep the encrypted flag: the trash is sealed with the same key
+    await storageAdapter().clear('transactions');
+    if (this.cachedTransactions) {
+      this.cachedTransactions = [];
+    }
+    emitAppEvent('transactions:deleted', { ids: transactions.map(t => t.id) });
   }
 
   static async updateTransactions(transactions: Transaction[]): Promise<void> {
@@ -307,23 +1339,41 @@ export class TransactionCache {
     // Also save to storage
     const isEncrypted = TransactionStorage.isEncrypted();
     await TransactionStorage.saveTransactions(transactions, isEncrypted);
+    emitAppEvent('transactions:reset', { transactions: this.cachedTransactions });
   }
 }
 
+// A new session gets its own cache; the old one may hold another wallet's decrypted data
+onAppEvent('session:changed', ({ address }) => {
+  TransactionCache.clearCache();
+  if (address) {
+    // A profile used for the first time in a while may still be on an older schema
+    import('./migrations')
+      .then(({ runMigrations }) => runMigrations())
+      .then(() => TransactionCache.loadCache())
+      .catch(error => {
+        console.error('TransactionCache: Failed to reload after session change:', error);
+      });
+  }
+});
+
 /**
  * Storage service for encryption config
  */
 export class EncryptionStorage {
   static saveEncryptionAddress(address: string): void {
-    localStorage.setItem(STORAGE_KEYS.ENCRYPTION, address);
+    localStorage.setItem(scopedKey(STORAGE_KEYS.ENCRYPTION), address);
+    emitAppEvent('encryption:changed', { enabled: true, address });
   }
 
   static loadEncryptionAddress(): string | null {
-    return localStorage.getItem(STORAGE_KEYS.ENCRYPTION);
+    return localStorage.getItem(scopedKey(STORAGE_KEYS.ENCRYPTION));
   }
 
   static clearEncryptionAddress(): void {
-    localStorage.removeItem(STORAGE_KEYS.ENCRYPTION);
+    if (localStorage.getItem(scopedKey(STORAGE_KEYS.ENCRYPTION)) === null) return;
+    localStorage.removeItem(scopedKey(STORAGE_KEYS.ENCRYPTION));
+    emitAppEvent('encryption:changed', { enabled: false, address: null });
   }
 
   static getEncryptionConfig(): EncryptionConfig {
@@ -336,47 +1386,96 @@ export class EncryptionStorage {
   }
 }
 
+/**
+ * Storage service for the schema version record
+ */
+export class SchemaVersionStorage {
+  static loadVersion(): number | null {
+    try {
+      const raw = localStorage.getItem(scopedKey(STORAGE_KEYS.SCHEMA_VERSION));
+      if (!raw) return null;
+      const parsed = JSON.parse(raw);
+      return typeof parsed?.version === 'number' ? parsed.version : null;
+    } catch (error) {
+      console.error('Failed to load schema version:', error);
+      return null;
+    }
+  }
+
+  static saveVersion(version: number): void {
+    localStorage.setItem(
+      scopedKey(STORAGE_KEYS.SCHEMA_VERSION),
+      JSON.stringify({ version, updatedAt: new Date().toISOString() })
+    );
+  }
+
+  /**
+   * Whether anything has been persisted by an earlier version of the app
+   */
+  static async hasExistingData(): Promise<boolean> {
+    const hasKeys = [STORAGE_KEYS.TRANSACTIONS, STORAGE_KEYS.CLASSIFIER, STORAGE_KEYS.BUDGETS, STORAGE_KEYS.VAULT]
+      .some(key => localStorage.getItem(scopedKey(key)) !== null);
+    if (hasKeys) return true;
+
+    const records = await storageAdapter().getAll('transactions');
+    return records.length > 0;
+  }
+}
+
+/**
+ * Raw copy of everything the active profile persists, used to roll back failed migrations
+ */
+export interface StorageSnapshot {
+  keys: Record<string, string | null>;
+  transactionRecords: TransactionRecord[];
+}
+
+export async function captureStorageSnapshot(): Promise<StorageSnapshot> {
+  await VaultStorage.flush();
+  const keys: Record<string, string | null> = {};
+  Object.values(STORAGE_KEYS)
+    .filter(key => !GLOBAL_KEYS.includes(key))
+    .forEach(key => {
+      keys[key] = localStorage.getItem(scopedKey(key));
+    });
+
+  const transactionRecords = await storageAdapter().getAll<TransactionRecord>('transactions');
+  return { keys, transactionRecords };
+}
+
+export async function restoreStorageSnapshot(snapshot: StorageSnapshot): Promise<void> {
+  // A failed vault write is what is being rolled back here
+  await VaultStorage.flush().catch(() => undefined);
+  Object.entries(snapshot.keys).forEach(([key, value]) => {
+    if (value === null) {
+      localStorage.removeItem(scopedKey(key));
+    } else {
+      localStorage.setItem(scopedKey(key), value);
+    }
+  });
+
+  await storageAdapter().replaceAll('transactions', snapshot.transactionRecords);
+  await VaultStorage.reload();
+}
+
 /**
  * Export all data for backup
  */
-export async function exportAllData(encrypted = false, key?: CryptoKey): Promise<{
-  transactions: Transaction[];
-  classifier: Classifier | null;
-  budgets: Record<string, number>;
-  encrypted: boolean;
-}> {
+export async function exportAllData(encrypted = false, key?: CryptoKey): Promise<BackupContents & { encrypted: boolean }> {
   const transactions = await TransactionStorage.loadTransactions(encrypted, key);
-  const classifier = await ClassifierStorage.loadClassifier(encrypted, key);
+  const classifier = await ClassifierStorage.loadClassifier();
   const budgets = BudgetStorage.loadBudgets();
+  const accounts = AccountStorage.loadAccounts();
+  const categories = await CategoryStorage.loadCategories();
+  const savedViews = SavedViewStorage.loadViews();
 
   return {
     transactions,
     classifier,
     budgets,
+    accounts,
+    categories,
+    savedViews,
     encrypted,
   };
 }
-
-/**
- * Import data from backup
- */
-export async function importAllData(
-  data: {
-    transactions: Transaction[];
-    classifier?: Classifier | null;
-    budgets?: Record<string, number>;
-  },
-  encrypted = false,
-  key?: CryptoKey
-): Promise<void> {
-  await TransactionStorage.saveTransactions(data.transactions, encrypted);
-  
-  if (data.classifier) {
-    await ClassifierStorage.saveClassifier(data.classifier, encrypted, key);
-  }
-
-  if (data.budgets) {
-    BudgetStorage.saveBudgets(data.budgets);
-  }
-}
-
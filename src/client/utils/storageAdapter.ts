@@ -0,0 +1,326 @@
+/**
+ * Storage adapters for SafePay AI
+ * Record-level persistence backed by IndexedDB, with a localStorage fallback
+ */
+
+import { logger } from './logger';
+
+/**
+ * Object stores known to the adapters
+ */
+export const STORE_NAMES = ['transactions', 'attachments', 'trash'] as const;
+
+export type StoreName = typeof STORE_NAMES[number];
+
+export interface StoredRecord {
+  id: string;
+  [key: string]: any;
+}
+
+/**
+ * Common interface for record stores.
+ * Every write touches a single record, so the cost of an insert does not
+ * grow with the size of the collection.
+ */
+export interface StorageAdapter {
+  readonly kind: 'indexeddb' | 'localstorage';
+  getAll<T extends StoredRecord>(store: StoreName): Promise<T[]>;
+  get<T extends StoredRecord>(store: StoreName, id: string): Promise<T | null>;
+  put<T extends StoredRecord>(store: StoreName, record: T): Promise<void>;
+  putMany<T extends StoredRecord>(store: StoreName, records: T[]): Promise<void>;
+  /** Replace the whole store; either every record is written or none is */
+  replaceAll<T extends StoredRecord>(store: StoreName, records: T[]): Promise<void>;
+  delete(store: StoreName, id: string): Promise<void>;
+  clear(store: StoreName): Promise<void>;
+}
+
+const DB_NAME = 'safepay';
+const DB_VERSION = 3;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * IndexedDB adapter - one record per object store entry
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly kind = 'indexeddb' as const;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = DB_NAME) {}
+
+  /**
+   * Open the database once; rejects where IndexedDB exists but is unusable
+   */
+  open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORE_NAMES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  async getAll<T extends StoredRecord>(store: StoreName): Promise<T[]> {
+    const db = await this.open();
+    const tx = db.transaction(store, 'readonly');
+    return requestToPromise(tx.objectStore(store).getAll() as IDBRequest<T[]>);
+  }
+
+  async get<T extends StoredRecord>(store: StoreName, id: string): Promise<T | null> {
+    const db = await this.open();
+    const tx = db.transaction(store, 'readonly');
+    const result = await requestToPromise(tx.objectStore(store).get(id) as IDBRequest<T | undefined>);
+    return result ?? null;
+  }
+
+  async put<T extends StoredRecord>(store: StoreName, record: T): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put(record);
+    await transactionDone(tx);
+  }
+
+  async putMany<T extends StoredRecord>(store: StoreName, records: T[]): Promise<void> {
+    if (records.length === 0) return;
+    const db = await this.open();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    records.forEach(record => objectStore.put(record));
+    await transactionDone(tx);
+  }
+
+  async replaceAll<T extends StoredRecord>(store: StoreName, records: T[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    objectStore.clear();
+    records.forEach(record => objectStore.put(record));
+    await transactionDone(tx);
+  }
+
+  async delete(store: StoreName, id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete(id);
+    await transactionDone(tx);
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).clear();
+    await transactionDone(tx);
+  }
+}
+
+/**
+ * localStorage adapter - used in tests and browsers without IndexedDB.
+ * Each record lives under its own key so writes stay record-sized.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly kind = 'localstorage' as const;
+
+  constructor(private readonly prefix: string = 'safepay_rec_') {}
+
+  private storePrefix(store: StoreName): string {
+    return `${this.prefix}${store}:`;
+  }
+
+  private keysFor(store: StoreName): string[] {
+    const prefix = this.storePrefix(store);
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys.sort();
+  }
+
+  async getAll<T extends StoredRecord>(store: StoreName): Promise<T[]> {
+    const records: T[] = [];
+    this.keysFor(store).forEach(key => {
+      const raw = localStorage.getItem(key);
+      if (raw) {
+        records.push(JSON.parse(raw));
+      }
+    });
+    return records;
+  }
+
+  async get<T extends StoredRecord>(store: StoreName, id: string): Promise<T | null> {
+    const raw = localStorage.getItem(this.storePrefix(store) + id);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async put<T extends StoredRecord>(store: StoreName, record: T): Promise<void> {
+    localStorage.setItem(this.storePrefix(store) + record.id, JSON.stringify(record));
+  }
+
+  async putMany<T extends StoredRecord>(store: StoreName, records: T[]): Promise<void> {
+    records.forEach(record => {
+      localStorage.setItem(this.storePrefix(store) + record.id, JSON.stringify(record));
+    });
+  }
+
+  /**
+   * Writes the new records before removing stale ones, so a failed write
+   * (quota) leaves the previous records in place. A record written before
+   * the failure is rolled back to its earlier value.
+   */
+  async replaceAll<T extends StoredRecord>(store: StoreName, records: T[]): Promise<void> {
+    const prefix = this.storePrefix(store);
+    const previous = new Map(this.keysFor(store).map(key => [key, localStorage.getItem(key)] as const));
+    const written: string[] = [];
+    try {
+      records.forEach(record => {
+        const key = prefix + record.id;
+        localStorage.setItem(key, JSON.stringify(record));
+        written.push(key);
+      });
+    } catch (error) {
+      written.forEach(key => {
+        const value = previous.get(key);
+        if (value === undefined || value === null) {
+          localStorage.removeItem(key);
+        } else {
+          localStorage.setItem(key, value);
+        }
+      });
+      throw error;
+    }
+
+    const kept = new Set(written);
+    previous.forEach((_, key) => {
+      if (!kept.has(key)) localStorage.removeItem(key);
+    });
+  }
+
+  async delete(store: StoreName, id: string): Promise<void> {
+    localStorage.removeItem(this.storePrefix(store) + id);
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    this.keysFor(store).forEach(key => localStorage.removeItem(key));
+  }
+}
+
+/**
+ * IndexedDB, switching to localStorage when the database cannot be opened
+ * (private browsing, storage blocked by the user, quota errors)
+ */
+export class FallbackStorageAdapter implements StorageAdapter {
+  private active: StorageAdapter;
+  private ready: Promise<StorageAdapter> | null = null;
+
+  constructor(private readonly primary: IndexedDBAdapter, private readonly fallback: StorageAdapter) {
+    this.active = primary;
+  }
+
+  get kind(): StorageAdapter['kind'] {
+    return this.active.kind;
+  }
+
+  private resolve(): Promise<StorageAdapter> {
+    if (!this.ready) {
+      this.ready = this.primary.open().then(
+        () => this.primary,
+        error => {
+          logger.warn('Storage: IndexedDB is unavailable, using localStorage', error);
+          this.active = this.fallback;
+          return this.fallback;
+        }
+      );
+    }
+    return this.ready;
+  }
+
+  async getAll<T extends StoredRecord>(store: StoreName): Promise<T[]> {
+    return (await this.resolve()).getAll<T>(store);
+  }
+
+  async get<T extends StoredRecord>(store: StoreName, id: string): Promise<T | null> {
+    return (await this.resolve()).get<T>(store, id);
+  }
+
+  async put<T extends StoredRecord>(store: StoreName, record: T): Promise<void> {
+    return (await this.resolve()).put(store, record);
+  }
+
+  async putMany<T extends StoredRecord>(store: StoreName, records: T[]): Promise<void> {
+    return (await this.resolve()).putMany(store, records);
+  }
+
+  async replaceAll<T extends StoredRecord>(store: StoreName, records: T[]): Promise<void> {
+    return (await this.resolve()).replaceAll(store, records);
+  }
+
+  async delete(store: StoreName, id: string): Promise<void> {
+    return (await this.resolve()).delete(store, id);
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    return (await this.resolve()).clear(store);
+  }
+}
+
+const overrides: Record<string, StorageAdapter> = {};
+const adapters: Record<string, StorageAdapter> = {};
+
+/**
+ * Get the storage adapter for this browser and profile namespace.
+ * Prefers IndexedDB and falls back to localStorage when it is missing or
+ * fails to open. The empty namespace is the database used before profiles existed.
+ */
+export function getStorageAdapter(namespace = ''): StorageAdapter {
+  if (overrides[namespace]) return overrides[namespace];
+  if (!adapters[namespace]) {
+    const local = new LocalStorageAdapter(namespace ? `safepay_rec_${namespace}_` : 'safepay_rec_');
+    adapters[namespace] = typeof indexedDB !== 'undefined'
+      ? new FallbackStorageAdapter(new IndexedDBAdapter(namespace ? `${DB_NAME}_${namespace}` : DB_NAME), local)
+      : local;
+  }
+  return adapters[namespace];
+}
+
+/**
+ * Override the storage adapter of one profile namespace (tests, older browsers).
+ * Passing null goes back to the default adapter.
+ */
+export function setStorageAdapter(adapter: StorageAdapter | null, namespace = ''): void {
+  if (adapter) {
+    overrides[namespace] = adapter;
+  } else {
+    delete overrides[namespace];
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Tag utilities for SafePay AI
+ * Free-form labels that group transactions across categories
+ */
+
+import { CategoryStat, CurrencyContext, Transaction } from '../types';
+import { calculateCategoryStats, calculateSummary, filterByTag } from './analytics';
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+export interface TagReport {
+  tag: string;
+  transactionCount: number;
+  totalIncome: number;
+  totalExpenses: number;
+  netBalance: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  categories: CategoryStat[];
+}
+
+/**
+ * Canonical form of a tag: lowercase, no leading "#", dashes instead of spaces
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_\-]/g, '');
+}
+
+/**
+ * Parse tags typed as "#trip-lisbon, wedding" into a de-duplicated list
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[,\s]+/)
+    .map(normalizeTag)
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+export function formatTags(tags: string[] | undefined): string {
+  return (tags || []).map(t => `#${t}`).join(' ');
+}
+
+/**
+ * Every tag in use, most used first
+ */
+export function collectTags(transactions: Transaction[]): TagUsage[] {
+  const counts = new Map<string, number>();
+  transactions.forEach(t => {
+    (t.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Totals, date range and category breakdown for one tag
+ */
+export function buildTagReport(
+  transactions: Transaction[],
+  tag: string,
+  currency?: CurrencyContext
+): TagReport {
+  const tagged = filterByTag(transactions, tag);
+  const summary = calculateSummary(tagged, currency);
+  const times = tagged.map(t => new Date(t.timestamp).getTime()).filter(time => !isNaN(time));
+
+  return {
+    tag,
+    transactionCount: summary.transactionCount,
+    totalIncome: summary.totalIncome,
+    totalExpenses: summary.totalExpenses,
+    netBalance: summary.netBalance,
+    firstDate: times.length > 0 ? new Date(Math.min(...times)).toISOString() : null,
+    lastDate: times.length > 0 ? new Date(Math.max(...times)).toISOString() : null,
+    categories: calculateCategoryStats(tagged, currency),
+  };
+}
@@ -0,0 +1,337 @@
+/**
+ * Transaction query language for SafePay AI
+ * Parses expressions like `category:Food amount>20 after:2025-09-01 -note:refund`
+ * and compiles them into predicates over transactions
+ */
+
+import { Account, Transaction, TransactionType } from '../types';
+import { touchesAccount } from './accounts';
+import { toDateKey } from './recurrence';
+import { transactionCategories } from './splits';
+import { normalizeTag } from './tags';
+
+export type QueryField =
+  | 'category'
+  | 'type'
+  | 'tag'
+  | 'account'
+  | 'note'
+  | 'amount'
+  | 'anchored'
+  | 'date'
+  | 'after'
+  | 'before'
+  | 'sort';
+
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryClause {
+  /** "text" is a bare word, left to the full-text search */
+  field: QueryField | 'text';
+  operator: QueryOperator;
+  value: string;
+  negated: boolean;
+  /** Span of the clause in the query, so controls can rewrite it */
+  start: number;
+  end: number;
+}
+
+export interface QueryError {
+  message: string;
+  position: number;
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+  errors: QueryError[];
+}
+
+export interface QuerySort {
+  sortBy: 'date' | 'amount';
+  sortDir: 'desc' | 'asc';
+}
+
+/** Fields backed by a filter control on the history page */
+export type QueryFilterField = 'category' | 'type' | 'tag' | 'account' | 'after' | 'before' | 'sort';
+
+const FIELDS: QueryField[] = [
+  'category', 'type', 'tag', 'account', 'note', 'amount', 'anchored', 'date', 'after', 'before', 'sort',
+];
+const COMPARABLE: QueryField[] = ['amount', 'date'];
+const TYPES: TransactionType[] = ['income', 'expense', 'transfer'];
+
+const FIELD_PATTERN = /^([a-z]+)(>=|<=|:|=|>|<)/i;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+const SORT_PATTERN = /^(date|amount)(?:-(asc|desc))?$/;
+const RELATIVE_PERIODS = ['this-month', 'last-month', 'this-year', 'last-year'];
+const YES = ['yes', 'true'];
+const NO = ['no', 'false'];
+
+export const DEFAULT_SORT: QuerySort = { sortBy: 'date', sortDir: 'desc' };
+
+/**
+ * Reason a clause is invalid, or null
+ */
+function validateClause(clause: QueryClause): string | null {
+  const { field, operator, value } = clause;
+  if (field === 'text') return null;
+
+  if (!COMPARABLE.includes(field) && operator !== ':' && operator !== '=') {
+    return `${field} only supports ":" and "="`;
+  }
+  switch (field) {
+    case 'type':
+      return TYPES.includes(value.toLowerCase() as TransactionType)
+        ? null
+        : `Unknown type "${value}"; use income, expense or transfer`;
+    case 'amount':
+      return /^\d+(\.\d+)?$/.test(value) ? null : `Amount "${value}" is not a number`;
+    case 'anchored':
+      return YES.includes(value.toLowerCase()) || NO.includes(value.toLowerCase())
+        ? null
+        : `anchored takes yes or no, not "${value}"`;
+    case 'date': {
+      const period = MONTH_PATTERN.test(value) || RELATIVE_PERIODS.includes(value.toLowerCase());
+      return DAY_PATTERN.test(value) || (period && (operator === ':' || operator === '='))
+        ? null
+        : `Date "${value}" must be YYYY-MM-DD, YYYY-MM or ${RELATIVE_PERIODS.join(', ')}`;
+    }
+    case 'after':
+    case 'before':
+      return DAY_PATTERN.test(value) ? null : `Date "${value}" must be YYYY-MM-DD`;
+    case 'sort':
+      if (clause.negated) return 'sort cannot be negated';
+      return SORT_PATTERN.test(value.toLowerCase())
+        ? null
+        : `Unknown sort "${value}"; use date, amount, date-asc or amount-asc`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split a query into clauses; invalid clauses are reported and left out
+ */
+export function parseTransactionQuery(query: string): ParsedQuery {
+  const clauses: QueryClause[] = [];
+  const errors: QueryError[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    let field: QueryField | 'text' = 'text';
+    let operator: QueryOperator = ':';
+    const prefix = FIELD_PATTERN.exec(query.slice(i));
+    if (prefix) {
+      const name = prefix[1].toLowerCase() as QueryField;
+      if (!FIELDS.includes(name)) {
+        errors.push({ message: `Unknown field "${prefix[1]}"`, position: i });
+      }
+      field = name;
+      operator = prefix[2] as QueryOperator;
+      i += prefix[0].length;
+    }
+
+    let value: string;
+    if (query[i] === '"') {
+      const close = query.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ message: 'Missing closing quote', position: i });
+        value = query.slice(i + 1);
+        i = query.length;
+      } else {
+        value = query.slice(i + 1, close);
+        i = close + 1;
+      }
+    } else {
+      const valueStart = i;
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      value = query.slice(valueStart, i);
+    }
+
+    if (prefix && !FIELDS.includes(field as QueryField)) continue;
+
+    const clause: QueryClause = { field, operator, value: value.trim(), negated, start, end: i };
+    if (!clause.value) {
+      if (field !== 'text') {
+        errors.push({ message: `Missing value after ${query.slice(start, i).trim()}`, position: start });
+      }
+      continue;
+    }
+    const problem = validateClause(clause);
+    if (problem) {
+      errors.push({ message: problem, position: start });
+      continue;
+    }
+    clauses.push(clause);
+  }
+
+  return { clauses, errors };
+}
+
+function compare(actual: number | string, operator: QueryOperator, expected: number | string): boolean {
+  switch (operator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+}
+
+/**
+ * "this-month" and friends as a YYYY-MM or YYYY prefix, so saved queries stay current
+ */
+function periodPrefix(value: string, now: Date): string {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  switch (value) {
+    case 'this-month':
+      return toDateKey(new Date(year, month, 1)).slice(0, 7);
+    case 'last-month':
+      return toDateKey(new Date(year, month - 1, 1)).slice(0, 7);
+    case 'this-year':
+      return String(year);
+    case 'last-year':
+      return String(year - 1);
+    default:
+      return value;
+  }
+}
+
+function clausePredicate(clause: QueryClause, accounts: Account[], now: Date): (t: Transaction) => boolean {
+  const value = clause.value.toLowerCase();
+  const exact = clause.operator === '=';
+
+  switch (clause.field) {
+    case 'category':
+      // "Food" also matches its subcategories, e.g. "Food > Groceries"
+      return t => transactionCategories(t).some(c => {
+        const category = c.toLowerCase();
+        return category === value || (!exact && category.startsWith(`${value} > `));
+      });
+    case 'type':
+      return t => t.type === value;
+    case 'tag': {
+      const tag = normalizeTag(value);
+      return t => (t.tags || []).includes(tag);
+    }
+    case 'account': {
+      const ids = accounts
+        .filter(a => a.id === clause.value || a.name.toLowerCase() === value)
+        .map(a => a.id);
+      return t => ids.some(id => touchesAccount(t, id));
+    }
+    case 'note':
+      return t => [t.note, ...(t.splits || []).map(s => s.note)].some(note => {
+        const text = (note || '').toLowerCase();
+        return exact ? text === value : text.includes(value);
+      });
+    case 'amount': {
+      const amount = Number(value);
+      return t => {
+        const actual = Math.abs(t.amount);
+        if (clause.operator === ':' || clause.operator === '=') {
+          return Math.abs(actual - amount) < 0.005;
+        }
+        return compare(actual, clause.operator, amount);
+      };
+    }
+    case 'anchored': {
+      const anchored = YES.includes(value);
+      return t => Boolean(t.proof?.txHash) === anchored;
+    }
+    case 'date': {
+      const prefix = periodPrefix(value, now);
+      return t => {
+        const day = toDateKey(new Date(t.timestamp));
+        return DAY_PATTERN.test(prefix) ? compare(day, clause.operator, prefix) : day.startsWith(prefix);
+      };
+    }
+    // after and before include the given day, like the date pickers
+    case 'after':
+      return t => toDateKey(new Date(t.timestamp)) >= value;
+    case 'before':
+      return t => toDateKey(new Date(t.timestamp)) <= value;
+    default:
+      return () => true;
+  }
+}
+
+/**
+ * Predicate matching every filter clause; text and sort clauses are not filters
+ */
+export function compileQuery(
+  clauses: QueryClause[],
+  accounts: Account[] = [],
+  now: Date = new Date()
+): (t: Transaction) => boolean {
+  const predicates = clauses
+    .filter(c => c.field !== 'text' && c.field !== 'sort')
+    .map(c => {
+      const predicate = clausePredicate(c, accounts, now);
+      return c.negated ? (t: Transaction) => !predicate(t) : predicate;
+    });
+  return t => predicates.every(predicate => predicate(t));
+}
+
+/**
+ * Bare words to look up in the search index, split by negation
+ */
+export function queryText(parsed: ParsedQuery): { include: string; exclude: string[] } {
+  const text = parsed.clauses.filter(c => c.field === 'text');
+  return {
+    include: text.filter(c => !c.negated).map(c => c.value).join(' '),
+    exclude: text.filter(c => c.negated).map(c => c.value),
+  };
+}
+
+export function querySort(parsed: ParsedQuery): QuerySort {
+  const clause = parsed.clauses.filter(c => c.field === 'sort').pop();
+  if (!clause) return DEFAULT_SORT;
+  const [sortBy, sortDir] = clause.value.toLowerCase().split('-');
+  return { sortBy: sortBy as QuerySort['sortBy'], sortDir: (sortDir || 'desc') as QuerySort['sortDir'] };
+}
+
+function isControlClause(clause: QueryClause, field: QueryFilterField): boolean {
+  return clause.field === field && !clause.negated && (clause.operator === ':' || clause.operator === '=');
+}
+
+/**
+ * Value shown by a filter control, or null when the query leaves it open
+ */
+export function queryFilterValue(parsed: ParsedQuery, field: QueryFilterField): string | null {
+  const clause = parsed.clauses.find(c => isControlClause(c, field));
+  return clause ? clause.value : null;
+}
+
+function formatValue(value: string): string {
+  const clean = value.replace(/"/g, '');
+  return /\s/.test(clean) ? `"${clean}"` : clean;
+}
+
+/**
+ * Rewrite the query after a filter control changes; null removes the filter
+ */
+export function setQueryFilter(query: string, field: QueryFilterField, value: string | null): string {
+  const spans = parseTransactionQuery(query).clauses.filter(c => isControlClause(c, field));
+  let result = query;
+  for (let i = spans.length - 1; i >= 0; i--) {
+    const head = result.slice(0, spans[i].start).replace(/\s+$/, '');
+    const tail = result.slice(spans[i].end).replace(/^\s+/, '');
+    result = head && tail ? `${head} ${tail}` : head + tail;
+  }
+  result = result.trim();
+  if (value === null) return result;
+  const clause = `${field}:${formatValue(value)}`;
+  return result ? `${result} ${clause}` : clause;
+}
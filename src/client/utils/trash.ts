@@ -0,0 +1,30 @@
+/**
+ * Trash utilities for SafePay AI
+ * Retention arithmetic for soft-deleted transactions
+ */
+
+import { TrashedTransaction } from '../types';
+
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function purgeDate(deletedAt: string, retentionDays: number): Date {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Whole days left before an item is purged; 0 once it is due
+ */
+export function daysUntilPurge(deletedAt: string, retentionDays: number, now: Date = new Date()): number {
+  const remaining = purgeDate(deletedAt, retentionDays).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(remaining / DAY_MS));
+}
+
+export function expiredTrash(
+  items: TrashedTransaction[],
+  retentionDays: number,
+  now: Date = new Date()
+): TrashedTransaction[] {
+  return items.filter(item => purgeDate(item.deletedAt, retentionDays).getTime() <= now.getTime());
+}
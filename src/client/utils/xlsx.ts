@@ -0,0 +1,251 @@
+/**
+ * Minimal XLSX writer for SafePay AI
+ * Typed columns (numbers, money, percentages, dates) over several sheets, packed on
+ * the client as an Office Open XML workbook that Excel, LibreOffice and Sheets open
+ */
+
+import { createZip } from './zip';
+
+export type XlsxType = 'text' | 'integer' | 'money' | 'percent' | 'date' | 'datetime' | 'month' | 'boolean';
+
+export type XlsxValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxColumn {
+  header: string;
+  type: XlsxType;
+  /** In characters; defaults by type */
+  width?: number;
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxValue[][];
+  /** Bold rows below the data, such as totals; left out of the filter range */
+  footer?: XlsxValue[][];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/** Number format and default width of each column type; xf indexes follow this order */
+const TYPE_FORMATS: Record<XlsxType, { numFmtId: number; width: number }> = {
+  text: { numFmtId: 0, width: 24 },
+  integer: { numFmtId: 1, width: 10 },
+  money: { numFmtId: 164, width: 14 },
+  percent: { numFmtId: 165, width: 10 },
+  date: { numFmtId: 166, width: 12 },
+  datetime: { numFmtId: 167, width: 17 },
+  month: { numFmtId: 168, width: 10 },
+  boolean: { numFmtId: 0, width: 8 },
+};
+
+const CUSTOM_FORMATS: Array<[number, string]> = [
+  [164, '#,##0.00'],
+  [165, '0.0%'],
+  [166, 'yyyy-mm-dd'],
+  [167, 'yyyy-mm-dd hh:mm'],
+  [168, 'mmm yyyy'],
+];
+
+const TYPES = Object.keys(TYPE_FORMATS) as XlsxType[];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MAX_CELL_TEXT = 32767;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Spreadsheet serial number of a date, keeping its local wall-clock time
+ */
+export function excelDate(date: Date): number {
+  const local = date.getTime() - date.getTimezoneOffset() * 60 * 1000;
+  return (local - EXCEL_EPOCH) / DAY_MS;
+}
+
+/**
+ * Column letters for a zero-based index: 0 is A, 26 is AA
+ */
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * A sheet name Excel accepts: no []:*?/\ and at most 31 characters
+ */
+export function sheetName(name: string): string {
+  const cleaned = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31);
+  return cleaned || 'Sheet';
+}
+
+function styleIndex(type: XlsxType, bold: boolean): number {
+  return 1 + TYPES.indexOf(type) * 2 + (bold ? 1 : 0);
+}
+
+function cellXml(ref: string, value: XlsxValue, type: XlsxType, bold: boolean): string {
+  if (value === null || value === undefined || value === '') return '';
+  const style = styleIndex(type, bold);
+
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" s="${style}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (type === 'date' || type === 'datetime' || type === 'month') {
+    const date = typeof value === 'string' ? new Date(value) : value;
+    if (date instanceof Date && !isNaN(date.getTime())) {
+      const serial = excelDate(date);
+      return `<c r="${ref}" s="${style}"><v>${type === 'datetime' ? serial : Math.floor(serial)}</v></c>`;
+    }
+  }
+  if (typeof value === 'number' && type !== 'text') {
+    return Number.isFinite(value) ? `<c r="${ref}" s="${style}"><v>${value}</v></c>` : '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text.slice(0, MAX_CELL_TEXT))}</t></is></c>`;
+}
+
+function rowXml(index: number, values: XlsxValue[], columns: XlsxColumn[], bold: boolean): string {
+  const cells = columns
+    .map((column, i) => cellXml(`${columnName(i)}${index}`, values[i], column.type, bold))
+    .join('');
+  return `<row r="${index}">${cells}</row>`;
+}
+
+function worksheetXml(sheet: XlsxSheet): string {
+  const { columns } = sheet;
+  const header = `<row r="1">${columns
+    .map((column, i) => cellXml(`${columnName(i)}1`, column.header, 'text', true))
+    .join('')}</row>`;
+  const rows = sheet.rows.map((row, i) => rowXml(i + 2, row, columns, false));
+  const footer = (sheet.footer || []).map((row, i) => rowXml(sheet.rows.length + 3 + i, row, columns, true));
+  const cols = columns.map((column, i) => {
+    const width = column.width || Math.max(TYPE_FORMATS[column.type].width, column.header.length + 2);
+    return `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`;
+  });
+
+  return XML_HEADER
+    + `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">`
+    + '<sheetViews><sheetView workbookViewId="0">'
+    + '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'
+    + '</sheetView></sheetViews>'
+    + `<cols>${cols.join('')}</cols>`
+    + `<sheetData>${header}${rows.join('')}${footer.join('')}</sheetData>`
+    + `<autoFilter ref="${filterRange(sheet)}"/>`
+    + '</worksheet>';
+}
+
+function filterRange(sheet: XlsxSheet): string {
+  return `A1:${columnName(sheet.columns.length - 1)}${sheet.rows.length + 1}`;
+}
+
+function stylesXml(): string {
+  const formats = CUSTOM_FORMATS
+    .map(([id, code]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`)
+    .join('');
+  const xfs = TYPES.flatMap(type => [false, true].map(bold =>
+    `<xf numFmtId="${TYPE_FORMATS[type].numFmtId}" fontId="${bold ? 1 : 0}" fillId="0" borderId="0" xfId="0"`
+    + ' applyNumberFormat="1" applyFont="1"/>'
+  ));
+
+  return XML_HEADER
+    + `<styleSheet xmlns="${MAIN_NS}">`
+    + `<numFmts count="${CUSTOM_FORMATS.length}">${formats}</numFmts>`
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>'
+    + '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + `<cellXfs count="${xfs.length + 1}"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>${xfs.join('')}</cellXfs>`
+    + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+    + '</styleSheet>';
+}
+
+/**
+ * Build an .xlsx file from sheets; each gets a bold, frozen, filterable header row
+ */
+export function createWorkbook(
+  sheets: XlsxSheet[],
+  options: { title?: string; now?: Date } = {}
+): Uint8Array<ArrayBuffer> {
+  if (sheets.length === 0) {
+    throw new Error('A workbook needs at least one sheet');
+  }
+  const now = options.now || new Date();
+  const names: string[] = [];
+  sheets.forEach(sheet => {
+    let name = sheetName(sheet.name);
+    for (let n = 2; names.some(existing => existing.toLowerCase() === name.toLowerCase()); n++) {
+      name = `${sheetName(sheet.name).slice(0, 28)} (${n})`;
+    }
+    names.push(name);
+  });
+
+  const quotedName = (name: string) => `'${name.replace(/'/g, "''")}'`;
+  const absolute = (range: string) => range.replace(/([A-Z]+)(\d+)/g, '$$$1$$$2');
+  const workbook = XML_HEADER
+    + `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>`
+    + names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+    + '</sheets><definedNames>'
+    + sheets.map((sheet, i) =>
+      `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">`
+      + `${escapeXml(quotedName(names[i]))}!${absolute(filterRange(sheet))}</definedName>`).join('')
+    + '</definedNames></workbook>';
+
+  const workbookRels = XML_HEADER
+    + `<Relationships xmlns="${PACKAGE_REL_NS}">`
+    + sheets.map((_, i) =>
+      `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+    + `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>`
+    + '</Relationships>';
+
+  const contentTypes = XML_HEADER
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" `
+      + 'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>').join('')
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '</Types>';
+
+  const rootRels = XML_HEADER
+    + `<Relationships xmlns="${PACKAGE_REL_NS}">`
+    + `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>`
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+    + '</Relationships>';
+
+  const created = now.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const core = XML_HEADER
+    + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"'
+    + ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/"'
+    + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + `<dc:title>${escapeXml(options.title || '')}</dc:title><dc:creator>SafePay AI</dc:creator>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>`
+    + '</cp:coreProperties>';
+
+  return createZip([
+    { name: '[Content_Types].xml', content: contentTypes },
+    { name: '_rels/.rels', content: rootRels },
+    { name: 'docProps/core.xml', content: core },
+    { name: 'xl/workbook.xml', content: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', content: workbookRels },
+    { name: 'xl/styles.xml', content: stylesXml() },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: worksheetXml(sheet) })),
+  ], now);
+}